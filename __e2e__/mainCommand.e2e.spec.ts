@@ -2,62 +2,163 @@ import fs from 'node:fs';
 import os from 'node:os';
 import path from 'node:path';
 import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
-import { mainCommand } from '@/cli/command';
+import { executeProjectCreationWorkflow, mainCommand } from '@/cli/command';
+import { Err, Ok } from '@/types/result';
+import {
+  createCancelledError,
+  createDirectoryExistsError,
+  createDownloadFailedError,
+  createInstallFailedError,
+} from '@/utils/errors';
 
 // Hoisted mocks for better test isolation
 const {
-  getProjectDirectory,
+  resolveProjectDirectory,
   resolvePath,
-  verifyDirectoryDoesNotExist,
-  selectTemplate,
-  downloadTemplateAndHandleErrors,
-  selectPackageManager,
-  confirmDependenciesInstallation,
-  installDependenciesIfRequested,
-  initializeGitIfRequested,
+  resolveExistingDirectoryStrategy,
+  prepareExistingDirectory,
+  createStagingDirectory,
+  mergeTemplate,
+  beginProjectTransaction,
+  transaction,
+  resolvePackageName,
+  updateProjectPackageJson,
+  alignProjectWithPackageManager,
+  resolveTemplateSelection,
+  downloadTemplateWithResult,
+  resolvePackageManager,
+  resolveDependenciesInstallation,
+  installProjectDependencies,
+  initializeGit,
+  validateGitOptions,
+  resolveNonInteractiveMode,
+  loadCliConfig,
+  applyTemplateManifest,
+  runTemplateHooks,
+  resolveGitInitialization,
+  planTemplate,
+  planFileChanges,
+  writeScaffoldMetadata,
   consola,
 } = vi.hoisted(() => ({
-  getProjectDirectory: vi.fn(),
+  resolveProjectDirectory: vi.fn(),
   resolvePath: vi.fn(),
-  verifyDirectoryDoesNotExist: vi.fn(),
-  selectTemplate: vi.fn(),
-  downloadTemplateAndHandleErrors: vi.fn(),
-  selectPackageManager: vi.fn(),
-  confirmDependenciesInstallation: vi.fn(),
-  installDependenciesIfRequested: vi.fn(),
-  initializeGitIfRequested: vi.fn(),
+  resolveExistingDirectoryStrategy: vi.fn(),
+  prepareExistingDirectory: vi.fn(),
+  createStagingDirectory: vi.fn(),
+  mergeTemplate: vi.fn(),
+  beginProjectTransaction: vi.fn(),
+  transaction: {
+    recordBackup: vi.fn(),
+    recordWrittenFiles: vi.fn(),
+    commit: vi.fn(),
+    rollback: vi.fn(),
+  },
+  resolvePackageName: vi.fn(),
+  updateProjectPackageJson: vi.fn(),
+  alignProjectWithPackageManager: vi.fn(),
+  resolveTemplateSelection: vi.fn(),
+  downloadTemplateWithResult: vi.fn(),
+  resolvePackageManager: vi.fn(),
+  resolveDependenciesInstallation: vi.fn(),
+  installProjectDependencies: vi.fn(),
+  initializeGit: vi.fn(),
+  validateGitOptions: vi.fn(),
+  resolveNonInteractiveMode: vi.fn(),
+  loadCliConfig: vi.fn(),
+  applyTemplateManifest: vi.fn(),
+  runTemplateHooks: vi.fn(),
+  resolveGitInitialization: vi.fn(),
+  planTemplate: vi.fn(),
+  planFileChanges: vi.fn(),
+  writeScaffoldMetadata: vi.fn(),
   consola: {
     info: vi.fn(),
     log: vi.fn(),
     error: vi.fn(),
     warn: vi.fn(),
     success: vi.fn(),
+    setReporters: vi.fn(),
   },
 }));
 
 // Module mocks with clear separation of concerns
-vi.mock('@/utils/common', () => ({
+vi.mock('@/utils/common', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/common')>()),
   resolvePath,
-  verifyDirectoryDoesNotExist,
+}));
+
+vi.mock('@/utils/directory', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/directory')>()),
+  resolveExistingDirectoryStrategy,
+  prepareExistingDirectory,
+  createStagingDirectory,
+  mergeTemplate,
+}));
+
+vi.mock('@/utils/rollback', () => ({
+  beginProjectTransaction,
+}));
+
+vi.mock('@/utils/package-json', () => ({
+  resolvePackageName,
+  updateProjectPackageJson,
+}));
+
+vi.mock('@/utils/package-manager-files', () => ({
+  alignProjectWithPackageManager,
 }));
 
 vi.mock('@/cli/prompts', () => ({
-  getProjectDirectory,
+  resolveProjectDirectory,
 }));
 
-vi.mock('@/utils/template', () => ({
-  selectTemplate,
-  downloadTemplateAndHandleErrors,
+vi.mock('@/utils/template', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/template')>()),
+  resolveTemplateSelection,
+  downloadTemplateWithResult,
 }));
 
 vi.mock('@/utils/package-manager', () => ({
-  selectPackageManager,
-  confirmDependenciesInstallation,
-  installDependenciesIfRequested,
+  resolvePackageManager,
+  resolveDependenciesInstallation,
+  installProjectDependencies,
+}));
+
+vi.mock('@/utils/template-manifest', () => ({
+  applyTemplateManifest,
+}));
+
+vi.mock('@/utils/template-hooks', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/template-hooks')>()),
+  runTemplateHooks,
+}));
+
+vi.mock('@/utils/git', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/git')>()),
+  initializeGit,
+  resolveGitInitialization,
+  validateGitOptions,
+}));
+
+vi.mock('@/utils/plan', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/plan')>()),
+  planTemplate,
+  planFileChanges,
+}));
+
+vi.mock('@/utils/scaffold', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/scaffold')>()),
+  writeScaffoldMetadata,
+}));
+
+vi.mock('@/utils/interactive', () => ({
+  resolveNonInteractiveMode,
 }));
 
-vi.mock('@/utils/git', () => ({
-  initializeGitIfRequested,
+vi.mock('@/utils/config', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/config')>()),
+  loadCliConfig,
 }));
 
 vi.mock('consola', () => ({ default: consola }));
@@ -71,6 +172,8 @@ const TEST_CONSTANTS = {
     INVALID: 'non-existent-template',
   },
   PACKAGE_MANAGERS: ['npm', 'yarn', 'pnpm', 'bun'] as const,
+  REGISTRY: { url: 'https://registry.example.com/templates' },
+  REGISTRIES: { internal: { url: 'https://internal.example.com/templates', tokenEnv: 'INTERNAL_TOKEN' } },
   MESSAGES: {
     HELLO: '🎉 Hello xeikit app!',
     PROJECT_CREATED: '🎉 Starter project has been created',
@@ -86,7 +189,26 @@ type TestArgs = {
   template: string;
   install: boolean;
   gitInit: boolean;
+  gitCommit: boolean;
+  gitCommitMessage: string;
+  gitBranch: string;
+  gitAuthor: string;
   packageManager: string;
+  yes: boolean;
+  registry: string;
+  offline: boolean;
+  preferOffline: boolean;
+  force: boolean;
+  merge: boolean;
+  keepOnFailure: boolean;
+  name: string;
+  var: string;
+  features: string;
+  hooks: boolean;
+  dryRun: boolean;
+  json: boolean;
+  preset: string;
+  templateRef: string;
 };
 
 describe('mainCommand E2E Tests', () => {
@@ -102,10 +224,38 @@ describe('mainCommand E2E Tests', () => {
     template: TEST_CONSTANTS.TEMPLATES.DEFAULT,
     install: true,
     gitInit: true,
+    gitCommit: false,
+    gitCommitMessage: '',
+    gitBranch: '',
+    gitAuthor: '',
     packageManager: 'npm',
+    yes: false,
+    registry: '',
+    offline: false,
+    preferOffline: false,
+    force: false,
+    merge: false,
+    keepOnFailure: false,
+    name: '',
+    var: '',
+    features: '',
+    hooks: true,
+    dryRun: false,
+    json: false,
+    preset: '',
+    templateRef: '',
     ...overrides,
   });
 
+  const offlineOptions = { offline: false, preferOffline: false };
+  const gitOptions = { commit: false, commitMessage: '', branch: '', author: '' };
+  const createTemplateRegistryOptions = () => ({
+    registry: '',
+    registries: TEST_CONSTANTS.REGISTRIES,
+    cwd: tempDir,
+    ...offlineOptions,
+  });
+
   const runMainCommand = async (args: TestArgs) => {
     return mainCommand.run?.({
       args,
@@ -119,18 +269,38 @@ describe('mainCommand E2E Tests', () => {
     template: string = TEST_CONSTANTS.TEMPLATES.DEFAULT,
     packageManager = 'npm',
   ) => {
-    getProjectDirectory.mockResolvedValue(projectName);
+    resolveProjectDirectory.mockResolvedValue(Ok(projectName));
     resolvePath.mockImplementation((cwd: string, relPath: string) => path.join(cwd, relPath));
-    verifyDirectoryDoesNotExist.mockImplementation(() => undefined);
-    selectTemplate.mockResolvedValue(template);
-    downloadTemplateAndHandleErrors.mockResolvedValue({
-      dir: createProjectPath(projectName),
-      source: `github:xeikit/${template}-template`,
-    });
-    selectPackageManager.mockResolvedValue(packageManager);
-    confirmDependenciesInstallation.mockResolvedValue(true);
-    installDependenciesIfRequested.mockResolvedValue(undefined);
-    initializeGitIfRequested.mockResolvedValue(undefined);
+    resolveExistingDirectoryStrategy.mockResolvedValue(Ok(undefined));
+    prepareExistingDirectory.mockResolvedValue(Ok(undefined));
+    createStagingDirectory.mockResolvedValue(path.join(tempDir, 'staging'));
+    mergeTemplate.mockResolvedValue(Ok({ written: [], conflicts: [] }));
+    beginProjectTransaction.mockReturnValue(transaction);
+    resolvePackageName.mockResolvedValue(Ok(projectName));
+    updateProjectPackageJson.mockResolvedValue(Ok(true));
+    alignProjectWithPackageManager.mockResolvedValue(Ok([]));
+    validateGitOptions.mockImplementation((options: unknown) => Ok(options));
+    resolveTemplateSelection.mockResolvedValue(Ok({ name: template, registry: TEST_CONSTANTS.REGISTRY }));
+    downloadTemplateWithResult.mockResolvedValue(
+      Ok({
+        dir: createProjectPath(projectName),
+        source: template,
+      }),
+    );
+    resolvePackageManager.mockResolvedValue(Ok(packageManager));
+    resolveDependenciesInstallation.mockResolvedValue(Ok(true));
+    installProjectDependencies.mockResolvedValue(Ok(true));
+    initializeGit.mockResolvedValue(Ok(true));
+    resolveNonInteractiveMode.mockImplementation((yes?: boolean) => yes === true);
+    applyTemplateManifest.mockResolvedValue(Ok({ features: [], variables: {}, hooks: {} }));
+    runTemplateHooks.mockResolvedValue(Ok([]));
+    resolveGitInitialization.mockResolvedValue(Ok(true));
+    planTemplate.mockImplementation(async ({ name, registry }: { name: string; registry: { url: string } }) =>
+      Ok({ template: { name, source: `${registry.url}/${name}.json`, registry: registry.url, cached: false } }),
+    );
+    planFileChanges.mockResolvedValue([{ path: 'package.json', action: 'update' }]);
+    writeScaffoldMetadata.mockResolvedValue(Ok(undefined));
+    loadCliConfig.mockResolvedValue(Ok({ registries: TEST_CONSTANTS.REGISTRIES }));
   };
 
   beforeEach(async () => {
@@ -161,20 +331,32 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert - verify workflow execution order
-      expect(getProjectDirectory).toHaveBeenCalledWith('');
-      expect(selectTemplate).toHaveBeenCalledWith(TEST_CONSTANTS.TEMPLATES.DEFAULT);
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalledWith(
+      expect(resolveProjectDirectory).toHaveBeenCalledWith('', false);
+      expect(resolveTemplateSelection).toHaveBeenCalledWith(
+        TEST_CONSTANTS.TEMPLATES.DEFAULT,
+        false,
+        createTemplateRegistryOptions(),
+      );
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
         TEST_CONSTANTS.TEMPLATES.DEFAULT,
         createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
       );
-      expect(selectPackageManager).toHaveBeenCalledWith('npm');
-      expect(confirmDependenciesInstallation).toHaveBeenCalledWith(true);
-      expect(installDependenciesIfRequested).toHaveBeenCalledWith(
+      expect(resolvePackageManager).toHaveBeenCalledWith('npm', false);
+      expect(resolveDependenciesInstallation).toHaveBeenCalledWith(true, false);
+      expect(installProjectDependencies).toHaveBeenCalledWith(
         true,
         createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
         'npm',
+        false,
+      );
+      expect(initializeGit).toHaveBeenCalledWith(
+        true,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        false,
+        gitOptions,
       );
-      expect(initializeGitIfRequested).toHaveBeenCalledWith(true, createProjectPath(TEST_CONSTANTS.PROJECT_NAME));
 
       // Assert - verify user messaging
       expect(consola.info).toHaveBeenCalledWith(expect.stringContaining(TEST_CONSTANTS.MESSAGES.HELLO));
@@ -198,11 +380,13 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert
-      expect(getProjectDirectory).toHaveBeenCalledWith(customProjectName);
-      expect(selectTemplate).toHaveBeenCalledWith(customTemplate);
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalledWith(
+      expect(resolveProjectDirectory).toHaveBeenCalledWith(customProjectName, false);
+      expect(resolveTemplateSelection).toHaveBeenCalledWith(customTemplate, false, createTemplateRegistryOptions());
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
         customTemplate,
         createProjectPath(customProjectName),
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
       );
     });
 
@@ -218,11 +402,12 @@ describe('mainCommand E2E Tests', () => {
         await runMainCommand(args);
 
         // Assert
-        expect(selectPackageManager).toHaveBeenCalledWith(packageManager);
-        expect(installDependenciesIfRequested).toHaveBeenCalledWith(
+        expect(resolvePackageManager).toHaveBeenCalledWith(packageManager, false);
+        expect(installProjectDependencies).toHaveBeenCalledWith(
           true,
           createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
           packageManager,
+          false,
         );
 
         // Verify final instructions include correct package manager
@@ -232,7 +417,8 @@ describe('mainCommand E2E Tests', () => {
 
     test('should handle installation opt-out correctly', async () => {
       // Arrange
-      confirmDependenciesInstallation.mockResolvedValue(false);
+      resolveDependenciesInstallation.mockResolvedValue(Ok(false));
+      installProjectDependencies.mockResolvedValue(Ok(false));
 
       const args = createTestArgs({ install: false });
 
@@ -240,11 +426,12 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert
-      expect(confirmDependenciesInstallation).toHaveBeenCalledWith(false);
-      expect(installDependenciesIfRequested).toHaveBeenCalledWith(
+      expect(resolveDependenciesInstallation).toHaveBeenCalledWith(false, false);
+      expect(installProjectDependencies).toHaveBeenCalledWith(
         false,
         createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
         'npm',
+        false,
       );
 
       // Should show install instruction when dependencies aren't installed
@@ -273,82 +460,892 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert
-      expect(initializeGitIfRequested).toHaveBeenCalledWith(false, createProjectPath(TEST_CONSTANTS.PROJECT_NAME));
+      expect(initializeGit).toHaveBeenCalledWith(
+        false,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        false,
+        gitOptions,
+      );
+    });
+  });
+
+  describe('Non-interactive Mode', () => {
+    test('should pass non-interactive mode to every selector with --yes', async () => {
+      // Arrange
+      const args = createTestArgs({ dir: TEST_CONSTANTS.PROJECT_NAME, yes: true });
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(resolveNonInteractiveMode).toHaveBeenCalledWith(true);
+      expect(resolveProjectDirectory).toHaveBeenCalledWith(TEST_CONSTANTS.PROJECT_NAME, true);
+      expect(resolveTemplateSelection).toHaveBeenCalledWith(
+        TEST_CONSTANTS.TEMPLATES.DEFAULT,
+        true,
+        createTemplateRegistryOptions(),
+      );
+      expect(resolvePackageManager).toHaveBeenCalledWith('npm', true);
+      expect(resolveDependenciesInstallation).toHaveBeenCalledWith(true, true);
+      expect(initializeGit).toHaveBeenCalledWith(
+        true,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        true,
+        gitOptions,
+      );
+    });
+
+    test('should pass non-interactive mode when detected from the environment', async () => {
+      // Arrange
+      resolveNonInteractiveMode.mockReturnValue(true);
+
+      const args = createTestArgs();
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(resolveNonInteractiveMode).toHaveBeenCalledWith(false);
+      expect(resolveProjectDirectory).toHaveBeenCalledWith('', true);
+    });
+  });
+
+  describe('Template Registries', () => {
+    test('should thread --registry and configured registries to template selection and download', async () => {
+      // Arrange
+      const internalRegistry = { name: 'internal', url: TEST_CONSTANTS.REGISTRIES.internal.url, auth: 'token' };
+      resolveTemplateSelection.mockResolvedValue(Ok({ name: 'my-starter', registry: internalRegistry }));
+
+      const args = createTestArgs({ template: 'internal:my-starter', registry: 'internal' });
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(loadCliConfig).toHaveBeenCalledWith(tempDir);
+      expect(resolveTemplateSelection).toHaveBeenCalledWith('internal:my-starter', false, {
+        registry: 'internal',
+        registries: TEST_CONSTANTS.REGISTRIES,
+        cwd: tempDir,
+        ...offlineOptions,
+      });
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        'my-starter',
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        internalRegistry,
+        offlineOptions,
+      );
+    });
+
+    test('should use the defaults of the configuration file for options that are not given', async () => {
+      // Arrange
+      loadCliConfig.mockResolvedValue(
+        Ok({
+          defaults: { template: 'nuxt4', packageManager: 'pnpm', install: false, gitInit: false, registry: 'internal' },
+          registries: TEST_CONSTANTS.REGISTRIES,
+        }),
+      );
+
+      // Act
+      await runMainCommand(createTestArgs({ template: '', packageManager: '', install: true, gitInit: undefined }));
+
+      // Assert
+      expect(resolveTemplateSelection).toHaveBeenCalledWith('nuxt4', false, {
+        registry: 'internal',
+        registries: TEST_CONSTANTS.REGISTRIES,
+        cwd: tempDir,
+        ...offlineOptions,
+      });
+      expect(resolvePackageManager).toHaveBeenCalledWith('pnpm', false);
+      expect(resolveDependenciesInstallation).toHaveBeenCalledWith(true, false);
+      expect(initializeGit).toHaveBeenCalledWith(false, expect.any(String), false, expect.any(Object));
+    });
+  });
+
+  describe('Template Sources', () => {
+    test('should download git-hosted templates without a registry and show their source', async () => {
+      // Arrange
+      const source = 'gitlab:acme/templates/web#v2';
+      resolveTemplateSelection.mockResolvedValue(Ok({ name: source, source }));
+      downloadTemplateWithResult.mockResolvedValue(
+        Ok({ dir: createProjectPath(TEST_CONSTANTS.PROJECT_NAME), source: 'acme/templates/web#v2' }),
+      );
+
+      // Act
+      await runMainCommand(createTestArgs({ template: source, registry: 'internal' }));
+
+      // Assert
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        source,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        undefined,
+        offlineOptions,
+      );
+      expect(consola.log).toHaveBeenCalledWith(expect.stringContaining(`\`${source}\` template`));
+    });
+
+    test('should copy local templates from their absolute path', async () => {
+      // Arrange
+      const templateDir = path.join(tempDir, 'my-template');
+      resolveTemplateSelection.mockResolvedValue(Ok({ name: './my-template', source: templateDir }));
+
+      // Act
+      await runMainCommand(createTestArgs({ template: './my-template' }));
+
+      // Assert
+      expect(resolveTemplateSelection).toHaveBeenCalledWith('./my-template', false, createTemplateRegistryOptions());
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        templateDir,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        undefined,
+        offlineOptions,
+      );
+    });
+  });
+
+  describe('Template Versions', () => {
+    test('should download the pinned ref and record the resolved commit in the project', async () => {
+      // Arrange
+      const source = 'gh:xeikit/starter-templates/packages/nuxt4';
+      const commit = '3f2c9a1b7d4e5f60718293a4b5c6d7e8f9012345';
+      resolveTemplateSelection.mockResolvedValue(
+        Ok({ name: 'nuxt4', registry: TEST_CONSTANTS.REGISTRY, source, ref: 'v2.1.0' }),
+      );
+      downloadTemplateWithResult.mockResolvedValue(
+        // giget returns the source without its provider prefix
+        Ok({
+          dir: createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+          source: `xeikit/starter-templates/packages/nuxt4#${commit}`,
+          commit,
+        }),
+      );
+
+      // Act
+      const result = await executeProjectCreationWorkflow(createTestArgs({ templateRef: 'v2.1.0', yes: true }));
+
+      // Assert
+      expect(resolveTemplateSelection).toHaveBeenCalledWith(TEST_CONSTANTS.TEMPLATES.DEFAULT, true, {
+        ...createTemplateRegistryOptions(),
+        ref: 'v2.1.0',
+      });
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        source,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.REGISTRY,
+        { ...offlineOptions, ref: 'v2.1.0' },
+      );
+      expect(writeScaffoldMetadata).toHaveBeenCalledWith(createProjectPath(TEST_CONSTANTS.PROJECT_NAME), {
+        cliVersion: expect.any(String),
+        createdAt: expect.any(String),
+        template: {
+          name: 'nuxt4',
+          source: `${source}#${commit}`,
+          registry: TEST_CONSTANTS.REGISTRY.url,
+          ref: 'v2.1.0',
+          commit,
+        },
+        features: [],
+        variables: {},
+      });
+      expect(writeScaffoldMetadata).toHaveBeenLastCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        expect.objectContaining({ template: expect.objectContaining({ commit }), packageManager: 'npm' }),
+      );
+      expect(result.success && result.data.template).toEqual({
+        name: 'nuxt4',
+        source: `${source}#${commit}`,
+        registry: TEST_CONSTANTS.REGISTRY.url,
+        ref: 'v2.1.0',
+        commit,
+      });
+    });
+
+    test('should fail the render step when the scaffold metadata cannot be written', async () => {
+      // Arrange
+      writeScaffoldMetadata.mockResolvedValue(Err(new Error('EACCES')));
+
+      // Act
+      const result = await executeProjectCreationWorkflow(createTestArgs({ yes: true }));
+
+      // Assert
+      expect(result.success === false && result.error).toMatchObject({ code: 'FAILED', step: 'render' });
+      expect(installProjectDependencies).not.toHaveBeenCalled();
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('Presets', () => {
+    test('should fill the options that are not given from --preset', async () => {
+      // Arrange
+      await fs.promises.writeFile(
+        path.join(tempDir, 'team.yaml'),
+        [
+          'template: nuxt4',
+          'packageManager: pnpm',
+          'features: [hono]',
+          'variables:',
+          '  license: ISC',
+          'git:',
+          '  init: false',
+        ].join('\n'),
+      );
+
+      // Act
+      await runMainCommand(
+        createTestArgs({
+          preset: './team.yaml',
+          template: '',
+          packageManager: 'bun',
+          features: undefined,
+          gitInit: undefined,
+          var: 'license=MIT',
+          yes: true,
+        }),
+      );
+
+      // Assert
+      expect(resolveTemplateSelection).toHaveBeenCalledWith('nuxt4', true, createTemplateRegistryOptions());
+      expect(resolvePackageManager).toHaveBeenCalledWith('bun', true);
+      expect(applyTemplateManifest).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        expect.objectContaining({ features: 'hono', variables: ['license=ISC', 'license=MIT'] }),
+      );
+      expect(initializeGit).toHaveBeenCalledWith(false, expect.any(String), true, expect.any(Object));
+    });
+
+    test('should exit with an invalid argument error listing the invalid fields of the preset', async () => {
+      // Arrange
+      await fs.promises.writeFile(path.join(tempDir, 'team.json'), JSON.stringify({ install: 'yes', color: 'blue' }));
+
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs({ preset: 'team.json' }))).rejects.toThrow(
+        'process.exit unexpectedly called with "2"',
+      );
+      expect(consola.error).toHaveBeenCalledWith(
+        'Invalid preset team.json:\n  - install: expected true or false\n  - color: unknown field',
+      );
+      expect(downloadTemplateWithResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Existing Directories', () => {
+    test('should download into a staging directory and merge with --merge', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('merge'));
+      const stagingDir = path.join(tempDir, 'staging');
+
+      const args = createTestArgs({ merge: true });
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(resolveExistingDirectoryStrategy).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        { force: false, merge: true },
+        false,
+      );
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        TEST_CONSTANTS.TEMPLATES.DEFAULT,
+        stagingDir,
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
+      );
+      expect(mergeTemplate).toHaveBeenCalledWith(stagingDir, createProjectPath(TEST_CONSTANTS.PROJECT_NAME));
+      expect(installProjectDependencies).toHaveBeenCalledWith(
+        true,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        'npm',
+        false,
+      );
+    });
+
+    test('should prepare the directory before downloading with --force', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('backup'));
+
+      const args = createTestArgs({ force: true });
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(prepareExistingDirectory).toHaveBeenCalledWith(createProjectPath(TEST_CONSTANTS.PROJECT_NAME), 'backup');
+      expect(createStagingDirectory).not.toHaveBeenCalled();
+      expect(mergeTemplate).not.toHaveBeenCalled();
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        TEST_CONSTANTS.TEMPLATES.DEFAULT,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
+      );
+    });
+  });
+
+  describe('Package Metadata', () => {
+    test('should derive the package name and write it after the download', async () => {
+      // Act
+      await runMainCommand(createTestArgs({ name: '@acme/web' }));
+
+      // Assert
+      expect(resolvePackageName).toHaveBeenCalledWith(
+        '@acme/web',
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        false,
+      );
+      expect(updateProjectPackageJson).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.PROJECT_NAME,
+      );
+    });
+
+    test('should leave a package.json kept while merging alone', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('merge'));
+      mergeTemplate.mockResolvedValue(Ok({ written: ['src/index.ts'], conflicts: ['package.json'] }));
+
+      // Act
+      await runMainCommand(createTestArgs({ merge: true }));
+
+      // Assert
+      expect(updateProjectPackageJson).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Template Manifest', () => {
+    test('should apply --features and --var before merging', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('merge'));
+      const stagingDir = path.join(tempDir, 'staging');
+
+      // Act
+      await runMainCommand(
+        createTestArgs({ merge: true, var: 'description=My shop', features: 'hono,docker', yes: true }),
+      );
+
+      // Assert
+      expect(applyTemplateManifest).toHaveBeenCalledWith(stagingDir, {
+        variables: 'description=My shop',
+        features: 'hono,docker',
+        builtInVariables: { projectName: TEST_CONSTANTS.PROJECT_NAME, year: new Date().getFullYear() },
+        nonInteractive: true,
+      });
+      expect(applyTemplateManifest.mock.invocationCallOrder[0]).toBeLessThan(
+        mergeTemplate.mock.invocationCallOrder[0] as number,
+      );
+    });
+
+    test('should reject a malformed --var before downloading the template', async () => {
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs({ var: 'description', yes: true }))).rejects.toThrow(
+        'process.exit unexpectedly called with "2"',
+      );
+      expect(consola.error).toHaveBeenCalledWith('Invalid --var "description": use --var key=value');
+      expect(resolveProjectDirectory).not.toHaveBeenCalled();
+      expect(downloadTemplateWithResult).not.toHaveBeenCalled();
+    });
+
+    test('should stop before merging when the manifest cannot be applied', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('merge'));
+      applyTemplateManifest.mockResolvedValue(Err(new Error('Template variable "description" is required')));
+      const stagingDir = path.join(tempDir, 'staging');
+      fs.mkdirSync(stagingDir);
+
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs({ merge: true }))).rejects.toThrow(
+        'process.exit unexpectedly called with "1"',
+      );
+      expect(consola.error).toHaveBeenCalledWith('Template variable "description" is required');
+      expect(mergeTemplate).not.toHaveBeenCalled();
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(fs.existsSync(stagingDir)).toBe(false);
+    });
+  });
+
+  describe('Template Hooks', () => {
+    const hooks = { postDownload: [{ run: 'cp .env.example .env' }], postInstall: [{ run: 'nuxi prepare' }] };
+
+    test('should run the template hooks after download, install and git init', async () => {
+      // Arrange
+      applyTemplateManifest.mockResolvedValue(Ok({ features: [], variables: {}, hooks }));
+      const projectPath = createProjectPath(TEST_CONSTANTS.PROJECT_NAME);
+
+      // Act
+      await runMainCommand(createTestArgs({ yes: true }));
+
+      // Assert
+      expect(runTemplateHooks.mock.calls.map(([stage]) => stage)).toEqual([
+        'postDownload',
+        'postInstall',
+        'postGitInit',
+      ]);
+      expect(runTemplateHooks).toHaveBeenCalledWith('postInstall', hooks, projectPath, {
+        enabled: true,
+        nonInteractive: true,
+      });
+      expect(runTemplateHooks.mock.invocationCallOrder[1]).toBeGreaterThan(
+        installProjectDependencies.mock.invocationCallOrder[0] as number,
+      );
+    });
+
+    test('should skip the post-install hooks when dependencies are not installed', async () => {
+      // Arrange
+      installProjectDependencies.mockResolvedValue(Ok(false));
+
+      // Act
+      await runMainCommand(createTestArgs({ install: false }));
+
+      // Assert
+      expect(runTemplateHooks.mock.calls.map(([stage]) => stage)).toEqual(['postDownload', 'postGitInit']);
+    });
+
+    test('should leave the hooks to the hook runner without prompts when --hooks is not given', async () => {
+      // Act
+      await runMainCommand(createTestArgs({ hooks: undefined, yes: true }));
+
+      // Assert
+      expect(runTemplateHooks).toHaveBeenCalledWith('postDownload', {}, expect.any(String), {
+        enabled: undefined,
+        nonInteractive: true,
+      });
+    });
+
+    test('should pass --no-hooks to the hook runner', async () => {
+      // Act
+      await runMainCommand(createTestArgs({ hooks: false }));
+
+      // Assert
+      expect(runTemplateHooks).toHaveBeenCalledWith('postDownload', {}, expect.any(String), {
+        enabled: false,
+        nonInteractive: false,
+      });
+    });
+
+    test('should report failed hooks without aborting', async () => {
+      // Arrange
+      runTemplateHooks.mockImplementation(async (stage: string) =>
+        Ok(stage === 'postInstall' ? [{ stage, run: 'nuxi prepare', status: 'failed', error: 'exit code 1' }] : []),
+      );
+
+      // Act
+      await runMainCommand(createTestArgs());
+
+      // Assert
+      expect(consola.warn).toHaveBeenCalledWith(
+        '1 template hook(s) failed, run them manually:\n  nuxi prepare (after install): exit code 1',
+      );
+      expect(consola.log).toHaveBeenCalledWith(expect.stringContaining(TEST_CONSTANTS.MESSAGES.PROJECT_CREATED));
+    });
+
+    test('should abort and roll back when a required hook fails', async () => {
+      // Arrange
+      runTemplateHooks.mockImplementation(async (stage: string) =>
+        stage === 'postInstall' ? Err(new Error('Required template hook "nuxi prepare" failed: exit code 1')) : Ok([]),
+      );
+
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs())).rejects.toThrow('process.exit unexpectedly called with "1"');
+      expect(consola.error).toHaveBeenCalledWith('Required template hook "nuxi prepare" failed: exit code 1');
+      expect(initializeGit).not.toHaveBeenCalled();
+      expect(transaction.rollback).toHaveBeenCalled();
+    });
+  });
+
+  describe('Dry Run', () => {
+    test('should print the plan without downloading or writing anything', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('backup'));
+      resolvePackageManager.mockResolvedValue(Ok('pnpm'));
+      const projectPath = createProjectPath(TEST_CONSTANTS.PROJECT_NAME);
+
+      // Act
+      await runMainCommand(
+        createTestArgs({ dryRun: true, packageManager: 'pnpm', gitCommit: true, gitBranch: 'main', yes: true }),
+      );
+
+      // Assert
+      expect(resolveTemplateSelection).toHaveBeenCalledWith(TEST_CONSTANTS.TEMPLATES.DEFAULT, true, {
+        registry: '',
+        registries: TEST_CONSTANTS.REGISTRIES,
+        cwd: tempDir,
+        offline: true,
+      });
+      expect(resolveGitInitialization).toHaveBeenCalledWith(true, projectPath, true);
+      expect(planFileChanges).toHaveBeenCalledWith(projectPath, 'backup', undefined);
+      const output = consola.log.mock.calls.map(([message]) => message).join('\n');
+      expect(output).toContain(`${TEST_CONSTANTS.REGISTRY.url}/${TEST_CONSTANTS.TEMPLATES.DEFAULT}.json`);
+      expect(output).toContain('pnpm install');
+      expect(output).toContain(`git init --initial-branch=main ${TEST_CONSTANTS.PROJECT_NAME}`);
+      expect(output).toContain(`${TEST_CONSTANTS.PROJECT_NAME}.backup-`);
+      for (const fn of [
+        beginProjectTransaction,
+        prepareExistingDirectory,
+        downloadTemplateWithResult,
+        applyTemplateManifest,
+        updateProjectPackageJson,
+        installProjectDependencies,
+        initializeGit,
+      ]) {
+        expect(fn).not.toHaveBeenCalled();
+      }
+    });
+
+    test('should exit with an error when an answer cannot be resolved', async () => {
+      // Arrange
+      resolveProjectDirectory.mockResolvedValue(Err(new Error('Missing required option dir.')));
+
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs({ dryRun: true }))).rejects.toThrow(
+        'process.exit unexpectedly called with "2"',
+      );
+      expect(consola.error).toHaveBeenCalledWith('Missing required option dir.');
+    });
+
+    test('should refuse a preset URL instead of fetching it', async () => {
+      // Arrange
+      const fetch = vi.spyOn(globalThis, 'fetch');
+
+      // Act & Assert
+      await expect(
+        runMainCommand(createTestArgs({ dryRun: true, preset: 'https://example.com/presets/team.json' })),
+      ).rejects.toThrow('process.exit unexpectedly called with "2"');
+      expect(consola.error).toHaveBeenCalledWith(expect.stringContaining('cannot be fetched without network access'));
+      expect(fetch).not.toHaveBeenCalled();
+      fetch.mockRestore();
+    });
+  });
+
+  describe('JSON Output', () => {
+    const readReport = (write: { mock: { calls: unknown[][] } }) =>
+      JSON.parse(write.mock.calls.map(([chunk]) => String(chunk)).join(''));
+
+    test('should print a single JSON document and hide the output of child processes', async () => {
+      // Arrange
+      const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+      // Act
+      await runMainCommand(createTestArgs({ json: true }));
+
+      // Assert
+      const report = readReport(write);
+      write.mockRestore();
+      expect(report).toEqual({
+        success: true,
+        exitCode: 0,
+        path: createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        packageName: TEST_CONSTANTS.PROJECT_NAME,
+        template: {
+          name: TEST_CONSTANTS.TEMPLATES.DEFAULT,
+          source: TEST_CONSTANTS.TEMPLATES.DEFAULT,
+          registry: TEST_CONSTANTS.REGISTRY.url,
+        },
+        packageManager: 'npm',
+        installed: true,
+        gitInitialized: true,
+        features: [],
+        templateHooks: [],
+        warnings: [],
+      });
+      expect(consola.setReporters).toHaveBeenCalled();
+      expect(resolveNonInteractiveMode).toHaveBeenCalledWith(true);
+      expect(installProjectDependencies).toHaveBeenCalledWith(
+        true,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        'npm',
+        true,
+      );
+      expect(initializeGit).toHaveBeenCalledWith(true, createProjectPath(TEST_CONSTANTS.PROJECT_NAME), true, {
+        ...gitOptions,
+        silent: true,
+      });
+      expect(consola.info).not.toHaveBeenCalledWith(expect.stringContaining(TEST_CONSTANTS.MESSAGES.HELLO));
+    });
+
+    test.each([
+      [
+        'the download fails',
+        () => downloadTemplateWithResult.mockResolvedValue(Err(createDownloadFailedError('default', new Error('404')))),
+        'DOWNLOAD_FAILED',
+        4,
+      ],
+      [
+        'the installation fails',
+        () => installProjectDependencies.mockResolvedValue(Err(createInstallFailedError('npm', new Error('ERR')))),
+        'INSTALL_FAILED',
+        5,
+      ],
+      [
+        'the user cancels',
+        () => resolveExistingDirectoryStrategy.mockResolvedValue(Err(createCancelledError())),
+        'CANCELLED',
+        130,
+      ],
+    ])('should report the error code and exit with its code when %s', async (_, arrange, code, exitCode) => {
+      // Arrange
+      arrange();
+      const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs({ json: true }))).rejects.toThrow(
+        `process.exit unexpectedly called with "${exitCode}"`,
+      );
+      const report = readReport(write);
+      write.mockRestore();
+      expect(report).toMatchObject({ success: false, exitCode, warnings: [], error: { code } });
+      expect(consola.error).not.toHaveBeenCalled();
+    });
+
+    test('should print the plan of a dry run', async () => {
+      // Arrange
+      const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+      // Act
+      await runMainCommand(createTestArgs({ json: true, dryRun: true }));
+
+      // Assert
+      const report = readReport(write);
+      write.mockRestore();
+      expect(report).toMatchObject({
+        success: true,
+        exitCode: 0,
+        plan: { packageName: TEST_CONSTANTS.PROJECT_NAME, install: { enabled: true, command: 'npm install' } },
+      });
+      expect(downloadTemplateWithResult).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Git Options', () => {
+    test('should validate git options before downloading and pass them to git init', async () => {
+      // Arrange
+      const args = createTestArgs({
+        gitCommit: true,
+        gitCommitMessage: 'chore: scaffold',
+        gitBranch: 'main',
+        gitAuthor: 'Jane Doe <jane@example.com>',
+      });
+      const expectedGitOptions = {
+        commit: true,
+        commitMessage: 'chore: scaffold',
+        branch: 'main',
+        author: 'Jane Doe <jane@example.com>',
+      };
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(validateGitOptions).toHaveBeenCalledWith(expectedGitOptions);
+      expect(validateGitOptions.mock.invocationCallOrder[0]).toBeLessThan(
+        downloadTemplateWithResult.mock.invocationCallOrder[0] as number,
+      );
+      expect(initializeGit).toHaveBeenCalledWith(
+        true,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        false,
+        expectedGitOptions,
+      );
+    });
+  });
+
+  describe('Package Manager Files', () => {
+    test('should align the project with the selected package manager before installing', async () => {
+      // Arrange
+      resolvePackageManager.mockResolvedValue(Ok('pnpm'));
+
+      // Act
+      await runMainCommand(createTestArgs({ packageManager: 'pnpm' }));
+
+      // Assert
+      expect(alignProjectWithPackageManager).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        'pnpm',
+        undefined,
+      );
+      expect(alignProjectWithPackageManager.mock.invocationCallOrder[0]).toBeLessThan(
+        installProjectDependencies.mock.invocationCallOrder[0] as number,
+      );
+    });
+
+    test('should only touch files written by the template while merging', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('merge'));
+      mergeTemplate.mockResolvedValue(Ok({ written: ['pnpm-lock.yaml'], conflicts: ['package.json'] }));
+
+      // Act
+      await runMainCommand(createTestArgs({ merge: true }));
+
+      // Assert
+      expect(alignProjectWithPackageManager).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        'npm',
+        ['pnpm-lock.yaml'],
+      );
+    });
+  });
+
+  describe('Rollback', () => {
+    test('should commit the transaction after a successful workflow', async () => {
+      // Act
+      await runMainCommand(createTestArgs());
+
+      // Assert
+      expect(beginProjectTransaction).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        false,
+        undefined,
+      );
+      expect(transaction.commit).toHaveBeenCalled();
+      expect(transaction.rollback).not.toHaveBeenCalled();
+    });
+
+    test('should roll back when a step after the download fails', async () => {
+      // Arrange
+      installProjectDependencies.mockResolvedValue(
+        Err(createInstallFailedError('npm', new Error('Package installation failed'))),
+      );
+
+      // Act & Assert
+      await expect(runMainCommand(createTestArgs({ keepOnFailure: true }))).rejects.toThrow(
+        'process.exit unexpectedly called with "5"',
+      );
+      expect(beginProjectTransaction).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        true,
+        undefined,
+      );
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(transaction.commit).not.toHaveBeenCalled();
+    });
+
+    test('should record backups and merged files', async () => {
+      // Arrange
+      resolveExistingDirectoryStrategy.mockResolvedValue(Ok('merge'));
+      mergeTemplate.mockResolvedValue(Ok({ written: ['src/index.ts'], conflicts: [] }));
+
+      // Act
+      await runMainCommand(createTestArgs({ merge: true }));
+
+      // Assert
+      expect(transaction.recordBackup).toHaveBeenCalledWith(undefined, false);
+      expect(transaction.recordWrittenFiles).toHaveBeenCalledWith(['src/index.ts']);
+    });
+  });
+
+  describe('Offline Mode', () => {
+    test('should thread --offline to template selection and download', async () => {
+      // Arrange
+      const args = createTestArgs({ offline: true });
+
+      // Act
+      await runMainCommand(args);
+
+      // Assert
+      expect(resolveTemplateSelection).toHaveBeenCalledWith(TEST_CONSTANTS.TEMPLATES.DEFAULT, false, {
+        ...createTemplateRegistryOptions(),
+        offline: true,
+      });
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
+        TEST_CONSTANTS.TEMPLATES.DEFAULT,
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.REGISTRY,
+        { offline: true, preferOffline: false },
+      );
     });
   });
 
   describe('Error Handling', () => {
     test('should handle template selection errors gracefully', async () => {
       // Arrange
-      const templateError = new Error('Template not found: invalid-template');
-      selectTemplate.mockResolvedValue(TEST_CONSTANTS.TEMPLATES.INVALID);
-      downloadTemplateAndHandleErrors.mockRejectedValue(templateError);
+      const templateError = createDownloadFailedError(
+        TEST_CONSTANTS.TEMPLATES.INVALID,
+        new Error('Template not found: invalid-template'),
+      );
+      resolveTemplateSelection.mockResolvedValue(
+        Ok({ name: TEST_CONSTANTS.TEMPLATES.INVALID, registry: TEST_CONSTANTS.REGISTRY }),
+      );
+      downloadTemplateWithResult.mockResolvedValue(Err(templateError));
 
       const args = createTestArgs({ template: TEST_CONSTANTS.TEMPLATES.INVALID });
 
       // Act & Assert
-      await expect(runMainCommand(args)).rejects.toThrow('Template not found: invalid-template');
+      await expect(runMainCommand(args)).rejects.toThrow('process.exit unexpectedly called with "4"');
+      expect(consola.error).toHaveBeenCalledWith(
+        `Failed to download the template ${TEST_CONSTANTS.TEMPLATES.INVALID}: Template not found: invalid-template`,
+      );
 
       // Verify download was attempted
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalledWith(
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
         TEST_CONSTANTS.TEMPLATES.INVALID,
         createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
       );
 
       // Verify subsequent steps were not called
-      expect(installDependenciesIfRequested).not.toHaveBeenCalled();
-      expect(initializeGitIfRequested).not.toHaveBeenCalled();
+      expect(installProjectDependencies).not.toHaveBeenCalled();
+      expect(initializeGit).not.toHaveBeenCalled();
     });
 
     test('should handle directory verification errors', async () => {
       // Arrange
-      const directoryError = new Error('Directory already exists');
-      verifyDirectoryDoesNotExist.mockImplementation(() => {
-        throw directoryError;
-      });
+      const directoryError = createDirectoryExistsError(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        'Directory already exists',
+      );
+      resolveExistingDirectoryStrategy.mockResolvedValue(Err(directoryError));
 
       const args = createTestArgs();
 
       // Act & Assert
-      await expect(runMainCommand(args)).rejects.toThrow('Directory already exists');
+      await expect(runMainCommand(args)).rejects.toThrow('process.exit unexpectedly called with "3"');
+      expect(consola.error).toHaveBeenCalledWith('Directory already exists');
 
       // Verify workflow stopped at directory verification
-      expect(verifyDirectoryDoesNotExist).toHaveBeenCalledWith(createProjectPath(TEST_CONSTANTS.PROJECT_NAME));
-      expect(selectTemplate).not.toHaveBeenCalled();
+      expect(resolveExistingDirectoryStrategy).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        { force: false, merge: false },
+        false,
+      );
+      expect(resolveTemplateSelection).not.toHaveBeenCalled();
     });
 
     test('should handle dependency installation failures', async () => {
       // Arrange
-      const installError = new Error('Package installation failed');
-      installDependenciesIfRequested.mockRejectedValue(installError);
+      const installError = createInstallFailedError('npm', new Error('Package installation failed'));
+      installProjectDependencies.mockResolvedValue(Err(installError));
 
       const args = createTestArgs();
 
       // Act & Assert
-      await expect(runMainCommand(args)).rejects.toThrow('Package installation failed');
+      await expect(runMainCommand(args)).rejects.toThrow('process.exit unexpectedly called with "5"');
+      expect(consola.error).toHaveBeenCalledWith(
+        'Failed to install dependencies with npm: Package installation failed',
+      );
 
       // Verify template download succeeded before failure
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalled();
-      expect(installDependenciesIfRequested).toHaveBeenCalled();
+      expect(downloadTemplateWithResult).toHaveBeenCalled();
+      expect(installProjectDependencies).toHaveBeenCalled();
 
       // Git initialization should not be called after installation failure
-      expect(initializeGitIfRequested).not.toHaveBeenCalled();
+      expect(initializeGit).not.toHaveBeenCalled();
     });
 
     test('should handle git initialization failures', async () => {
       // Arrange
       const gitError = new Error('Git initialization failed');
-      initializeGitIfRequested.mockRejectedValue(gitError);
+      initializeGit.mockRejectedValue(gitError);
 
       const args = createTestArgs();
 
       // Act & Assert
-      await expect(runMainCommand(args)).rejects.toThrow('Git initialization failed');
+      await expect(runMainCommand(args)).rejects.toThrow('process.exit unexpectedly called with "1"');
+      expect(consola.error).toHaveBeenCalledWith('Git initialization failed');
 
       // Verify all previous steps completed successfully
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalled();
-      expect(installDependenciesIfRequested).toHaveBeenCalled();
-      expect(initializeGitIfRequested).toHaveBeenCalled();
+      expect(downloadTemplateWithResult).toHaveBeenCalled();
+      expect(installProjectDependencies).toHaveBeenCalled();
+      expect(initializeGit).toHaveBeenCalled();
     });
   });
 
@@ -364,10 +1361,12 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert
-      expect(getProjectDirectory).toHaveBeenCalledWith(specialProjectName);
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalledWith(
+      expect(resolveProjectDirectory).toHaveBeenCalledWith(specialProjectName, false);
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
         TEST_CONSTANTS.TEMPLATES.DEFAULT,
         createProjectPath(specialProjectName),
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
       );
     });
 
@@ -379,11 +1378,13 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert
-      expect(getProjectDirectory).toHaveBeenCalledWith('');
+      expect(resolveProjectDirectory).toHaveBeenCalledWith('', false);
       // Should still create project with default name
-      expect(downloadTemplateAndHandleErrors).toHaveBeenCalledWith(
+      expect(downloadTemplateWithResult).toHaveBeenCalledWith(
         TEST_CONSTANTS.TEMPLATES.DEFAULT,
         createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        TEST_CONSTANTS.REGISTRY,
+        offlineOptions,
       );
     });
 
@@ -400,10 +1401,10 @@ describe('mainCommand E2E Tests', () => {
       await runMainCommand(args);
 
       // Assert - should handle empty/falsy values properly
-      expect(selectTemplate).toHaveBeenCalledWith('');
-      expect(confirmDependenciesInstallation).toHaveBeenCalledWith(false);
-      expect(selectPackageManager).toHaveBeenCalledWith('npm');
-      expect(initializeGitIfRequested).toHaveBeenCalledWith(false, expect.any(String));
+      expect(resolveTemplateSelection).toHaveBeenCalledWith('', false, createTemplateRegistryOptions());
+      expect(resolveDependenciesInstallation).toHaveBeenCalledWith(false, false);
+      expect(resolvePackageManager).toHaveBeenCalledWith('npm', false);
+      expect(initializeGit).toHaveBeenCalledWith(false, expect.any(String), false, gitOptions);
     });
   });
 
@@ -412,37 +1413,39 @@ describe('mainCommand E2E Tests', () => {
       // Arrange
       const callOrder: string[] = [];
 
-      getProjectDirectory.mockImplementation(async () => {
-        callOrder.push('getProjectDirectory');
-        return TEST_CONSTANTS.PROJECT_NAME;
+      resolveProjectDirectory.mockImplementation(async () => {
+        callOrder.push('resolveProjectDirectory');
+        return Ok(TEST_CONSTANTS.PROJECT_NAME);
       });
 
-      selectTemplate.mockImplementation(async () => {
-        callOrder.push('selectTemplate');
-        return TEST_CONSTANTS.TEMPLATES.DEFAULT;
+      resolveTemplateSelection.mockImplementation(async () => {
+        callOrder.push('resolveTemplateSelection');
+        return Ok({ name: TEST_CONSTANTS.TEMPLATES.DEFAULT, registry: TEST_CONSTANTS.REGISTRY });
       });
 
-      downloadTemplateAndHandleErrors.mockImplementation(async () => {
+      downloadTemplateWithResult.mockImplementation(async () => {
         callOrder.push('downloadTemplate');
-        return { dir: createProjectPath(TEST_CONSTANTS.PROJECT_NAME), source: 'test-source' };
+        return Ok({ dir: createProjectPath(TEST_CONSTANTS.PROJECT_NAME), source: 'test-source' });
       });
 
-      selectPackageManager.mockImplementation(async () => {
-        callOrder.push('selectPackageManager');
-        return 'npm';
+      resolvePackageManager.mockImplementation(async () => {
+        callOrder.push('resolvePackageManager');
+        return Ok('npm');
       });
 
-      confirmDependenciesInstallation.mockImplementation(async () => {
+      resolveDependenciesInstallation.mockImplementation(async () => {
         callOrder.push('confirmInstall');
-        return true;
+        return Ok(true);
       });
 
-      installDependenciesIfRequested.mockImplementation(async () => {
+      installProjectDependencies.mockImplementation(async () => {
         callOrder.push('installDependencies');
+        return Ok(true);
       });
 
-      initializeGitIfRequested.mockImplementation(async () => {
+      initializeGit.mockImplementation(async () => {
         callOrder.push('initializeGit');
+        return Ok(true);
       });
 
       const args = createTestArgs();
@@ -452,10 +1455,10 @@ describe('mainCommand E2E Tests', () => {
 
       // Assert
       expect(callOrder).toEqual([
-        'getProjectDirectory',
-        'selectTemplate',
+        'resolveProjectDirectory',
+        'resolveTemplateSelection',
         'downloadTemplate',
-        'selectPackageManager',
+        'resolvePackageManager',
         'confirmInstall',
         'installDependencies',
         'initializeGit',
@@ -473,4 +1476,118 @@ describe('mainCommand E2E Tests', () => {
       expect(consola.info).toHaveBeenCalledWith(expect.stringContaining('Hello xeikit app'));
     });
   });
+
+  describe('Programmatic Workflow', () => {
+    test('should return the created project with timings instead of printing instructions', async () => {
+      // Act
+      const result = await executeProjectCreationWorkflow(createTestArgs({ yes: true }));
+
+      // Assert
+      expect(result).toEqual({
+        success: true,
+        data: {
+          projectDir: TEST_CONSTANTS.PROJECT_NAME,
+          paths: { project: createProjectPath(TEST_CONSTANTS.PROJECT_NAME) },
+          packageName: TEST_CONSTANTS.PROJECT_NAME,
+          template: {
+            name: TEST_CONSTANTS.TEMPLATES.DEFAULT,
+            source: TEST_CONSTANTS.TEMPLATES.DEFAULT,
+            registry: TEST_CONSTANTS.REGISTRY.url,
+          },
+          features: [],
+          variables: {},
+          packageManager: 'npm',
+          installed: true,
+          gitInitialized: true,
+          templateHooks: [],
+          timings: { steps: expect.any(Object), total: expect.any(Number) },
+        },
+      });
+      expect(consola.log).not.toHaveBeenCalledWith(expect.stringContaining(TEST_CONSTANTS.MESSAGES.NEXT_STEPS));
+    });
+
+    test('should call the lifecycle hooks around every step', async () => {
+      // Arrange
+      const events: string[] = [];
+      const hooks = {
+        onStepStart: vi.fn((step: string) => {
+          events.push(`start:${step}`);
+        }),
+        onStepComplete: vi.fn((step: string) => {
+          events.push(`complete:${step}`);
+        }),
+      };
+
+      // Act
+      const result = await executeProjectCreationWorkflow(createTestArgs(), { hooks });
+
+      // Assert
+      const steps = [
+        'config',
+        'directory',
+        'template',
+        'download',
+        'render',
+        'packageJson',
+        'packageManager',
+        'install',
+        'git',
+      ];
+      expect(events).toEqual(steps.flatMap((step) => [`start:${step}`, `complete:${step}`]));
+      expect(hooks.onStepComplete).toHaveBeenCalledWith('install', expect.any(Number));
+      expect(result.success && Object.keys(result.data.timings.steps)).toEqual(steps);
+    });
+
+    test('should report the failing step and return the error without exiting', async () => {
+      // Arrange
+      const onStepError = vi.fn();
+      const installError = createInstallFailedError('npm', new Error('Package installation failed'));
+      installProjectDependencies.mockResolvedValue(Err(installError));
+
+      // Act
+      const result = await executeProjectCreationWorkflow(createTestArgs(), { hooks: { onStepError } });
+
+      // Assert
+      expect(result).toEqual({ success: false, error: installError });
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INSTALL_FAILED',
+        packageManager: 'npm',
+        step: 'install',
+      });
+      expect(onStepError).toHaveBeenCalledWith('install', installError);
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(consola.error).not.toHaveBeenCalled();
+    });
+
+    test('should fail the step when a hook throws', async () => {
+      // Arrange
+      const onStepStart = vi.fn((step: string) => {
+        if (step === 'git') {
+          throw new Error('Hook failed');
+        }
+      });
+
+      // Act
+      const result = await executeProjectCreationWorkflow(createTestArgs(), { hooks: { onStepStart } });
+
+      // Assert
+      expect(result).toEqual({
+        success: false,
+        error: Object.assign(new Error('Hook failed'), { code: 'FAILED', step: 'git' }),
+      });
+      expect(initializeGit).not.toHaveBeenCalled();
+    });
+
+    test('should leave interrupt handling to the caller', async () => {
+      // Act
+      await executeProjectCreationWorkflow(createTestArgs(), { handleInterrupts: false });
+
+      // Assert
+      expect(beginProjectTransaction).toHaveBeenCalledWith(
+        createProjectPath(TEST_CONSTANTS.PROJECT_NAME),
+        false,
+        false,
+      );
+    });
+  });
 });
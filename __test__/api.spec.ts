@@ -0,0 +1,71 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { createProject } from '@/api';
+
+const { executeProjectCreationWorkflowMock } = vi.hoisted(() => ({
+  executeProjectCreationWorkflowMock: vi.fn(),
+}));
+
+vi.mock('@/cli/command', () => ({
+  executeProjectCreationWorkflow: executeProjectCreationWorkflowMock,
+}));
+
+describe('src/api.ts', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('createProject', () => {
+    test('runs the workflow without prompts and returns its result', async () => {
+      const result = { success: true, data: { projectDir: 'my-app' } };
+      executeProjectCreationWorkflowMock.mockResolvedValue(result);
+
+      expect(await createProject({ dir: 'my-app' })).toBe(result);
+      expect(executeProjectCreationWorkflowMock).toHaveBeenCalledWith(
+        expect.objectContaining({ cwd: process.cwd(), dir: 'my-app', template: '', packageManager: '', yes: true }),
+        { hooks: undefined, handleInterrupts: false },
+      );
+    });
+
+    test('maps the options to the workflow arguments', async () => {
+      const hooks = { onStepStart: vi.fn() };
+
+      await createProject({
+        dir: 'web',
+        cwd: '/work',
+        template: 'internal:nuxt4',
+        preset: './team.yaml',
+        name: '@acme/web',
+        packageManager: 'pnpm',
+        install: false,
+        gitInit: true,
+        git: { commit: true, branch: 'main', author: 'Jane Doe <jane@example.com>' },
+        force: true,
+        features: ['hono', 'docker'],
+        variables: { description: 'My shop', port: 3000 },
+        templateHooks: false,
+        hooks,
+      });
+
+      expect(executeProjectCreationWorkflowMock).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cwd: '/work',
+          dir: 'web',
+          template: 'internal:nuxt4',
+          preset: './team.yaml',
+          name: '@acme/web',
+          packageManager: 'pnpm',
+          install: false,
+          gitInit: true,
+          gitCommit: true,
+          gitBranch: 'main',
+          gitAuthor: 'Jane Doe <jane@example.com>',
+          force: true,
+          features: 'hono,docker',
+          var: ['description=My shop', 'port=3000'],
+          hooks: false,
+        }),
+        { hooks, handleInterrupts: false },
+      );
+    });
+  });
+});
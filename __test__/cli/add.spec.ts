@@ -0,0 +1,60 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCommand } from 'citty';
+import consola from 'consola';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { addCommand, formatAddFeatureReport } from '@/cli/add';
+import { PROJECT_CONFIG_FILE_NAME } from '@/utils/constants';
+
+describe('src/cli/add.ts', () => {
+  describe('addCommand', () => {
+    test('should accept a feature, a project directory, --registry, --install and --yes', () => {
+      expect(addCommand.meta).toEqual({ name: 'add', description: expect.any(String) });
+      expect(Object.keys(addCommand.args ?? {})).toEqual(['feature', 'dir', 'registry', 'install', 'yes']);
+    });
+
+    describe('with a malformed configuration file', () => {
+      let projectDir: string;
+
+      afterEach(async () => {
+        vi.restoreAllMocks();
+        await rm(projectDir, { recursive: true, force: true });
+      });
+
+      test('should exit with an invalid argument error before downloading the template', async () => {
+        projectDir = await mkdtemp(join(tmpdir(), 'xeikit-add-cli-'));
+        await writeFile(join(projectDir, PROJECT_CONFIG_FILE_NAME), '{ "registries": ');
+        const error = vi.spyOn(consola, 'error').mockImplementation(() => undefined);
+
+        await expect(runCommand(addCommand, { rawArgs: ['docker', '--dir', projectDir] })).rejects.toThrow(
+          'process.exit unexpectedly called with "2"',
+        );
+        expect(error).toHaveBeenCalledWith(expect.stringContaining(PROJECT_CONFIG_FILE_NAME));
+      });
+    });
+  });
+
+  describe('formatAddFeatureReport', () => {
+    test('lists the written files, the package.json update and the conflicts', () => {
+      const lines = formatAddFeatureReport({
+        added: ['docker'],
+        written: ['Dockerfile'],
+        conflicts: ['package.json (scripts.start)'],
+        packageJsonChanged: true,
+      });
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toContain('Dockerfile');
+      expect(lines[1]).toContain('package.json');
+      expect(lines[2]).toContain('conflict');
+      expect(lines[2]).toContain('scripts.start');
+    });
+
+    test('returns no lines when nothing was written', () => {
+      expect(
+        formatAddFeatureReport({ added: ['lint'], written: [], conflicts: [], packageJsonChanged: false }),
+      ).toEqual([]);
+    });
+  });
+});
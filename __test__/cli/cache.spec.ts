@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { cacheCommand, formatCacheEntry, parseMaxAgeArg } from '@/cli/cache';
+import { isErr, isOk } from '@/types/result';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+describe('src/cli/cache.ts', () => {
+  describe('cacheCommand', () => {
+    test('should expose list, prune and clear subcommands', () => {
+      expect(cacheCommand.meta).toEqual({ name: 'cache', description: expect.any(String) });
+      expect(Object.keys(cacheCommand.subCommands ?? {})).toEqual(['list', 'prune', 'clear']);
+    });
+  });
+
+  describe('parseMaxAgeArg', () => {
+    test('defaults to 30 days', () => {
+      const result = parseMaxAgeArg(undefined);
+
+      expect(isOk(result) && result.data).toBe(30 * DAY_IN_MS);
+    });
+
+    test('converts days to milliseconds', () => {
+      const result = parseMaxAgeArg('7');
+
+      expect(isOk(result) && result.data).toBe(7 * DAY_IN_MS);
+    });
+
+    test('rejects invalid values', () => {
+      expect(isErr(parseMaxAgeArg('soon'))).toBe(true);
+      expect(isErr(parseMaxAgeArg('-1'))).toBe(true);
+    });
+  });
+
+  describe('formatCacheEntry', () => {
+    test('includes the template, registry and timestamp', () => {
+      const line = formatCacheEntry({
+        key: 'abc',
+        path: '/cache/templates/abc',
+        registry: 'https://registry.example.com',
+        template: 'nuxt4',
+        cachedAt: 0,
+        result: { name: 'nuxt4', tar: 'https://example.com/nuxt4.tar.gz', source: 'nuxt4' },
+      });
+
+      expect(line).toContain('nuxt4');
+      expect(line).toContain('https://registry.example.com');
+      expect(line).toContain('1970-01-01T00:00:00.000Z');
+    });
+  });
+});
@@ -1,5 +1,10 @@
-import { describe, expect, test } from 'vitest';
-import { mainCommand } from '@/cli/command';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { parseArgs, runCommand } from 'citty';
+import { join } from 'pathe';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { mainCommand, mainCommandArgs, normalizeCliArgs } from '@/cli/command';
+import { applyConfigDefaults } from '@/utils/config';
 import { description, name, version } from '../../package.json';
 
 describe('src/cli/command.ts', () => {
@@ -16,7 +21,88 @@ describe('src/cli/command.ts', () => {
         template: expect.any(Object),
         install: expect.any(Object),
         gitInit: expect.any(Object),
+        gitCommit: expect.any(Object),
+        gitCommitMessage: expect.any(Object),
+        gitBranch: expect.any(Object),
+        gitAuthor: expect.any(Object),
         packageManager: expect.any(Object),
+        yes: expect.any(Object),
+        json: expect.any(Object),
+        registry: expect.any(Object),
+        offline: expect.any(Object),
+        preferOffline: expect.any(Object),
+        force: expect.any(Object),
+        merge: expect.any(Object),
+        keepOnFailure: expect.any(Object),
+        dryRun: expect.any(Object),
+        var: expect.any(Object),
+        features: expect.any(Object),
+        hooks: expect.any(Object),
+        name: expect.any(Object),
+        preset: expect.any(Object),
+        templateRef: expect.any(Object),
+      });
+    });
+  });
+
+  describe('normalizeCliArgs', () => {
+    const parse = (rawArgs: string[]) => normalizeCliArgs(parseArgs<typeof mainCommandArgs>(rawArgs, mainCommandArgs));
+
+    test('keeps the camelCase options of kebab-case flags when spread', () => {
+      const args = parse(['my-app', '--package-manager', 'pnpm', '--no-git-init', '--git-branch', 'main']);
+
+      expect({ ...args }).toMatchObject({
+        cwd: '.',
+        dir: 'my-app',
+        packageManager: 'pnpm',
+        gitInit: false,
+        gitBranch: 'main',
+      });
+    });
+
+    test('lets command line options win over the configured defaults', () => {
+      const args = parse(['--package-manager', 'pnpm', '--no-git-init', '--git-author', 'Jane <jane@example.com>']);
+
+      expect(
+        applyConfigDefaults(args, { packageManager: 'yarn', gitInit: true, author: 'John <john@example.com>' }),
+      ).toMatchObject({ packageManager: 'pnpm', gitInit: false, gitAuthor: 'Jane <jane@example.com>' });
+    });
+
+    test('collects repeated --var options', () => {
+      expect(parse(['--var', 'a=1', '--var', 'b=2']).var).toEqual(['a=1', 'b=2']);
+    });
+  });
+
+  describe('--json --dry-run', () => {
+    const tempDirs: string[] = [];
+
+    afterEach(async () => {
+      vi.restoreAllMocks();
+      await Promise.all(tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })));
+    });
+
+    test('plans with the package manager and git options given as kebab-case flags', async () => {
+      const cwd = await mkdtemp(join(tmpdir(), 'xeikit-json-'));
+      tempDirs.push(cwd);
+      await mkdir(join(cwd, 'tpl'));
+      await writeFile(join(cwd, 'tpl', 'package.json'), '{ "name": "tpl" }');
+      const stdout = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+      await runCommand(mainCommand, {
+        rawArgs: ['my-app', '--cwd', cwd, '--template', './tpl', '--json', '--dry-run'].concat([
+          '--package-manager',
+          'pnpm',
+          '--no-git-init',
+          '--no-install',
+        ]),
+      });
+
+      const report = JSON.parse(String(stdout.mock.calls.at(-1)?.[0]));
+      expect(report.success).toBe(true);
+      expect(report.plan).toMatchObject({
+        packageManager: 'pnpm',
+        install: { enabled: false },
+        git: { enabled: false },
       });
     });
   });
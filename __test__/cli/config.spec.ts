@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'vitest';
+import { configCommand, formatConfigDefaults, parseConfigKeyArg } from '@/cli/config';
+import { isErr } from '@/types/result';
+
+describe('src/cli/config.ts', () => {
+  describe('configCommand', () => {
+    test('should expose get, set, list and reset subcommands', () => {
+      expect(configCommand.meta).toEqual({ name: 'config', description: expect.any(String) });
+      expect(Object.keys(configCommand.subCommands ?? {})).toEqual(['get', 'set', 'list', 'reset']);
+    });
+  });
+
+  describe('parseConfigKeyArg', () => {
+    test('accepts the names of the defaults', () => {
+      expect(parseConfigKeyArg('gitInit')).toEqual({ success: true, data: 'gitInit' });
+    });
+
+    test('rejects unknown names', () => {
+      const result = parseConfigKeyArg('color');
+
+      expect(isErr(result) && result.error).toContain('Unknown setting "color"');
+    });
+  });
+
+  describe('formatConfigDefaults', () => {
+    test('lists every setting and marks unset settings', () => {
+      const lines = formatConfigDefaults({ packageManager: 'pnpm', install: false });
+
+      expect(lines).toHaveLength(6);
+      expect(lines.find((line) => line.startsWith('packageManager'))).toContain('pnpm');
+      expect(lines.find((line) => line.startsWith('install'))).toContain('false');
+      expect(lines.find((line) => line.startsWith('template'))).toContain('(not set)');
+    });
+  });
+});
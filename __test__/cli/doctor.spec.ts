@@ -0,0 +1,24 @@
+import { stripAnsi } from 'consola/utils';
+import { describe, expect, test } from 'vitest';
+import { doctorCommand, formatDoctorCheck } from '@/cli/doctor';
+
+describe('src/cli/doctor.ts', () => {
+  describe('doctorCommand', () => {
+    test('should accept a template, a registry and --json', () => {
+      expect(doctorCommand.meta).toEqual({ name: 'doctor', description: expect.any(String) });
+      expect(Object.keys(doctorCommand.args ?? {})).toEqual(['template', 'registry', 'json']);
+    });
+  });
+
+  describe('formatDoctorCheck', () => {
+    test.each([
+      ['pass', '✔ pass'],
+      ['warn', '⚠ warn'],
+      ['fail', '✖ fail'],
+    ] as const)('shows the %s status, the name and the message', (status, label) => {
+      expect(stripAnsi(formatDoctorCheck({ name: 'git', status, message: 'git version 2.47.1' }))).toBe(
+        `${label} git      git version 2.47.1`,
+      );
+    });
+  });
+});
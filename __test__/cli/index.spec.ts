@@ -5,4 +5,54 @@ describe('src/cli/index.ts', () => {
     const module = await import('@/cli/index');
     expect(module).toBeDefined();
   });
+
+  test('should register the add subcommand', async () => {
+    const { subCommands } = await import('@/cli/index');
+    const { addCommand } = await import('@/cli/add');
+    expect(subCommands.add).toBe(addCommand);
+  });
+
+  test('should register the cache subcommand', async () => {
+    const { subCommands } = await import('@/cli/index');
+    const { cacheCommand } = await import('@/cli/cache');
+    expect(subCommands.cache).toBe(cacheCommand);
+  });
+
+  test('should register the config subcommand', async () => {
+    const { subCommands } = await import('@/cli/index');
+    const { configCommand } = await import('@/cli/config');
+    expect(subCommands.config).toBe(configCommand);
+  });
+
+  test('should register the doctor subcommand', async () => {
+    const { subCommands } = await import('@/cli/index');
+    const { doctorCommand } = await import('@/cli/doctor');
+    expect(subCommands.doctor).toBe(doctorCommand);
+  });
+
+  test('should register the list and info subcommands', async () => {
+    const { subCommands } = await import('@/cli/index');
+    const { infoCommand, listCommand } = await import('@/cli/list');
+    expect(subCommands.list).toBe(listCommand);
+    expect(subCommands.info).toBe(infoCommand);
+  });
+
+  test('should register the upgrade subcommand', async () => {
+    const { subCommands } = await import('@/cli/index');
+    const { upgradeCommand } = await import('@/cli/upgrade');
+    expect(subCommands.upgrade).toBe(upgradeCommand);
+  });
+
+  test('should list the subcommands and the directory names they reserve in the usage', async () => {
+    const { renderMainUsage, subCommands } = await import('@/cli/index');
+
+    const usage = await renderMainUsage();
+
+    expect(usage).toContain('--template');
+    for (const name of Object.keys(subCommands)) {
+      expect(usage).toContain(`\`${name}\``);
+    }
+    expect(usage).toContain('cannot be named add, cache, config, doctor, info, list, upgrade');
+    expect(usage).toContain('./<name>');
+  });
 });
@@ -0,0 +1,69 @@
+import { stripAnsi } from 'consola/utils';
+import { describe, expect, test } from 'vitest';
+import { formatCatalogEntry, formatTemplateInfo, infoCommand, listCommand } from '@/cli/list';
+
+describe('src/cli/list.ts', () => {
+  describe('listCommand', () => {
+    test('should accept --tag, --registry and --json', () => {
+      expect(listCommand.meta).toEqual({ name: 'list', description: expect.any(String) });
+      expect(Object.keys(listCommand.args ?? {})).toEqual(['tag', 'registry', 'json']);
+    });
+  });
+
+  describe('infoCommand', () => {
+    test('should accept a template, --registry and --json', () => {
+      expect(infoCommand.meta).toEqual({ name: 'info', description: expect.any(String) });
+      expect(Object.keys(infoCommand.args ?? {})).toEqual(['template', 'registry', 'json']);
+    });
+  });
+
+  describe('formatCatalogEntry', () => {
+    test('shows the name, label, description, tags, package managers and Node version', () => {
+      const lines = formatCatalogEntry({
+        name: 'nuxt4',
+        label: 'Nuxt4 + Hono',
+        description: 'Nuxt 4 with a Hono API',
+        tags: ['nuxt', 'hono'],
+        packageManagers: ['pnpm'],
+        engines: { node: '>=20' },
+      }).map(stripAnsi);
+
+      expect(lines).toEqual([
+        'nuxt4 Nuxt4 + Hono',
+        '  Nuxt 4 with a Hono API',
+        '  tags: nuxt, hono · package managers: pnpm · node: >=20',
+      ]);
+    });
+
+    test('shows defaults for the missing details', () => {
+      expect(formatCatalogEntry({ name: 'nuxt4', label: 'Nuxt4' }).map(stripAnsi)).toEqual([
+        'nuxt4 Nuxt4',
+        '  tags: - · package managers: any · node: any',
+      ]);
+    });
+  });
+
+  describe('formatTemplateInfo', () => {
+    test('lists the features and the README excerpt', () => {
+      const lines = formatTemplateInfo({
+        entry: { name: 'nuxt4', label: 'Nuxt4 + Hono', versions: ['v2.1.0'] },
+        readme: 'Nuxt 4 with a Hono API.',
+        features: {
+          hono: { label: 'Hono backend' },
+          docker: { label: 'Docker', description: 'Dockerfile', requires: ['hono'] },
+        },
+      }).map(stripAnsi);
+
+      expect(lines).toContain('  versions: v2.1.0');
+      expect(lines).toContain('  hono Hono backend');
+      expect(lines).toContain('  docker Docker - Dockerfile (requires hono)');
+      expect(lines.at(-1)).toBe('  Nuxt 4 with a Hono API.');
+    });
+
+    test('reports templates without features', () => {
+      expect(formatTemplateInfo({ entry: { name: 'nuxt4', label: 'Nuxt4' }, features: {} }).map(stripAnsi)).toContain(
+        'Features: none',
+      );
+    });
+  });
+});
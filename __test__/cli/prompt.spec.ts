@@ -1,8 +1,8 @@
 import { describe, expect, test, vi } from 'vitest';
 import {
   createProjectDirectoryPromptConfig,
-  getProjectDirectory,
   promptForProjectDirectory,
+  resolveProjectDirectory,
   validateDirectoryArg,
 } from '@/cli/prompts';
 
@@ -13,6 +13,7 @@ const { promptMock } = vi.hoisted(() => ({
 vi.mock('consola', () => ({
   default: {
     prompt: promptMock,
+    error: vi.fn(),
   },
 }));
 
@@ -96,18 +97,18 @@ describe('src/cli/prompts.ts', () => {
     });
   });
 
-  describe('getProjectDirectory', () => {
+  describe('resolveProjectDirectory', () => {
     test('should return provided directory name', async () => {
-      const result = await getProjectDirectory('my-project');
-      expect(result).toBe('my-project');
+      const result = await resolveProjectDirectory('my-project');
+      expect(result).toEqual({ success: true, data: 'my-project' });
     });
 
     test('should prompt for directory name if not provided', async () => {
       promptMock.mockResolvedValue('my-project');
 
-      const result = await getProjectDirectory('');
+      const result = await resolveProjectDirectory('');
 
-      expect(result).toBe('my-project');
+      expect(result).toEqual({ success: true, data: 'my-project' });
       expect(promptMock).toHaveBeenCalledWith('Where would you like to create your project?', {
         placeholder: './my-project',
         type: 'text',
@@ -116,10 +117,30 @@ describe('src/cli/prompts.ts', () => {
       });
     });
 
-    test('should exit process on prompt rejection', async () => {
-      promptMock.mockRejectedValue(new Error('Prompt rejected'));
+    test('should return the error on prompt rejection', async () => {
+      const rejected = new Error('Prompt rejected');
+      promptMock.mockRejectedValue(rejected);
 
-      await expect(getProjectDirectory('')).rejects.toThrow('process.exit unexpectedly called with "1"');
+      expect(await resolveProjectDirectory('')).toEqual({ success: false, error: rejected });
+    });
+
+    test('should return provided directory name in non-interactive mode', async () => {
+      promptMock.mockClear();
+
+      const result = await resolveProjectDirectory('my-project', true);
+
+      expect(result).toEqual({ success: true, data: 'my-project' });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('should return an invalid argument error without prompting when directory is missing in non-interactive mode', async () => {
+      promptMock.mockClear();
+
+      const result = await resolveProjectDirectory('', true);
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'dir' });
+      expect(result.success === false && result.error.message).toContain('Missing required option dir');
+      expect(promptMock).not.toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,38 @@
+import { describe, expect, test } from 'vitest';
+import { formatUpgradeReport, upgradeCommand } from '@/cli/upgrade';
+
+describe('src/cli/upgrade.ts', () => {
+  describe('upgradeCommand', () => {
+    test('should accept a project directory, a ref and --dry-run', () => {
+      expect(upgradeCommand.meta).toEqual({ name: 'upgrade', description: expect.any(String) });
+      expect(Object.keys(upgradeCommand.args ?? {})).toEqual(['dir', 'ref', 'dryRun']);
+    });
+  });
+
+  describe('formatUpgradeReport', () => {
+    test('lists the changes and the conflicts', () => {
+      const lines = formatUpgradeReport({
+        from: 'a',
+        to: 'b',
+        changes: [
+          { path: 'app.vue', action: 'update' },
+          { path: 'old.txt', action: 'delete' },
+        ],
+        conflicts: ['package.json'],
+        dryRun: false,
+      });
+
+      expect(lines).toHaveLength(3);
+      expect(lines[0]).toContain('update');
+      expect(lines[0]).toContain('app.vue');
+      expect(lines[2]).toContain('conflict');
+      expect(lines[2]).toContain('package.json');
+    });
+
+    test('reports projects that are up to date', () => {
+      const lines = formatUpgradeReport({ from: 'a', to: 'a', changes: [], conflicts: [], dryRun: false });
+
+      expect(lines).toEqual([expect.stringContaining('Already up to date')]);
+    });
+  });
+});
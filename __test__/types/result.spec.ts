@@ -1,6 +1,28 @@
-import { describe, expect, test } from 'vitest';
+import { describe, expect, test, vi } from 'vitest';
 import type { Result } from '@/types/result';
-import { chain, Err, isErr, isOk, map, mapErr, Ok, unwrap, unwrapOr } from '@/types/result';
+import {
+  all,
+  chain,
+  combine,
+  Err,
+  errAsync,
+  fromPromise,
+  isErr,
+  isOk,
+  map,
+  mapErr,
+  match,
+  Ok,
+  okAsync,
+  tap,
+  tapErr,
+  toError,
+  toResultAsync,
+  tryCatch,
+  tryCatchAsync,
+  unwrap,
+  unwrapOr,
+} from '@/types/result';
 
 describe('Result type utilities', () => {
   describe('Ok and Err constructors', () => {
@@ -177,4 +199,130 @@ describe('Result type utilities', () => {
       }
     });
   });
+
+  describe('tap and tapErr functions', () => {
+    test('run side effects for the matching case only', () => {
+      const onValue = vi.fn();
+      const onError = vi.fn();
+
+      expect(tap(onValue)(Ok(42))).toEqual(Ok(42));
+      expect(tapErr(onError)(Ok(42))).toEqual(Ok(42));
+      expect(tap(onValue)(Err('error'))).toEqual(Err('error'));
+      expect(tapErr(onError)(Err('error'))).toEqual(Err('error'));
+      expect(onValue).toHaveBeenCalledTimes(1);
+      expect(onValue).toHaveBeenCalledWith(42);
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError).toHaveBeenCalledWith('error');
+    });
+  });
+
+  describe('match function', () => {
+    test('returns the value of the matching handler', () => {
+      const format = match({ ok: (x: number) => `value ${x}`, err: (error: string) => `error ${error}` });
+
+      expect(format(Ok(42))).toBe('value 42');
+      expect(format(Err('oops'))).toBe('error oops');
+    });
+  });
+
+  describe('combine function', () => {
+    test('collects success values in order', () => {
+      expect(combine([Ok(1), Ok(2), Ok(3)])).toEqual(Ok([1, 2, 3]));
+      expect(combine([])).toEqual(Ok([]));
+    });
+
+    test('returns the first error', () => {
+      expect(combine<number, string>([Ok(1), Err('invalid'), Err('missing')])).toEqual(Err('invalid'));
+    });
+  });
+
+  describe('tryCatch and toError functions', () => {
+    test('returns the value of a function that does not throw', () => {
+      expect(tryCatch(() => JSON.parse('{"a":1}'), toError('Invalid JSON'))).toEqual(Ok({ a: 1 }));
+    });
+
+    test('keeps thrown errors and replaces other thrown values', () => {
+      const error = new Error('boom');
+
+      expect(
+        tryCatch(() => {
+          throw error;
+        }, toError('fallback')),
+      ).toEqual(Err(error));
+      expect(
+        tryCatch(() => {
+          throw 'boom';
+        }, toError('fallback')),
+      ).toEqual(Err(new Error('fallback')));
+    });
+  });
+
+  describe('ResultAsync', () => {
+    test('fromPromise turns fulfilled and rejected Promises into Results', async () => {
+      const error = new Error('rejected');
+
+      expect(await fromPromise(Promise.resolve(42), toError('fallback'))).toEqual(Ok(42));
+      expect(await fromPromise(Promise.reject(error), toError('fallback'))).toEqual(Err(error));
+    });
+
+    test('tryCatchAsync catches synchronous throws and rejections', async () => {
+      const error = new Error('sync');
+
+      expect(await tryCatchAsync(async () => 42, toError('fallback'))).toEqual(Ok(42));
+      expect(
+        await tryCatchAsync(() => {
+          throw error;
+        }, toError('fallback')),
+      ).toEqual(Err(error));
+      expect(
+        await tryCatchAsync(
+          () => Promise.reject('nope'),
+          (reason) => `mapped ${reason}`,
+        ),
+      ).toEqual(Err('mapped nope'));
+    });
+
+    test('map and andThen chain async operations and stop on the first error', async () => {
+      const halve = (x: number) => (x % 2 === 0 ? okAsync(x / 2) : errAsync(`odd ${x}`));
+      const mapper = vi.fn(async (x: number) => x + 1);
+
+      expect(
+        await okAsync(8)
+          .andThen(halve)
+          .map(mapper)
+          .andThen((x) => Ok(x * 10)),
+      ).toEqual(Ok(50));
+      expect(await okAsync(3).andThen(halve).map(mapper)).toEqual(Err('odd 3'));
+      expect(mapper).toHaveBeenCalledTimes(1);
+    });
+
+    test('mapErr and orElse transform and recover from errors', async () => {
+      expect(await errAsync('offline').mapErr((error) => new Error(error))).toEqual(Err(new Error('offline')));
+      expect(await errAsync('offline').orElse(() => Ok('cached'))).toEqual(Ok('cached'));
+      expect(await okAsync('fresh').orElse(() => Ok('cached'))).toEqual(Ok('fresh'));
+      expect(await errAsync('offline').orElse((error) => errAsync(`still ${error}`))).toEqual(Err('still offline'));
+    });
+
+    test('tap and tapErr run side effects without changing the Result', async () => {
+      const onValue = vi.fn();
+      const onError = vi.fn();
+
+      expect(await okAsync(42).tap(onValue).tapErr(onError)).toEqual(Ok(42));
+      expect(await errAsync('error').tap(onValue).tapErr(onError)).toEqual(Err('error'));
+      expect(onValue).toHaveBeenCalledWith(42);
+      expect(onError).toHaveBeenCalledWith('error');
+    });
+
+    test('match resolves to the value of the matching handler', async () => {
+      const handlers = { ok: (x: number) => `value ${x}`, err: async (error: string) => `error ${error}` };
+
+      expect(await toResultAsync<number, string>(Ok(42)).match(handlers)).toBe('value 42');
+      expect(await toResultAsync<number, string>(Promise.resolve(Err('oops'))).match(handlers)).toBe('error oops');
+    });
+
+    test('all collects Results and ResultAsyncs in order', async () => {
+      expect(await all([Ok(1), okAsync(2), Promise.resolve(Ok(3))])).toEqual(Ok([1, 2, 3]));
+      expect(await all<number, string>([Ok(1), errAsync('first'), errAsync('second')])).toEqual(Err('first'));
+    });
+  });
 });
@@ -0,0 +1,242 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import type { TemplateSelection } from '@/types/cli';
+import { Ok } from '@/types/result';
+import { addFeature } from '@/utils/add-feature';
+import { createScaffoldMetadata, readScaffoldMetadata, writeScaffoldMetadata } from '@/utils/scaffold';
+
+const { downloadTemplateWithResultMock, downloadTemplateMock } = vi.hoisted(() => ({
+  downloadTemplateWithResultMock: vi.fn(),
+  downloadTemplateMock: vi.fn(),
+}));
+
+vi.mock('giget', () => ({
+  downloadTemplate: downloadTemplateMock,
+}));
+
+vi.mock('@/utils/template', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/template')>()),
+  downloadTemplateWithResult: downloadTemplateWithResultMock,
+}));
+
+const COMMIT = '1111111111111111111111111111111111111111';
+
+const TEMPLATE_FILES: Record<string, string> = {
+  'xeikit.template.json': JSON.stringify({
+    features: {
+      hono: { label: 'Hono backend', package: { dependencies: { hono: '^4.0.0' } } },
+      docker: {
+        label: 'Docker',
+        requires: ['hono'],
+        package: { scripts: { 'docker:build': 'docker build -t {{ projectName }} .', start: 'node server.js' } },
+      },
+      vitest: { label: 'Vitest' },
+    },
+  }),
+  'README.md': 'template readme',
+  '_features/hono/server/index.ts': 'export default "{{ projectName }}";',
+  '_features/docker/Dockerfile': 'FROM node',
+  '_features/docker/README.md': 'docker readme',
+};
+
+describe('src/utils/add-feature.ts', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeFiles = async (dir: string, files: Record<string, string>) => {
+    for (const [file, contents] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+      await fs.promises.writeFile(path.join(dir, file), contents);
+    }
+  };
+  const readProjectFile = (file: string) => fs.promises.readFile(path.join(projectDir, file), 'utf8');
+  const createProject = async (files: Record<string, string>, metadata = {}) => {
+    await writeFiles(projectDir, {
+      'package.json': JSON.stringify({ name: 'my-app', scripts: { start: 'nuxt start' } }),
+      ...files,
+    });
+    await writeScaffoldMetadata(
+      projectDir,
+      createScaffoldMetadata({
+        template: { name: 'nuxt4', source: `gh:org/repo#${COMMIT}`, commit: COMMIT },
+        features: [],
+        variables: { projectName: 'my-app' },
+        ...metadata,
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-add-'));
+    projectDir = path.join(tempDir, 'my-app');
+    downloadTemplateWithResultMock.mockImplementation(async (source: string, dir: string) => {
+      await writeFiles(dir, TEMPLATE_FILES);
+      return Ok({ dir, source });
+    });
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  test('adds the files and package.json entries of a feature and the features it requires', async () => {
+    await createProject({ 'README.md': 'my readme' });
+
+    const result = await addFeature(projectDir, 'docker');
+
+    expect(result).toEqual({
+      success: true,
+      data: {
+        added: ['hono', 'docker'],
+        written: ['Dockerfile', 'server/index.ts'],
+        conflicts: ['README.md', 'package.json (scripts.start)'],
+        packageJsonChanged: true,
+      },
+    });
+    expect(downloadTemplateWithResultMock).toHaveBeenCalledWith(
+      `gh:org/repo#${COMMIT}`,
+      expect.any(String),
+      undefined,
+      { preferOffline: true, ref: COMMIT },
+      undefined,
+    );
+    expect(await readProjectFile('server/index.ts')).toBe('export default "my-app";');
+    expect(await readProjectFile('README.md')).toBe('my readme');
+    expect(JSON.parse(await readProjectFile('package.json'))).toMatchObject({
+      dependencies: { hono: '^4.0.0' },
+      scripts: { start: 'nuxt start', 'docker:build': 'docker build -t my-app .' },
+    });
+    const metadata = await readScaffoldMetadata(projectDir);
+    expect(metadata.success && metadata.data.features).toEqual(['hono', 'docker']);
+  });
+
+  test.each<[string, TemplateSelection]>([
+    ['git-hosted templates', { name: 'gh:org/repo#v2', source: 'gh:org/repo', ref: 'v2' }],
+    [
+      'registry templates pinned through their catalog source',
+      {
+        name: 'nuxt4',
+        registry: { url: 'https://example.com/templates' },
+        source: 'gh:org/templates/nuxt4',
+        ref: 'v2',
+      },
+    ],
+  ])('downloads %s again from the metadata recorded when the project was created', async (_, selection) => {
+    const { createRecordedTemplateSource, downloadTemplateWithResult } =
+      await vi.importActual<typeof import('@/utils/template')>('@/utils/template');
+    downloadTemplateWithResultMock.mockImplementation(downloadTemplateWithResult);
+    // giget returns the source without its provider prefix
+    downloadTemplateMock.mockImplementation(async (input: string, { dir }: { dir: string }) => {
+      await writeFiles(dir, TEMPLATE_FILES);
+      return { dir, name: 'template', tar: '', source: input.replace(/^[\w-.]+:/, '') };
+    });
+    await createProject(
+      {},
+      {
+        template: {
+          name: selection.name,
+          source: createRecordedTemplateSource(selection, COMMIT),
+          registry: selection.registry?.url,
+          ref: selection.ref,
+          commit: COMMIT,
+        },
+      },
+    );
+
+    const result = await addFeature(projectDir, 'hono', { cacheDir: path.join(tempDir, 'cache') });
+
+    expect(result.success && result.data.written).toEqual(['server/index.ts']);
+    expect(downloadTemplateMock).toHaveBeenCalledWith(
+      `${selection.source}#${COMMIT}`,
+      expect.objectContaining({ registry: false }),
+    );
+  });
+
+  test('leaves package.json untouched when the feature changes nothing in it', async () => {
+    await createProject({});
+    const before = await readProjectFile('package.json');
+
+    const result = await addFeature(projectDir, 'vitest');
+
+    expect(result.success && result.data).toEqual({
+      added: ['vitest'],
+      written: [],
+      conflicts: [],
+      packageJsonChanged: false,
+    });
+    expect(await readProjectFile('package.json')).toBe(before);
+  });
+
+  test('downloads registry templates from the recorded registry with the token of the configured one', async () => {
+    await createProject(
+      {},
+      { template: { name: 'my-starter', source: 'my-starter', registry: 'https://example.com/templates' } },
+    );
+    vi.stubEnv('TEMPLATES_TOKEN', 's3cr3t');
+
+    await addFeature(projectDir, 'vitest', {
+      registries: { internal: { url: 'https://example.com/templates', tokenEnv: 'TEMPLATES_TOKEN' } },
+    });
+
+    expect(downloadTemplateWithResultMock).toHaveBeenCalledWith(
+      'my-starter',
+      expect.any(String),
+      { name: 'internal', url: 'https://example.com/templates', auth: 's3cr3t' },
+      { preferOffline: true },
+      undefined,
+    );
+    vi.unstubAllEnvs();
+  });
+
+  test('downloads registry templates from the given registry instead of the recorded one', async () => {
+    await createProject(
+      {},
+      { template: { name: 'my-starter', source: 'my-starter', registry: 'https://old.example.com/templates' } },
+    );
+    const registry = { url: 'https://example.com/templates', auth: 's3cr3t' };
+
+    await addFeature(projectDir, 'vitest', { registry });
+
+    expect(downloadTemplateWithResultMock).toHaveBeenCalledWith(
+      'my-starter',
+      expect.any(String),
+      registry,
+      { preferOffline: true },
+      undefined,
+    );
+  });
+
+  test('returns an InvalidArgumentError for features that are already enabled', async () => {
+    await createProject({}, { features: ['hono'] });
+
+    const result = await addFeature(projectDir, 'hono');
+
+    expect(result.success === false && result.error).toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      message: expect.stringContaining('already enabled'),
+    });
+    expect(downloadTemplateWithResultMock).not.toHaveBeenCalled();
+  });
+
+  test('returns an InvalidArgumentError listing the available features for unknown features', async () => {
+    await createProject({});
+
+    const result = await addFeature(projectDir, 'tailwind');
+
+    expect(result.success === false && result.error).toMatchObject({
+      code: 'INVALID_ARGUMENT',
+      message: expect.stringContaining('hono'),
+    });
+  });
+
+  test('returns an error for projects without scaffold metadata', async () => {
+    await writeFiles(projectDir, { 'README.md': 'mine' });
+
+    const result = await addFeature(projectDir, 'hono');
+
+    expect(result.success === false && result.error.message).toContain('.xeikit/scaffold.json not found');
+  });
+});
@@ -0,0 +1,401 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr, isOk } from '@/types/result';
+import {
+  calculateEditDistance,
+  compareVersions,
+  createBundledCatalog,
+  createCatalogUrl,
+  createTemplateSelectOptions,
+  fetchTemplateCatalog,
+  filterCatalogByTags,
+  filterCompatibleTemplates,
+  getCatalogCachePath,
+  isCatalogCacheFresh,
+  isCompatibleWithCli,
+  loadTemplateCatalog,
+  parseTemplateCatalog,
+  readCachedCatalog,
+  readRegistryResource,
+  suggestTemplateName,
+  validateTemplateAgainstCatalog,
+  writeCachedCatalog,
+} from '@/utils/catalog';
+import { CATALOG_CACHE_TTL } from '@/utils/constants';
+
+const REMOTE_CATALOG = {
+  templates: [
+    { name: 'nuxt4', label: 'Nuxt4 + Hono', description: 'Nuxt 4 with Hono', tags: ['nuxt'] },
+    { name: 'remix', label: 'Remix', tags: ['react'] },
+    { name: 'future', label: 'Future', minCliVersion: '99.0.0' },
+  ],
+};
+
+describe('src/utils/catalog.ts', () => {
+  let tempDir: string;
+  let registryDir: string;
+  let cacheDir: string;
+
+  const writeRegistryCatalog = (catalog: unknown) =>
+    fs.promises.writeFile(path.join(registryDir, 'catalog.json'), JSON.stringify(catalog));
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-catalog-'));
+    registryDir = path.join(tempDir, 'registry');
+    cacheDir = path.join(tempDir, 'cache');
+    await fs.promises.mkdir(registryDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createCatalogUrl', () => {
+    test('appends the manifest name to the registry', () => {
+      expect(createCatalogUrl('https://example.com/templates/')).toBe('https://example.com/templates/catalog.json');
+    });
+  });
+
+  describe('readRegistryResource', () => {
+    test('reads from an absolute path', async () => {
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const result = await readRegistryResource(path.join(registryDir, 'catalog.json'));
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test('reads from a file URL', async () => {
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const result = await readRegistryResource(pathToFileURL(path.join(registryDir, 'catalog.json')).href);
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test('sends the auth token as a bearer token', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, text: () => Promise.resolve('{}') });
+      vi.stubGlobal('fetch', fetchMock);
+
+      await readRegistryResource('https://example.com/catalog.json', 's3cr3t');
+
+      expect(fetchMock).toHaveBeenCalledWith('https://example.com/catalog.json', {
+        signal: expect.any(AbortSignal),
+        headers: { Authorization: 'Bearer s3cr3t' },
+      });
+    });
+
+    test('gives up on a registry that does not respond in time', async () => {
+      const controller = new AbortController();
+      const timeout = vi.spyOn(AbortSignal, 'timeout').mockReturnValue(controller.signal);
+      vi.stubGlobal(
+        'fetch',
+        vi.fn(
+          (_url: string, { signal }: RequestInit) =>
+            new Promise((_resolve, reject) => signal?.addEventListener('abort', () => reject(signal.reason))),
+        ),
+      );
+
+      const result = readRegistryResource('https://example.com/catalog.json');
+      controller.abort(new DOMException('The operation was aborted due to timeout', 'TimeoutError'));
+
+      expect(isErr(await result)).toBe(true);
+      expect(timeout).toHaveBeenCalledWith(10_000);
+      timeout.mockRestore();
+    });
+
+    test('returns error for an unsuccessful HTTP response', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' }));
+
+      const result = await readRegistryResource('https://example.com/catalog.json');
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.message).toContain('404');
+      }
+    });
+  });
+
+  describe('parseTemplateCatalog', () => {
+    test('accepts a valid catalog', () => {
+      expect(isOk(parseTemplateCatalog(REMOTE_CATALOG))).toBe(true);
+    });
+
+    test('rejects a catalog without templates array', () => {
+      const result = parseTemplateCatalog({ templates: 'nuxt4' });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toContain('templates must be an array');
+      }
+    });
+
+    test('rejects malformed entries', () => {
+      const result = parseTemplateCatalog({ templates: [{ name: 'nuxt4' }] });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toContain('entry 0');
+      }
+    });
+
+    test('accepts entries declaring their git-hosted source and versions', () => {
+      const result = parseTemplateCatalog({
+        templates: [{ name: 'nuxt4', label: 'Nuxt4', source: 'gh:xeikit/starter-templates/nuxt4', versions: ['v2'] }],
+      });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test('accepts entries declaring their package managers and Node version', () => {
+      const result = parseTemplateCatalog({
+        templates: [{ name: 'nuxt4', label: 'Nuxt4', packageManagers: ['pnpm', 'npm'], engines: { node: '>=20' } }],
+      });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test.each([
+      [{ packageManagers: ['pip'] }],
+      [{ packageManagers: 'pnpm' }],
+      [{ engines: '>=20' }],
+      [{ engines: { node: 20 } }],
+    ])('rejects entries with invalid package managers or engines: %o', (fields) => {
+      expect(isErr(parseTemplateCatalog({ templates: [{ name: 'nuxt4', label: 'Nuxt4', ...fields }] }))).toBe(true);
+    });
+
+    test.each([[{ source: 'xeikit/starter-templates' }], [{ versions: 'v2' }], [{ versions: [2] }]])(
+      'rejects entries with an invalid source or versions: %o',
+      (fields) => {
+        expect(isErr(parseTemplateCatalog({ templates: [{ name: 'nuxt4', label: 'Nuxt4', ...fields }] }))).toBe(true);
+      },
+    );
+  });
+
+  describe('fetchTemplateCatalog', () => {
+    test('fetches the catalog from a local stand-in registry', async () => {
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const result = await fetchTemplateCatalog(registryDir);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data.templates).toHaveLength(3);
+      }
+    });
+
+    test('returns error for invalid JSON', async () => {
+      await fs.promises.writeFile(path.join(registryDir, 'catalog.json'), '{');
+
+      const result = await fetchTemplateCatalog(registryDir);
+
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('catalog cache', () => {
+    test('uses a separate cache file per registry', () => {
+      expect(getCatalogCachePath('a', cacheDir)).not.toBe(getCatalogCachePath('b', cacheDir));
+      expect(getCatalogCachePath('a', cacheDir).startsWith(cacheDir)).toBe(true);
+    });
+
+    test('writes and reads a cached catalog', async () => {
+      await writeCachedCatalog(registryDir, REMOTE_CATALOG, cacheDir, 1000);
+
+      const cached = await readCachedCatalog(registryDir, cacheDir);
+
+      expect(cached).toEqual({ registry: registryDir, fetchedAt: 1000, catalog: REMOTE_CATALOG });
+    });
+
+    test('returns undefined when nothing is cached', async () => {
+      expect(await readCachedCatalog(registryDir, cacheDir)).toBeUndefined();
+    });
+
+    test('checks freshness against the TTL', () => {
+      const cached = { registry: registryDir, fetchedAt: 0, catalog: REMOTE_CATALOG };
+
+      expect(isCatalogCacheFresh(cached, CATALOG_CACHE_TTL - 1)).toBe(true);
+      expect(isCatalogCacheFresh(cached, CATALOG_CACHE_TTL)).toBe(false);
+    });
+  });
+
+  describe('compareVersions', () => {
+    test('compares numeric version parts', () => {
+      expect(compareVersions('1.2.4', '1.10.0')).toBeLessThan(0);
+      expect(compareVersions('2.0.0', '1.99.99')).toBeGreaterThan(0);
+      expect(compareVersions('v1.2.3', '1.2.3-beta.1')).toBe(0);
+    });
+  });
+
+  describe('isCompatibleWithCli', () => {
+    test('checks the minimum CLI version', () => {
+      expect(isCompatibleWithCli({ name: 'a', label: 'A' }, '1.0.0')).toBe(true);
+      expect(isCompatibleWithCli({ name: 'a', label: 'A', minCliVersion: '1.2.0' }, '1.2.0')).toBe(true);
+      expect(isCompatibleWithCli({ name: 'a', label: 'A', minCliVersion: '1.3.0' }, '1.2.0')).toBe(false);
+    });
+  });
+
+  describe('filterCompatibleTemplates', () => {
+    test('drops the templates requiring a newer CLI version', () => {
+      expect(filterCompatibleTemplates(REMOTE_CATALOG).templates.map(({ name }) => name)).toEqual(['nuxt4', 'remix']);
+    });
+  });
+
+  describe('loadTemplateCatalog', () => {
+    test('fetches and caches the catalog, keeping templates that require a newer CLI', async () => {
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const catalog = await loadTemplateCatalog({ url: registryDir }, cacheDir);
+
+      expect(catalog.templates.map(({ name }) => name)).toEqual(['nuxt4', 'remix', 'future']);
+      expect(await readCachedCatalog(registryDir, cacheDir)).toBeDefined();
+    });
+
+    test('uses a fresh cache without contacting the registry', async () => {
+      await writeCachedCatalog(registryDir, { templates: [{ name: 'cached', label: 'Cached' }] }, cacheDir);
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const catalog = await loadTemplateCatalog({ url: registryDir }, cacheDir);
+
+      expect(catalog.templates.map(({ name }) => name)).toEqual(['cached']);
+    });
+
+    test('refetches when the cache is stale', async () => {
+      await writeCachedCatalog(registryDir, { templates: [{ name: 'cached', label: 'Cached' }] }, cacheDir, 0);
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const catalog = await loadTemplateCatalog({ url: registryDir }, cacheDir);
+
+      expect(catalog.templates.map(({ name }) => name)).toEqual(['nuxt4', 'remix', 'future']);
+    });
+
+    test('falls back to a stale cache when the registry is unreachable', async () => {
+      await writeCachedCatalog(registryDir, { templates: [{ name: 'cached', label: 'Cached' }] }, cacheDir, 0);
+
+      const catalog = await loadTemplateCatalog({ url: registryDir }, cacheDir);
+
+      expect(catalog.templates.map(({ name }) => name)).toEqual(['cached']);
+    });
+
+    test('falls back to an empty catalog for other registries when offline without cache', async () => {
+      const catalog = await loadTemplateCatalog({ url: registryDir }, cacheDir);
+
+      expect(catalog).toEqual({ templates: [] });
+    });
+
+    test('falls back to the bundled catalog for the default registry when offline without cache', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND')));
+
+      const catalog = await loadTemplateCatalog(undefined, cacheDir);
+
+      expect(catalog).toEqual(createBundledCatalog());
+    });
+
+    test('uses a stale cache without refetching with --prefer-offline', async () => {
+      await writeCachedCatalog(registryDir, { templates: [{ name: 'cached', label: 'Cached' }] }, cacheDir, 0);
+      await writeRegistryCatalog(REMOTE_CATALOG);
+
+      const catalog = await loadTemplateCatalog({ url: registryDir }, cacheDir, { preferOffline: true });
+
+      expect(catalog.templates.map(({ name }) => name)).toEqual(['cached']);
+    });
+
+    test('never contacts the registry with --offline', async () => {
+      const fetchMock = vi.fn();
+      vi.stubGlobal('fetch', fetchMock);
+
+      const catalog = await loadTemplateCatalog(undefined, cacheDir, { offline: true });
+
+      expect(catalog).toEqual(createBundledCatalog());
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTemplateSelectOptions', () => {
+    test('maps catalog entries to select options', () => {
+      expect(createTemplateSelectOptions(REMOTE_CATALOG)[0]).toEqual({
+        label: 'Nuxt4 + Hono',
+        value: 'nuxt4',
+        hint: 'Nuxt 4 with Hono',
+      });
+    });
+  });
+
+  describe('filterCatalogByTags', () => {
+    test('keeps the templates having every tag, ignoring case', () => {
+      expect(filterCatalogByTags(REMOTE_CATALOG, ['NUXT']).templates.map(({ name }) => name)).toEqual(['nuxt4']);
+      expect(filterCatalogByTags(REMOTE_CATALOG, ['nuxt', 'react']).templates).toEqual([]);
+    });
+
+    test('returns every template without tags', () => {
+      expect(filterCatalogByTags(REMOTE_CATALOG, [])).toEqual(REMOTE_CATALOG);
+    });
+  });
+
+  describe('calculateEditDistance', () => {
+    test('calculates Levenshtein distance', () => {
+      expect(calculateEditDistance('nuxt', 'nuxt4')).toBe(1);
+      expect(calculateEditDistance('kitten', 'sitting')).toBe(3);
+      expect(calculateEditDistance('', 'abc')).toBe(3);
+    });
+  });
+
+  describe('suggestTemplateName', () => {
+    test('suggests the closest template name', () => {
+      expect(suggestTemplateName('nuxt', createBundledCatalog())).toBe('nuxt4');
+      expect(suggestTemplateName('tanstak-start', createBundledCatalog())).toBe('tanstack-start');
+    });
+
+    test('returns undefined when nothing is close', () => {
+      expect(suggestTemplateName('angular', createBundledCatalog())).toBeUndefined();
+    });
+  });
+
+  describe('validateTemplateAgainstCatalog', () => {
+    test('accepts known templates', () => {
+      const result = validateTemplateAgainstCatalog('nuxt4', createBundledCatalog());
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test('rejects unknown templates with a suggestion', () => {
+      const result = validateTemplateAgainstCatalog('nuxt', createBundledCatalog());
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('Unknown template "nuxt". Did you mean "nuxt4"?');
+      }
+    });
+
+    test('accepts every name for an empty catalog', () => {
+      const result = validateTemplateAgainstCatalog('anything', { templates: [] });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test('rejects templates requiring a newer CLI version with the required version', () => {
+      const result = validateTemplateAgainstCatalog('future', REMOTE_CATALOG);
+
+      expect(isErr(result) && result.error).toMatch(/^Template "future" requires create-xeikit-app >= 99\.0\.0/);
+    });
+
+    test('does not suggest templates requiring a newer CLI version', () => {
+      const result = validateTemplateAgainstCatalog('futur', REMOTE_CATALOG);
+
+      expect(isErr(result) && result.error).toBe('Unknown template "futur". Available templates: nuxt4, remix');
+    });
+
+    test('lists available templates when nothing is close', () => {
+      const result = validateTemplateAgainstCatalog('angular', createBundledCatalog());
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toContain('Available templates: nuxt4, tanstack-start, tanstack-start-x-hono');
+      }
+    });
+  });
+});
@@ -2,25 +2,22 @@ import { afterEach, describe, expect, test, vi } from 'vitest';
 import {
   checkDirectoryExists,
   createDirectoryExistsMessage,
-  handleError,
+  createPathIsFileMessage,
+  formatCommand,
+  isDirectoryEmpty,
+  isNotDirectoryError,
   resolvePath,
   validateDirectoryDoesNotExist,
-  verifyDirectoryDoesNotExist,
 } from '@/utils/common';
 
-const { existsSyncMock, consolaErrorMock } = vi.hoisted(() => ({
+const { existsSyncMock, readdirSyncMock } = vi.hoisted(() => ({
   existsSyncMock: vi.fn(),
-  consolaErrorMock: vi.fn(),
+  readdirSyncMock: vi.fn(),
 }));
 
 vi.mock('node:fs', () => ({
   existsSync: existsSyncMock,
-}));
-
-vi.mock('consola', () => ({
-  default: {
-    error: consolaErrorMock,
-  },
+  readdirSync: readdirSyncMock,
 }));
 
 describe('src/utils/common.ts', () => {
@@ -39,6 +36,26 @@ describe('src/utils/common.ts', () => {
     });
   });
 
+  describe('createPathIsFileMessage', () => {
+    test('creates correct error message with relative path', () => {
+      const result = createPathIsFileMessage('test/file.txt');
+
+      expect(result).toContain('test/file.txt');
+      expect(result).toContain('is a file, not a directory. Please choose a different directory.');
+    });
+  });
+
+  describe('isNotDirectoryError', () => {
+    test('detects ENOTDIR errors', () => {
+      expect(isNotDirectoryError(Object.assign(new Error('not a directory'), { code: 'ENOTDIR' }))).toBe(true);
+    });
+
+    test('ignores other errors', () => {
+      expect(isNotDirectoryError(Object.assign(new Error('no such file'), { code: 'ENOENT' }))).toBe(false);
+      expect(isNotDirectoryError('ENOTDIR')).toBe(false);
+    });
+  });
+
   describe('checkDirectoryExists', () => {
     test('returns true when directory exists', () => {
       existsSyncMock.mockReturnValue(true);
@@ -59,9 +76,30 @@ describe('src/utils/common.ts', () => {
     });
   });
 
+  describe('isDirectoryEmpty', () => {
+    test('returns true for an empty directory', () => {
+      readdirSyncMock.mockReturnValue([]);
+
+      expect(isDirectoryEmpty('test/path')).toBe(true);
+    });
+
+    test('ignores a .git directory', () => {
+      readdirSyncMock.mockReturnValue(['.git']);
+
+      expect(isDirectoryEmpty('test/path')).toBe(true);
+    });
+
+    test('returns false when the directory has other entries', () => {
+      readdirSyncMock.mockReturnValue(['.git', 'README.md']);
+
+      expect(isDirectoryEmpty('test/path')).toBe(false);
+    });
+  });
+
   describe('validateDirectoryDoesNotExist', () => {
     test('returns error result when directory exists', () => {
       existsSyncMock.mockReturnValue(true);
+      readdirSyncMock.mockReturnValue(['package.json']);
 
       const testPath = 'test/path';
       const result = validateDirectoryDoesNotExist(testPath);
@@ -72,6 +110,15 @@ describe('src/utils/common.ts', () => {
       }
     });
 
+    test('returns success result when directory exists but is empty', () => {
+      existsSyncMock.mockReturnValue(true);
+      readdirSyncMock.mockReturnValue([]);
+
+      const result = validateDirectoryDoesNotExist('test/path');
+
+      expect(result.success).toBe(true);
+    });
+
     test('returns success result when directory does not exist', () => {
       existsSyncMock.mockReturnValue(false);
 
@@ -85,42 +132,6 @@ describe('src/utils/common.ts', () => {
     });
   });
 
-  describe('handleError', () => {
-    test('logs error and exits process', () => {
-      const error = new Error('Test error');
-
-      expect(() => handleError(error)).toThrow('process.exit unexpectedly called with "1"');
-      expect(consolaErrorMock).toHaveBeenCalledTimes(1);
-      expect(consolaErrorMock).toHaveBeenCalledWith(error.toString());
-    });
-  });
-
-  describe('verifyDirectoryDoesNotExist', () => {
-    test('exits process when directory exists', () => {
-      existsSyncMock.mockReturnValue(true);
-
-      const testPath = 'test/path';
-
-      expect(() => verifyDirectoryDoesNotExist(testPath)).toThrow('process.exit unexpectedly called with "1"');
-      expect(consolaErrorMock).toHaveBeenCalledTimes(1);
-
-      // Verify the error message contains the expected text, ignoring color formatting
-      const errorMessage = consolaErrorMock.mock.calls[0]?.[0];
-      expect(errorMessage).toContain('The directory');
-      expect(errorMessage).toContain(testPath);
-      expect(errorMessage).toContain('already exists. Please choose a different directory.');
-    });
-
-    test('does nothing when directory does not exist', () => {
-      existsSyncMock.mockReturnValue(false);
-
-      const testPath = 'test/path';
-
-      expect(() => verifyDirectoryDoesNotExist(testPath)).not.toThrow();
-      expect(consolaErrorMock).not.toHaveBeenCalled();
-    });
-  });
-
   describe('resolvePath', () => {
     test('resolves path correctly', () => {
       const cwd = '/current/working/directory';
@@ -130,4 +141,11 @@ describe('src/utils/common.ts', () => {
       expect(result).toBe(`${cwd}/${dir}`);
     });
   });
+
+  describe('formatCommand', () => {
+    test('quotes arguments that need quoting', () => {
+      expect(formatCommand('pnpm', ['install'])).toBe('pnpm install');
+      expect(formatCommand('git', ['commit', '-m', "it's done", ''])).toBe(`git commit -m 'it'\\''s done' ''`);
+    });
+  });
 });
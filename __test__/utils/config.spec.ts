@@ -0,0 +1,231 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr, isOk } from '@/types/result';
+import {
+  applyConfigDefaults,
+  getProjectConfigPath,
+  getUserConfigPath,
+  isCliDefaultKey,
+  loadCliConfig,
+  mergeCliConfigs,
+  parseCliDefaultValue,
+  readConfigFile,
+  updateUserConfigDefaults,
+  validateCliConfig,
+} from '@/utils/config';
+
+describe('src/utils/config.ts', () => {
+  let tempDir: string;
+  let env: NodeJS.ProcessEnv;
+
+  const writeJson = async (filePath: string, contents: unknown) => {
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, typeof contents === 'string' ? contents : JSON.stringify(contents));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-config-'));
+    env = { XDG_CONFIG_HOME: path.join(tempDir, 'config') };
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('config paths', () => {
+    test('resolves the user config path', () => {
+      expect(getUserConfigPath({ XDG_CONFIG_HOME: '/tmp/config' })).toBe('/tmp/config/create-xeikit-app/config.json');
+    });
+
+    test('resolves the project config path', () => {
+      expect(getProjectConfigPath('/work')).toBe('/work/.xeikitrc.json');
+    });
+  });
+
+  describe('validateCliConfig', () => {
+    test('accepts an empty object', () => {
+      expect(validateCliConfig({})).toEqual({ success: true, data: {} });
+    });
+
+    test('accepts named registries', () => {
+      const result = validateCliConfig({ registries: { internal: { url: 'https://example.com', tokenEnv: 'TOKEN' } } });
+
+      expect(isOk(result)).toBe(true);
+    });
+
+    test('rejects non-object configuration', () => {
+      expect(isErr(validateCliConfig([]))).toBe(true);
+      expect(isErr(validateCliConfig('config'))).toBe(true);
+    });
+
+    test('rejects registries without url', () => {
+      const result = validateCliConfig({ registries: { internal: { tokenEnv: 'TOKEN' } } });
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('Invalid registry "internal": a "url" string is required');
+      }
+    });
+
+    test('accepts defaults and ignores unknown defaults', () => {
+      const result = validateCliConfig({ defaults: { template: 'nuxt4', install: false, color: 'blue' } });
+
+      expect(result).toEqual({ success: true, data: { defaults: { template: 'nuxt4', install: false } } });
+    });
+
+    test.each([
+      [{ defaults: 'pnpm' }, '"defaults" must be an object'],
+      [{ defaults: { install: 'yes' } }, 'Invalid default "install" must be true or false'],
+      [{ defaults: { packageManager: 'pip' } }, 'Invalid default "packageManager" must be one of'],
+      [{ defaults: { author: 'Jane' } }, 'Invalid default "author" must be "Name <email>"'],
+      [{ defaults: { template: '' } }, 'Invalid default "template" must be a non-empty string'],
+    ])('rejects invalid defaults %j', (raw, message) => {
+      const result = validateCliConfig(raw);
+
+      expect(isErr(result) && result.error).toContain(message);
+    });
+  });
+
+  describe('isCliDefaultKey and parseCliDefaultValue', () => {
+    test('recognizes the names of the defaults', () => {
+      expect(isCliDefaultKey('packageManager')).toBe(true);
+      expect(isCliDefaultKey('color')).toBe(false);
+    });
+
+    test('parses booleans and validates values', () => {
+      expect(parseCliDefaultValue('install', 'false')).toEqual({ success: true, data: false });
+      expect(parseCliDefaultValue('gitInit', ' true ')).toEqual({ success: true, data: true });
+      expect(parseCliDefaultValue('author', 'Jane Doe <jane@example.com>')).toEqual({
+        success: true,
+        data: 'Jane Doe <jane@example.com>',
+      });
+      expect(isErr(parseCliDefaultValue('install', 'yes'))).toBe(true);
+      expect(isErr(parseCliDefaultValue('packageManager', 'pip'))).toBe(true);
+    });
+  });
+
+  describe('readConfigFile', () => {
+    test('returns an empty configuration for a missing file', async () => {
+      const result = await readConfigFile(path.join(tempDir, 'missing.json'));
+
+      expect(result).toEqual({ success: true, data: {} });
+    });
+
+    test('returns an error including the path for invalid JSON', async () => {
+      const filePath = path.join(tempDir, 'broken.json');
+      await writeJson(filePath, '{');
+
+      const result = await readConfigFile(filePath);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error.message).toContain(filePath);
+      }
+    });
+  });
+
+  describe('mergeCliConfigs', () => {
+    test('merges registries with project precedence', () => {
+      const merged = mergeCliConfigs(
+        { registries: { a: { url: 'https://user-a' }, b: { url: 'https://user-b' } } },
+        { registries: { b: { url: 'https://project-b' } } },
+      );
+
+      expect(merged.registries).toEqual({ a: { url: 'https://user-a' }, b: { url: 'https://project-b' } });
+    });
+
+    test('merges defaults with project precedence', () => {
+      const merged = mergeCliConfigs(
+        { defaults: { template: 'nuxt4', packageManager: 'pnpm' } },
+        { defaults: { template: 'vue' } },
+      );
+
+      expect(merged.defaults).toEqual({ template: 'vue', packageManager: 'pnpm' });
+    });
+  });
+
+  describe('loadCliConfig', () => {
+    test('loads and merges user and project configuration', async () => {
+      await writeJson(getUserConfigPath(env), { registries: { user: { url: 'https://user' } } });
+      await writeJson(getProjectConfigPath(tempDir), { registries: { project: { url: 'https://project' } } });
+
+      const result = await loadCliConfig(tempDir, env);
+
+      expect(result).toEqual({
+        success: true,
+        data: { defaults: {}, registries: { user: { url: 'https://user' }, project: { url: 'https://project' } } },
+      });
+    });
+
+    test('returns an error for an invalid project configuration', async () => {
+      await writeJson(getProjectConfigPath(tempDir), { registries: 'invalid' });
+
+      const result = await loadCliConfig(tempDir, env);
+
+      expect(isErr(result)).toBe(true);
+    });
+  });
+
+  describe('updateUserConfigDefaults', () => {
+    test('stores defaults and keeps the other settings', async () => {
+      const configPath = getUserConfigPath(env);
+      await writeJson(configPath, { registries: { user: { url: 'https://user' } }, future: true });
+
+      const result = await updateUserConfigDefaults((defaults) => ({ ...defaults, packageManager: 'pnpm' }), env);
+
+      expect(result).toEqual({ success: true, data: { packageManager: 'pnpm' } });
+      expect(JSON.parse(await fs.promises.readFile(configPath, 'utf8'))).toEqual({
+        registries: { user: { url: 'https://user' } },
+        future: true,
+        defaults: { packageManager: 'pnpm' },
+      });
+    });
+
+    test('creates the file and removes empty defaults', async () => {
+      const configPath = getUserConfigPath(env);
+
+      await updateUserConfigDefaults(() => ({ install: false }), env);
+      expect(JSON.parse(await fs.promises.readFile(configPath, 'utf8'))).toEqual({ defaults: { install: false } });
+
+      await updateUserConfigDefaults(() => ({}), env);
+      expect(JSON.parse(await fs.promises.readFile(configPath, 'utf8'))).toEqual({});
+    });
+
+    test('does not overwrite an invalid file', async () => {
+      const configPath = getUserConfigPath(env);
+      await writeJson(configPath, '{');
+
+      const result = await updateUserConfigDefaults(() => ({ install: false }), env);
+
+      expect(isErr(result)).toBe(true);
+      expect(await fs.promises.readFile(configPath, 'utf8')).toBe('{');
+    });
+  });
+
+  describe('applyConfigDefaults', () => {
+    test('fills options that are not given', () => {
+      const args = applyConfigDefaults(
+        { template: '', packageManager: 'npm', install: undefined, gitInit: false, gitAuthor: '' },
+        { template: 'nuxt4', packageManager: 'pnpm', install: false, gitInit: true, author: 'Jane <jane@example.com>' },
+      );
+
+      expect(args).toEqual({
+        template: 'nuxt4',
+        packageManager: 'npm',
+        install: false,
+        gitInit: false,
+        gitAuthor: 'Jane <jane@example.com>',
+      });
+    });
+
+    test('returns the arguments unchanged without defaults', () => {
+      const args = { template: '', registry: '' };
+
+      expect(applyConfigDefaults(args)).toEqual(args);
+    });
+  });
+});
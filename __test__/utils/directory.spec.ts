@@ -0,0 +1,214 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import consola from 'consola';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr, isOk } from '@/types/result';
+import {
+  backupDirectory,
+  createBackupPath,
+  createExistingDirectoryOptions,
+  mergeDirectoryInto,
+  mergeTemplate,
+  prepareExistingDirectory,
+  resolveExistingDirectoryStrategy,
+  validateExistingDirectoryFlags,
+} from '@/utils/directory';
+
+const { promptMock } = vi.hoisted(() => ({
+  promptMock: vi.fn(),
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    prompt: promptMock,
+    error: vi.fn(),
+    warn: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+describe('src/utils/directory.ts', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeFiles = async (root: string, files: Record<string, string>) => {
+    for (const [file, contents] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(root, file)), { recursive: true });
+      await fs.promises.writeFile(path.join(root, file), contents);
+    }
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-directory-'));
+    projectDir = path.join(tempDir, 'my-app');
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateExistingDirectoryFlags', () => {
+    test('rejects --force combined with --merge', () => {
+      expect(isErr(validateExistingDirectoryFlags({ force: true, merge: true }))).toBe(true);
+      expect(isOk(validateExistingDirectoryFlags({ force: true }))).toBe(true);
+    });
+  });
+
+  describe('createExistingDirectoryOptions', () => {
+    test('offers all strategies without --force', () => {
+      expect(createExistingDirectoryOptions().map(({ value }) => value)).toEqual([
+        'merge',
+        'backup',
+        'clear',
+        'cancel',
+      ]);
+    });
+
+    test('offers only replacing strategies with --force', () => {
+      expect(createExistingDirectoryOptions(true).map(({ value }) => value)).toEqual(['backup', 'clear', 'cancel']);
+    });
+  });
+
+  describe('resolveExistingDirectoryStrategy', () => {
+    test('needs no strategy for missing, empty or .git-only directories', async () => {
+      expect(await resolveExistingDirectoryStrategy(projectDir, {})).toEqual({ success: true, data: undefined });
+
+      await fs.promises.mkdir(path.join(projectDir, '.git'), { recursive: true });
+      expect(await resolveExistingDirectoryStrategy(projectDir, {}, true)).toEqual({ success: true, data: undefined });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('merges with --merge', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+
+      expect(await resolveExistingDirectoryStrategy(projectDir, { merge: true })).toEqual({
+        success: true,
+        data: 'merge',
+      });
+    });
+
+    test('backs up with --force without prompts', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+
+      expect(await resolveExistingDirectoryStrategy(projectDir, { force: true }, true)).toEqual({
+        success: true,
+        data: 'backup',
+      });
+    });
+
+    test('fails with a directory exists error without flags when prompts are disabled', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+
+      const result = await resolveExistingDirectoryStrategy(projectDir, {}, true);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toMatchObject({ code: 'DIRECTORY_EXISTS', path: projectDir });
+        expect(result.error.message).toContain('--force or --merge');
+      }
+    });
+
+    test('fails with a directory exists error when the path is a file, whatever the flags', async () => {
+      await writeFiles(tempDir, { 'my-app': 'not a directory' });
+
+      for (const flags of [{}, { merge: true }, { force: true }]) {
+        const result = await resolveExistingDirectoryStrategy(projectDir, flags, true);
+
+        expect(isErr(result)).toBe(true);
+        if (isErr(result)) {
+          expect(result.error).toMatchObject({ code: 'DIRECTORY_EXISTS', path: projectDir });
+          expect(result.error.message).toContain('is a file, not a directory');
+        }
+      }
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('asks the user when a TTY is available', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+      promptMock.mockResolvedValue('clear');
+
+      const result = await resolveExistingDirectoryStrategy(projectDir, { force: true });
+
+      expect(result).toEqual({ success: true, data: 'clear' });
+      expect(consola.prompt).toHaveBeenCalledWith(
+        expect.stringContaining('is not empty'),
+        expect.objectContaining({ type: 'select' }),
+      );
+    });
+
+    test('returns an error when the user cancels', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+      promptMock.mockResolvedValue('cancel');
+
+      const result = await resolveExistingDirectoryStrategy(projectDir, {});
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'CANCELLED' });
+    });
+  });
+
+  describe('backupDirectory', () => {
+    test('creates the backup path next to the directory', () => {
+      expect(createBackupPath('/Users/john/my-app', 1700000000000)).toBe('/Users/john/my-app.backup-1700000000000');
+    });
+
+    test('moves the directory aside', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+
+      const result = await backupDirectory(projectDir);
+
+      expect(isOk(result)).toBe(true);
+      expect(fs.existsSync(projectDir)).toBe(false);
+      if (isOk(result)) {
+        expect(fs.readFileSync(path.join(result.data, 'README.md'), 'utf8')).toBe('hello');
+      }
+    });
+  });
+
+  describe('prepareExistingDirectory', () => {
+    test('moves the directory aside when clearing so it can be restored', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+
+      const result = await prepareExistingDirectory(projectDir, 'clear');
+
+      expect(fs.existsSync(projectDir)).toBe(false);
+      expect(isOk(result) && result.data && fs.existsSync(path.join(result.data, 'README.md'))).toBe(true);
+    });
+
+    test('leaves the directory alone when merging', async () => {
+      await writeFiles(projectDir, { 'README.md': 'hello' });
+
+      expect(await prepareExistingDirectory(projectDir, 'merge')).toEqual({ success: true, data: undefined });
+      expect(fs.existsSync(path.join(projectDir, 'README.md'))).toBe(true);
+    });
+  });
+
+  describe('mergeDirectoryInto', () => {
+    test('writes new files and reports conflicting ones', async () => {
+      const stagingDir = path.join(tempDir, 'staging');
+      await writeFiles(stagingDir, { 'package.json': '{}', 'README.md': 'template', 'src/index.ts': 'export {};' });
+      await writeFiles(projectDir, { 'package.json': '{}', 'README.md': 'mine' });
+
+      const result = await mergeDirectoryInto(stagingDir, projectDir);
+
+      expect(result).toEqual({ success: true, data: { written: ['src/index.ts'], conflicts: ['README.md'] } });
+      expect(fs.readFileSync(path.join(projectDir, 'README.md'), 'utf8')).toBe('mine');
+      expect(fs.existsSync(path.join(projectDir, 'src', 'index.ts'))).toBe(true);
+    });
+  });
+
+  describe('mergeTemplate', () => {
+    test('reports conflicts file by file and removes the staging directory', async () => {
+      const stagingDir = path.join(tempDir, 'staging');
+      await writeFiles(stagingDir, { 'README.md': 'template' });
+      await writeFiles(projectDir, { 'README.md': 'mine' });
+
+      const result = await mergeTemplate(stagingDir, projectDir);
+
+      expect(isOk(result) && result.data.conflicts).toEqual(['README.md']);
+      expect(consola.warn).toHaveBeenCalledWith(expect.stringContaining('README.md'));
+      expect(fs.existsSync(stagingDir)).toBe(false);
+    });
+  });
+});
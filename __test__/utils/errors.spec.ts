@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'vitest';
+import {
+  createCancelledError,
+  createDirectoryExistsError,
+  createDownloadFailedError,
+  createInstallFailedError,
+  createInvalidArgumentError,
+  createProjectCreationError,
+  formatProjectCreationError,
+  getExitCode,
+  isProjectCreationError,
+} from '@/utils/errors';
+
+describe('src/utils/errors.ts', () => {
+  describe('error factories', () => {
+    test('create errors discriminated by code', () => {
+      expect(createCancelledError()).toMatchObject({ code: 'CANCELLED', message: 'Project creation cancelled' });
+      expect(createInvalidArgumentError('Missing required option dir.', 'dir')).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        option: 'dir',
+      });
+      expect(createDirectoryExistsError('/work/my-app', 'The directory my-app already exists.')).toMatchObject({
+        code: 'DIRECTORY_EXISTS',
+        path: '/work/my-app',
+      });
+    });
+
+    test('keep the cause of download and install failures', () => {
+      const cause = new Error('404 Not Found');
+
+      expect(createDownloadFailedError('nuxt4', cause)).toMatchObject({
+        code: 'DOWNLOAD_FAILED',
+        template: 'nuxt4',
+        message: '404 Not Found',
+        cause,
+      });
+      expect(createInstallFailedError('pnpm', 'boom')).toMatchObject({
+        code: 'INSTALL_FAILED',
+        packageManager: 'pnpm',
+        message: 'Dependencies installation failed',
+      });
+    });
+  });
+
+  describe('isProjectCreationError', () => {
+    test.each([
+      [createCancelledError(), true],
+      [new Error('boom'), false],
+      [Object.assign(new Error('ENOENT'), { code: 'ENOENT' }), false],
+      ['CANCELLED', false],
+    ])('detects %s', (error, expected) => {
+      expect(isProjectCreationError(error)).toBe(expected);
+    });
+  });
+
+  describe('createProjectCreationError', () => {
+    test('keeps typed errors and adds the step', () => {
+      const error = createInstallFailedError('npm', new Error('ERR'));
+
+      expect(createProjectCreationError(error, 'install')).toBe(error);
+      expect(error.step).toBe('install');
+    });
+
+    test('turns cancelled prompts into cancelled errors', () => {
+      const error = Object.assign(new Error('Prompt cancelled.'), { name: 'ConsolaPromptCancelledError' });
+
+      expect(createProjectCreationError(error, 'template')).toMatchObject({ code: 'CANCELLED', step: 'template' });
+    });
+
+    test.each([
+      ['config', 'INVALID_ARGUMENT'],
+      ['directory', 'INVALID_ARGUMENT'],
+      ['template', 'INVALID_ARGUMENT'],
+      ['render', 'FAILED'],
+      ['git', 'FAILED'],
+      [undefined, 'FAILED'],
+    ] as const)('classifies untyped errors of the %s step as %s', (step, code) => {
+      expect(createProjectCreationError(new Error('boom'), step)).toMatchObject({ code, message: 'boom' });
+    });
+
+    test('wraps values that are not errors', () => {
+      const error = createProjectCreationError('boom');
+
+      expect(error.message).toBe('Project creation workflow failed');
+      expect(error.code).toBe('FAILED');
+      expect(error).not.toHaveProperty('step');
+    });
+  });
+
+  describe('formatProjectCreationError', () => {
+    test.each([
+      [createCancelledError('Prompt cancelled.'), 'Project creation cancelled.'],
+      [createDownloadFailedError('nuxt4', new Error('404')), 'Failed to download the template nuxt4: 404'],
+      [createInstallFailedError('pnpm', new Error('ERR')), 'Failed to install dependencies with pnpm: ERR'],
+      [createInvalidArgumentError('Invalid package manager: pnp'), 'Invalid package manager: pnp'],
+    ])('creates the message of %s', (error, message) => {
+      expect(formatProjectCreationError(error)).toBe(message);
+    });
+  });
+
+  describe('getExitCode', () => {
+    test.each([
+      ['FAILED', 1],
+      ['INVALID_ARGUMENT', 2],
+      ['DIRECTORY_EXISTS', 3],
+      ['DOWNLOAD_FAILED', 4],
+      ['INSTALL_FAILED', 5],
+      ['CANCELLED', 130],
+    ] as const)('returns the exit code of %s', (code, exitCode) => {
+      expect(getExitCode(code)).toBe(exitCode);
+    });
+  });
+});
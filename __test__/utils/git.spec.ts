@@ -1,13 +1,24 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import consola from 'consola';
 import { afterEach, describe, expect, test, vi } from 'vitest';
 import { isErr, isOk } from '@/types/result';
 import {
+  createGitCommands,
+  createGitCommitArgs,
   createGitInitArgs,
   determineGitInitialization,
+  executeGitCommit,
   executeGitInit,
-  initializeGitIfRequested,
+  findGitWorkTree,
+  initializeGit,
+  parseGitAuthor,
   promptForGitInitialization,
+  resolveGitInitialization,
+  validateGitBranchName,
   validateGitInitParam,
+  validateGitOptions,
 } from '@/utils/git';
 
 const { promptMock, xMock } = vi.hoisted(() => ({
@@ -20,6 +31,8 @@ vi.mock('consola', () => ({
     prompt: promptMock,
     info: vi.fn(),
     warn: vi.fn(),
+    error: vi.fn(),
+    success: vi.fn(),
   },
 }));
 
@@ -110,6 +123,75 @@ describe('src/utils/git.ts', () => {
       }
       expect(promptMock).toHaveBeenCalled();
     });
+
+    test('returns default without prompting in non-interactive mode', async () => {
+      const result = await determineGitInitialization(undefined, true);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(true);
+      }
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('prefers explicit parameter over default in non-interactive mode', async () => {
+      const result = await determineGitInitialization(false, true);
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toBe(false);
+      }
+    });
+  });
+
+  describe('validateGitBranchName', () => {
+    test.each(['main', 'feature/scaffold', 'release-1.0'])('accepts %s', (branch) => {
+      expect(isOk(validateGitBranchName(branch))).toBe(true);
+    });
+
+    test.each(['', 'my branch', '-main', 'a..b', 'main/', 'main.lock', 'a:b', '@'])('rejects %s', (branch) => {
+      expect(isErr(validateGitBranchName(branch))).toBe(true);
+    });
+  });
+
+  describe('parseGitAuthor', () => {
+    test('parses name and email', () => {
+      expect(parseGitAuthor('Jane Doe <jane@example.com>')).toEqual({
+        success: true,
+        data: { name: 'Jane Doe', email: 'jane@example.com' },
+      });
+    });
+
+    test('returns error without an email', () => {
+      expect(parseGitAuthor('Jane Doe')).toEqual({
+        success: false,
+        error: 'Invalid git author: "Jane Doe" (expected "Name <email>")',
+      });
+    });
+  });
+
+  describe('validateGitOptions', () => {
+    test('accepts empty options', () => {
+      expect(isOk(validateGitOptions({ branch: '', author: '' }))).toBe(true);
+    });
+
+    test('returns the first invalid option', () => {
+      expect(validateGitOptions({ branch: 'my branch', author: 'nobody' })).toEqual({
+        success: false,
+        error: 'Invalid git branch name: "my branch"',
+      });
+    });
+  });
+
+  describe('findGitWorkTree', () => {
+    test('finds the nearest directory with a .git entry', async () => {
+      const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-git-'));
+      await fs.promises.mkdir(path.join(tempDir, '.git'));
+      await fs.promises.mkdir(path.join(tempDir, 'apps', 'web'), { recursive: true });
+
+      expect(findGitWorkTree(path.join(tempDir, 'apps', 'web'))).toBe(tempDir);
+      expect(findGitWorkTree(tempDir)).toBe(tempDir);
+
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
   });
 
   describe('createGitInitArgs', () => {
@@ -117,6 +199,90 @@ describe('src/utils/git.ts', () => {
       const args = createGitInitArgs('/test/dir');
       expect(args).toEqual(['init', '/test/dir']);
     });
+
+    test('sets the initial branch', () => {
+      expect(createGitInitArgs('/test/dir', 'main')).toEqual(['init', '--initial-branch=main', '/test/dir']);
+    });
+  });
+
+  describe('createGitCommitArgs', () => {
+    test('creates commit arguments', () => {
+      expect(createGitCommitArgs('Initial commit')).toEqual(['commit', '-m', 'Initial commit']);
+    });
+
+    test('passes the author as configuration', () => {
+      expect(createGitCommitArgs('Initial commit', { name: 'Jane', email: 'jane@example.com' })).toEqual([
+        '-c',
+        'user.name=Jane',
+        '-c',
+        'user.email=jane@example.com',
+        'commit',
+        '-m',
+        'Initial commit',
+      ]);
+    });
+  });
+
+  describe('createGitCommands', () => {
+    test('lists git init only without a commit', () => {
+      expect(createGitCommands('my-app')).toEqual(['git init my-app']);
+    });
+
+    test('lists the commit commands with quoted arguments', () => {
+      expect(
+        createGitCommands('my-app', {
+          branch: 'main',
+          commit: true,
+          commitMessage: 'chore: scaffold',
+          author: 'Jane Doe <jane@example.com>',
+        }),
+      ).toEqual([
+        'git init --initial-branch=main my-app',
+        'git add -A',
+        "git -c 'user.name=Jane Doe' -c user.email=jane@example.com commit -m 'chore: scaffold'",
+      ]);
+    });
+  });
+
+  describe('resolveGitInitialization', () => {
+    test('decides without running git', async () => {
+      const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-git-'));
+
+      expect(await resolveGitInitialization(undefined, tempDir, true)).toEqual({ success: true, data: true });
+      expect(await resolveGitInitialization(false, tempDir)).toEqual({ success: true, data: false });
+
+      await fs.promises.mkdir(path.join(tempDir, '.git'));
+      expect(await resolveGitInitialization(true, tempDir)).toEqual({ success: true, data: false });
+      expect(xMock).not.toHaveBeenCalled();
+
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('executeGitCommit', () => {
+    test('stages all files and commits in the project directory', async () => {
+      xMock.mockResolvedValue(undefined);
+
+      const result = await executeGitCommit('/test/dir', 'Initial commit');
+
+      expect(isOk(result)).toBe(true);
+      expect(xMock).toHaveBeenNthCalledWith(1, 'git', ['add', '-A'], {
+        throwOnError: true,
+        nodeOptions: { cwd: '/test/dir' },
+      });
+      expect(xMock).toHaveBeenNthCalledWith(2, 'git', ['commit', '-m', 'Initial commit'], {
+        throwOnError: true,
+        nodeOptions: { cwd: '/test/dir' },
+      });
+    });
+
+    test('returns error when the commit fails', async () => {
+      xMock.mockResolvedValueOnce(undefined).mockRejectedValueOnce(new Error('Author identity unknown'));
+
+      const result = await executeGitCommit('/test/dir', 'Initial commit');
+
+      expect(isErr(result)).toBe(true);
+    });
   });
 
   describe('executeGitInit', () => {
@@ -131,6 +297,16 @@ describe('src/utils/git.ts', () => {
       });
     });
 
+    test('hides the output of git when silent', async () => {
+      xMock.mockResolvedValue(undefined);
+
+      await executeGitInit('/test/dir', undefined, true);
+      expect(xMock).toHaveBeenCalledWith('git', ['init', '/test/dir'], {
+        throwOnError: true,
+        nodeOptions: { stdio: 'pipe' },
+      });
+    });
+
     test('returns error on git init failure', async () => {
       const error = new Error('Git init failed');
       xMock.mockRejectedValue(error);
@@ -143,11 +319,11 @@ describe('src/utils/git.ts', () => {
     });
   });
 
-  describe('initializeGitIfRequested', () => {
+  describe('initializeGit', () => {
     test('initializes git when shouldInitParam is true', async () => {
       xMock.mockResolvedValue(undefined);
 
-      await initializeGitIfRequested(true, '/test/dir');
+      expect(await initializeGit(true, '/test/dir')).toEqual({ success: true, data: true });
 
       expect(promptMock).not.toHaveBeenCalled();
       expect(consola.info).toHaveBeenCalledWith('Initializing git repository...\n');
@@ -159,7 +335,7 @@ describe('src/utils/git.ts', () => {
     });
 
     test('does not initialize git when shouldInitParam is false', async () => {
-      await initializeGitIfRequested(false, '/test/dir');
+      await initializeGit(false, '/test/dir');
 
       expect(promptMock).not.toHaveBeenCalled();
       expect(consola.info).not.toHaveBeenCalled();
@@ -170,7 +346,7 @@ describe('src/utils/git.ts', () => {
       promptMock.mockResolvedValue(true);
       xMock.mockResolvedValue(undefined);
 
-      await initializeGitIfRequested(undefined, '/test/dir');
+      await initializeGit(undefined, '/test/dir');
 
       expect(promptMock).toHaveBeenCalledWith('Initialize git repository?', {
         type: 'confirm',
@@ -186,7 +362,7 @@ describe('src/utils/git.ts', () => {
     test('prompts user when shouldInitParam is undefined and user declines', async () => {
       promptMock.mockResolvedValue(false);
 
-      await initializeGitIfRequested(undefined, '/test/dir');
+      await initializeGit(undefined, '/test/dir');
 
       expect(promptMock).toHaveBeenCalledWith('Initialize git repository?', {
         type: 'confirm',
@@ -200,17 +376,122 @@ describe('src/utils/git.ts', () => {
       const error = new Error('Git not found');
       xMock.mockRejectedValue(error);
 
-      await initializeGitIfRequested(true, '/test/dir');
+      await initializeGit(true, '/test/dir');
 
       expect(consola.warn).toHaveBeenCalledWith('Failed to initialize git repository: Git not found');
     });
 
-    test('exits when prompt is cancelled', async () => {
+    test('initializes git without prompting in non-interactive mode', async () => {
+      xMock.mockResolvedValue(undefined);
+
+      await initializeGit(undefined, '/test/dir', true);
+
+      expect(promptMock).not.toHaveBeenCalled();
+      expect(xMock).toHaveBeenCalledWith('git', ['init', '/test/dir'], {
+        throwOnError: true,
+        nodeOptions: { stdio: 'inherit' },
+      });
+    });
+
+    test('returns the error when prompt is cancelled', async () => {
       promptMock.mockRejectedValue(new Error('Prompt cancelled'));
 
-      await expect(initializeGitIfRequested(undefined, '/test/dir')).rejects.toThrow(
-        'process.exit unexpectedly called with "1"',
+      expect(isErr(await initializeGit(undefined, '/test/dir'))).toBe(true);
+      expect(xMock).not.toHaveBeenCalled();
+    });
+
+    test('creates the initial commit on the requested branch', async () => {
+      xMock.mockResolvedValue(undefined);
+
+      await initializeGit(true, '/test/dir', false, {
+        branch: 'main',
+        commit: true,
+        commitMessage: 'chore: scaffold',
+        author: 'Jane <jane@example.com>',
+      });
+
+      expect(xMock).toHaveBeenCalledWith('git', ['init', '--initial-branch=main', '/test/dir'], {
+        throwOnError: true,
+        nodeOptions: { stdio: 'inherit' },
+      });
+      expect(xMock).toHaveBeenCalledWith(
+        'git',
+        ['-c', 'user.name=Jane', '-c', 'user.email=jane@example.com', 'commit', '-m', 'chore: scaffold'],
+        { throwOnError: true, nodeOptions: { cwd: '/test/dir' } },
       );
+      expect(consola.success).toHaveBeenCalledWith('Created the initial commit "chore: scaffold".');
+    });
+
+    test('warns when the initial commit fails', async () => {
+      xMock
+        .mockResolvedValueOnce(undefined)
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error('Author identity unknown'));
+
+      await initializeGit(true, '/test/dir', false, { commit: true });
+
+      expect(consola.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to create the initial commit'));
+    });
+
+    describe('inside another work tree', () => {
+      let tempDir: string;
+      let projectDir: string;
+
+      const setupParentRepository = async () => {
+        tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-git-'));
+        projectDir = path.join(tempDir, 'apps', 'web');
+        await fs.promises.mkdir(path.join(tempDir, '.git'));
+        await fs.promises.mkdir(projectDir, { recursive: true });
+      };
+
+      afterEach(async () => {
+        await fs.promises.rm(tempDir, { recursive: true, force: true });
+      });
+
+      test('asks before creating a nested repository', async () => {
+        await setupParentRepository();
+        promptMock.mockResolvedValue(false);
+
+        await initializeGit(true, projectDir);
+
+        expect(promptMock).toHaveBeenCalledWith(
+          expect.stringContaining(tempDir),
+          expect.objectContaining({ initial: false }),
+        );
+        expect(xMock).not.toHaveBeenCalled();
+      });
+
+      test('creates a nested repository when confirmed', async () => {
+        await setupParentRepository();
+        promptMock.mockResolvedValue(true);
+        xMock.mockResolvedValue(undefined);
+
+        await initializeGit(true, projectDir);
+
+        expect(xMock).toHaveBeenCalledWith('git', ['init', projectDir], expect.any(Object));
+      });
+
+      test('skips nested repositories without prompts unless --git-init was passed', async () => {
+        await setupParentRepository();
+        xMock.mockResolvedValue(undefined);
+
+        await initializeGit(undefined, projectDir, true);
+        expect(xMock).not.toHaveBeenCalled();
+        expect(consola.warn).toHaveBeenCalledWith(expect.stringContaining('Pass --git-init'));
+
+        await initializeGit(true, projectDir, true);
+        expect(xMock).toHaveBeenCalledWith('git', ['init', projectDir], expect.any(Object));
+        expect(promptMock).not.toHaveBeenCalled();
+      });
+
+      test('leaves existing repositories alone', async () => {
+        await setupParentRepository();
+
+        await initializeGit(true, tempDir);
+
+        expect(promptMock).not.toHaveBeenCalled();
+        expect(xMock).not.toHaveBeenCalled();
+      });
     });
   });
 });
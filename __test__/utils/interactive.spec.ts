@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { createMissingOptionMessage, isInteractiveEnvironment, resolveNonInteractiveMode } from '@/utils/interactive';
+
+const { stdEnvMock } = vi.hoisted(() => ({
+  stdEnvMock: { hasTTY: true, isCI: false },
+}));
+
+vi.mock('std-env', () => ({
+  get hasTTY() {
+    return stdEnvMock.hasTTY;
+  },
+  get isCI() {
+    return stdEnvMock.isCI;
+  },
+}));
+
+describe('src/utils/interactive.ts', () => {
+  afterEach(() => {
+    stdEnvMock.hasTTY = true;
+    stdEnvMock.isCI = false;
+  });
+
+  describe('isInteractiveEnvironment', () => {
+    test('returns true with a TTY outside of CI', () => {
+      expect(isInteractiveEnvironment()).toBe(true);
+    });
+
+    test('returns false without a TTY', () => {
+      stdEnvMock.hasTTY = false;
+      expect(isInteractiveEnvironment()).toBe(false);
+    });
+
+    test('returns false on CI', () => {
+      stdEnvMock.isCI = true;
+      expect(isInteractiveEnvironment()).toBe(false);
+    });
+  });
+
+  describe('resolveNonInteractiveMode', () => {
+    test('returns true when --yes is given', () => {
+      expect(resolveNonInteractiveMode(true)).toBe(true);
+    });
+
+    test('returns false in an interactive environment without --yes', () => {
+      expect(resolveNonInteractiveMode(undefined)).toBe(false);
+      expect(resolveNonInteractiveMode(false)).toBe(false);
+    });
+
+    test('returns true on CI even without --yes', () => {
+      stdEnvMock.isCI = true;
+      expect(resolveNonInteractiveMode(undefined)).toBe(true);
+    });
+  });
+
+  describe('createMissingOptionMessage', () => {
+    test('names the missing option', () => {
+      const message = createMissingOptionMessage('dir');
+
+      expect(message).toContain('Missing required option dir');
+      expect(message).toContain('--yes');
+    });
+  });
+});
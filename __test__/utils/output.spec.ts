@@ -0,0 +1,102 @@
+import consola from 'consola';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import type { ProjectCreationPlan, ProjectCreationResult } from '@/types/api';
+import { Err, Ok } from '@/types/result';
+import { createDownloadFailedError, createProjectCreationError } from '@/utils/errors';
+import { captureWarnings, createProjectCreationReport, createProjectPlanReport, printReport } from '@/utils/output';
+
+vi.mock('consola', () => ({
+  default: {
+    setReporters: vi.fn(),
+  },
+}));
+
+describe('src/utils/output.ts', () => {
+  const result: ProjectCreationResult = {
+    projectDir: 'my-app',
+    paths: { project: '/work/my-app' },
+    packageName: 'my-app',
+    template: { name: 'nuxt4', source: 'github:xeikit/nuxt4-template', registry: 'https://example.com/templates' },
+    features: ['docker'],
+    variables: {},
+    packageManager: 'pnpm',
+    installed: true,
+    gitInitialized: false,
+    templateHooks: [],
+    timings: { steps: {}, total: 10 },
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('captureWarnings', () => {
+    test('collects the warnings and drops every other log', () => {
+      const warnings = captureWarnings();
+      const [[reporters]] = vi.mocked(consola.setReporters).mock.calls as unknown as [
+        [{ log: (logObj: { type: string; args: unknown[] }) => void }[]],
+      ];
+      const [reporter] = reporters;
+
+      reporter?.log({ type: 'info', args: ['Downloading'] });
+      reporter?.log({ type: 'warn', args: ['\u001b[33mSkipped\u001b[39m', 'hooks'] });
+
+      expect(warnings).toEqual(['Skipped hooks']);
+    });
+  });
+
+  describe('createProjectCreationReport', () => {
+    test('describes the created project', () => {
+      expect(createProjectCreationReport(Ok(result), ['careful'])).toEqual({
+        success: true,
+        exitCode: 0,
+        path: '/work/my-app',
+        packageName: 'my-app',
+        template: result.template,
+        packageManager: 'pnpm',
+        installed: true,
+        gitInitialized: false,
+        features: ['docker'],
+        templateHooks: [],
+        warnings: ['careful'],
+      });
+    });
+
+    test('describes the error and its exit code', () => {
+      const error = createProjectCreationError(
+        createDownloadFailedError('nuxt4', new Error('404 Not Found')),
+        'download',
+      );
+
+      expect(createProjectCreationReport(Err(error), [])).toEqual({
+        success: false,
+        exitCode: 4,
+        warnings: [],
+        error: {
+          code: 'DOWNLOAD_FAILED',
+          message: 'Failed to download the template nuxt4: 404 Not Found',
+          step: 'download',
+        },
+      });
+    });
+  });
+
+  describe('createProjectPlanReport', () => {
+    test('contains the plan', () => {
+      const plan = { projectDir: 'my-app' } as ProjectCreationPlan;
+
+      expect(createProjectPlanReport(Ok(plan), [])).toEqual({ success: true, exitCode: 0, plan, warnings: [] });
+    });
+  });
+
+  describe('printReport', () => {
+    test('writes the report as JSON to stdout', () => {
+      const write = vi.spyOn(process.stdout, 'write').mockReturnValue(true);
+
+      printReport({ success: true, exitCode: 0, warnings: [] });
+
+      expect(write).toHaveBeenCalledWith('{\n  "success": true,\n  "exitCode": 0,\n  "warnings": []\n}\n');
+      write.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import consola from 'consola';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr, isOk } from '@/types/result';
+import {
+  promptForPackageName,
+  resolvePackageName,
+  toValidPackageName,
+  updateProjectPackageJson,
+  validatePackageName,
+} from '@/utils/package-json';
+
+const { promptMock } = vi.hoisted(() => ({
+  promptMock: vi.fn(),
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    prompt: promptMock,
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('src/utils/package-json.ts', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-package-json-'));
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validatePackageName', () => {
+    test.each(['my-app', '@acme/web', 'app.js', 'a~b'])('accepts %s', (name) => {
+      expect(isOk(validatePackageName(name))).toBe(true);
+    });
+
+    test.each(['', 'My-App', 'my app', '.hidden', '_private', 'node_modules', 'a'.repeat(215)])(
+      'rejects %s',
+      (name) => {
+        expect(isErr(validatePackageName(name))).toBe(true);
+      },
+    );
+  });
+
+  describe('toValidPackageName', () => {
+    test('converts directory names into valid package names', () => {
+      expect(toValidPackageName('My Awesome App!')).toBe('my-awesome-app');
+      expect(toValidPackageName('.hidden_project')).toBe('hidden_project');
+    });
+
+    test('falls back to a default name', () => {
+      expect(toValidPackageName('!!!')).toBe('my-app');
+    });
+  });
+
+  describe('promptForPackageName', () => {
+    test('prompts again until the name is valid', async () => {
+      promptMock.mockResolvedValueOnce('Not Valid').mockResolvedValueOnce('valid-name');
+
+      const result = await promptForPackageName('my-app');
+
+      expect(result).toEqual({ success: true, data: 'valid-name' });
+      expect(promptMock).toHaveBeenCalledTimes(2);
+      expect(consola.error).toHaveBeenCalledTimes(1);
+    });
+
+    test('uses the suggestion for an empty answer', async () => {
+      promptMock.mockResolvedValue('');
+
+      expect(await promptForPackageName('my-app')).toEqual({ success: true, data: 'my-app' });
+    });
+  });
+
+  describe('resolvePackageName', () => {
+    test('uses a valid directory name without prompting', async () => {
+      expect(await resolvePackageName(undefined, '/Users/john/my-app')).toEqual({ success: true, data: 'my-app' });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('prefers --name over the directory name', async () => {
+      expect(await resolvePackageName('@acme/web', '/Users/john/web')).toEqual({ success: true, data: '@acme/web' });
+    });
+
+    test('prompts with a suggestion for invalid directory names', async () => {
+      promptMock.mockResolvedValue('');
+
+      expect(await resolvePackageName(undefined, '/Users/john/My App')).toEqual({ success: true, data: 'my-app' });
+      expect(promptMock).toHaveBeenCalledWith('Package name', expect.objectContaining({ default: 'my-app' }));
+    });
+
+    test('converts invalid directory names without prompts', async () => {
+      expect(await resolvePackageName(undefined, '/Users/john/My App', true)).toEqual({
+        success: true,
+        data: 'my-app',
+      });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('returns an invalid argument error for an invalid --name without prompts', async () => {
+      const result = await resolvePackageName('Bad Name', '/Users/john/app', true);
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'name' });
+    });
+  });
+
+  describe('updateProjectPackageJson', () => {
+    test('writes name, version and private and removes template fields', async () => {
+      await fs.promises.writeFile(
+        path.join(tempDir, 'package.json'),
+        JSON.stringify({
+          name: 'nuxt4-template',
+          version: '1.4.0',
+          repository: 'github:xeikit/starter-templates',
+          bugs: 'https://github.com/xeikit/starter-templates/issues',
+          homepage: 'https://xeikit.dev',
+          scripts: { dev: 'nuxt dev' },
+        }),
+      );
+
+      const result = await updateProjectPackageJson(tempDir, 'my-app');
+
+      expect(result).toEqual({ success: true, data: true });
+      expect(JSON.parse(fs.readFileSync(path.join(tempDir, 'package.json'), 'utf8'))).toEqual({
+        name: 'my-app',
+        version: '0.0.0',
+        private: true,
+        scripts: { dev: 'nuxt dev' },
+      });
+    });
+
+    test('does nothing without a package.json', async () => {
+      expect(await updateProjectPackageJson(tempDir, 'my-app')).toEqual({ success: true, data: false });
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr } from '@/types/result';
+import {
+  alignProjectWithPackageManager,
+  createRunCommand,
+  detectPackageManagerVersion,
+  getForeignPackageManagerFiles,
+  rewriteScriptReferences,
+} from '@/utils/package-manager-files';
+
+const { xMock } = vi.hoisted(() => ({
+  xMock: vi.fn(),
+}));
+
+vi.mock('tinyexec', () => ({
+  x: xMock,
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    info: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('src/utils/package-manager-files.ts', () => {
+  let tempDir: string;
+  const originalUserAgent = process.env.npm_config_user_agent;
+
+  const writeFile = (file: string, contents = '') => fs.promises.writeFile(path.join(tempDir, file), contents);
+  const readPackageJson = () => JSON.parse(fs.readFileSync(path.join(tempDir, 'package.json'), 'utf8'));
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-package-manager-files-'));
+    delete process.env.npm_config_user_agent;
+    xMock.mockResolvedValue({ stdout: '10.8.2\n' });
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    process.env.npm_config_user_agent = originalUserAgent;
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('getForeignPackageManagerFiles', () => {
+    test('lists files of other package managers', () => {
+      const files = getForeignPackageManagerFiles('pnpm');
+
+      expect(files).toEqual(expect.arrayContaining(['package-lock.json', 'yarn.lock', 'bun.lockb', 'deno.lock']));
+      expect(files).not.toContain('pnpm-lock.yaml');
+    });
+
+    test.each(['npm', 'yarn', 'pnpm', 'bun', 'deno'] as const)('keeps .npmrc for %s', (packageManager) => {
+      expect(getForeignPackageManagerFiles(packageManager)).not.toContain('.npmrc');
+    });
+  });
+
+  describe('createRunCommand', () => {
+    test('creates the run command of each package manager', () => {
+      expect(createRunCommand('yarn')).toBe('yarn run');
+      expect(createRunCommand('deno')).toBe('deno task');
+    });
+  });
+
+  describe('rewriteScriptReferences', () => {
+    test('rewrites run commands of other package managers', () => {
+      expect(
+        rewriteScriptReferences({ build: 'pnpm run lint && nuxt build', test: 'npm run lint', dev: 'nuxt dev' }, 'bun'),
+      ).toEqual({ build: 'bun run lint && nuxt build', test: 'bun run lint', dev: 'nuxt dev' });
+    });
+
+    test('rewrites to deno tasks', () => {
+      expect(rewriteScriptReferences({ check: 'yarn run lint' }, 'deno')).toEqual({ check: 'deno task lint' });
+    });
+  });
+
+  describe('detectPackageManagerVersion', () => {
+    test('uses the user agent of the selected package manager', async () => {
+      process.env.npm_config_user_agent = 'pnpm/10.17.1 npm/? node/v22.11.0 linux x64';
+
+      expect(await detectPackageManagerVersion('pnpm')).toBe('10.17.1');
+      expect(xMock).not.toHaveBeenCalled();
+    });
+
+    test('runs --version for other package managers', async () => {
+      process.env.npm_config_user_agent = 'pnpm/10.17.1 npm/? node/v22.11.0 linux x64';
+      xMock.mockResolvedValue({ stdout: '1.22.22\n' });
+
+      expect(await detectPackageManagerVersion('yarn')).toBe('1.22.22');
+      expect(xMock).toHaveBeenCalledWith('yarn', ['--version'], { throwOnError: true });
+    });
+
+    test('returns undefined when the package manager is not available', async () => {
+      xMock.mockRejectedValue(new Error('spawn bun ENOENT'));
+
+      expect(await detectPackageManagerVersion('bun')).toBeUndefined();
+    });
+  });
+
+  describe('alignProjectWithPackageManager', () => {
+    test('removes foreign files and updates package.json', async () => {
+      await writeFile('pnpm-lock.yaml');
+      await writeFile('pnpm-workspace.yaml');
+      await writeFile('.npmrc');
+      await writeFile(
+        'package.json',
+        JSON.stringify({ name: 'my-app', packageManager: 'pnpm@9.0.0', scripts: { build: 'pnpm run lint' } }),
+      );
+
+      const result = await alignProjectWithPackageManager(tempDir, 'npm');
+
+      expect(result).toEqual({ success: true, data: ['pnpm-lock.yaml', 'pnpm-workspace.yaml'] });
+      expect(fs.readdirSync(tempDir).sort()).toEqual(['.npmrc', 'package.json']);
+      expect(readPackageJson()).toEqual({
+        name: 'my-app',
+        scripts: { build: 'npm run lint' },
+        packageManager: 'npm@10.8.2',
+      });
+    });
+
+    test('keeps .npmrc, which every package manager reads', async () => {
+      await writeFile('package-lock.json');
+      await writeFile('.npmrc');
+
+      const result = await alignProjectWithPackageManager(tempDir, 'yarn');
+
+      expect(result).toEqual({ success: true, data: ['package-lock.json'] });
+      expect(fs.readdirSync(tempDir)).toEqual(['.npmrc']);
+    });
+
+    test('drops the packageManager field when no version is detected', async () => {
+      xMock.mockRejectedValue(new Error('spawn deno ENOENT'));
+      await writeFile('package.json', JSON.stringify({ name: 'my-app', packageManager: 'pnpm@9.0.0' }));
+
+      await alignProjectWithPackageManager(tempDir, 'deno');
+
+      expect(readPackageJson()).toEqual({ name: 'my-app' });
+    });
+
+    test('only touches files written by the template', async () => {
+      await writeFile('yarn.lock');
+      await writeFile('pnpm-lock.yaml');
+      await writeFile('package.json', JSON.stringify({ name: 'mine', packageManager: 'yarn@4.0.0' }));
+
+      const result = await alignProjectWithPackageManager(tempDir, 'npm', ['pnpm-lock.yaml']);
+
+      expect(result).toEqual({ success: true, data: ['pnpm-lock.yaml'] });
+      expect(fs.existsSync(path.join(tempDir, 'yarn.lock'))).toBe(true);
+      expect(readPackageJson()).toEqual({ name: 'mine', packageManager: 'yarn@4.0.0' });
+    });
+
+    test('returns an error for an unreadable package.json', async () => {
+      await fs.promises.mkdir(path.join(tempDir, 'package.json'));
+
+      expect(isErr(await alignProjectWithPackageManager(tempDir, 'npm'))).toBe(true);
+    });
+  });
+});
@@ -3,21 +3,23 @@ import { installDependencies } from 'nypm';
 import { beforeEach, describe, expect, test, vi } from 'vitest';
 import { isErr, isOk } from '@/types/result';
 import {
-  confirmDependenciesInstallation,
   createInstallationConfig,
   createPackageManagerSelectOptions,
   detectCurrentPackageManager,
-  installDependenciesIfRequested,
+  detectProjectPackageManager,
   installDependenciesWithResult,
+  installProjectDependencies,
   parsePackageManagerFromUserAgent,
-  selectPackageManager,
+  resolveDependenciesInstallation,
+  resolvePackageManager,
   validateInstallationPromptResult,
   validatePackageManagerArg,
 } from '@/utils/package-manager';
 
-const { promptMock, installDependenciesMock } = vi.hoisted(() => ({
+const { promptMock, installDependenciesMock, detectPackageManagerMock } = vi.hoisted(() => ({
   promptMock: vi.fn(),
   installDependenciesMock: vi.fn(),
+  detectPackageManagerMock: vi.fn(),
 }));
 
 vi.mock('consola', () => ({
@@ -32,12 +34,7 @@ vi.mock('consola', () => ({
 
 vi.mock('nypm', () => ({
   installDependencies: installDependenciesMock,
-}));
-
-vi.mock('@/utils/common', () => ({
-  handleError: vi.fn((error) => {
-    throw error;
-  }),
+  detectPackageManager: detectPackageManagerMock,
 }));
 
 const DEFAULT_USER_AGENT = 'pnpm/10.11.0 npm/? node/v22.15.1 darwin arm64';
@@ -85,53 +82,84 @@ describe('src/utils/package-manager.ts', () => {
     });
   });
 
-  describe('confirmDependenciesInstallation', () => {
+  describe('detectProjectPackageManager', () => {
+    test('detects the package manager from the lock files of the project only', async () => {
+      detectPackageManagerMock.mockResolvedValue({ name: 'pnpm', command: 'pnpm' });
+
+      expect(await detectProjectPackageManager('/work/my-app')).toBe('pnpm');
+      expect(detectPackageManagerMock).toHaveBeenCalledWith('/work/my-app', { includeParentDirs: false });
+    });
+
+    test('falls back to npm when nothing is detected or detection fails', async () => {
+      detectPackageManagerMock.mockResolvedValueOnce(undefined);
+      expect(await detectProjectPackageManager('/work/my-app')).toBe('npm');
+
+      detectPackageManagerMock.mockRejectedValueOnce(new Error('EACCES'));
+      expect(await detectProjectPackageManager('/work/my-app')).toBe('npm');
+    });
+  });
+
+  describe('resolveDependenciesInstallation', () => {
     test('return true when user confirms', async () => {
       promptMock.mockResolvedValue(true);
 
-      const result = await confirmDependenciesInstallation(true);
+      const result = await resolveDependenciesInstallation(undefined);
 
-      expect(result).toBe(true);
+      expect(result).toEqual({ success: true, data: true });
+      expect(promptMock).toHaveBeenCalledWith(
+        'Do you want to install dependencies?',
+        expect.objectContaining({
+          initial: true,
+        }),
+      );
     });
 
-    test('exits on prompt rejection', async () => {
+    test('returns the error on prompt rejection', async () => {
       promptMock.mockRejectedValue(new Error('Prompt cancelled'));
 
-      await expect(confirmDependenciesInstallation(true)).rejects.toThrow('process.exit unexpectedly called with "1"');
+      expect(isErr(await resolveDependenciesInstallation(undefined))).toBe(true);
     });
 
     test('returns false when user declines', async () => {
       promptMock.mockResolvedValue(false);
 
-      const result = await confirmDependenciesInstallation(false);
+      const result = await resolveDependenciesInstallation(undefined);
 
-      expect(result).toBe(false);
-      expect(promptMock).toHaveBeenCalledWith(
-        'Do you want to install dependencies?',
-        expect.objectContaining({
-          initial: false,
-        }),
-      );
+      expect(result).toEqual({ success: true, data: false });
+    });
+
+    test('uses explicit install preference without prompting', async () => {
+      await expect(resolveDependenciesInstallation(true)).resolves.toEqual({ success: true, data: true });
+      await expect(resolveDependenciesInstallation(false)).resolves.toEqual({ success: true, data: false });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('installs by default without prompting in non-interactive mode', async () => {
+      const result = await resolveDependenciesInstallation(undefined, true);
+
+      expect(result).toEqual({ success: true, data: true });
+      expect(promptMock).not.toHaveBeenCalled();
     });
 
-    test('exits when prompt returns non-boolean value', async () => {
+    test('returns an error when prompt returns non-boolean value', async () => {
       promptMock.mockResolvedValue('invalid response');
 
-      await expect(confirmDependenciesInstallation(true)).rejects.toThrow('process.exit unexpectedly called with "1"');
-      expect(consola.error).toHaveBeenCalledWith('Please specify whether to install dependencies.');
+      const result = await resolveDependenciesInstallation(undefined);
+
+      expect(result.success === false && result.error.message).toBe('Please specify whether to install dependencies.');
     });
   });
 
-  describe('installDependenciesIfRequested', () => {
+  describe('installProjectDependencies', () => {
     test('skips installation when shouldInstall is false', async () => {
-      await installDependenciesIfRequested(false, 'test/path', 'npm');
+      expect(await installProjectDependencies(false, 'test/path', 'npm')).toEqual({ success: true, data: false });
 
       expect(consola.info).toHaveBeenCalledWith('Skipping dependency installation.');
       expect(installDependencies).not.toHaveBeenCalled();
     });
 
     test('installs dependencies when requested', async () => {
-      await installDependenciesIfRequested(true, 'test/path', 'pnpm');
+      expect(await installProjectDependencies(true, 'test/path', 'pnpm')).toEqual({ success: true, data: true });
 
       expect(consola.start).toHaveBeenCalledWith('Installing dependencies...');
       expect(installDependencies).toHaveBeenCalledTimes(1);
@@ -144,13 +172,26 @@ describe('src/utils/package-manager.ts', () => {
       });
       expect(consola.success).toHaveBeenCalledWith('Installation completed.');
     });
+
+    test('returns an install failed error when installation fails', async () => {
+      installDependenciesMock.mockRejectedValue(new Error('ERR_PNPM_FETCH_404'));
+
+      const result = await installProjectDependencies(true, 'test/path', 'pnpm');
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INSTALL_FAILED',
+        packageManager: 'pnpm',
+        message: 'ERR_PNPM_FETCH_404',
+      });
+      expect(consola.success).not.toHaveBeenCalled();
+    });
   });
 
-  describe('selectPackageManager', () => {
+  describe('resolvePackageManager', () => {
     test('returns package manager from argument if valid', async () => {
-      const result = await selectPackageManager('pnpm');
+      const result = await resolvePackageManager('pnpm');
 
-      expect(result).toBe('pnpm');
+      expect(result).toEqual({ success: true, data: 'pnpm' });
       expect(promptMock).not.toHaveBeenCalled();
     });
 
@@ -158,9 +199,9 @@ describe('src/utils/package-manager.ts', () => {
       process.env.npm_config_user_agent = 'pnpm/10.11.0';
       promptMock.mockResolvedValue('npm');
 
-      const result = await selectPackageManager();
+      const result = await resolvePackageManager();
 
-      expect(result).toBe('npm');
+      expect(result).toEqual({ success: true, data: 'npm' });
       expect(promptMock).toHaveBeenCalledWith(
         'Which package manager would you like to use?',
         expect.objectContaining({
@@ -174,7 +215,7 @@ describe('src/utils/package-manager.ts', () => {
       process.env.npm_config_user_agent = 'npm/10.9.0';
       promptMock.mockResolvedValue('yarn');
 
-      await selectPackageManager();
+      await resolvePackageManager();
 
       expect(promptMock).toHaveBeenCalledWith(
         'Which package manager would you like to use?',
@@ -184,10 +225,39 @@ describe('src/utils/package-manager.ts', () => {
       );
     });
 
-    test('exits when prompt is cancelled', async () => {
+    test('returns the error when prompt is cancelled', async () => {
       promptMock.mockRejectedValue(new Error('Prompt cancelled'));
 
-      await expect(selectPackageManager()).rejects.toThrow('process.exit unexpectedly called with "1"');
+      expect(isErr(await resolvePackageManager())).toBe(true);
+    });
+
+    test('uses current package manager without prompting in non-interactive mode', async () => {
+      process.env.npm_config_user_agent = 'yarn/1.22.19';
+
+      const result = await resolvePackageManager(undefined, true);
+
+      expect(result).toEqual({ success: true, data: 'yarn' });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('falls back to npm in non-interactive mode when no package manager is detected', async () => {
+      delete process.env.npm_config_user_agent;
+
+      const result = await resolvePackageManager(undefined, true);
+
+      expect(result).toEqual({ success: true, data: 'npm' });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('returns an invalid argument error on invalid argument in non-interactive mode', async () => {
+      const result = await resolvePackageManager('invalid', true);
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        option: 'packageManager',
+        message: 'Invalid package manager: invalid',
+      });
+      expect(promptMock).not.toHaveBeenCalled();
     });
   });
 
@@ -304,6 +374,13 @@ describe('src/utils/package-manager.ts', () => {
       expect(isOk(result)).toBe(true);
     });
 
+    test('hides the output of the package manager when silent', async () => {
+      installDependenciesMock.mockResolvedValue(undefined);
+
+      await installDependenciesWithResult('/test/dir', 'npm', true);
+      expect(installDependenciesMock).toHaveBeenCalledWith(expect.objectContaining({ silent: true }));
+    });
+
     test('returns error on installation failure', async () => {
       const error = new Error('Installation failed');
       installDependenciesMock.mockRejectedValue(error);
@@ -311,7 +388,7 @@ describe('src/utils/package-manager.ts', () => {
       const result = await installDependenciesWithResult('/test/dir', 'npm');
       expect(isErr(result)).toBe(true);
       if (isErr(result)) {
-        expect(result.error).toBe(error);
+        expect(result.error).toMatchObject({ code: 'INSTALL_FAILED', packageManager: 'npm', cause: error });
       }
     });
   });
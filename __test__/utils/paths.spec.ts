@@ -0,0 +1,25 @@
+import { homedir } from 'node:os';
+import { describe, expect, test } from 'vitest';
+import { resolveCacheDir, resolveConfigDir } from '@/utils/paths';
+
+describe('src/utils/paths.ts', () => {
+  describe('resolveCacheDir', () => {
+    test('uses XDG_CACHE_HOME when set', () => {
+      expect(resolveCacheDir({ XDG_CACHE_HOME: '/tmp/cache' })).toBe('/tmp/cache/create-xeikit-app');
+    });
+
+    test('falls back to ~/.cache', () => {
+      expect(resolveCacheDir({})).toBe(`${homedir()}/.cache/create-xeikit-app`);
+    });
+  });
+
+  describe('resolveConfigDir', () => {
+    test('uses XDG_CONFIG_HOME when set', () => {
+      expect(resolveConfigDir({ XDG_CONFIG_HOME: '/tmp/config' })).toBe('/tmp/config/create-xeikit-app');
+    });
+
+    test('falls back to ~/.config', () => {
+      expect(resolveConfigDir({})).toBe(`${homedir()}/.config/create-xeikit-app`);
+    });
+  });
+});
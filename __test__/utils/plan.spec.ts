@@ -0,0 +1,209 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import type { ProjectCreationPlan } from '@/types/api';
+import { isErr } from '@/types/result';
+import { formatProjectCreationPlan, planFileChanges, planTemplate } from '@/utils/plan';
+import { storeTemplateInCache } from '@/utils/template-cache';
+
+const REGISTRY = { url: 'https://registry.example.com/templates' };
+
+describe('src/utils/plan.ts', () => {
+  let tempDir: string;
+  let cacheDir: string;
+
+  const writeFile = async (file: string, contents = '') => {
+    await fs.promises.mkdir(path.dirname(path.join(tempDir, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(tempDir, file), contents);
+  };
+  const cacheTemplate = (dir: string) =>
+    storeTemplateInCache(
+      path.join(tempDir, dir),
+      {
+        registry: REGISTRY.url,
+        template: 'nuxt4',
+        cachedAt: Date.now(),
+        result: { name: 'nuxt4', tar: 'https://example.com/nuxt4.tar.gz', source: 'github:xeikit/nuxt4-template' },
+      },
+      cacheDir,
+    );
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-plan-'));
+    cacheDir = path.join(tempDir, 'cache');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('planTemplate', () => {
+    test('points to the template definition when the template is not cached', async () => {
+      expect(await planTemplate({ name: 'nuxt4', registry: REGISTRY }, cacheDir)).toEqual({
+        success: true,
+        data: {
+          template: {
+            name: 'nuxt4',
+            source: 'https://registry.example.com/templates/nuxt4.json',
+            registry: REGISTRY.url,
+            cached: false,
+          },
+        },
+      });
+    });
+
+    test('lists the files and hooks of a cached template', async () => {
+      await writeFile('template/package.json', '{}');
+      await writeFile('template/app.vue');
+      await writeFile('template/_features/docker/Dockerfile');
+      await writeFile('template/xeikit.template.json', JSON.stringify({ hooks: { postInstall: ['nuxi prepare'] } }));
+      await cacheTemplate('template');
+
+      const result = await planTemplate({ name: 'nuxt4', registry: REGISTRY }, cacheDir);
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          template: { name: 'nuxt4', source: 'github:xeikit/nuxt4-template', registry: REGISTRY.url, cached: true },
+          hooks: { postInstall: ['nuxi prepare'] },
+          files: expect.arrayContaining(['package.json', 'app.vue']),
+        },
+      });
+      expect(result.success && result.data.files).toHaveLength(2);
+    });
+
+    test('lists the files and hooks of a local template in place', async () => {
+      await writeFile('my-template/package.json', '{}');
+      await writeFile(
+        'my-template/xeikit.template.json',
+        JSON.stringify({ hooks: { postDownload: ['node setup.js'] } }),
+      );
+      const source = path.join(tempDir, 'my-template');
+
+      expect(await planTemplate({ name: './my-template', source }, cacheDir)).toEqual({
+        success: true,
+        data: {
+          template: { name: './my-template', source, cached: false },
+          hooks: { postDownload: ['node setup.js'] },
+          files: ['package.json'],
+        },
+      });
+    });
+
+    test('keeps the source and ref of a git-hosted template that is not cached', async () => {
+      const name = 'gh:org/repo#main';
+
+      expect(await planTemplate({ name, source: 'gh:org/repo', ref: 'main' }, cacheDir)).toEqual({
+        success: true,
+        data: { template: { name, source: name, ref: 'main', cached: false } },
+      });
+    });
+
+    test('keeps the registry of a registry template pinned through its catalog source', async () => {
+      const selection = { name: 'nuxt4', registry: REGISTRY, source: 'gh:xeikit/starter-templates/nuxt4', ref: 'v2' };
+
+      expect(await planTemplate(selection, cacheDir)).toEqual({
+        success: true,
+        data: {
+          template: {
+            name: 'nuxt4',
+            source: 'gh:xeikit/starter-templates/nuxt4#v2',
+            registry: REGISTRY.url,
+            ref: 'v2',
+            cached: false,
+          },
+        },
+      });
+    });
+
+    test('returns an error for an invalid cached manifest', async () => {
+      await writeFile('template/xeikit.template.json', '{');
+      await cacheTemplate('template');
+
+      expect(isErr(await planTemplate({ name: 'nuxt4', registry: REGISTRY }, cacheDir))).toBe(true);
+    });
+  });
+
+  describe('planFileChanges', () => {
+    test('creates the template files and updates package.json in a new directory', async () => {
+      expect(await planFileChanges(path.join(tempDir, 'my-app'), undefined, ['package.json', 'app.vue'])).toEqual([
+        { path: 'app.vue', action: 'create' },
+        { path: 'package.json', action: 'create' },
+      ]);
+      expect(await planFileChanges(path.join(tempDir, 'my-app'), undefined)).toEqual([
+        { path: 'package.json', action: 'update' },
+      ]);
+    });
+
+    test('deletes existing files when clearing', async () => {
+      await writeFile('my-app/notes.txt');
+
+      expect(await planFileChanges(path.join(tempDir, 'my-app'), 'clear')).toEqual([
+        { path: 'notes.txt', action: 'delete' },
+        { path: 'package.json', action: 'update' },
+      ]);
+    });
+
+    test('keeps existing files when merging', async () => {
+      await writeFile('my-app/package.json', '{}');
+      await writeFile('my-app/README.md');
+
+      expect(await planFileChanges(path.join(tempDir, 'my-app'), 'merge', ['README.md', 'app.vue'])).toEqual([
+        { path: 'app.vue', action: 'create' },
+        { path: 'package.json', action: 'keep' },
+        { path: 'README.md', action: 'keep' },
+      ]);
+    });
+  });
+
+  describe('formatProjectCreationPlan', () => {
+    const plan: ProjectCreationPlan = {
+      projectDir: 'my-app',
+      paths: { project: '/work/my-app', backup: '/work/my-app.backup-1' },
+      existingDirectory: 'backup',
+      packageName: 'my-app',
+      template: { name: 'nuxt4', source: 'github:xeikit/nuxt4-template', registry: REGISTRY.url, cached: true },
+      packageManager: 'pnpm',
+      install: { enabled: true, command: 'pnpm install' },
+      git: { enabled: true, commands: ['git init my-app', 'git add -A'] },
+      hooks: { enabled: true, commands: { postInstall: ['nuxi prepare'] } },
+      files: [{ path: 'package.json', action: 'update' }],
+    };
+
+    test('lists every part of the plan', () => {
+      const output = formatProjectCreationPlan(plan, '/work');
+
+      for (const text of [
+        'dry run',
+        'my-app.backup-1',
+        'github:xeikit/nuxt4-template',
+        REGISTRY.url,
+        'pnpm install',
+        'git add -A',
+        'nuxi prepare',
+        'package.json',
+      ]) {
+        expect(output).toContain(text);
+      }
+    });
+
+    test('describes skipped steps and unknown hooks', () => {
+      const output = formatProjectCreationPlan(
+        {
+          ...plan,
+          install: { enabled: false, command: 'pnpm install' },
+          git: { enabled: false, commands: [] },
+          hooks: { enabled: true },
+        },
+        '/work',
+      );
+
+      expect(output).not.toContain('pnpm install');
+      expect(output).toContain('unknown until the template is downloaded');
+      expect(formatProjectCreationPlan({ ...plan, hooks: { enabled: false } }, '/work')).toContain(
+        'skipped (--no-hooks)',
+      );
+    });
+  });
+});
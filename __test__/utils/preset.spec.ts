@@ -0,0 +1,156 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import { isErr } from '@/types/result';
+import { applyPreset, loadPreset, validatePreset } from '@/utils/preset';
+
+describe('src/utils/preset.ts', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-preset-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validatePreset', () => {
+    test('accepts every field of the schema', () => {
+      const preset = {
+        $schema: './preset.schema.json',
+        template: 'nuxt4',
+        registry: 'internal',
+        features: ['hono'],
+        variables: { license: 'MIT', port: 3000, strict: true },
+        packageManager: 'pnpm',
+        install: true,
+        git: { init: true, commit: true, commitMessage: 'chore: init', branch: 'main', author: 'Jane <j@x.dev>' },
+        hooks: false,
+      };
+      const { $schema: _, ...expected } = preset;
+
+      expect(validatePreset(preset)).toEqual({ success: true, data: expected });
+    });
+
+    test('lists every invalid and unknown field', () => {
+      expect(
+        validatePreset({
+          template: '',
+          features: 'hono',
+          variables: { port: [3000] },
+          packageManager: 'pip',
+          install: 'yes',
+          git: { brnach: 'main' },
+          color: 'blue',
+        }),
+      ).toEqual({
+        success: false,
+        error: [
+          'template: expected a non-empty string',
+          'features: expected a list of names',
+          'variables.port: expected a string, a number or a boolean',
+          expect.stringContaining('packageManager: expected one of npm'),
+          'install: expected true or false',
+          'git.brnach: unknown field',
+          'color: unknown field',
+        ],
+      });
+    });
+
+    test('rejects presets that are not objects', () => {
+      expect(isErr(validatePreset(['nuxt4']))).toBe(true);
+    });
+  });
+
+  describe('loadPreset', () => {
+    test('loads a YAML preset relative to the working directory', async () => {
+      await fs.promises.writeFile(
+        path.join(tempDir, 'team.yaml'),
+        'template: nuxt4\nfeatures: [hono]\ngit:\n  branch: main\n',
+      );
+
+      expect(await loadPreset('./team.yaml', tempDir)).toEqual({
+        success: true,
+        data: { template: 'nuxt4', features: ['hono'], git: { branch: 'main' } },
+      });
+    });
+
+    test('loads a JSON preset from a file URL', async () => {
+      const presetPath = path.join(tempDir, 'team.json');
+      await fs.promises.writeFile(presetPath, JSON.stringify({ packageManager: 'pnpm', install: false }));
+
+      expect(await loadPreset(`file://${presetPath}`, '/')).toEqual({
+        success: true,
+        data: { packageManager: 'pnpm', install: false },
+      });
+    });
+
+    test('refuses http(s) presets without network access but reads file URLs', async () => {
+      const presetPath = path.join(tempDir, 'team.json');
+      await fs.promises.writeFile(presetPath, JSON.stringify({ install: false }));
+
+      const result = await loadPreset('https://example.com/presets/team.json', tempDir, { network: false });
+
+      expect(isErr(result) && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'preset' });
+      expect(isErr(result) && result.error.message).toContain('cannot be fetched without network access');
+      expect(await loadPreset(`file://${presetPath}`, '/', { network: false })).toEqual({
+        success: true,
+        data: { install: false },
+      });
+    });
+
+    test.each([
+      ['missing.json', undefined, 'Failed to read the preset missing.json'],
+      ['broken.json', '{', 'Invalid preset broken.json'],
+      ['invalid.json', '{"install":"yes","hooks":1}', 'install: expected true or false\n  - hooks: expected'],
+    ])('returns an invalid argument error for %s', async (file, contents, message) => {
+      if (contents !== undefined) {
+        await fs.promises.writeFile(path.join(tempDir, file), contents);
+      }
+
+      const result = await loadPreset(file, tempDir);
+
+      expect(isErr(result) && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'preset' });
+      expect(isErr(result) && result.error.message).toContain(message);
+    });
+  });
+
+  describe('applyPreset', () => {
+    test('fills the options that are not given', () => {
+      const args = applyPreset(
+        { template: '', packageManager: 'npm', features: undefined, install: undefined, gitBranch: '', hooks: false },
+        {
+          template: 'nuxt4',
+          packageManager: 'pnpm',
+          features: ['hono', 'docker'],
+          install: false,
+          git: { init: true, branch: 'main' },
+          hooks: true,
+        },
+      );
+
+      expect(args).toEqual({
+        template: 'nuxt4',
+        packageManager: 'npm',
+        features: 'hono,docker',
+        install: false,
+        gitInit: true,
+        gitBranch: 'main',
+        hooks: false,
+      });
+    });
+
+    test('keeps an explicitly empty feature list', () => {
+      expect(applyPreset({ features: '' }, { features: ['hono'] })).toEqual({ features: '' });
+    });
+
+    test('lets --var override the variables of the preset', () => {
+      expect(applyPreset({ var: 'license=MIT' }, { variables: { license: 'ISC', port: 3000 } })).toEqual({
+        var: ['license=ISC', 'port=3000', 'license=MIT'],
+      });
+      expect(applyPreset({ var: '' }, { variables: { port: 3000 } })).toEqual({ var: ['port=3000'] });
+    });
+  });
+});
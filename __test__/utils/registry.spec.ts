@@ -0,0 +1,190 @@
+import { describe, expect, test } from 'vitest';
+import { isErr, isOk } from '@/types/result';
+import { DEFAULT_REGISTRY } from '@/utils/constants';
+import {
+  createRegistryFromConfig,
+  createUnknownRegistryMessage,
+  DEFAULT_RESOLVED_REGISTRY,
+  getTemplateSourceProvider,
+  isLocalTemplateSource,
+  isRegistryLocation,
+  isTemplateSource,
+  resolveRegistryArg,
+  resolveTemplateReference,
+  resolveTemplateSource,
+} from '@/utils/registry';
+
+const REGISTRIES = {
+  internal: { url: 'https://internal.example.com/templates', tokenEnv: 'INTERNAL_TOKEN' },
+  public: { url: 'https://public.example.com/templates' },
+};
+
+const ENV = { INTERNAL_TOKEN: 's3cr3t' };
+
+describe('src/utils/registry.ts', () => {
+  describe('isRegistryLocation', () => {
+    test('detects URLs and absolute paths', () => {
+      expect(isRegistryLocation('https://example.com/templates')).toBe(true);
+      expect(isRegistryLocation('file:///tmp/registry')).toBe(true);
+      expect(isRegistryLocation('/tmp/registry')).toBe(true);
+      expect(isRegistryLocation('internal')).toBe(false);
+    });
+  });
+
+  describe('createRegistryFromConfig', () => {
+    test('reads the auth token from the configured environment variable', () => {
+      expect(createRegistryFromConfig('internal', REGISTRIES.internal, ENV)).toEqual({
+        name: 'internal',
+        url: 'https://internal.example.com/templates',
+        auth: 's3cr3t',
+      });
+    });
+
+    test('has no auth token without tokenEnv', () => {
+      expect(createRegistryFromConfig('public', REGISTRIES.public, ENV).auth).toBeUndefined();
+    });
+  });
+
+  describe('resolveRegistryArg', () => {
+    test('returns the default registry when no argument is given', () => {
+      const result = resolveRegistryArg(undefined, REGISTRIES, ENV);
+
+      expect(result).toEqual({ success: true, data: { url: DEFAULT_REGISTRY } });
+    });
+
+    test('resolves configured registry names', () => {
+      const result = resolveRegistryArg('internal', REGISTRIES, ENV);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data.auth).toBe('s3cr3t');
+      }
+    });
+
+    test('accepts registry URLs', () => {
+      const result = resolveRegistryArg('https://other.example.com', REGISTRIES, ENV);
+
+      expect(result).toEqual({ success: true, data: { url: 'https://other.example.com' } });
+    });
+
+    test('rejects unknown registry names', () => {
+      const result = resolveRegistryArg('missing', REGISTRIES, ENV);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('Unknown registry "missing". Configured registries: internal, public');
+      }
+    });
+  });
+
+  describe('createUnknownRegistryMessage', () => {
+    test('points to the configuration file when no registries are configured', () => {
+      expect(createUnknownRegistryMessage('missing', {})).toContain('"registries" section');
+    });
+  });
+
+  describe('resolveTemplateReference', () => {
+    test('uses the default registry for bare names', () => {
+      const result = resolveTemplateReference('nuxt4', DEFAULT_RESOLVED_REGISTRY, REGISTRIES, ENV);
+
+      expect(result).toEqual({ success: true, data: { name: 'nuxt4', registry: DEFAULT_RESOLVED_REGISTRY } });
+    });
+
+    test('resolves registryName:template syntax', () => {
+      const result = resolveTemplateReference('internal:my-starter', DEFAULT_RESOLVED_REGISTRY, REGISTRIES, ENV);
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          name: 'my-starter',
+          registry: { name: 'internal', url: 'https://internal.example.com/templates', auth: 's3cr3t' },
+        },
+      });
+    });
+
+    test('rejects unknown registry prefixes', () => {
+      const result = resolveTemplateReference('missing:my-starter', DEFAULT_RESOLVED_REGISTRY, REGISTRIES, ENV);
+
+      expect(isErr(result)).toBe(true);
+    });
+
+    test('rejects a missing template name', () => {
+      const result = resolveTemplateReference('internal:', DEFAULT_RESOLVED_REGISTRY, REGISTRIES, ENV);
+
+      expect(isErr(result)).toBe(true);
+      if (isErr(result)) {
+        expect(result.error).toBe('Template name is missing in "internal:"');
+      }
+    });
+  });
+
+  describe('getTemplateSourceProvider', () => {
+    test.each([
+      ['gh:org/repo', 'github'],
+      ['github:org/repo/path#v2', 'github'],
+      ['gitlab:org/repo', 'gitlab'],
+      ['bitbucket:org/repo', 'bitbucket'],
+      ['sourcehut:org/repo', 'sourcehut'],
+      ['internal:my-starter', undefined],
+      ['nuxt4', undefined],
+    ])('returns the provider of %s', (templateArg, provider) => {
+      expect(getTemplateSourceProvider(templateArg)).toBe(provider);
+    });
+  });
+
+  describe('isLocalTemplateSource', () => {
+    test.each([
+      ['./my-template', true],
+      ['../templates/app', true],
+      ['/srv/templates/app', true],
+      ['file:///srv/templates/app', true],
+      ['nuxt4', false],
+      ['gh:org/repo', false],
+    ])('detects %s', (templateArg, expected) => {
+      expect(isLocalTemplateSource(templateArg)).toBe(expected);
+    });
+  });
+
+  describe('isTemplateSource', () => {
+    test('detects git-hosted and local sources but not registry templates', () => {
+      expect(isTemplateSource('gitlab:org/repo')).toBe(true);
+      expect(isTemplateSource('./my-template')).toBe(true);
+      expect(isTemplateSource('internal:my-starter')).toBe(false);
+      expect(isTemplateSource('nuxt4')).toBe(false);
+    });
+  });
+
+  describe('resolveTemplateSource', () => {
+    test('keeps git-hosted sources as given', () => {
+      expect(resolveTemplateSource('gh:org/repo/templates/app#v2')).toEqual({
+        success: true,
+        data: { name: 'gh:org/repo/templates/app#v2', source: 'gh:org/repo/templates/app#v2' },
+      });
+    });
+
+    test('resolves local paths against the working directory', () => {
+      expect(resolveTemplateSource('./my-template', '/work')).toEqual({
+        success: true,
+        data: { name: './my-template', source: '/work/my-template' },
+      });
+      expect(resolveTemplateSource('file:///srv/app', '/work')).toEqual({
+        success: true,
+        data: { name: 'file:///srv/app', source: '/srv/app' },
+      });
+      expect(resolveTemplateSource('file:./my-template', '/work')).toEqual({
+        success: true,
+        data: { name: 'file:./my-template', source: '/work/my-template' },
+      });
+      expect(resolveTemplateSource('file:../my-template', '/work/apps')).toEqual({
+        success: true,
+        data: { name: 'file:../my-template', source: '/work/my-template' },
+      });
+    });
+
+    test.each(['gh:', 'gitlab:org', 'bitbucket:#main'])('rejects %s without a repository', (templateArg) => {
+      const result = resolveTemplateSource(templateArg);
+
+      expect(isErr(result) && result.error).toContain('Repository is missing');
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import consola from 'consola';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { beginProjectTransaction, rollbackProjectDirectory, snapshotProjectDirectory } from '@/utils/rollback';
+
+vi.mock('consola', () => ({
+  default: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+describe('src/utils/rollback.ts', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeFile = async (file: string, contents = '') => {
+    await fs.promises.mkdir(path.dirname(path.join(projectDir, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(projectDir, file), contents);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-rollback-'));
+    projectDir = path.join(tempDir, 'my-app');
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('snapshotProjectDirectory', () => {
+    test('records missing directories', () => {
+      expect(snapshotProjectDirectory(projectDir)).toEqual({ path: projectDir, entries: undefined });
+    });
+
+    test('records the top-level entries of existing directories', async () => {
+      await writeFile('.git/HEAD');
+
+      expect(snapshotProjectDirectory(projectDir)).toEqual({ path: projectDir, entries: ['.git'] });
+    });
+  });
+
+  describe('rollbackProjectDirectory', () => {
+    test('removes a directory that did not exist', async () => {
+      const snapshot = snapshotProjectDirectory(projectDir);
+      await writeFile('package.json');
+
+      rollbackProjectDirectory(snapshot, {});
+
+      expect(fs.existsSync(projectDir)).toBe(false);
+    });
+
+    test('removes only new entries and written files from a pre-existing directory', async () => {
+      await writeFile('.git/HEAD');
+      await writeFile('src/app.ts');
+      const snapshot = snapshotProjectDirectory(projectDir);
+      await writeFile('node_modules/pkg/index.js');
+      await writeFile('src/index.ts');
+
+      rollbackProjectDirectory(snapshot, { writtenFiles: ['src/index.ts'] });
+
+      expect(fs.readdirSync(projectDir).sort()).toEqual(['.git', 'src']);
+      expect(fs.readdirSync(path.join(projectDir, 'src'))).toEqual(['app.ts']);
+    });
+
+    test('moves a backed up directory back', async () => {
+      await writeFile('README.md', 'mine');
+      const snapshot = snapshotProjectDirectory(projectDir);
+      const backupPath = `${projectDir}.backup-1`;
+      fs.renameSync(projectDir, backupPath);
+      await writeFile('package.json');
+
+      rollbackProjectDirectory(snapshot, { backupPath });
+
+      expect(fs.readdirSync(projectDir)).toEqual(['README.md']);
+      expect(fs.existsSync(backupPath)).toBe(false);
+    });
+  });
+
+  describe('beginProjectTransaction', () => {
+    test('rolls back and removes its process handlers', async () => {
+      const exitListeners = process.listenerCount('exit');
+      const transaction = beginProjectTransaction(projectDir);
+      await writeFile('package.json');
+
+      expect(process.listenerCount('exit')).toBe(exitListeners + 1);
+      transaction.rollback();
+
+      expect(fs.existsSync(projectDir)).toBe(false);
+      expect(process.listenerCount('exit')).toBe(exitListeners);
+      expect(consola.info).toHaveBeenCalledWith(expect.stringContaining('Rolled back'));
+    });
+
+    test('keeps the project with keepOnFailure', async () => {
+      const transaction = beginProjectTransaction(projectDir, true);
+      await writeFile('package.json');
+
+      transaction.rollback();
+
+      expect(fs.existsSync(path.join(projectDir, 'package.json'))).toBe(true);
+      expect(consola.warn).toHaveBeenCalledWith(expect.stringContaining('--keep-on-failure'));
+    });
+
+    test('leaves SIGINT to the caller without handleInterrupts', () => {
+      const sigintListeners = process.listenerCount('SIGINT');
+      const transaction = beginProjectTransaction(projectDir, false, false);
+
+      expect(process.listenerCount('SIGINT')).toBe(sigintListeners);
+      transaction.commit();
+    });
+
+    test('deletes discarded backups on commit and ignores later rollbacks', async () => {
+      await writeFile('README.md');
+      const transaction = beginProjectTransaction(projectDir);
+      const backupPath = `${projectDir}.backup-1`;
+      fs.renameSync(projectDir, backupPath);
+      transaction.recordBackup(backupPath, true);
+      await writeFile('package.json');
+
+      transaction.commit();
+      transaction.rollback();
+
+      expect(fs.existsSync(backupPath)).toBe(false);
+      expect(fs.readdirSync(projectDir)).toEqual(['package.json']);
+    });
+  });
+});
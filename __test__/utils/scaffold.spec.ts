@@ -0,0 +1,133 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import {
+  createScaffoldMetadata,
+  readScaffoldMetadata,
+  validateScaffoldMetadata,
+  writeScaffoldMetadata,
+} from '@/utils/scaffold';
+import { version } from '../../package.json';
+
+describe('src/utils/scaffold.ts', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-scaffold-'));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('createScaffoldMetadata', () => {
+    test('records the CLI version, the creation date and the template without empty fields', () => {
+      const metadata = createScaffoldMetadata(
+        {
+          template: { name: 'nuxt4', source: 'nuxt4', registry: 'https://example.com/templates', ref: undefined },
+          features: ['hono'],
+          variables: { projectName: 'my-app', year: 2026 },
+        },
+        new Date('2026-10-19T09:00:00.000Z'),
+      );
+
+      expect(metadata).toEqual({
+        cliVersion: version,
+        createdAt: '2026-10-19T09:00:00.000Z',
+        template: { name: 'nuxt4', source: 'nuxt4', registry: 'https://example.com/templates' },
+        features: ['hono'],
+        variables: { projectName: 'my-app', year: 2026 },
+      });
+    });
+  });
+
+  describe('validateScaffoldMetadata', () => {
+    const valid = {
+      cliVersion: '1.2.4',
+      createdAt: '2026-10-19T09:00:00.000Z',
+      template: { name: 'nuxt4', source: 'gh:org/repo#abc', commit: 'abc' },
+      features: ['hono'],
+      variables: { projectName: 'my-app', port: 3000, strict: true },
+      packageManager: 'pnpm',
+    };
+
+    test('accepts valid metadata and ignores unknown fields', () => {
+      expect(validateScaffoldMetadata({ ...valid, extra: 1 })).toEqual({ success: true, data: { ...valid, extra: 1 } });
+    });
+
+    test.each([
+      [[], 'The scaffold metadata must be a JSON object'],
+      [{ ...valid, cliVersion: 1 }, 'cliVersion and createdAt: expected strings'],
+      [{ ...valid, template: { name: 'nuxt4' } }, 'template: expected an object with a name and a source'],
+      [{ ...valid, template: { ...valid.template, commit: 1 } }, 'template.commit: expected a string'],
+      [{ ...valid, features: 'hono' }, 'features: expected a list of names'],
+      [{ ...valid, variables: { port: null } }, 'variables: expected an object of strings, numbers and booleans'],
+      [{ ...valid, packageManager: 'npx' }, 'packageManager: expected one of npm, yarn, pnpm, bun, deno'],
+    ])('rejects %o', (raw, message) => {
+      expect(validateScaffoldMetadata(raw)).toEqual({ success: false, error: message });
+    });
+  });
+
+  describe('readScaffoldMetadata', () => {
+    test('reads the metadata written by writeScaffoldMetadata', async () => {
+      const metadata = createScaffoldMetadata({
+        template: { name: 'nuxt4', source: 'nuxt4' },
+        features: [],
+        variables: {},
+      });
+      await writeScaffoldMetadata(tempDir, metadata);
+
+      expect(await readScaffoldMetadata(tempDir)).toEqual({ success: true, data: metadata });
+    });
+
+    test('returns an error for projects without metadata', async () => {
+      const result = await readScaffoldMetadata(tempDir);
+
+      expect(result.success === false && result.error.message).toContain('the project was not created by this CLI');
+    });
+
+    test('returns an error for invalid metadata', async () => {
+      await fs.promises.mkdir(path.join(tempDir, '.xeikit'));
+      await fs.promises.writeFile(path.join(tempDir, '.xeikit', 'scaffold.json'), '{ "cliVersion": "1.2.4" }');
+
+      const result = await readScaffoldMetadata(tempDir);
+
+      expect(result.success === false && result.error.message).toBe(
+        '.xeikit/scaffold.json: cliVersion and createdAt: expected strings',
+      );
+    });
+  });
+
+  describe('writeScaffoldMetadata', () => {
+    test('writes .xeikit/scaffold.json into the project directory', async () => {
+      const metadata = createScaffoldMetadata({
+        template: { name: 'nuxt4', source: 'gh:org/repo#v2', ref: 'v2', commit: 'abc' },
+        features: [],
+        variables: {},
+      });
+
+      const result = await writeScaffoldMetadata(tempDir, metadata);
+
+      expect(result.success).toBe(true);
+      const contents = await fs.promises.readFile(path.join(tempDir, '.xeikit', 'scaffold.json'), 'utf8');
+      expect(JSON.parse(contents)).toEqual(metadata);
+      expect(contents.endsWith('}\n')).toBe(true);
+    });
+
+    test('returns an error when the directory cannot be written', async () => {
+      const file = path.join(tempDir, 'file');
+      await fs.promises.writeFile(file, '');
+
+      const metadata = createScaffoldMetadata({
+        template: { name: 'nuxt4', source: 'nuxt4' },
+        features: [],
+        variables: {},
+      });
+
+      const result = await writeScaffoldMetadata(file, metadata);
+
+      expect(result.success === false && result.error.message).toContain('ENOTDIR');
+    });
+  });
+});
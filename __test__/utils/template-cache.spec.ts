@@ -0,0 +1,120 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+import type { TemplateCacheMetadata } from '@/types/cli';
+import { isOk } from '@/types/result';
+import {
+  clearCache,
+  createTemplateCacheKey,
+  getTemplateCacheDir,
+  listTemplateCacheEntries,
+  pruneTemplateCache,
+  readTemplateCacheEntry,
+  restoreTemplateFromCache,
+  storeTemplateInCache,
+} from '@/utils/template-cache';
+
+const REGISTRY = 'https://registry.example.com/templates';
+
+const createMetadata = (template: string, cachedAt: number): TemplateCacheMetadata => ({
+  registry: REGISTRY,
+  template,
+  cachedAt,
+  result: { name: template, tar: `https://example.com/${template}.tar.gz`, source: template },
+});
+
+describe('src/utils/template-cache.ts', () => {
+  let tempDir: string;
+  let cacheDir: string;
+  let sourceDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-template-cache-'));
+    cacheDir = path.join(tempDir, 'cache');
+    sourceDir = path.join(tempDir, 'source');
+    await fs.promises.mkdir(path.join(sourceDir, 'src'), { recursive: true });
+    await fs.promises.writeFile(path.join(sourceDir, 'package.json'), '{"name":"starter"}');
+    await fs.promises.writeFile(path.join(sourceDir, 'src', 'index.ts'), 'export {};');
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('getTemplateCacheDir', () => {
+    test('places templates below the cache directory', () => {
+      expect(getTemplateCacheDir('/tmp/cache')).toBe('/tmp/cache/templates');
+    });
+  });
+
+  describe('createTemplateCacheKey', () => {
+    test('creates stable keys that differ by registry, template and ref', () => {
+      const key = createTemplateCacheKey(REGISTRY, 'nuxt4');
+
+      expect(key).toMatch(/^[0-9a-f]{16}$/);
+      expect(createTemplateCacheKey(REGISTRY, 'nuxt4')).toBe(key);
+      expect(createTemplateCacheKey('https://other.example.com', 'nuxt4')).not.toBe(key);
+      expect(createTemplateCacheKey(REGISTRY, 'nuxt4', 'v1')).not.toBe(key);
+    });
+  });
+
+  describe('storeTemplateInCache / readTemplateCacheEntry', () => {
+    test('stores a template and reads it back', async () => {
+      const stored = await storeTemplateInCache(sourceDir, createMetadata('nuxt4', 1000), cacheDir);
+
+      expect(isOk(stored)).toBe(true);
+      const entry = await readTemplateCacheEntry(REGISTRY, 'nuxt4', undefined, cacheDir);
+      expect(entry).toMatchObject({ registry: REGISTRY, template: 'nuxt4', cachedAt: 1000 });
+      expect(fs.existsSync(path.join(entry?.path ?? '', 'files', 'src', 'index.ts'))).toBe(true);
+    });
+
+    test('returns undefined on a cache miss', async () => {
+      expect(await readTemplateCacheEntry(REGISTRY, 'missing', undefined, cacheDir)).toBeUndefined();
+    });
+  });
+
+  describe('restoreTemplateFromCache', () => {
+    test('copies the cached files into the target directory', async () => {
+      const stored = await storeTemplateInCache(sourceDir, createMetadata('nuxt4', 1000), cacheDir);
+      if (!isOk(stored)) throw stored.error;
+      const targetDir = path.join(tempDir, 'my-app');
+
+      const result = await restoreTemplateFromCache(stored.data, targetDir);
+
+      expect(isOk(result)).toBe(true);
+      if (isOk(result)) {
+        expect(result.data).toMatchObject({ name: 'nuxt4', source: 'nuxt4', dir: targetDir });
+      }
+      expect(fs.readFileSync(path.join(targetDir, 'package.json'), 'utf8')).toBe('{"name":"starter"}');
+    });
+  });
+
+  describe('listTemplateCacheEntries / pruneTemplateCache', () => {
+    test('lists entries newest first and prunes old ones', async () => {
+      await storeTemplateInCache(sourceDir, createMetadata('old', 1000), cacheDir);
+      await storeTemplateInCache(sourceDir, createMetadata('new', 5000), cacheDir);
+
+      expect((await listTemplateCacheEntries(cacheDir)).map(({ template }) => template)).toEqual(['new', 'old']);
+
+      const removed = await pruneTemplateCache(2000, cacheDir, 6000);
+
+      expect(removed.map(({ template }) => template)).toEqual(['old']);
+      expect((await listTemplateCacheEntries(cacheDir)).map(({ template }) => template)).toEqual(['new']);
+    });
+
+    test('returns an empty list when nothing is cached', async () => {
+      expect(await listTemplateCacheEntries(cacheDir)).toEqual([]);
+    });
+  });
+
+  describe('clearCache', () => {
+    test('removes the whole cache directory', async () => {
+      await storeTemplateInCache(sourceDir, createMetadata('nuxt4', 1000), cacheDir);
+
+      await clearCache(cacheDir);
+
+      expect(fs.existsSync(cacheDir)).toBe(false);
+    });
+  });
+});
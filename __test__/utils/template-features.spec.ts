@@ -0,0 +1,202 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import consola from 'consola';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr } from '@/types/result';
+import {
+  applyTemplateFeatures,
+  createFeatureSelectOptions,
+  parseFeaturesArg,
+  promptForTemplateFeatures,
+  resolveFeatureDependencies,
+  resolveTemplateFeatures,
+  validateTemplateFeatures,
+} from '@/utils/template-features';
+
+const { promptMock } = vi.hoisted(() => ({
+  promptMock: vi.fn(),
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    prompt: promptMock,
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('src/utils/template-features.ts', () => {
+  let tempDir: string;
+
+  const features = {
+    hono: { label: 'Hono API', description: 'Hono server routes', default: true },
+    tailwind: { label: 'Tailwind CSS' },
+    docker: { requires: ['hono'], conflicts: ['vercel'] },
+    vercel: {},
+  };
+
+  const writeFile = async (file: string, contents = '') => {
+    await fs.promises.mkdir(path.dirname(path.join(tempDir, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(tempDir, file), contents);
+  };
+  const readFile = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf8');
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-template-features-'));
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateTemplateFeatures', () => {
+    test('accepts valid features', () => {
+      expect(validateTemplateFeatures(features)).toEqual({ success: true, data: features });
+    });
+
+    test.each([
+      [[], '"features" must be an object'],
+      [{ 'my feature': {} }, 'Invalid feature name "my feature"'],
+      [{ docker: { requires: ['k8s'] } }, '"requires" references unknown feature "k8s"'],
+      [{ docker: { conflicts: ['docker'] } }, '"conflicts" references unknown feature "docker"'],
+      [{ docker: { remove: ['../outside'] } }, '"remove" must be an array of paths inside the project'],
+      [{ docker: { package: { engines: { node: '>=20' } } } }, '"package" may only contain'],
+      [{ docker: { package: { scripts: { build: 1 } } } }, '"package" may only contain'],
+    ])('rejects %j', (raw, message) => {
+      const result = validateTemplateFeatures(raw);
+
+      expect(result.success === false && result.error).toContain(message);
+    });
+  });
+
+  describe('parseFeaturesArg', () => {
+    test('splits comma-separated feature names', () => {
+      expect(parseFeaturesArg('hono, tailwind,')).toEqual(['hono', 'tailwind']);
+      expect(parseFeaturesArg('')).toEqual([]);
+      expect(parseFeaturesArg(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('resolveFeatureDependencies', () => {
+    test('adds required features in manifest order', () => {
+      expect(resolveFeatureDependencies(features, ['docker', 'tailwind'])).toEqual({
+        success: true,
+        data: ['hono', 'tailwind', 'docker'],
+      });
+      expect(consola.info).toHaveBeenCalledWith('Added hono (required by docker).');
+    });
+
+    test('returns an error for conflicting features', () => {
+      const result = resolveFeatureDependencies(features, ['vercel', 'docker']);
+
+      expect(result.success === false && result.error).toMatchObject({
+        message: 'Features docker and vercel cannot be selected together',
+        code: 'INVALID_ARGUMENT',
+        option: 'features',
+      });
+    });
+
+    test('returns an error for unknown features', () => {
+      const result = resolveFeatureDependencies(features, ['storybook']);
+
+      expect(result.success === false && result.error).toMatchObject({
+        message: 'Unknown features: storybook (available: hono, tailwind, docker, vercel)',
+        code: 'INVALID_ARGUMENT',
+        option: 'features',
+      });
+    });
+  });
+
+  describe('createFeatureSelectOptions', () => {
+    test('uses labels and descriptions', () => {
+      expect(createFeatureSelectOptions(features)).toEqual([
+        { label: 'Hono API', value: 'hono', hint: 'Hono server routes' },
+        { label: 'Tailwind CSS', value: 'tailwind' },
+        { label: 'docker', value: 'docker' },
+        { label: 'vercel', value: 'vercel' },
+      ]);
+    });
+  });
+
+  describe('promptForTemplateFeatures', () => {
+    test('preselects default features and prompts again after a conflict', async () => {
+      promptMock.mockResolvedValueOnce(['docker', 'vercel']).mockResolvedValueOnce(['tailwind']);
+
+      expect(await promptForTemplateFeatures(features)).toEqual({ success: true, data: ['tailwind'] });
+      expect(promptMock).toHaveBeenCalledWith(
+        'Select features',
+        expect.objectContaining({ type: 'multiselect', initial: ['hono'], required: false }),
+      );
+      expect(consola.error).toHaveBeenCalledWith('Features docker and vercel cannot be selected together');
+    });
+
+    test('returns an error when cancelled', async () => {
+      promptMock.mockRejectedValue(new Error('Prompt cancelled'));
+
+      expect(isErr(await promptForTemplateFeatures(features))).toBe(true);
+    });
+  });
+
+  describe('resolveTemplateFeatures', () => {
+    test('uses --features without prompting', async () => {
+      expect(await resolveTemplateFeatures(features, 'tailwind')).toEqual({ success: true, data: ['tailwind'] });
+      expect(await resolveTemplateFeatures(features, '')).toEqual({ success: true, data: [] });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('uses the default features without prompts', async () => {
+      expect(await resolveTemplateFeatures(features, undefined, true)).toEqual({ success: true, data: ['hono'] });
+    });
+
+    test('ignores --features for templates without features', async () => {
+      expect(await resolveTemplateFeatures({}, 'hono')).toEqual({ success: true, data: [] });
+      expect(consola.warn).toHaveBeenCalledWith('The template does not declare features, ignoring --features.');
+    });
+  });
+
+  describe('applyTemplateFeatures', () => {
+    test('copies files, removes paths and merges package.json', async () => {
+      await writeFile(
+        'package.json',
+        JSON.stringify({ name: 'app', scripts: { dev: 'nuxt dev' }, dependencies: { nuxt: '^4.0.0' } }),
+      );
+      await writeFile('server/api/health.ts', 'nitro');
+      await writeFile('_features/hono/server/index.ts', 'hono');
+      await writeFile('_features/docker/Dockerfile', 'FROM node');
+      await writeFile('_features/tailwind/tailwind.config.ts', 'tailwind');
+
+      const result = await applyTemplateFeatures(
+        tempDir,
+        {
+          hono: { remove: ['server/api'], package: { dependencies: { hono: '^4.0.0' } } },
+          docker: { package: { scripts: { 'docker:build': 'docker build .' } } },
+          tailwind: {},
+        },
+        ['hono', 'docker'],
+      );
+
+      expect(result).toEqual({ success: true, data: ['hono', 'docker'] });
+      expect(readFile('server/index.ts')).toBe('hono');
+      expect(readFile('Dockerfile')).toBe('FROM node');
+      expect(fs.existsSync(path.join(tempDir, 'server/api'))).toBe(false);
+      expect(fs.existsSync(path.join(tempDir, 'tailwind.config.ts'))).toBe(false);
+      expect(fs.existsSync(path.join(tempDir, '_features'))).toBe(false);
+      expect(JSON.parse(readFile('package.json'))).toEqual({
+        name: 'app',
+        scripts: { dev: 'nuxt dev', 'docker:build': 'docker build .' },
+        dependencies: { nuxt: '^4.0.0', hono: '^4.0.0' },
+      });
+    });
+
+    test('returns an error when package.json cannot be read', async () => {
+      await fs.promises.mkdir(path.join(tempDir, 'package.json'));
+
+      expect(
+        isErr(await applyTemplateFeatures(tempDir, { hono: { package: { dependencies: { hono: '^4' } } } }, ['hono'])),
+      ).toBe(true);
+    });
+  });
+});
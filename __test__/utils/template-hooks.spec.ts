@@ -0,0 +1,218 @@
+import consola from 'consola';
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { isErr } from '@/types/result';
+import {
+  executeTemplateHook,
+  promptForTemplateHooks,
+  reportTemplateHookFailures,
+  resolveTemplateHooksEnabled,
+  runTemplateHooks,
+  validateTemplateHooks,
+} from '@/utils/template-hooks';
+
+const { promptMock, xMock } = vi.hoisted(() => ({
+  promptMock: vi.fn(),
+  xMock: vi.fn(),
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    prompt: promptMock,
+    info: vi.fn(),
+    start: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock('tinyexec', () => ({
+  x: xMock,
+}));
+
+describe('src/utils/template-hooks.ts', () => {
+  const hooks = {
+    postDownload: [{ run: 'cp .env.example .env' }],
+    postInstall: [{ run: 'nuxi prepare', description: 'Generate types' }, { run: 'pnpm codegen' }],
+  };
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    xMock.mockReset();
+  });
+
+  describe('validateTemplateHooks', () => {
+    test('converts command strings into hooks', () => {
+      expect(validateTemplateHooks({ postInstall: ['nuxi prepare', { run: 'pnpm codegen', required: true }] })).toEqual(
+        { success: true, data: { postInstall: [{ run: 'nuxi prepare' }, { run: 'pnpm codegen', required: true }] } },
+      );
+    });
+
+    test.each([
+      [[], '"hooks" must be an object'],
+      [{ postBuild: [] }, 'Invalid hook stage "postBuild": use postDownload, postInstall or postGitInit'],
+      [{ postInstall: 'nuxi prepare' }, 'Invalid hooks "postInstall"'],
+      [{ postInstall: [''] }, 'Invalid hooks "postInstall"'],
+      [{ postInstall: [{ run: 'nuxi prepare', required: 'yes' }] }, 'Invalid hooks "postInstall"'],
+    ])('rejects %j', (raw, message) => {
+      const result = validateTemplateHooks(raw);
+
+      expect(result.success === false && result.error).toContain(message);
+    });
+  });
+
+  describe('promptForTemplateHooks', () => {
+    test('shows the commands before asking', async () => {
+      promptMock.mockResolvedValue(false);
+
+      expect(await promptForTemplateHooks('postInstall', hooks.postInstall)).toEqual({ success: true, data: false });
+      expect(vi.mocked(consola.info).mock.calls[0]?.[0]).toContain('The template runs these commands after install:');
+      expect(vi.mocked(consola.info).mock.calls[0]?.[0]).toContain('pnpm codegen');
+      expect(promptMock).toHaveBeenCalledWith('Run them?', expect.objectContaining({ type: 'confirm', initial: true }));
+    });
+
+    test('returns an error when cancelled', async () => {
+      promptMock.mockRejectedValue(new Error('Prompt cancelled'));
+
+      expect(isErr(await promptForTemplateHooks('postInstall', hooks.postInstall))).toBe(true);
+    });
+  });
+
+  describe('executeTemplateHook', () => {
+    test('runs the command through the shell in the project directory', async () => {
+      xMock.mockResolvedValue({ exitCode: 0 });
+
+      expect(await executeTemplateHook({ run: 'nuxi prepare' }, '/work/my-app')).toEqual({
+        success: true,
+        data: undefined,
+      });
+      expect(xMock).toHaveBeenCalledWith('nuxi prepare', [], {
+        throwOnError: true,
+        nodeOptions: { cwd: '/work/my-app', shell: true, stdio: 'inherit' },
+      });
+    });
+
+    test('hides the output of the command when silent', async () => {
+      xMock.mockResolvedValue({ exitCode: 0 });
+
+      await executeTemplateHook({ run: 'nuxi prepare' }, '/work/my-app', true);
+      expect(xMock).toHaveBeenCalledWith('nuxi prepare', [], {
+        throwOnError: true,
+        nodeOptions: { cwd: '/work/my-app', shell: true, stdio: 'pipe' },
+      });
+    });
+  });
+
+  describe('resolveTemplateHooksEnabled', () => {
+    test('enables the hooks when prompts can confirm them or --hooks is given', () => {
+      expect(resolveTemplateHooksEnabled(undefined)).toBe(true);
+      expect(resolveTemplateHooksEnabled(undefined, true)).toBe(false);
+      expect(resolveTemplateHooksEnabled(true, true)).toBe(true);
+      expect(resolveTemplateHooksEnabled(false)).toBe(false);
+    });
+  });
+
+  describe('runTemplateHooks', () => {
+    test('does nothing without hooks for the stage', async () => {
+      expect(await runTemplateHooks('postGitInit', hooks, '/work/my-app')).toEqual({ success: true, data: [] });
+      expect(promptMock).not.toHaveBeenCalled();
+    });
+
+    test('runs the hooks after confirmation', async () => {
+      promptMock.mockResolvedValue(true);
+      xMock.mockResolvedValue({ exitCode: 0 });
+
+      const result = await runTemplateHooks('postInstall', hooks, '/work/my-app');
+
+      expect(result).toEqual({
+        success: true,
+        data: [
+          { stage: 'postInstall', run: 'nuxi prepare', status: 'succeeded' },
+          { stage: 'postInstall', run: 'pnpm codegen', status: 'succeeded' },
+        ],
+      });
+      expect(xMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('runs the hooks without confirmation in non-interactive mode with --hooks', async () => {
+      xMock.mockResolvedValue({ exitCode: 0 });
+
+      await runTemplateHooks('postDownload', hooks, '/work/my-app', { enabled: true, nonInteractive: true });
+
+      expect(promptMock).not.toHaveBeenCalled();
+      expect(xMock).toHaveBeenCalledTimes(1);
+    });
+
+    test.each([
+      [{ enabled: false }, undefined, 'Skipping 1 template hook(s) after download (--no-hooks).'],
+      [
+        { nonInteractive: true },
+        undefined,
+        'Skipping 1 template hook(s) after download (pass --hooks to run them without prompts).',
+      ],
+      [{}, false, 'Skipping template hooks after download.'],
+    ])('skips the hooks with %j when the answer is %s', async (options, answer, message) => {
+      promptMock.mockResolvedValue(answer);
+
+      const result = await runTemplateHooks('postDownload', hooks, '/work/my-app', options);
+
+      expect(result).toEqual({
+        success: true,
+        data: [{ stage: 'postDownload', run: 'cp .env.example .env', status: 'skipped' }],
+      });
+      expect(consola.info).toHaveBeenCalledWith(message);
+      expect(xMock).not.toHaveBeenCalled();
+    });
+
+    test('reports a failing hook and runs the remaining ones', async () => {
+      xMock.mockRejectedValueOnce(new Error('exit code 1')).mockResolvedValueOnce({ exitCode: 0 });
+
+      const result = await runTemplateHooks('postInstall', hooks, '/work/my-app', {
+        enabled: true,
+        nonInteractive: true,
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: [
+          { stage: 'postInstall', run: 'nuxi prepare', status: 'failed', error: 'exit code 1' },
+          { stage: 'postInstall', run: 'pnpm codegen', status: 'succeeded' },
+        ],
+      });
+      expect(consola.warn).toHaveBeenCalledWith('Template hook "nuxi prepare" failed: exit code 1');
+    });
+
+    test('returns an error when a required hook fails', async () => {
+      xMock.mockRejectedValue(new Error('exit code 1'));
+
+      const result = await runTemplateHooks(
+        'postInstall',
+        { postInstall: [{ run: 'nuxi prepare', required: true }, { run: 'pnpm codegen' }] },
+        '/work/my-app',
+        { enabled: true, nonInteractive: true },
+      );
+
+      expect(result.success === false && result.error.message).toBe(
+        'Required template hook "nuxi prepare" failed: exit code 1',
+      );
+      expect(xMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reportTemplateHookFailures', () => {
+    test('lists the failed hooks', () => {
+      reportTemplateHookFailures([
+        { stage: 'postDownload', run: 'cp .env.example .env', status: 'succeeded' },
+        { stage: 'postInstall', run: 'nuxi prepare', status: 'failed', error: 'exit code 1' },
+      ]);
+
+      expect(consola.warn).toHaveBeenCalledWith(
+        '1 template hook(s) failed, run them manually:\n  nuxi prepare (after install): exit code 1',
+      );
+    });
+
+    test('stays silent when every hook succeeded', () => {
+      reportTemplateHookFailures([{ stage: 'postInstall', run: 'nuxi prepare', status: 'skipped' }]);
+
+      expect(consola.warn).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { Err, Ok } from '@/types/result';
+import { createDownloadFailedError } from '@/utils/errors';
+import { extractReadmeExcerpt, loadTemplateInfo } from '@/utils/template-info';
+
+const { downloadTemplateWithResultMock, loadTemplateCatalogMock } = vi.hoisted(() => ({
+  downloadTemplateWithResultMock: vi.fn(),
+  loadTemplateCatalogMock: vi.fn(),
+}));
+
+vi.mock('@/utils/template', () => ({
+  downloadTemplateWithResult: downloadTemplateWithResultMock,
+}));
+
+vi.mock('@/utils/catalog', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/catalog')>()),
+  loadTemplateCatalog: loadTemplateCatalogMock,
+}));
+
+const NUXT4 = { name: 'nuxt4', label: 'Nuxt4 + Hono', tags: ['nuxt'], engines: { node: '>=20' } };
+
+const TEMPLATE_FILES: Record<string, string> = {
+  'README.md':
+    '# Nuxt4 + Hono\n\n[![CI](https://example.com/badge.svg)](https://example.com)\n\nNuxt 4 with a Hono API.\n\n## Setup\n\npnpm dev\n',
+  'xeikit.template.json': JSON.stringify({ features: { hono: { label: 'Hono backend' } } }),
+};
+
+describe('src/utils/template-info.ts', () => {
+  describe('extractReadmeExcerpt', () => {
+    test('returns the text between the title and the next heading, without badges', () => {
+      expect(extractReadmeExcerpt(TEMPLATE_FILES['README.md'] ?? '')).toBe('Nuxt 4 with a Hono API.');
+    });
+
+    test('keeps READMEs without a title and cuts long ones', () => {
+      expect(extractReadmeExcerpt('one\ntwo\nthree', 2)).toBe('one\ntwo');
+    });
+
+    test('returns undefined for READMEs without text', () => {
+      expect(extractReadmeExcerpt('# Title\n\n## Usage\n')).toBeUndefined();
+    });
+  });
+
+  describe('loadTemplateInfo', () => {
+    let downloadedDir: string | undefined;
+
+    beforeEach(() => {
+      loadTemplateCatalogMock.mockResolvedValue({ templates: [NUXT4] });
+      downloadTemplateWithResultMock.mockImplementation(async (template: string, dir: string) => {
+        downloadedDir = dir;
+        for (const [file, contents] of Object.entries(TEMPLATE_FILES)) {
+          await fs.promises.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+          await fs.promises.writeFile(path.join(dir, file), contents);
+        }
+        return Ok({ dir, source: template });
+      });
+    });
+
+    afterEach(() => {
+      vi.clearAllMocks();
+      downloadedDir = undefined;
+    });
+
+    test('returns the catalog entry, the README excerpt and the features of the template', async () => {
+      const result = await loadTemplateInfo('nuxt4');
+
+      expect(result).toEqual({
+        success: true,
+        data: { entry: NUXT4, readme: 'Nuxt 4 with a Hono API.', features: { hono: { label: 'Hono backend' } } },
+      });
+      expect(downloadTemplateWithResultMock).toHaveBeenCalledWith(
+        'nuxt4',
+        expect.any(String),
+        expect.objectContaining({ url: expect.any(String) }),
+        { preferOffline: true },
+        undefined,
+      );
+      expect(fs.existsSync(downloadedDir ?? '')).toBe(false);
+    });
+
+    test('returns an InvalidArgumentError for templates missing from the catalog', async () => {
+      const result = await loadTemplateInfo('nuxt');
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        message: expect.stringContaining('Did you mean "nuxt4"?'),
+      });
+      expect(downloadTemplateWithResultMock).not.toHaveBeenCalled();
+    });
+
+    test('returns download errors', async () => {
+      downloadTemplateWithResultMock.mockResolvedValue(Err(createDownloadFailedError('nuxt4', new Error('offline'))));
+
+      const result = await loadTemplateInfo('nuxt4');
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'DOWNLOAD_FAILED' });
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import consola from 'consola';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr } from '@/types/result';
+import { applyTemplateManifest, readTemplateManifest, validateTemplateManifest } from '@/utils/template-manifest';
+
+const { promptMock } = vi.hoisted(() => ({
+  promptMock: vi.fn(),
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    prompt: promptMock,
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('src/utils/template-manifest.ts', () => {
+  let tempDir: string;
+
+  const writeFile = async (file: string, contents = '') => {
+    await fs.promises.mkdir(path.dirname(path.join(tempDir, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(tempDir, file), contents);
+  };
+  const readFile = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf8');
+  const writeManifest = (manifest: unknown) => writeFile('xeikit.template.json', JSON.stringify(manifest));
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-template-manifest-'));
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateTemplateManifest', () => {
+    test('defaults to no variables, features and hooks', () => {
+      expect(validateTemplateManifest({ $schema: 'https://example.com/schema.json' })).toEqual({
+        success: true,
+        data: { variables: {}, features: {}, hooks: {} },
+      });
+    });
+
+    test.each([
+      [[], 'The template manifest must be a JSON object'],
+      [{ variables: { license: { type: 'select' } } }, 'a select variable needs a non-empty "options" array'],
+      [{ features: { docker: { requires: ['k8s'] } } }, '"requires" references unknown feature "k8s"'],
+      [{ hooks: { postBuild: [] } }, 'Invalid hook stage "postBuild"'],
+    ])('rejects %j', (manifest, message) => {
+      const result = validateTemplateManifest(manifest);
+
+      expect(result.success === false && result.error).toContain(message);
+    });
+  });
+
+  describe('readTemplateManifest', () => {
+    test('returns undefined without a manifest', async () => {
+      expect(await readTemplateManifest(tempDir)).toEqual({ success: true, data: undefined });
+    });
+
+    test('returns an error for invalid JSON', async () => {
+      await writeFile('xeikit.template.json', '{');
+
+      const result = await readTemplateManifest(tempDir);
+
+      expect(result.success === false && result.error.message).toContain('xeikit.template.json');
+    });
+  });
+
+  describe('applyTemplateManifest', () => {
+    test('leaves templates without a manifest untouched', async () => {
+      await writeFile('app.vue', '<p>{{ projectName }}</p>');
+
+      const result = await applyTemplateManifest(tempDir, {
+        variables: ['description=x'],
+        features: 'hono',
+        builtInVariables: { projectName: 'my-app' },
+        nonInteractive: true,
+      });
+
+      expect(result).toEqual({ success: true, data: { features: [], variables: {}, hooks: {} } });
+      expect(readFile('app.vue')).toBe('<p>{{ projectName }}</p>');
+      expect(consola.warn).toHaveBeenCalledWith('The template does not declare variables, ignoring --var.');
+      expect(consola.warn).toHaveBeenCalledWith('The template does not declare features, ignoring --features.');
+    });
+
+    test('applies features, renders variables and removes the manifest', async () => {
+      await writeManifest({
+        variables: { description: { default: 'A xeikit app' } },
+        features: { docker: { default: true }, tailwind: {} },
+        hooks: { postInstall: ['nuxi prepare'] },
+      });
+      await writeFile('README.md', '# {{ projectName }}\n\n{{ description }}');
+      await writeFile('_features/docker/Dockerfile', 'LABEL name="{{ projectName }}"');
+
+      const result = await applyTemplateManifest(tempDir, {
+        variables: 'description=My shop',
+        builtInVariables: { projectName: 'my-app' },
+        nonInteractive: true,
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          features: ['docker'],
+          variables: { projectName: 'my-app', description: 'My shop' },
+          hooks: { postInstall: [{ run: 'nuxi prepare' }] },
+        },
+      });
+      expect(readFile('README.md')).toBe('# my-app\n\nMy shop');
+      expect(readFile('Dockerfile')).toBe('LABEL name="my-app"');
+      expect(fs.readdirSync(tempDir).sort()).toEqual(['Dockerfile', 'README.md']);
+    });
+
+    test('selects features before prompting for variables', async () => {
+      await writeManifest({ variables: { description: {} }, features: { docker: {} } });
+      promptMock.mockResolvedValueOnce(['docker']).mockResolvedValueOnce('My shop');
+
+      const result = await applyTemplateManifest(tempDir, { builtInVariables: {} });
+
+      expect(result).toEqual({
+        success: true,
+        data: { features: ['docker'], variables: { description: 'My shop' }, hooks: {} },
+      });
+      expect(promptMock.mock.calls.map(([message]) => message)).toEqual(['Select features', 'description']);
+    });
+
+    test('returns an error for an invalid manifest or --var', async () => {
+      expect(isErr(await applyTemplateManifest(tempDir, { variables: 'oops', builtInVariables: {} }))).toBe(true);
+
+      await writeManifest({ variables: { license: { type: 'select' } } });
+
+      expect(isErr(await applyTemplateManifest(tempDir, { builtInVariables: {}, nonInteractive: true }))).toBe(true);
+    });
+
+    test('returns an error for conflicting --features', async () => {
+      await writeManifest({ features: { docker: { conflicts: ['vercel'] }, vercel: {} } });
+
+      const result = await applyTemplateManifest(tempDir, { features: 'docker,vercel', builtInVariables: {} });
+
+      expect(result.success === false && result.error).toMatchObject({
+        message: 'Features docker and vercel cannot be selected together',
+        code: 'INVALID_ARGUMENT',
+      });
+      expect(fs.existsSync(path.join(tempDir, 'xeikit.template.json'))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import {
+  createGitRemoteUrl,
+  isCommitSha,
+  resolveTemplateCommit,
+  resolveTemplateRef,
+  splitTemplateRef,
+  withTemplateRef,
+} from '@/utils/template-ref';
+
+const { xMock } = vi.hoisted(() => ({
+  xMock: vi.fn(),
+}));
+
+vi.mock('tinyexec', () => ({
+  x: xMock,
+}));
+
+const COMMIT = '3f2c9a1b7d4e5f60718293a4b5c6d7e8f9012345';
+const TAG_OBJECT = 'aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa';
+
+describe('src/utils/template-ref.ts', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    xMock.mockReset();
+  });
+
+  describe('splitTemplateRef', () => {
+    test.each([
+      ['nuxt4', { name: 'nuxt4' }],
+      ['nuxt4@v2.1.0', { name: 'nuxt4', ref: 'v2.1.0' }],
+      ['internal:my-starter@release/2', { name: 'internal:my-starter', ref: 'release/2' }],
+      ['gh:org/repo/path#main', { name: 'gh:org/repo/path', ref: 'main' }],
+      ['gh:org/repo@v2', { name: 'gh:org/repo@v2' }],
+      ['./templates/app@v2', { name: './templates/app@v2' }],
+      ['@scope', { name: '@scope' }],
+    ])('splits %s', (templateArg, expected) => {
+      expect(splitTemplateRef(templateArg)).toEqual({ success: true, data: expected });
+    });
+
+    test.each(['nuxt4@', 'gh:org/repo#'])('returns an error for the empty ref of %s', (templateArg) => {
+      expect(splitTemplateRef(templateArg)).toEqual({ success: false, error: `Ref is missing in "${templateArg}"` });
+    });
+  });
+
+  describe('resolveTemplateRef', () => {
+    test('uses the --template-ref argument', () => {
+      expect(resolveTemplateRef('nuxt4', 'v2.1.0')).toEqual({ success: true, data: { name: 'nuxt4', ref: 'v2.1.0' } });
+      expect(resolveTemplateRef('nuxt4@v2.1.0', 'v2.1.0')).toEqual({
+        success: true,
+        data: { name: 'nuxt4', ref: 'v2.1.0' },
+      });
+    });
+
+    test('returns an error for conflicting refs', () => {
+      expect(resolveTemplateRef('nuxt4@v2.0.0', 'v2.1.0')).toEqual({
+        success: false,
+        error: 'Conflicting refs: "v2.0.0" in the template and "v2.1.0" in --template-ref',
+      });
+    });
+  });
+
+  describe('withTemplateRef', () => {
+    test('appends the ref when one is given', () => {
+      expect(withTemplateRef('gh:org/repo', 'v2')).toBe('gh:org/repo#v2');
+      expect(withTemplateRef('gh:org/repo')).toBe('gh:org/repo');
+    });
+  });
+
+  describe('isCommitSha', () => {
+    test.each([
+      [COMMIT, true],
+      [COMMIT.toUpperCase(), true],
+      ['3f2c9a1', false],
+      ['main', false],
+    ])('detects %s', (ref, expected) => {
+      expect(isCommitSha(ref)).toBe(expected);
+    });
+  });
+
+  describe('createGitRemoteUrl', () => {
+    test.each([
+      ['gh:xeikit/starter-templates/packages/nuxt4', 'https://github.com/xeikit/starter-templates.git'],
+      ['gitlab:org/repo', 'https://gitlab.com/org/repo.git'],
+      ['bitbucket:org/repo', 'https://bitbucket.org/org/repo.git'],
+      ['sourcehut:org/repo', 'https://git.sr.ht/~org/repo'],
+      ['gh:org', undefined],
+      ['nuxt4', undefined],
+    ])('creates the clone URL of %s', (source, expected) => {
+      expect(createGitRemoteUrl(source)).toBe(expected);
+    });
+
+    test('uses GIGET_GITLAB_URL for self-hosted GitLab', () => {
+      vi.stubEnv('GIGET_GITLAB_URL', 'https://gitlab.example.com');
+
+      expect(createGitRemoteUrl('gitlab:org/repo')).toBe('https://gitlab.example.com/org/repo.git');
+
+      vi.unstubAllEnvs();
+    });
+  });
+
+  describe('resolveTemplateCommit', () => {
+    test('returns full commit SHAs without using the network', async () => {
+      expect(await resolveTemplateCommit('gh:org/repo', COMMIT.toUpperCase())).toEqual({ success: true, data: COMMIT });
+      expect(xMock).not.toHaveBeenCalled();
+    });
+
+    test('resolves annotated tags to the commit they point to', async () => {
+      xMock.mockResolvedValue({
+        stdout: `${TAG_OBJECT}\trefs/tags/v2.1.0\n${COMMIT}\trefs/tags/v2.1.0^{}\n`,
+      });
+
+      const result = await resolveTemplateCommit('gh:org/repo/path', 'v2.1.0');
+
+      expect(result).toEqual({ success: true, data: COMMIT });
+      expect(xMock).toHaveBeenCalledWith('git', ['ls-remote', 'https://github.com/org/repo.git', 'v2.1.0'], {
+        throwOnError: true,
+        timeout: expect.any(Number),
+        nodeOptions: { env: expect.objectContaining({ GIT_TERMINAL_PROMPT: '0' }) },
+      });
+    });
+
+    test('resolves the default branch when no ref is given', async () => {
+      xMock.mockResolvedValue({ stdout: `${COMMIT}\tHEAD\n` });
+
+      expect(await resolveTemplateCommit('gh:org/repo')).toEqual({ success: true, data: COMMIT });
+      expect(xMock).toHaveBeenCalledWith(
+        'git',
+        ['ls-remote', 'https://github.com/org/repo.git', 'HEAD'],
+        expect.any(Object),
+      );
+    });
+
+    test('returns an error for unknown refs', async () => {
+      xMock.mockResolvedValue({ stdout: '' });
+
+      const result = await resolveTemplateCommit('gh:org/repo', 'v9');
+
+      expect(result.success === false && result.error.message).toBe(
+        'Ref v9 not found in https://github.com/org/repo.git',
+      );
+    });
+
+    test('returns an error when git fails', async () => {
+      xMock.mockRejectedValue(new Error('spawn git ENOENT'));
+
+      const result = await resolveTemplateCommit('gh:org/repo', 'main');
+
+      expect(result.success === false && result.error.message).toContain('spawn git ENOENT');
+    });
+
+    test('returns an error for sources that are not git-hosted', async () => {
+      const result = await resolveTemplateCommit('nuxt4');
+
+      expect(result.success === false && result.error.message).toBe('nuxt4 is not a git-hosted template');
+      expect(xMock).not.toHaveBeenCalled();
+    });
+  });
+});
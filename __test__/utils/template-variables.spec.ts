@@ -0,0 +1,240 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import consola from 'consola';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { isErr } from '@/types/result';
+import {
+  createBuiltInTemplateVariables,
+  isBinaryContent,
+  parseTemplateVariableArgs,
+  parseTemplateVariableValue,
+  promptForTemplateVariable,
+  renderTemplateDirectory,
+  renderTemplateString,
+  resolveTemplateVariables,
+  validateTemplateVariables,
+} from '@/utils/template-variables';
+
+const { promptMock } = vi.hoisted(() => ({
+  promptMock: vi.fn(),
+}));
+
+vi.mock('consola', () => ({
+  default: {
+    prompt: promptMock,
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('src/utils/template-variables.ts', () => {
+  let tempDir: string;
+
+  const writeFile = async (file: string, contents: string | Buffer = '') => {
+    await fs.promises.mkdir(path.dirname(path.join(tempDir, file)), { recursive: true });
+    await fs.promises.writeFile(path.join(tempDir, file), contents);
+  };
+  const readFile = (file: string) => fs.readFileSync(path.join(tempDir, file), 'utf8');
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-template-variables-'));
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseTemplateVariableValue', () => {
+    test('parses values by type', () => {
+      expect(parseTemplateVariableValue('port', { type: 'number' }, '3000')).toEqual({ success: true, data: 3000 });
+      expect(parseTemplateVariableValue('docker', { type: 'boolean' }, 'yes')).toEqual({ success: true, data: true });
+      expect(parseTemplateVariableValue('docker', { type: 'boolean' }, 'false')).toEqual({
+        success: true,
+        data: false,
+      });
+      expect(parseTemplateVariableValue('license', { type: 'select', options: ['MIT'] }, 'MIT')).toEqual({
+        success: true,
+        data: 'MIT',
+      });
+    });
+
+    test.each([
+      [{ type: 'number' as const }, 'abc'],
+      [{ type: 'boolean' as const }, 'maybe'],
+      [{ type: 'select' as const, options: ['MIT'] }, 'GPL'],
+      [{ pattern: '^[a-z]+$' }, 'Not Valid'],
+      [{ required: true }, ''],
+    ])('rejects invalid values for %o', (definition, value) => {
+      expect(isErr(parseTemplateVariableValue('name', definition, value))).toBe(true);
+    });
+  });
+
+  describe('validateTemplateVariables', () => {
+    test('accepts valid definitions', () => {
+      expect(validateTemplateVariables({ description: { default: 'A xeikit app' } })).toEqual({
+        success: true,
+        data: { description: { default: 'A xeikit app' } },
+      });
+    });
+
+    test.each([
+      [[], '"variables" must be an object'],
+      [{ 'my-name': {} }, 'Invalid variable name "my-name": use letters, digits and "_" only'],
+      [{ license: { type: 'select' } }, 'a select variable needs a non-empty "options" array'],
+      [{ slug: { pattern: '(' } }, '"pattern" is not a valid regular expression'],
+      [{ port: { type: 'number', default: 'abc' } }, 'expected a number'],
+    ])('rejects %j', (variables, message) => {
+      const result = validateTemplateVariables(variables);
+
+      expect(result.success === false && result.error).toContain(message);
+    });
+  });
+
+  describe('parseTemplateVariableArgs', () => {
+    test('parses a single and repeated --var', () => {
+      expect(parseTemplateVariableArgs('description=a=b')).toEqual({ success: true, data: { description: 'a=b' } });
+      expect(parseTemplateVariableArgs(['a=1', 'b='])).toEqual({ success: true, data: { a: '1', b: '' } });
+      expect(parseTemplateVariableArgs(undefined)).toEqual({ success: true, data: {} });
+      expect(parseTemplateVariableArgs('')).toEqual({ success: true, data: {} });
+    });
+
+    test.each(['description', '=value', 'my-name=value'])('rejects %s as an invalid argument', (value) => {
+      const result = parseTemplateVariableArgs([value]);
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'var' });
+    });
+  });
+
+  describe('promptForTemplateVariable', () => {
+    test('prompts again until the value is valid', async () => {
+      promptMock.mockResolvedValueOnce('abc').mockResolvedValueOnce('8080');
+
+      expect(await promptForTemplateVariable('port', { type: 'number', prompt: 'Port' })).toEqual({
+        success: true,
+        data: 8080,
+      });
+      expect(promptMock).toHaveBeenCalledWith('Port', expect.objectContaining({ type: 'text' }));
+      expect(consola.error).toHaveBeenCalledTimes(1);
+    });
+
+    test('uses confirm and select prompts', async () => {
+      promptMock.mockResolvedValueOnce(true).mockResolvedValueOnce('Apache-2.0');
+
+      expect(await promptForTemplateVariable('docker', { type: 'boolean' })).toEqual({ success: true, data: true });
+      expect(
+        await promptForTemplateVariable('license', { type: 'select', options: ['MIT', 'Apache-2.0'], default: 'MIT' }),
+      ).toEqual({ success: true, data: 'Apache-2.0' });
+      expect(promptMock).toHaveBeenLastCalledWith(
+        'license',
+        expect.objectContaining({ type: 'select', initial: 'MIT', options: ['MIT', 'Apache-2.0'] }),
+      );
+    });
+
+    test('returns an error when cancelled', async () => {
+      promptMock.mockRejectedValue(new Error('Prompt cancelled'));
+
+      expect(isErr(await promptForTemplateVariable('description', {}))).toBe(true);
+    });
+  });
+
+  describe('resolveTemplateVariables', () => {
+    const variables = {
+      description: { default: 'A xeikit app' },
+      port: { type: 'number' as const, default: 3000 },
+      docker: { type: 'boolean' as const },
+    };
+
+    test('uses --var values and defaults without prompts', async () => {
+      expect(await resolveTemplateVariables(variables, { port: '8080', unknown: 'x' }, true)).toEqual({
+        success: true,
+        data: { description: 'A xeikit app', port: 8080, docker: false },
+      });
+      expect(promptMock).not.toHaveBeenCalled();
+      expect(consola.warn).toHaveBeenCalledWith('Ignoring unknown template variables: unknown');
+    });
+
+    test('prompts for missing values', async () => {
+      promptMock.mockResolvedValueOnce('My shop').mockResolvedValueOnce(true);
+
+      expect(await resolveTemplateVariables(variables, { port: '8080' })).toEqual({
+        success: true,
+        data: { description: 'My shop', port: 8080, docker: true },
+      });
+      expect(promptMock).toHaveBeenCalledTimes(2);
+    });
+
+    test('returns an error for an invalid --var value', async () => {
+      const result = await resolveTemplateVariables(variables, { port: 'abc' }, true);
+
+      expect(result.success === false && result.error).toMatchObject({
+        message: 'Invalid value "abc" for template variable "port": expected a number',
+        code: 'INVALID_ARGUMENT',
+        option: 'var',
+      });
+    });
+
+    test('returns an error for a required variable without a value', async () => {
+      expect(isErr(await resolveTemplateVariables({ author: { required: true } }, {}, true))).toBe(true);
+    });
+
+    test('returns a plain error for an invalid default of the template', async () => {
+      const result = await resolveTemplateVariables({ port: { type: 'number', default: 'abc' } }, {}, true);
+
+      expect(result.success === false && result.error).not.toHaveProperty('code');
+    });
+  });
+
+  describe('createBuiltInTemplateVariables', () => {
+    test('provides the project name and year', () => {
+      expect(createBuiltInTemplateVariables('my-app', new Date(2025, 5, 1))).toEqual({
+        projectName: 'my-app',
+        year: 2025,
+      });
+    });
+  });
+
+  describe('renderTemplateString', () => {
+    test('substitutes known placeholders and keeps unknown ones', () => {
+      expect(
+        renderTemplateString('{{projectName}} {{ year }} {{ count }} {{ secrets.TOKEN }}', {
+          projectName: 'my-app',
+          year: 2025,
+        }),
+      ).toBe('my-app 2025 {{ count }} {{ secrets.TOKEN }}');
+    });
+  });
+
+  describe('isBinaryContent', () => {
+    test('detects NUL bytes', () => {
+      expect(isBinaryContent(Buffer.from('hello'))).toBe(false);
+      expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x7b]))).toBe(true);
+    });
+  });
+
+  describe('renderTemplateDirectory', () => {
+    test('renders file contents and names but skips binary files', async () => {
+      const binary = Buffer.from([0x00, ...Buffer.from('{{ projectName }}')]);
+      await writeFile('README.md', '# {{ projectName }}');
+      await writeFile('{{ projectName }}/{{ projectName }}.ts', 'export default "{{ projectName }}";');
+      await writeFile('logo.png', binary);
+      await writeFile('node_modules/pkg/index.js', '{{ projectName }}');
+
+      const result = await renderTemplateDirectory(tempDir, { projectName: 'my-app' });
+
+      expect(result).toEqual({ success: true, data: ['README.md', 'my-app/my-app.ts'] });
+      expect(readFile('README.md')).toBe('# my-app');
+      expect(readFile('my-app/my-app.ts')).toBe('export default "my-app";');
+      expect(fs.readFileSync(path.join(tempDir, 'logo.png'))).toEqual(binary);
+      expect(readFile('node_modules/pkg/index.js')).toBe('{{ projectName }}');
+    });
+
+    test('returns an error when a rendered name already exists', async () => {
+      await writeFile('{{ projectName }}.md');
+      await writeFile('my-app.md');
+
+      expect(isErr(await renderTemplateDirectory(tempDir, { projectName: 'my-app' }))).toBe(true);
+    });
+  });
+});
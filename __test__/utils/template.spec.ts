@@ -1,24 +1,43 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
 import consola from 'consola';
-import { afterEach, describe, expect, test, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { createBundledCatalog } from '@/utils/catalog';
 import { DEFAULT_REGISTRY, TEMPLATE_OPTIONS } from '@/utils/constants';
+import { DEFAULT_RESOLVED_REGISTRY } from '@/utils/registry';
 import {
-  downloadTemplateAndHandleErrors,
+  createRecordedTemplateSource,
   downloadTemplateWithResult,
   promptForTemplate,
-  selectTemplate,
+  resolveTemplateSelection,
   validateTemplateArg,
   validateTemplatePromptResult,
 } from '@/utils/template';
 
-const { promptMock, downloadTemplateMock } = vi.hoisted(() => ({
+const {
+  promptMock,
+  downloadTemplateMock,
+  loadTemplateCatalogMock,
+  readTemplateCacheEntryMock,
+  restoreTemplateFromCacheMock,
+  storeTemplateInCacheMock,
+  resolveTemplateCommitMock,
+} = vi.hoisted(() => ({
   promptMock: vi.fn(),
   downloadTemplateMock: vi.fn(),
+  loadTemplateCatalogMock: vi.fn(),
+  readTemplateCacheEntryMock: vi.fn(),
+  restoreTemplateFromCacheMock: vi.fn(),
+  storeTemplateInCacheMock: vi.fn(),
+  resolveTemplateCommitMock: vi.fn(),
 }));
 
 vi.mock('consola', () => ({
   default: {
     prompt: promptMock,
     error: vi.fn(),
+    warn: vi.fn(),
   },
 }));
 
@@ -26,7 +45,43 @@ vi.mock('giget', () => ({
   downloadTemplate: downloadTemplateMock,
 }));
 
+vi.mock('@/utils/catalog', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/catalog')>()),
+  loadTemplateCatalog: loadTemplateCatalogMock,
+}));
+
+vi.mock('@/utils/template-cache', () => ({
+  readTemplateCacheEntry: readTemplateCacheEntryMock,
+  restoreTemplateFromCache: restoreTemplateFromCacheMock,
+  storeTemplateInCache: storeTemplateInCacheMock,
+}));
+
+vi.mock('@/utils/template-ref', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/template-ref')>()),
+  resolveTemplateCommit: resolveTemplateCommitMock,
+}));
+
+const COMMIT = '3f2c9a1b7d4e5f60718293a4b5c6d7e8f9012345';
+
+const CACHE_ENTRY = {
+  key: 'abc123',
+  path: '/cache/templates/abc123',
+  registry: DEFAULT_REGISTRY,
+  template: 'test-template',
+  cachedAt: 0,
+  result: { name: 'test-template', tar: 'https://example.com/test-template.tar.gz', source: 'test-template' },
+};
+
+const REGISTRIES = {
+  internal: { url: 'https://internal.example.com/templates', tokenEnv: 'INTERNAL_TOKEN' },
+};
+
 describe('src/utils/template.ts', () => {
+  beforeEach(() => {
+    loadTemplateCatalogMock.mockResolvedValue(createBundledCatalog());
+    resolveTemplateCommitMock.mockResolvedValue({ success: true, data: COMMIT });
+  });
+
   afterEach(() => {
     vi.clearAllMocks();
   });
@@ -94,6 +149,31 @@ describe('src/utils/template.ts', () => {
       });
     });
 
+    test('shows templates from the provided catalog', async () => {
+      promptMock.mockResolvedValue('remix');
+
+      const result = await promptForTemplate({
+        templates: [{ name: 'remix', label: 'Remix', description: 'Remix starter' }],
+      });
+
+      expect(result.success).toBe(true);
+      expect(loadTemplateCatalogMock).not.toHaveBeenCalled();
+      expect(promptMock).toHaveBeenCalledWith('Choose a template', {
+        type: 'select',
+        options: [{ label: 'Remix', value: 'remix', hint: 'Remix starter' }],
+        cancel: 'reject',
+      });
+    });
+
+    test('asks for a template name when the catalog is empty', async () => {
+      promptMock.mockResolvedValue('my-starter');
+
+      const result = await promptForTemplate({ templates: [] });
+
+      expect(result).toEqual({ success: true, data: 'my-starter' });
+      expect(promptMock).toHaveBeenCalledWith('Enter a template name', expect.objectContaining({ type: 'text' }));
+    });
+
     test('returns error result for prompt cancellation', async () => {
       promptMock.mockRejectedValue(new Error('Prompt cancelled'));
 
@@ -119,37 +199,397 @@ describe('src/utils/template.ts', () => {
       }
       expect(downloadTemplateMock).toHaveBeenCalledWith('test-template', {
         dir: '/download/path',
+        force: true,
         registry: DEFAULT_REGISTRY,
       });
     });
 
+    test('downloads from the given registry with its auth token', async () => {
+      downloadTemplateMock.mockResolvedValue({ dir: '/download/path', source: 'my-starter' });
+
+      await downloadTemplateWithResult('my-starter', '/download/path', {
+        url: 'https://internal.example.com/templates',
+        auth: 's3cr3t',
+      });
+
+      expect(downloadTemplateMock).toHaveBeenCalledWith('my-starter', {
+        dir: '/download/path',
+        force: true,
+        registry: 'https://internal.example.com/templates',
+        auth: 's3cr3t',
+      });
+    });
+
     test('returns error result for download failure', async () => {
       const mockError = new Error('Download error');
       downloadTemplateMock.mockRejectedValue(mockError);
 
       const result = await downloadTemplateWithResult('test-template', '/download/path');
 
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'DOWNLOAD_FAILED',
+        template: 'test-template',
+        message: 'Download error',
+        cause: mockError,
+      });
+    });
+
+    test('stores downloaded templates in the offline cache', async () => {
+      downloadTemplateMock.mockResolvedValue({
+        dir: '/download/path',
+        source: 'test-template',
+        headers: { Authorization: 'Bearer s3cr3t' },
+      });
+
+      await downloadTemplateWithResult('test-template', '/download/path');
+
+      expect(readTemplateCacheEntryMock).not.toHaveBeenCalled();
+      expect(storeTemplateInCacheMock).toHaveBeenCalledWith(
+        '/download/path',
+        {
+          registry: DEFAULT_REGISTRY,
+          template: 'test-template',
+          cachedAt: expect.any(Number),
+          result: { source: 'test-template' },
+        },
+        undefined,
+      );
+    });
+
+    test('restores cached templates with --offline without downloading', async () => {
+      readTemplateCacheEntryMock.mockResolvedValue(CACHE_ENTRY);
+      restoreTemplateFromCacheMock.mockResolvedValue({
+        success: true,
+        data: { ...CACHE_ENTRY.result, dir: '/download/path' },
+      });
+
+      const result = await downloadTemplateWithResult('test-template', '/download/path', DEFAULT_RESOLVED_REGISTRY, {
+        offline: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(restoreTemplateFromCacheMock).toHaveBeenCalledWith(CACHE_ENTRY, '/download/path');
+      expect(downloadTemplateMock).not.toHaveBeenCalled();
+    });
+
+    test('returns a clear error with --offline when the template is not cached', async () => {
+      readTemplateCacheEntryMock.mockResolvedValue(undefined);
+
+      const result = await downloadTemplateWithResult('test-template', '/download/path', DEFAULT_RESOLVED_REGISTRY, {
+        offline: true,
+      });
+
       expect(result.success).toBe(false);
       if (!result.success) {
-        expect(result.error.message).toBe('Download error');
+        expect(result.error.message).toContain('not available in the offline cache');
       }
+      expect(downloadTemplateMock).not.toHaveBeenCalled();
+    });
+
+    test('downloads git-hosted sources without the registry and caches them under their provider', async () => {
+      downloadTemplateMock.mockResolvedValue({ dir: '/download/path', source: `gitlab:org/repo#${COMMIT}` });
+
+      const result = await downloadTemplateWithResult('gitlab:org/repo#main', '/download/path', {
+        url: 'https://internal.example.com/templates',
+        auth: 's3cr3t',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: { dir: '/download/path', source: `gitlab:org/repo#${COMMIT}`, commit: COMMIT },
+      });
+      expect(resolveTemplateCommitMock).toHaveBeenCalledWith('gitlab:org/repo', 'main');
+      expect(downloadTemplateMock).toHaveBeenCalledWith(`gitlab:org/repo#${COMMIT}`, {
+        dir: '/download/path',
+        force: true,
+        registry: false,
+      });
+      expect(storeTemplateInCacheMock).toHaveBeenCalledWith(
+        '/download/path',
+        expect.objectContaining({ registry: 'gitlab', template: 'gitlab:org/repo', ref: 'main', commit: COMMIT }),
+        undefined,
+      );
+    });
+
+    test('downloads the ref given in the options', async () => {
+      downloadTemplateMock.mockResolvedValue({ dir: '/download/path', source: `gh:org/repo#${COMMIT}` });
+
+      await downloadTemplateWithResult('gh:org/repo', '/download/path', DEFAULT_RESOLVED_REGISTRY, { ref: 'v2.1.0' });
+
+      expect(resolveTemplateCommitMock).toHaveBeenCalledWith('gh:org/repo', 'v2.1.0');
+      expect(downloadTemplateMock).toHaveBeenCalledWith(`gh:org/repo#${COMMIT}`, expect.any(Object));
+    });
+
+    test('downloads by ref with a warning when the commit cannot be resolved', async () => {
+      resolveTemplateCommitMock.mockResolvedValue({ success: false, error: new Error('git not found') });
+      downloadTemplateMock.mockResolvedValue({ dir: '/download/path', source: 'gh:org/repo#v2.1.0' });
+
+      const result = await downloadTemplateWithResult('gh:org/repo#v2.1.0', '/download/path');
+
+      expect(result).toEqual({ success: true, data: { dir: '/download/path', source: 'gh:org/repo#v2.1.0' } });
+      expect(downloadTemplateMock).toHaveBeenCalledWith('gh:org/repo#v2.1.0', expect.any(Object));
+      expect(consola.warn).toHaveBeenCalledWith(expect.stringContaining('git not found'));
+    });
+
+    test('restores the commit of cached git-hosted templates', async () => {
+      const entry = { ...CACHE_ENTRY, registry: 'github', template: 'gh:org/repo', ref: 'v2.1.0', commit: COMMIT };
+      readTemplateCacheEntryMock.mockResolvedValue(entry);
+      restoreTemplateFromCacheMock.mockResolvedValue({ success: true, data: { dir: '/download/path', source: 'x' } });
+
+      const result = await downloadTemplateWithResult('gh:org/repo', '/download/path', DEFAULT_RESOLVED_REGISTRY, {
+        ref: 'v2.1.0',
+        offline: true,
+      });
+
+      expect(readTemplateCacheEntryMock).toHaveBeenCalledWith('github', 'gh:org/repo', 'v2.1.0', undefined);
+      expect(result).toEqual({ success: true, data: { dir: '/download/path', source: 'x', commit: COMMIT } });
+      expect(resolveTemplateCommitMock).not.toHaveBeenCalled();
+    });
+
+    test.each([
+      ['test-template', 'Only git-hosted templates can be pinned to a ref'],
+      ['/templates/my-template', 'Local templates cannot be pinned to a ref'],
+    ])('returns a download error when %s is pinned to a ref', async (templateName, message) => {
+      const result = await downloadTemplateWithResult(templateName, '/download/path', DEFAULT_RESOLVED_REGISTRY, {
+        ref: 'v2',
+      });
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'DOWNLOAD_FAILED', message });
+      expect(downloadTemplateMock).not.toHaveBeenCalled();
+    });
+
+    test('copies local templates without .git and node_modules', async () => {
+      const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-template-'));
+      const templateDir = path.join(tempDir, 'my-template');
+      for (const file of ['package.json', 'src/app.ts', '.git/HEAD', 'node_modules/vue/index.js']) {
+        await fs.promises.mkdir(path.dirname(path.join(templateDir, file)), { recursive: true });
+        await fs.promises.writeFile(path.join(templateDir, file), '{}');
+      }
+
+      const result = await downloadTemplateWithResult(templateDir, path.join(tempDir, 'project'));
+
+      expect(result).toEqual({
+        success: true,
+        data: { name: 'my-template', tar: '', source: templateDir, dir: path.join(tempDir, 'project') },
+      });
+      expect(fs.readdirSync(path.join(tempDir, 'project')).sort()).toEqual(['package.json', 'src']);
+      expect(downloadTemplateMock).not.toHaveBeenCalled();
+      expect(storeTemplateInCacheMock).not.toHaveBeenCalled();
+      await fs.promises.rm(tempDir, { recursive: true, force: true });
+    });
+
+    test('falls back to the network with --prefer-offline on a cache miss', async () => {
+      readTemplateCacheEntryMock.mockResolvedValue(undefined);
+      downloadTemplateMock.mockResolvedValue({ dir: '/download/path', source: 'test-template' });
+
+      const result = await downloadTemplateWithResult('test-template', '/download/path', DEFAULT_RESOLVED_REGISTRY, {
+        preferOffline: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(downloadTemplateMock).toHaveBeenCalledTimes(1);
     });
   });
 
-  describe('selectTemplate', () => {
+  describe('createRecordedTemplateSource', () => {
+    const COMMIT = '3f2c9a1b7d4e5f60718293a4b5c6d7e8f9012345';
+
+    test('keeps the provider prefix of git-hosted sources and pins them to the commit', () => {
+      expect(createRecordedTemplateSource({ name: 'gh:org/repo#v2', source: 'gh:org/repo', ref: 'v2' }, COMMIT)).toBe(
+        `gh:org/repo#${COMMIT}`,
+      );
+      expect(
+        createRecordedTemplateSource(
+          { name: 'nuxt4', registry: DEFAULT_RESOLVED_REGISTRY, source: 'gh:xeikit/templates/nuxt4#main' },
+          COMMIT,
+        ),
+      ).toBe(`gh:xeikit/templates/nuxt4#${COMMIT}`);
+    });
+
+    test('falls back to the selected ref when the commit is unknown', () => {
+      expect(createRecordedTemplateSource({ name: 'gh:org/repo#v2', source: 'gh:org/repo', ref: 'v2' })).toBe(
+        'gh:org/repo#v2',
+      );
+    });
+
+    test('records local templates by path and registry templates by name', () => {
+      expect(createRecordedTemplateSource({ name: './tpl', source: '/work/tpl' })).toBe('/work/tpl');
+      expect(createRecordedTemplateSource({ name: 'nuxt4', registry: DEFAULT_RESOLVED_REGISTRY })).toBe('nuxt4');
+    });
+  });
+
+  describe('resolveTemplateSelection', () => {
     test('returns provided template argument', async () => {
-      const result = await selectTemplate('test-template');
+      const result = await resolveTemplateSelection('tanstack-start');
+
+      expect(result).toEqual({ success: true, data: { name: 'tanstack-start', registry: DEFAULT_RESOLVED_REGISTRY } });
+      expect(consola.prompt).not.toHaveBeenCalled();
+    });
+
+    test('returns an invalid argument error with a suggestion for an unknown template argument', async () => {
+      const result = await resolveTemplateSelection('nuxt');
 
-      expect(result).toBe('test-template');
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        option: 'template',
+        message: 'Unknown template "nuxt". Did you mean "nuxt4"?',
+      });
       expect(consola.prompt).not.toHaveBeenCalled();
     });
 
+    test('resolves registryName:template against configured registries', async () => {
+      process.env.INTERNAL_TOKEN = 's3cr3t';
+      loadTemplateCatalogMock.mockResolvedValue({ templates: [] });
+
+      const result = await resolveTemplateSelection('internal:my-starter', false, { registries: REGISTRIES });
+      const registry = { name: 'internal', url: 'https://internal.example.com/templates', auth: 's3cr3t' };
+
+      expect(result).toEqual({ success: true, data: { name: 'my-starter', registry } });
+      expect(loadTemplateCatalogMock).toHaveBeenCalledWith(registry, undefined, { registries: REGISTRIES });
+      delete process.env.INTERNAL_TOKEN;
+    });
+
+    test('uses the --registry registry for bare template names', async () => {
+      loadTemplateCatalogMock.mockResolvedValue({ templates: [] });
+
+      const result = await resolveTemplateSelection('my-starter', false, { registry: 'https://templates.example.com' });
+
+      expect(result).toEqual({
+        success: true,
+        data: { name: 'my-starter', registry: { url: 'https://templates.example.com' } },
+      });
+    });
+
+    test('uses the --registry registry in non-interactive mode', async () => {
+      const result = await resolveTemplateSelection(undefined, true, { registry: 'internal', registries: REGISTRIES });
+
+      expect(result.success && result.data.name).toBe('nuxt4');
+      expect(result.success && result.data.registry?.name).toBe('internal');
+    });
+
+    test('returns an invalid argument error for an unknown registry prefix', async () => {
+      const result = await resolveTemplateSelection('missing:my-starter', false, { registries: REGISTRIES });
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        message: 'Unknown registry "missing". Configured registries: internal',
+      });
+    });
+
+    test('returns an invalid argument error for an unknown --registry name', async () => {
+      const result = await resolveTemplateSelection('nuxt4', false, { registry: 'missing' });
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'registry' });
+      expect(result.success === false && result.error.message).toContain('Unknown registry "missing"');
+    });
+
+    test('resolves git-hosted sources without the registry catalog', async () => {
+      const result = await resolveTemplateSelection('gh:org/repo/templates/app#v2', false, {
+        registry: 'internal',
+        registries: REGISTRIES,
+      });
+
+      expect(result).toEqual({
+        success: true,
+        data: { name: 'gh:org/repo/templates/app#v2', source: 'gh:org/repo/templates/app', ref: 'v2' },
+      });
+      expect(loadTemplateCatalogMock).not.toHaveBeenCalled();
+    });
+
+    test('pins registry templates to a ref through the source declared in the catalog', async () => {
+      loadTemplateCatalogMock.mockResolvedValue({
+        templates: [{ name: 'nuxt4', label: 'Nuxt4', source: 'gh:xeikit/starter-templates/nuxt4', versions: ['v2'] }],
+      });
+
+      const pinned = await resolveTemplateSelection('nuxt4@v2');
+      const byOption = await resolveTemplateSelection('nuxt4', false, { ref: 'main' });
+
+      expect(pinned).toEqual({
+        success: true,
+        data: {
+          name: 'nuxt4',
+          registry: DEFAULT_RESOLVED_REGISTRY,
+          source: 'gh:xeikit/starter-templates/nuxt4',
+          ref: 'v2',
+        },
+      });
+      expect(byOption.success && byOption.data.ref).toBe('main');
+      expect(consola.warn).toHaveBeenCalledWith('main is not a listed version of nuxt4 (v2)');
+    });
+
+    test.each([
+      ['nuxt4@v2', undefined, 'templateRef', 'its catalog entry declares no source'],
+      ['nuxt4@v1', 'v2', 'template', 'Conflicting refs: "v1" in the template and "v2" in --template-ref'],
+      ['./utils', 'v2', 'templateRef', 'Local templates cannot be pinned to a ref'],
+    ])('returns an invalid argument error for %s with ref %s', async (templateArg, ref, option, message) => {
+      const result = await resolveTemplateSelection(templateArg, false, { ref, cwd: import.meta.dirname });
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option });
+      expect(result.success === false && result.error.message).toContain(message);
+    });
+
+    test('resolves local templates against the working directory', async () => {
+      const cwd = path.dirname(import.meta.dirname);
+
+      const result = await resolveTemplateSelection('./utils', false, { cwd });
+
+      expect(result).toEqual({ success: true, data: { name: './utils', source: path.join(cwd, 'utils') } });
+    });
+
+    test.each([
+      ['./missing-template', 'Template directory ./missing-template does not exist'],
+      ['gh:org', 'Repository is missing in "gh:org"'],
+    ])('returns an invalid argument error for %s', async (templateArg, message) => {
+      const result = await resolveTemplateSelection(templateArg, false, { cwd: import.meta.dirname });
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'template' });
+      expect(result.success === false && result.error.message).toContain(message);
+    });
+
+    test('accepts templates that only exist in the remote catalog', async () => {
+      loadTemplateCatalogMock.mockResolvedValue({ templates: [{ name: 'remix', label: 'Remix' }] });
+
+      const result = await resolveTemplateSelection('remix');
+
+      expect(result).toEqual({ success: true, data: { name: 'remix', registry: DEFAULT_RESOLVED_REGISTRY } });
+    });
+
+    test('returns an invalid argument error for templates requiring a newer CLI version', async () => {
+      loadTemplateCatalogMock.mockResolvedValue({
+        templates: [{ name: 'remix', label: 'Remix', minCliVersion: '99.0.0' }],
+      });
+
+      const result = await resolveTemplateSelection('remix');
+
+      expect(result.success === false && result.error).toMatchObject({ code: 'INVALID_ARGUMENT', option: 'template' });
+      expect(result.success === false && result.error.message).toContain(
+        'Template "remix" requires create-xeikit-app >= 99.0.0',
+      );
+    });
+
+    test('only offers templates compatible with the CLI in the prompt', async () => {
+      loadTemplateCatalogMock.mockResolvedValue({
+        templates: [
+          { name: 'nuxt4', label: 'Nuxt4' },
+          { name: 'remix', label: 'Remix', minCliVersion: '99.0.0' },
+        ],
+      });
+      promptMock.mockResolvedValue('nuxt4');
+
+      await resolveTemplateSelection();
+
+      expect(consola.prompt).toHaveBeenCalledWith(
+        'Choose a template',
+        expect.objectContaining({ options: [{ label: 'Nuxt4', value: 'nuxt4', hint: undefined }] }),
+      );
+    });
+
     test('prompts for template when no argument provided', async () => {
       promptMock.mockResolvedValue('nuxt4');
 
-      const result = await selectTemplate();
+      const result = await resolveTemplateSelection();
 
-      expect(result).toBe('nuxt4');
+      expect(result).toEqual({ success: true, data: { name: 'nuxt4', registry: DEFAULT_RESOLVED_REGISTRY } });
       expect(consola.prompt).toHaveBeenCalledTimes(1);
       expect(consola.prompt).toHaveBeenCalledWith('Choose a template', {
         type: 'select',
@@ -158,45 +598,36 @@ describe('src/utils/template.ts', () => {
       });
     });
 
-    test('exits when prompt is cancelled', async () => {
-      promptMock.mockRejectedValue(new Error('Prompt cancelled'));
+    test('returns default template without prompting in non-interactive mode', async () => {
+      const result = await resolveTemplateSelection(undefined, true);
 
-      await expect(async () => await selectTemplate()).rejects.toThrow('process.exit unexpectedly called with "1"');
+      expect(result).toEqual({ success: true, data: { name: 'nuxt4', registry: DEFAULT_RESOLVED_REGISTRY } });
+      expect(consola.prompt).not.toHaveBeenCalled();
     });
 
-    test('exits when template is invalid', async () => {
-      promptMock.mockResolvedValue(undefined);
+    test('returns provided template argument in non-interactive mode', async () => {
+      const result = await resolveTemplateSelection('tanstack-start', true);
 
-      await expect(async () => await selectTemplate()).rejects.toThrow('process.exit unexpectedly called with "1"');
-      expect(consola.error).toHaveBeenCalledTimes(1);
-      expect(consola.error).toHaveBeenCalledWith('Please specify a template name.');
+      expect(result).toEqual({ success: true, data: { name: 'tanstack-start', registry: DEFAULT_RESOLVED_REGISTRY } });
+      expect(consola.prompt).not.toHaveBeenCalled();
     });
-  });
-
-  describe('downloadTemplateAndHandleErrors', () => {
-    test('downloads template successfully', async () => {
-      const mockResult = { dir: '/download/path', source: 'test-template' };
-      downloadTemplateMock.mockResolvedValue(mockResult);
 
-      const result = await downloadTemplateAndHandleErrors('test-template', '/download/path');
+    test('returns the error when prompt is cancelled', async () => {
+      const cancelled = new Error('Prompt cancelled');
+      promptMock.mockRejectedValue(cancelled);
 
-      expect(result).toEqual(mockResult);
-      expect(downloadTemplateMock).toHaveBeenCalledTimes(1);
-      expect(downloadTemplateMock).toHaveBeenCalledWith('test-template', {
-        dir: '/download/path',
-        registry: DEFAULT_REGISTRY,
-      });
+      expect(await resolveTemplateSelection()).toEqual({ success: false, error: cancelled });
     });
 
-    test('handles download error', async () => {
-      const mockError = new Error('Download error');
-      downloadTemplateMock.mockRejectedValue(mockError);
+    test('returns an invalid argument error when the prompted template is invalid', async () => {
+      promptMock.mockResolvedValue(undefined);
 
-      await expect(
-        async () => await downloadTemplateAndHandleErrors('test-template', '/download/path'),
-      ).rejects.toThrow('process.exit unexpectedly called with "1"');
-      expect(consola.error).toHaveBeenCalledTimes(1);
-      expect(consola.error).toHaveBeenCalledWith(mockError.toString());
+      const result = await resolveTemplateSelection();
+
+      expect(result.success === false && result.error).toMatchObject({
+        code: 'INVALID_ARGUMENT',
+        message: 'Please specify a template name.',
+      });
     });
   });
 });
@@ -0,0 +1,270 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { Ok } from '@/types/result';
+import { createScaffoldMetadata, readScaffoldMetadata, writeScaffoldMetadata } from '@/utils/scaffold';
+import { applyUpgradeChanges, planUpgradeChanges, upgradeProject } from '@/utils/upgrade';
+
+const { downloadTemplateWithResultMock, resolveTemplateCommitMock } = vi.hoisted(() => ({
+  downloadTemplateWithResultMock: vi.fn(),
+  resolveTemplateCommitMock: vi.fn(),
+}));
+
+vi.mock('@/utils/template', () => ({
+  downloadTemplateWithResult: downloadTemplateWithResultMock,
+}));
+
+vi.mock('@/utils/template-ref', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/utils/template-ref')>()),
+  resolveTemplateCommit: resolveTemplateCommitMock,
+}));
+
+const BASE_COMMIT = '1111111111111111111111111111111111111111';
+const NEXT_COMMIT = '2222222222222222222222222222222222222222';
+
+const MANIFEST = JSON.stringify({ variables: { title: { default: 'Default' } } });
+
+const TEMPLATE_FILES: Record<string, Record<string, string>> = {
+  [BASE_COMMIT]: {
+    'xeikit.template.json': MANIFEST,
+    'README.md': 'v1',
+    'app.vue': 'app v1',
+    'old.txt': 'old',
+    'title.txt': '{{ title }}',
+  },
+  [NEXT_COMMIT]: {
+    'xeikit.template.json': MANIFEST,
+    'README.md': 'v2',
+    'app.vue': 'app v2',
+    'src/new.txt': 'new',
+    'title.txt': 'Title: {{ title }}',
+  },
+};
+
+describe('src/utils/upgrade.ts', () => {
+  let tempDir: string;
+  let projectDir: string;
+
+  const writeFiles = async (dir: string, files: Record<string, string>) => {
+    for (const [file, contents] of Object.entries(files)) {
+      await fs.promises.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+      await fs.promises.writeFile(path.join(dir, file), contents);
+    }
+  };
+  const readProjectFile = (file: string) => fs.promises.readFile(path.join(projectDir, file), 'utf8');
+  const createProject = async (files: Record<string, string>, template = {}) => {
+    await writeFiles(projectDir, files);
+    await writeScaffoldMetadata(
+      projectDir,
+      createScaffoldMetadata({
+        template: { name: 'nuxt4', source: `gh:org/repo#${BASE_COMMIT}`, commit: BASE_COMMIT, ...template },
+        features: [],
+        variables: { projectName: 'my-app', title: 'Mine' },
+      }),
+    );
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'xeikit-upgrade-'));
+    projectDir = path.join(tempDir, 'my-app');
+    resolveTemplateCommitMock.mockResolvedValue(Ok(NEXT_COMMIT));
+    downloadTemplateWithResultMock.mockImplementation(
+      async (_source: string, dir: string, _registry: unknown, { ref }: { ref: string }) => {
+        await writeFiles(dir, TEMPLATE_FILES[ref] ?? {});
+        return Ok({ dir, source: `org/repo#${ref}`, commit: ref });
+      },
+    );
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await fs.promises.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('planUpgradeChanges', () => {
+    test('applies template changes to unchanged files and reports files changed on both sides', async () => {
+      const [base, next] = [path.join(tempDir, 'base'), path.join(tempDir, 'next')];
+      await writeFiles(base, { 'a.txt': 'a1', 'b.txt': 'b1', 'c.txt': 'c', 'd.txt': 'd1', 'same.txt': 's' });
+      await writeFiles(next, { 'a.txt': 'a2', 'b.txt': 'b2', 'd.txt': 'd2', 'e.txt': 'e', 'same.txt': 's' });
+      await writeFiles(projectDir, { 'a.txt': 'a1', 'b.txt': 'mine', 'c.txt': 'c', 'd.txt': 'd2', 'same.txt': 'x' });
+
+      expect(await planUpgradeChanges(base, next, projectDir)).toEqual({
+        success: true,
+        data: {
+          changes: [
+            { path: 'a.txt', action: 'update' },
+            { path: 'c.txt', action: 'delete' },
+            { path: 'e.txt', action: 'create' },
+          ],
+          conflicts: ['b.txt'],
+        },
+      });
+    });
+
+    test('reports files added by the template that the project already has with other contents', async () => {
+      const [base, next] = [path.join(tempDir, 'base'), path.join(tempDir, 'next')];
+      await fs.promises.mkdir(base, { recursive: true });
+      await writeFiles(next, { '.env.example': 'A=1' });
+      await writeFiles(projectDir, { '.env.example': 'A=2' });
+
+      const result = await planUpgradeChanges(base, next, projectDir);
+
+      expect(result.success && result.data.conflicts).toEqual(['.env.example']);
+    });
+  });
+
+  describe('applyUpgradeChanges', () => {
+    test('copies created and updated files and deletes removed files', async () => {
+      const next = path.join(tempDir, 'next');
+      await writeFiles(next, { 'src/new.txt': 'new', 'a.txt': 'a2' });
+      await writeFiles(projectDir, { 'a.txt': 'a1', 'old.txt': 'old' });
+
+      const result = await applyUpgradeChanges(next, projectDir, [
+        { path: 'src/new.txt', action: 'create' },
+        { path: 'a.txt', action: 'update' },
+        { path: 'old.txt', action: 'delete' },
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(await readProjectFile('src/new.txt')).toBe('new');
+      expect(await readProjectFile('a.txt')).toBe('a2');
+      expect(fs.existsSync(path.join(projectDir, 'old.txt'))).toBe(false);
+    });
+  });
+
+  describe('upgradeProject', () => {
+    test('applies the non-conflicting changes rendered with the recorded variables and lists conflicts', async () => {
+      await createProject({ 'README.md': 'v1', 'app.vue': 'my app', 'old.txt': 'old', 'title.txt': 'Mine' });
+
+      const result = await upgradeProject(projectDir);
+
+      expect(result).toEqual({
+        success: true,
+        data: {
+          from: BASE_COMMIT,
+          to: NEXT_COMMIT,
+          changes: [
+            { path: 'README.md', action: 'update' },
+            { path: 'old.txt', action: 'delete' },
+            { path: 'src/new.txt', action: 'create' },
+            { path: 'title.txt', action: 'update' },
+          ],
+          conflicts: ['app.vue'],
+          dryRun: false,
+        },
+      });
+      expect(resolveTemplateCommitMock).toHaveBeenCalledWith('gh:org/repo', undefined);
+      expect(downloadTemplateWithResultMock).toHaveBeenCalledWith(
+        'gh:org/repo',
+        expect.any(String),
+        undefined,
+        { ref: BASE_COMMIT, preferOffline: true },
+        undefined,
+      );
+      expect(await readProjectFile('title.txt')).toBe('Title: Mine');
+      expect(await readProjectFile('app.vue')).toBe('my app');
+      const metadata = await readScaffoldMetadata(projectDir);
+      expect(metadata.success && metadata.data.template.commit).toBe(BASE_COMMIT);
+    });
+
+    test('moves the metadata to the new commit when no conflicts remain', async () => {
+      await createProject({ 'README.md': 'v1', 'app.vue': 'app v1', 'title.txt': 'Mine' });
+
+      const result = await upgradeProject(projectDir, { ref: 'v2' });
+
+      expect(result.success && result.data.conflicts).toEqual([]);
+      expect(resolveTemplateCommitMock).toHaveBeenCalledWith('gh:org/repo', 'v2');
+      const metadata = await readScaffoldMetadata(projectDir);
+      expect(metadata.success && metadata.data).toMatchObject({
+        template: { name: 'nuxt4', source: `gh:org/repo#${NEXT_COMMIT}`, ref: 'v2', commit: NEXT_COMMIT },
+        variables: { title: 'Mine' },
+        upgradedAt: expect.any(String),
+      });
+    });
+
+    test('aligns both template versions with the recorded package manager', async () => {
+      const templatePackage = JSON.stringify({ name: 'tpl', scripts: { dev: 'npm run build' } });
+      downloadTemplateWithResultMock.mockImplementation(
+        async (_source: string, dir: string, _registry: unknown, { ref }: { ref: string }) => {
+          await writeFiles(dir, {
+            'package.json': templatePackage,
+            'package-lock.json': `{ "lockfileVersion": ${ref === BASE_COMMIT ? 2 : 3} }`,
+            'README.md': ref === BASE_COMMIT ? 'v1' : 'v2',
+          });
+          return Ok({ dir, source: `org/repo#${ref}`, commit: ref });
+        },
+      );
+      await writeFiles(projectDir, {
+        'package.json': `${JSON.stringify(
+          {
+            name: 'my-app',
+            scripts: { dev: 'pnpm run build' },
+            version: '0.0.0',
+            private: true,
+            packageManager: 'pnpm@9.0.0',
+          },
+          null,
+          2,
+        )}\n`,
+        'pnpm-lock.yaml': "lockfileVersion: '9.0'",
+        'README.md': 'v1',
+      });
+      await writeScaffoldMetadata(projectDir, {
+        ...createScaffoldMetadata({
+          template: { name: 'nuxt4', source: `gh:org/repo#${BASE_COMMIT}`, commit: BASE_COMMIT },
+          features: [],
+          variables: {},
+        }),
+        packageManager: 'pnpm',
+      });
+
+      const result = await upgradeProject(projectDir, { dryRun: true });
+
+      expect(result.success && result.data).toMatchObject({
+        changes: [{ path: 'README.md', action: 'update' }],
+        conflicts: [],
+      });
+    });
+
+    test('only lists the changes with dryRun', async () => {
+      await createProject({ 'README.md': 'v1', 'app.vue': 'app v1', 'title.txt': 'Mine' });
+
+      const result = await upgradeProject(projectDir, { dryRun: true });
+
+      expect(result.success && result.data.changes).toHaveLength(4);
+      expect(await readProjectFile('README.md')).toBe('v1');
+    });
+
+    test('returns an empty report without downloading when the project is up to date', async () => {
+      await createProject({});
+      resolveTemplateCommitMock.mockResolvedValue(Ok(BASE_COMMIT));
+
+      const result = await upgradeProject(projectDir);
+
+      expect(result).toEqual({
+        success: true,
+        data: { from: BASE_COMMIT, to: BASE_COMMIT, changes: [], conflicts: [], dryRun: false },
+      });
+      expect(downloadTemplateWithResultMock).not.toHaveBeenCalled();
+    });
+
+    test('returns an error for templates that were not downloaded at a known commit', async () => {
+      await createProject({}, { source: 'nuxt4', commit: undefined, registry: 'https://example.com/templates' });
+
+      const result = await upgradeProject(projectDir);
+
+      expect(result.success === false && result.error.message).toBe(
+        'The template nuxt4 cannot be upgraded: only git-hosted templates downloaded at a known commit can be',
+      );
+    });
+
+    test('returns an error for projects without scaffold metadata', async () => {
+      await writeFiles(projectDir, { 'README.md': 'v1' });
+
+      const result = await upgradeProject(projectDir);
+
+      expect(result.success === false && result.error.message).toContain('.xeikit/scaffold.json not found');
+    });
+  });
+});
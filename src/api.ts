@@ -0,0 +1,61 @@
+import { executeProjectCreationWorkflow } from './cli/command';
+import type { CreateProjectOptions, ProjectCreationError, ProjectCreationResult } from './types/api';
+import type { Result } from './types/result';
+
+/**
+ * Creates a project without prompts, for use from other tools.
+ * Runs the same workflow as the CLI in non-interactive mode: every option is given as data and
+ * missing answers resolve to the saved defaults of the configuration files, then to the non-interactive
+ * defaults. The process is never exited and Ctrl+C handling is left to the caller; failures roll the
+ * project directory back and are returned as errors.
+ *
+ * @param options - The project options and lifecycle hooks
+ * @returns A Promise that resolves to a Result containing the created project, or an error with a code
+ *
+ * @example
+ * ```typescript
+ * import { createProject, isOk } from "create-xeikit-app";
+ *
+ * const result = await createProject({
+ *   dir: "my-app",
+ *   template: "nuxt4",
+ *   packageManager: "pnpm",
+ *   hooks: { onStepComplete: (step, duration) => console.log(`${step}: ${duration}ms`) },
+ * });
+ *
+ * if (isOk(result)) {
+ *   console.log(`Created ${result.data.paths.project}`);
+ * }
+ * ```
+ */
+export const createProject = (
+  options: CreateProjectOptions,
+): Promise<Result<ProjectCreationResult, ProjectCreationError>> =>
+  executeProjectCreationWorkflow(
+    {
+      cwd: options.cwd ?? process.cwd(),
+      dir: options.dir,
+      template: options.template ?? '',
+      preset: options.preset,
+      templateRef: options.templateRef,
+      name: options.name,
+      registry: options.registry,
+      offline: options.offline,
+      preferOffline: options.preferOffline,
+      force: options.force,
+      merge: options.merge,
+      keepOnFailure: options.keepOnFailure,
+      packageManager: options.packageManager ?? '',
+      install: options.install,
+      gitInit: options.gitInit,
+      gitCommit: options.git?.commit,
+      gitCommitMessage: options.git?.commitMessage,
+      gitBranch: options.git?.branch,
+      gitAuthor: options.git?.author,
+      features: options.features?.join(','),
+      hooks: options.templateHooks,
+      var: Object.entries(options.variables ?? {}).map(([key, value]) => `${key}=${value}`),
+      yes: true,
+    },
+    { hooks: options.hooks, handleInterrupts: false },
+  );
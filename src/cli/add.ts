@@ -0,0 +1,129 @@
+import { type ArgDef, defineCommand } from 'citty';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import { resolve } from 'pathe';
+import type { AddFeatureReport } from '../types/cli';
+import { isOk } from '../types/result';
+import { addFeature } from '../utils/add-feature';
+import { loadCliConfig } from '../utils/config';
+import { EXIT_CODES } from '../utils/constants';
+import { formatProjectCreationError, getExitCode, isProjectCreationError } from '../utils/errors';
+import { resolveNonInteractiveMode } from '../utils/interactive';
+import {
+  detectProjectPackageManager,
+  installProjectDependencies,
+  resolveDependenciesInstallation,
+} from '../utils/package-manager';
+import { resolveRegistryArg } from '../utils/registry';
+
+/**
+ * Formats the report of an added feature as lines for the `add` subcommand.
+ *
+ * @param report - The report of the added feature
+ * @returns One line per written file and per conflict
+ *
+ * @example
+ * ```typescript
+ * const lines = formatAddFeatureReport({ added: ["docker"], written: ["Dockerfile"], conflicts: [], packageJsonChanged: false });
+ * // Returns: ["create   Dockerfile"]
+ * ```
+ */
+export const formatAddFeatureReport = (report: AddFeatureReport): string[] => [
+  ...report.written.map((path) => `${colors.dim('create'.padEnd(8))} ${path}`),
+  ...(report.packageJsonChanged ? [`${colors.dim('update'.padEnd(8))} package.json`] : []),
+  ...report.conflicts.map((path) => `${colors.yellow('conflict'.padEnd(8))} ${path}`),
+];
+
+/**
+ * CLI command for adding a template feature to an existing project.
+ * Uses the template recorded in `.xeikit/scaffold.json`; existing files and package.json entries
+ * with other contents are kept and listed as conflicts (exit code 1).
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app add docker
+ * create-xeikit-app add hono --dir ./my-app --install
+ * create-xeikit-app add docker --registry internal
+ * ```
+ */
+export const addCommand = defineCommand({
+  meta: {
+    name: 'add',
+    description: 'Add a template feature to an existing project',
+  },
+  args: {
+    feature: {
+      type: 'positional',
+      description: 'Name of the feature in the template manifest',
+      required: true,
+    },
+    dir: {
+      type: 'string',
+      description: 'Project directory (defaults to the current directory)',
+      default: '.',
+      valueHint: 'path',
+    },
+    registry: {
+      type: 'string',
+      description: 'Registry URL or name of a registry from the configuration file (defaults to the recorded one)',
+      valueHint: 'url|name',
+    },
+    install: {
+      type: 'boolean',
+      description: 'Install dependencies when package.json changed (prompts when omitted)',
+    },
+    yes: {
+      type: 'boolean',
+      alias: ['y', 'defaults'],
+      description: 'Skip all prompts and use default answers (automatic on CI or without a TTY)',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const projectDir = resolve(args.dir);
+    const cliConfig = await loadCliConfig(projectDir);
+    if (!isOk(cliConfig)) {
+      consola.error(cliConfig.error.message);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+    const { registries } = cliConfig.data;
+    const registry = args.registry ? resolveRegistryArg(args.registry, registries) : undefined;
+    if (registry && !isOk(registry)) {
+      consola.error(registry.error);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+    const result = await addFeature(projectDir, args.feature, { registry: registry?.data, registries });
+
+    if (!isOk(result)) {
+      const { error } = result;
+      consola.error(isProjectCreationError(error) ? formatProjectCreationError(error) : error.message);
+      process.exit(isProjectCreationError(error) ? getExitCode(error.code) : EXIT_CODES.FAILED);
+    }
+
+    const report = result.data;
+    consola.info(`Adding ${report.added.map((name) => colors.cyan(name)).join(', ')} to ${colors.cyan(projectDir)}:`);
+    for (const line of formatAddFeatureReport(report)) {
+      consola.log(`  ${line}`);
+    }
+
+    if (report.packageJsonChanged) {
+      const shouldInstall = await resolveDependenciesInstallation(args.install, resolveNonInteractiveMode(args.yes));
+      const packageManager = await detectProjectPackageManager(projectDir);
+      const installed = isOk(shouldInstall)
+        ? await installProjectDependencies(shouldInstall.data, projectDir, packageManager)
+        : shouldInstall;
+      if (!isOk(installed)) {
+        const { error } = installed;
+        consola.error(isProjectCreationError(error) ? formatProjectCreationError(error) : error.message);
+        process.exit(isProjectCreationError(error) ? getExitCode(error.code) : EXIT_CODES.FAILED);
+      }
+    }
+
+    if (report.conflicts.length > 0) {
+      consola.warn(
+        `Added ${report.added.join(', ')} with ${report.conflicts.length} conflict(s). Merge them by hand from the template.`,
+      );
+      process.exit(EXIT_CODES.FAILED);
+    }
+    consola.success(`Added ${report.added.join(', ')}.`);
+  },
+});
@@ -0,0 +1,145 @@
+import { type ArgDef, defineCommand } from 'citty';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import type { TemplateCacheEntry } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok } from '../types/result';
+import { DEFAULT_CACHE_MAX_AGE_DAYS } from '../utils/constants';
+import { resolveCacheDir } from '../utils/paths';
+import { clearCache, listTemplateCacheEntries, pruneTemplateCache } from '../utils/template-cache';
+
+/**
+ * Number of milliseconds in one day.
+ */
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validates the `--max-age` argument of `cache prune`.
+ *
+ * @param maxAgeArg - The maximum age in days (can be undefined)
+ * @returns A Result containing the maximum age in milliseconds or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = parseMaxAgeArg("7");
+ * // Returns: Ok(604800000)
+ *
+ * const invalid = parseMaxAgeArg("soon");
+ * // Returns: Err('Invalid --max-age "soon". Use a number of days, e.g. --max-age 30')
+ * ```
+ */
+export const parseMaxAgeArg = (maxAgeArg?: string): Result<number, string> => {
+  if (maxAgeArg === undefined || maxAgeArg.trim() === '') {
+    return Ok(DEFAULT_CACHE_MAX_AGE_DAYS * DAY_IN_MS);
+  }
+
+  const days = Number(maxAgeArg);
+  if (!Number.isFinite(days) || days < 0) {
+    return Err(`Invalid --max-age "${maxAgeArg}". Use a number of days, e.g. --max-age ${DEFAULT_CACHE_MAX_AGE_DAYS}`);
+  }
+  return Ok(days * DAY_IN_MS);
+};
+
+/**
+ * Formats a cache entry as a single line for `cache list`.
+ *
+ * @param entry - The cache entry to format
+ * @returns A human-readable description of the entry
+ *
+ * @example
+ * ```typescript
+ * const line = formatCacheEntry(entry);
+ * // Returns: "nuxt4 (https://raw.githubusercontent.com/...) cached 2025-01-01T00:00:00.000Z"
+ * ```
+ */
+export const formatCacheEntry = (entry: TemplateCacheEntry): string => {
+  const template = entry.ref ? `${entry.template}#${entry.ref}` : entry.template;
+  return `${colors.cyan(template)} ${colors.dim(`(${entry.registry})`)} cached ${new Date(entry.cachedAt).toISOString()}`;
+};
+
+/**
+ * Lists the cached templates.
+ */
+const listCommand = defineCommand({
+  meta: {
+    name: 'list',
+    description: 'List cached templates',
+  },
+  run: async () => {
+    const entries = await listTemplateCacheEntries();
+
+    if (entries.length === 0) {
+      consola.info('The template cache is empty.');
+      return;
+    }
+
+    consola.info(`Cached templates in ${colors.cyan(resolveCacheDir())}:`);
+    for (const entry of entries) {
+      consola.log(`  ${formatCacheEntry(entry)}`);
+    }
+  },
+});
+
+/**
+ * Removes cached templates older than `--max-age` days.
+ */
+const pruneCommand = defineCommand({
+  meta: {
+    name: 'prune',
+    description: 'Remove cached templates older than --max-age days',
+  },
+  args: {
+    maxAge: {
+      type: 'string',
+      description: `Maximum age of kept templates in days (default: ${DEFAULT_CACHE_MAX_AGE_DAYS})`,
+      valueHint: 'days',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const maxAge = parseMaxAgeArg(args.maxAge);
+
+    if (!isOk(maxAge)) {
+      consola.error(maxAge.error);
+      process.exit(1);
+    }
+
+    const removed = await pruneTemplateCache(maxAge.data);
+    consola.success(`Removed ${removed.length} cached template${removed.length === 1 ? '' : 's'}.`);
+  },
+});
+
+/**
+ * Removes every cached template and catalog.
+ */
+const clearCommand = defineCommand({
+  meta: {
+    name: 'clear',
+    description: 'Remove all cached templates and catalogs',
+  },
+  run: async () => {
+    await clearCache();
+    consola.success('The cache has been cleared.');
+  },
+});
+
+/**
+ * CLI command for managing the offline template cache.
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app cache list
+ * create-xeikit-app cache prune --max-age 7
+ * create-xeikit-app cache clear
+ * ```
+ */
+export const cacheCommand = defineCommand({
+  meta: {
+    name: 'cache',
+    description: 'Manage the offline template cache',
+  },
+  subCommands: {
+    list: listCommand,
+    prune: pruneCommand,
+    clear: clearCommand,
+  },
+});
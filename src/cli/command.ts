@@ -1,20 +1,52 @@
-import { type ArgDef, defineCommand } from 'citty';
+import { rm } from 'node:fs/promises';
+import { type ArgDef, defineCommand, type ParsedArgs } from 'citty';
 import consola from 'consola';
 import { colors } from 'consola/utils';
+import { installDependenciesCommand } from 'nypm';
 import { relative } from 'pathe';
 import { hasTTY } from 'std-env';
 import { description, name, version } from '../../package.json';
+import type {
+  ProjectCreationError,
+  ProjectCreationHooks,
+  ProjectCreationPlan,
+  ProjectCreationResult,
+  ProjectCreationStep,
+} from '../types/api';
+import type { TemplateHookResult } from '../types/cli';
+import type { CliConfig } from '../types/config';
 import type { Result } from '../types/result';
-import { Err, Ok } from '../types/result';
-import { resolvePath, verifyDirectoryDoesNotExist } from '../utils/common';
-import { initializeGitIfRequested } from '../utils/git';
+import { Err, isOk, Ok, unwrap } from '../types/result';
+import { resolvePath } from '../utils/common';
+import { applyConfigDefaults, loadCliConfig } from '../utils/config';
+import { SCAFFOLD_METADATA_PATH } from '../utils/constants';
 import {
-  confirmDependenciesInstallation,
-  installDependenciesIfRequested,
-  selectPackageManager,
+  createBackupPath,
+  createStagingDirectory,
+  mergeTemplate,
+  prepareExistingDirectory,
+  resolveExistingDirectoryStrategy,
+} from '../utils/directory';
+import { createProjectCreationError, formatProjectCreationError, getExitCode } from '../utils/errors';
+import { createGitCommands, initializeGit, resolveGitInitialization, validateGitOptions } from '../utils/git';
+import { resolveNonInteractiveMode } from '../utils/interactive';
+import { captureWarnings, createProjectCreationReport, createProjectPlanReport, printReport } from '../utils/output';
+import { resolvePackageName, updateProjectPackageJson } from '../utils/package-json';
+import {
+  installProjectDependencies,
+  resolveDependenciesInstallation,
+  resolvePackageManager,
 } from '../utils/package-manager';
-import { downloadTemplateAndHandleErrors, selectTemplate } from '../utils/template';
-import { getProjectDirectory } from './prompts';
+import { alignProjectWithPackageManager } from '../utils/package-manager-files';
+import { formatProjectCreationPlan, planFileChanges, planTemplate } from '../utils/plan';
+import { applyPreset, loadPreset, type PresetLoadOptions } from '../utils/preset';
+import { beginProjectTransaction, type ProjectTransaction } from '../utils/rollback';
+import { createScaffoldMetadata, writeScaffoldMetadata } from '../utils/scaffold';
+import { createRecordedTemplateSource, downloadTemplateWithResult, resolveTemplateSelection } from '../utils/template';
+import { reportTemplateHookFailures, resolveTemplateHooksEnabled, runTemplateHooks } from '../utils/template-hooks';
+import { applyTemplateManifest } from '../utils/template-manifest';
+import { createBuiltInTemplateVariables, parseTemplateVariableArgs } from '../utils/template-variables';
+import { resolveProjectDirectory } from './prompts';
 
 /**
  * Configuration interface for project creation.
@@ -138,13 +170,132 @@ export const displayFinalInstructions = (
   consola.log(instructions.happyCoding);
 };
 
+/**
+ * Command line arguments used by the project creation workflow.
+ */
+export interface ProjectCreationArgs {
+  readonly cwd: string;
+  readonly dir: string;
+  readonly template: string;
+  readonly install?: boolean;
+  readonly gitInit?: boolean;
+  readonly gitCommit?: boolean;
+  readonly gitCommitMessage?: string;
+  readonly gitBranch?: string;
+  readonly gitAuthor?: string;
+  readonly packageManager: string;
+  readonly yes?: boolean;
+  readonly registry?: string;
+  readonly offline?: boolean;
+  readonly preferOffline?: boolean;
+  readonly force?: boolean;
+  readonly merge?: boolean;
+  readonly keepOnFailure?: boolean;
+  readonly name?: string;
+  readonly var?: string | readonly string[];
+  readonly features?: string;
+  readonly hooks?: boolean;
+  readonly json?: boolean;
+  readonly preset?: string;
+  readonly templateRef?: string;
+}
+
+/**
+ * Options of the project creation workflow that are not command line arguments.
+ */
+export interface ProjectCreationWorkflowOptions {
+  /** Lifecycle hooks called for every step */
+  readonly hooks?: ProjectCreationHooks;
+  /** Whether Ctrl+C rolls back and exits the process (defaults to true) */
+  readonly handleInterrupts?: boolean;
+}
+
+/**
+ * Creates the runner that executes the workflow steps.
+ * Calls the lifecycle hooks around every step, records its duration and turns failures
+ * (failed Results, thrown errors or rejected hooks) into errors that abort the workflow.
+ *
+ * @param hooks - The lifecycle hooks (optional)
+ * @returns The step runner, the durations recorded so far and the step that is running (or failed)
+ */
+const createStepRunner = (hooks: ProjectCreationHooks = {}) => {
+  const durations: Partial<Record<ProjectCreationStep, number>> = {};
+  let currentStep: ProjectCreationStep | undefined;
+
+  const run = async <T>(step: ProjectCreationStep, task: () => Promise<T>): Promise<T> => {
+    currentStep = step;
+    await hooks.onStepStart?.(step);
+    const startedAt = performance.now();
+
+    let data: T;
+    try {
+      data = await task();
+    } catch (error) {
+      const stepError = error instanceof Error ? error : new Error(String(error));
+      await hooks.onStepError?.(step, stepError);
+      throw stepError;
+    }
+
+    const duration = Math.round(performance.now() - startedAt);
+    durations[step] = duration;
+    await hooks.onStepComplete?.(step, duration);
+    return data;
+  };
+
+  return { run, durations, currentStep: () => currentStep };
+};
+
+/**
+ * Completes the command line arguments with the preset (`preset`) and the defaults of the configuration files.
+ * Arguments given on the command line take precedence over the preset, which takes precedence over the defaults.
+ *
+ * @param args - The command line arguments
+ * @param cliConfig - The merged user and project configuration
+ * @param presetOptions - Whether the preset may be fetched over the network (optional)
+ * @returns A Promise that resolves to the completed arguments
+ * @throws The InvalidArgumentError of a preset that cannot be loaded or is invalid
+ */
+const resolveArgs = async (
+  args: ProjectCreationArgs,
+  cliConfig: CliConfig,
+  presetOptions?: PresetLoadOptions,
+): Promise<ProjectCreationArgs> => {
+  const preset = args.preset
+    ? unwrap(await loadPreset(args.preset, resolvePath(args.cwd, ''), presetOptions))
+    : undefined;
+  return applyConfigDefaults(preset ? applyPreset(args, preset) : args, cliConfig.defaults);
+};
+
 /**
  * Executes the complete project creation workflow.
  * This is the main orchestration function that coordinates all steps of project creation:
  * directory validation, template selection, download, dependency installation, and git setup.
+ * In non-interactive mode (`--yes`, CI or no TTY) no step reads from stdin: missing answers
+ * resolve to their documented defaults and a missing project directory aborts the workflow.
+ * Named registries and the defaults of the template, package manager, installation, git initialization,
+ * registry and commit author are read from the user and project configuration files. A `preset` file
+ * (path or URL, JSON or YAML) can bundle most options; options given as arguments take precedence over
+ * the preset, the preset over the defaults and the defaults over prompts.
+ * With `offline` templates and catalogs come from the per-user cache only; `preferOffline` uses the
+ * cache when possible and falls back to the network.
+ * A non-empty project directory is backed up, cleared or merged into (`force` / `merge`, or a prompt).
+ * Every change to the project directory is recorded; when a later step fails or the user presses
+ * Ctrl+C, the directory is removed or restored to its previous state unless `keepOnFailure` is set.
+ * The project's `package.json` gets the package name (from `name` or the directory), version 0.0.0
+ * and `private: true`; a `package.json` kept from an existing directory when merging is left alone.
+ * Templates with a manifest get their optional features (`features`, a prompt or the defaults) and are
+ * rendered with the `var` values (or prompts / defaults) before they are merged into an existing directory.
+ * Hooks declared by the template run after the download, the installation and git init once the user
+ * confirmed them (without prompts they only run with `hooks: true`, `hooks: false` skips them); only
+ * failing required hooks abort the workflow.
+ * The workflow never exits the process: every failure, including a cancelled prompt, is returned as an error
+ * with a code (see ProjectCreationErrorCode) derived from the step that failed. With `json` the output of
+ * the package manager, git and the template hooks is hidden.
+ * Each step calls the lifecycle hooks and is timed.
  *
  * @param args - Configuration object containing all user preferences and settings
- * @returns A Promise that resolves to a Result indicating success or failure
+ * @param options - Lifecycle hooks and interrupt handling (optional)
+ * @returns A Promise that resolves to a Result containing the created project, or an error
  *
  * @example
  * ```typescript
@@ -158,49 +309,515 @@ export const displayFinalInstructions = (
  * });
  *
  * if (isOk(result)) {
- *   console.log("Project created successfully!");
+ *   console.log(`Project created in ${result.data.paths.project}`);
  * } else {
  *   console.error("Project creation failed:", result.error.message);
  * }
  * ```
  */
-export const executeProjectCreationWorkflow = async (args: {
-  readonly cwd: string;
-  readonly dir: string;
-  readonly template: string;
-  readonly install: boolean;
-  readonly gitInit: boolean;
-  readonly packageManager: string;
-}): Promise<Result<void, Error>> => {
+export const executeProjectCreationWorkflow = async (
+  args: ProjectCreationArgs,
+  options: ProjectCreationWorkflowOptions = {},
+): Promise<Result<ProjectCreationResult, ProjectCreationError>> => {
+  const startedAt = performance.now();
+  const steps = createStepRunner(options.hooks);
+  let transaction: ProjectTransaction | undefined;
+  let stagingDir: string | undefined;
   try {
+    const nonInteractive = resolveNonInteractiveMode(args.yes);
+    const offlineOptions = { offline: args.offline, preferOffline: args.preferOffline };
+    const silent = args.json === true;
+
+    const { cliConfig, resolvedArgs, gitOptions } = await steps.run('config', async () => {
+      const cliConfig = unwrap(await loadCliConfig(resolvePath(args.cwd, '')));
+      const resolvedArgs = await resolveArgs(args, cliConfig);
+      const gitOptions = unwrap(
+        validateGitOptions({
+          commit: resolvedArgs.gitCommit,
+          commitMessage: resolvedArgs.gitCommitMessage,
+          branch: resolvedArgs.gitBranch,
+          author: resolvedArgs.gitAuthor,
+          ...(silent && { silent }),
+        }),
+      );
+      // Malformed --var values are reported before the template is downloaded
+      unwrap(parseTemplateVariableArgs(resolvedArgs.var));
+      return { cliConfig, resolvedArgs, gitOptions };
+    });
+
     // Step 1: Get project directory
-    const projectDir = await getProjectDirectory(args.dir);
-    const config = createProjectConfig(args.cwd, projectDir);
+    const { projectDir, config, packageName, existingDirectoryStrategy } = await steps.run('directory', async () => {
+      const projectDir = unwrap(await resolveProjectDirectory(args.dir, nonInteractive));
+      const config = createProjectConfig(args.cwd, projectDir);
+      const packageName = unwrap(await resolvePackageName(args.name, config.templateDownloadPath, nonInteractive));
 
-    displayProjectCreationInfo(config);
-    verifyDirectoryDoesNotExist(config.templateDownloadPath);
+      displayProjectCreationInfo(config);
+      const existingDirectoryStrategy = unwrap(
+        await resolveExistingDirectoryStrategy(
+          config.templateDownloadPath,
+          { force: args.force, merge: args.merge },
+          nonInteractive,
+        ),
+      );
+      return { projectDir, config, packageName, existingDirectoryStrategy };
+    });
 
     // Step 2: Select and download template
-    const templateName = await selectTemplate(args.template);
-    const template = await downloadTemplateAndHandleErrors(templateName, config.templateDownloadPath);
+    const templateSelection = await steps.run('template', async () =>
+      unwrap(
+        await resolveTemplateSelection(resolvedArgs.template, nonInteractive, {
+          registry: resolvedArgs.registry,
+          registries: cliConfig.registries,
+          cwd: args.cwd,
+          ref: args.templateRef || undefined,
+          ...offlineOptions,
+        }),
+      ),
+    );
+    transaction = beginProjectTransaction(config.templateDownloadPath, args.keepOnFailure, options.handleInterrupts);
+    const { recordBackup, recordWrittenFiles } = transaction;
+    const { downloadPath, downloadedTemplate, backupPath } = await steps.run('download', async () => {
+      const backupPath = unwrap(await prepareExistingDirectory(config.templateDownloadPath, existingDirectoryStrategy));
+      recordBackup(backupPath, existingDirectoryStrategy === 'clear');
+      // Merged templates are staged outside the project, which the transaction does not cover
+      stagingDir = existingDirectoryStrategy === 'merge' ? await createStagingDirectory() : undefined;
+      const downloadPath = stagingDir ?? config.templateDownloadPath;
+      const downloadedTemplate = unwrap(
+        await downloadTemplateWithResult(
+          templateSelection.source ?? templateSelection.name,
+          downloadPath,
+          templateSelection.registry,
+          { ...offlineOptions, ...(templateSelection.ref && { ref: templateSelection.ref }) },
+        ),
+      );
+      return { downloadPath, downloadedTemplate, backupPath };
+    });
+    const hookOptions = { enabled: resolvedArgs.hooks, nonInteractive, ...(silent && { silent }) };
+    const templateHooks: TemplateHookResult[] = [];
+    const { template, features, variables, hooks, mergeReport, metadata } = await steps.run('render', async () => {
+      const { features, variables, hooks } = unwrap(
+        await applyTemplateManifest(downloadPath, {
+          variables: resolvedArgs.var,
+          features: resolvedArgs.features,
+          builtInVariables: createBuiltInTemplateVariables(packageName),
+          nonInteractive,
+        }),
+      );
+      const metadata = createScaffoldMetadata({
+        template: {
+          name: templateSelection.name,
+          source: createRecordedTemplateSource(templateSelection, downloadedTemplate.commit),
+          registry: templateSelection.registry?.url,
+          ref: templateSelection.ref,
+          commit: downloadedTemplate.commit,
+        },
+        features,
+        variables,
+      });
+      unwrap(await writeScaffoldMetadata(downloadPath, metadata));
+      const mergeReport =
+        existingDirectoryStrategy === 'merge'
+          ? unwrap(await mergeTemplate(downloadPath, config.templateDownloadPath))
+          : undefined;
+      recordWrittenFiles(mergeReport?.written ?? []);
+      const template = { ...downloadedTemplate, dir: config.templateDownloadPath };
+      templateHooks.push(...unwrap(await runTemplateHooks('postDownload', hooks, template.dir, hookOptions)));
+      return { template, features, variables, hooks, mergeReport, metadata };
+    });
+    if (!mergeReport || mergeReport.written.includes('package.json')) {
+      await steps.run('packageJson', async () => unwrap(await updateProjectPackageJson(template.dir, packageName)));
+    }
 
     // Step 3: Package manager selection and installation
-    const selectedPackageManager = await selectPackageManager(args.packageManager);
-    const shouldInstall = await confirmDependenciesInstallation(args.install);
-    await installDependenciesIfRequested(shouldInstall, template.dir, selectedPackageManager);
+    const selectedPackageManager = await steps.run('packageManager', async () => {
+      const selectedPackageManager = unwrap(await resolvePackageManager(resolvedArgs.packageManager, nonInteractive));
+      unwrap(await alignProjectWithPackageManager(template.dir, selectedPackageManager, mergeReport?.written));
+      // Recorded for upgrades, which align the template versions they compare with the same package manager
+      if (!mergeReport || mergeReport.written.includes(SCAFFOLD_METADATA_PATH)) {
+        unwrap(await writeScaffoldMetadata(template.dir, { ...metadata, packageManager: selectedPackageManager }));
+      }
+      return selectedPackageManager;
+    });
+    const installed = await steps.run('install', async () => {
+      const shouldInstall = unwrap(await resolveDependenciesInstallation(resolvedArgs.install, nonInteractive));
+      const installed = unwrap(
+        await installProjectDependencies(shouldInstall, template.dir, selectedPackageManager, silent),
+      );
+      if (installed) {
+        templateHooks.push(...unwrap(await runTemplateHooks('postInstall', hooks, template.dir, hookOptions)));
+      }
+      return installed;
+    });
 
     // Step 4: Git initialization
-    await initializeGitIfRequested(args.gitInit, template.dir);
+    const gitInitialized = await steps.run('git', async () => {
+      const gitInitialized = unwrap(
+        await initializeGit(resolvedArgs.gitInit, template.dir, nonInteractive, gitOptions),
+      );
+      if (gitInitialized) {
+        templateHooks.push(...unwrap(await runTemplateHooks('postGitInit', hooks, template.dir, hookOptions)));
+      }
+      return gitInitialized;
+    });
 
-    // Step 5: Display final instructions
-    displayFinalInstructions(projectDir, shouldInstall, selectedPackageManager, template.source);
+    transaction.commit();
 
-    return Ok(undefined);
+    return Ok({
+      projectDir,
+      paths: {
+        project: template.dir,
+        ...(existingDirectoryStrategy === 'backup' && backupPath && { backup: backupPath }),
+      },
+      packageName,
+      template: {
+        name: templateSelection.name,
+        source: metadata.template.source,
+        ...(templateSelection.registry && { registry: templateSelection.registry.url }),
+        ...(templateSelection.ref && { ref: templateSelection.ref }),
+        ...(downloadedTemplate.commit && { commit: downloadedTemplate.commit }),
+      },
+      features,
+      variables,
+      packageManager: selectedPackageManager,
+      installed,
+      gitInitialized,
+      templateHooks,
+      ...(mergeReport && { mergeReport }),
+      timings: { steps: steps.durations, total: Math.round(performance.now() - startedAt) },
+    });
   } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Project creation workflow failed'));
+    transaction?.rollback();
+    return Err(createProjectCreationError(error, steps.currentStep()));
+  } finally {
+    if (stagingDir) {
+      await rm(stagingDir, { recursive: true, force: true });
+    }
   }
 };
 
+/**
+ * Resolves every answer of the project creation workflow without creating the project.
+ * Failures are returned with the code of the step they belong to, as in executeProjectCreationWorkflow.
+ * Prompts (or their non-interactive defaults) decide the directory, template, package manager,
+ * installation and git initialization as usual, but nothing is downloaded or written: templates and
+ * catalogs only come from the offline cache or the bundled catalog, and a cached template is inspected
+ * to list its files and hooks. Presets given as `http(s):` URLs are rejected, as they cannot be read
+ * without the network.
+ *
+ * @param args - Configuration object containing all user preferences and settings
+ * @returns A Promise that resolves to a Result containing the plan, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await planProjectCreation({ cwd: process.cwd(), dir: "my-app", template: "nuxt4", packageManager: "pnpm" });
+ * if (isOk(result)) {
+ *   console.log(result.data.install.command); // "pnpm install"
+ * }
+ * ```
+ */
+export const planProjectCreation = async (
+  args: ProjectCreationArgs,
+): Promise<Result<ProjectCreationPlan, ProjectCreationError>> => {
+  let step: ProjectCreationStep = 'config';
+  try {
+    const nonInteractive = resolveNonInteractiveMode(args.yes);
+    const cliConfig = unwrap(await loadCliConfig(resolvePath(args.cwd, '')));
+    const resolvedArgs = await resolveArgs(args, cliConfig, { network: false });
+    const gitOptions = unwrap(
+      validateGitOptions({
+        commit: resolvedArgs.gitCommit,
+        commitMessage: resolvedArgs.gitCommitMessage,
+        branch: resolvedArgs.gitBranch,
+        author: resolvedArgs.gitAuthor,
+      }),
+    );
+    unwrap(parseTemplateVariableArgs(resolvedArgs.var));
+
+    step = 'directory';
+    const projectDir = unwrap(await resolveProjectDirectory(args.dir, nonInteractive));
+    const config = createProjectConfig(args.cwd, projectDir);
+    const packageName = unwrap(await resolvePackageName(args.name, config.templateDownloadPath, nonInteractive));
+    const existingDirectoryStrategy = unwrap(
+      await resolveExistingDirectoryStrategy(
+        config.templateDownloadPath,
+        { force: args.force, merge: args.merge },
+        nonInteractive,
+      ),
+    );
+
+    step = 'template';
+    const templateSelection = unwrap(
+      await resolveTemplateSelection(resolvedArgs.template, nonInteractive, {
+        registry: resolvedArgs.registry,
+        registries: cliConfig.registries,
+        cwd: args.cwd,
+        ref: args.templateRef || undefined,
+        offline: true,
+      }),
+    );
+    const templatePlan = unwrap(await planTemplate(templateSelection));
+
+    step = 'packageManager';
+    const packageManager = unwrap(await resolvePackageManager(resolvedArgs.packageManager, nonInteractive));
+    step = 'install';
+    const install = unwrap(await resolveDependenciesInstallation(resolvedArgs.install, nonInteractive));
+    step = 'git';
+    const gitInit = unwrap(
+      await resolveGitInitialization(resolvedArgs.gitInit, config.templateDownloadPath, nonInteractive),
+    );
+
+    return Ok({
+      projectDir,
+      paths: {
+        project: config.templateDownloadPath,
+        ...(existingDirectoryStrategy === 'backup' && { backup: createBackupPath(config.templateDownloadPath) }),
+      },
+      ...(existingDirectoryStrategy && { existingDirectory: existingDirectoryStrategy }),
+      packageName,
+      template: templatePlan.template,
+      packageManager,
+      install: { enabled: install, command: installDependenciesCommand(packageManager) },
+      git: { enabled: gitInit, commands: createGitCommands(projectDir, gitOptions) },
+      hooks: {
+        enabled: resolveTemplateHooksEnabled(resolvedArgs.hooks, nonInteractive),
+        ...(templatePlan.hooks && { commands: templatePlan.hooks }),
+      },
+      files: await planFileChanges(config.templateDownloadPath, existingDirectoryStrategy, templatePlan.files),
+    });
+  } catch (error) {
+    return Err(createProjectCreationError(error, step));
+  }
+};
+
+/**
+ * Arguments of a CLI run: the workflow arguments and `--dry-run`.
+ */
+type CliRunArgs = ProjectCreationArgs & { readonly dryRun?: boolean };
+
+/**
+ * Copies the arguments parsed by citty into a plain object with camelCase keys.
+ * citty returns a Proxy that resolves camelCase names on access but only enumerates the
+ * kebab-case keys of the command line, so spreading it drops options such as `--package-manager`.
+ *
+ * @param args - The arguments parsed by citty
+ * @returns The arguments as a plain object
+ *
+ * @example
+ * ```typescript
+ * const args = normalizeCliArgs(parseArgs<typeof mainCommandArgs>(["--package-manager", "pnpm"], mainCommandArgs));
+ * // Returns: { cwd: ".", dir: "", packageManager: "pnpm", ... }
+ * ```
+ */
+export const normalizeCliArgs = (args: ParsedArgs<typeof mainCommandArgs>): CliRunArgs => ({
+  cwd: args.cwd,
+  dir: args.dir,
+  name: args.name,
+  preset: args.preset,
+  template: args.template,
+  templateRef: args.templateRef,
+  registry: args.registry,
+  offline: args.offline,
+  preferOffline: args.preferOffline,
+  force: args.force,
+  merge: args.merge,
+  features: args.features,
+  hooks: args.hooks,
+  var: args.var,
+  keepOnFailure: args.keepOnFailure,
+  dryRun: args.dryRun,
+  install: args.install,
+  gitInit: args.gitInit,
+  gitCommit: args.gitCommit,
+  gitCommitMessage: args.gitCommitMessage,
+  gitBranch: args.gitBranch,
+  gitAuthor: args.gitAuthor,
+  packageManager: args.packageManager,
+  yes: args.yes,
+  json: args.json,
+});
+
+/**
+ * Runs the CLI with `--json`: creates (or plans) the project without prompts and prints the JSON report.
+ *
+ * @param args - The CLI arguments, normalized with normalizeCliArgs so they can be spread
+ * @returns A Promise that resolves to the error the run failed with, if any
+ */
+const runWithJsonOutput = async (args: CliRunArgs): Promise<ProjectCreationError | undefined> => {
+  const warnings = captureWarnings();
+  const workflowArgs: CliRunArgs = { ...args, yes: true };
+
+  if (args.dryRun) {
+    const plan = await planProjectCreation(workflowArgs);
+    printReport(createProjectPlanReport(plan, warnings));
+    return isOk(plan) ? undefined : plan.error;
+  }
+
+  const result = await executeProjectCreationWorkflow(workflowArgs);
+  printReport(createProjectCreationReport(result, warnings));
+  return isOk(result) ? undefined : result.error;
+};
+
+/**
+ * Runs the CLI with logs and prompts: creates (or plans) the project and prints the next steps.
+ *
+ * @param args - The parsed CLI arguments
+ * @returns A Promise that resolves to the error the run failed with, if any
+ */
+const runWithLogs = async (args: CliRunArgs): Promise<ProjectCreationError | undefined> => {
+  if (hasTTY) {
+    process.stdout.write('Loading...\n');
+  }
+
+  consola.info(colors.bold('🎉 Hello xeikit app!'));
+
+  if (args.dryRun) {
+    const plan = await planProjectCreation(args);
+    if (!isOk(plan)) {
+      return plan.error;
+    }
+    consola.log(formatProjectCreationPlan(plan.data));
+    return undefined;
+  }
+
+  const result = await executeProjectCreationWorkflow(args);
+
+  if (!isOk(result)) {
+    return result.error;
+  }
+
+  reportTemplateHookFailures(result.data.templateHooks);
+
+  // Step 5: Display final instructions
+  displayFinalInstructions(
+    result.data.projectDir,
+    result.data.installed,
+    result.data.packageManager,
+    result.data.template.source,
+  );
+  return undefined;
+};
+
+/**
+ * Arguments of the main command.
+ */
+export const mainCommandArgs = {
+  cwd: {
+    type: 'string',
+    description: 'Specify the working directory',
+    valueHint: 'directory',
+    default: '.',
+  },
+  dir: {
+    type: 'positional',
+    description: 'Project directory',
+    default: '',
+  },
+  name: {
+    type: 'string',
+    description: 'Package name written to package.json (defaults to the project directory name)',
+  },
+  preset: {
+    type: 'string',
+    description: 'Preset file (JSON or YAML) with the options of a team; options given as flags win',
+    valueHint: 'path|url',
+  },
+  template: {
+    type: 'string',
+    alias: 't',
+    description:
+      'Template name (registryName:template for a configured registry), giget source (gh:org/repo/path#ref) or local path',
+  },
+  templateRef: {
+    type: 'string',
+    description: 'Tag, branch or commit to pin the template to (same as template@ref)',
+    valueHint: 'ref',
+  },
+  registry: {
+    type: 'string',
+    description: 'Template registry URL or name of a registry from the configuration file',
+    valueHint: 'url',
+  },
+  offline: {
+    type: 'boolean',
+    description: 'Only use cached templates and catalogs (fails if the template is not cached)',
+  },
+  preferOffline: {
+    type: 'boolean',
+    description: 'Use cached templates and catalogs when available, falling back to the network',
+  },
+  force: {
+    type: 'boolean',
+    alias: 'f',
+    description: 'Back up or clear a non-empty project directory (backs up without prompts)',
+  },
+  merge: {
+    type: 'boolean',
+    description: 'Write into a non-empty project directory, keeping conflicting files',
+  },
+  features: {
+    type: 'string',
+    description: 'Comma-separated features of the template to enable (empty for none)',
+    valueHint: 'a,b',
+  },
+  hooks: {
+    type: 'boolean',
+    description: 'Run the commands declared by the template, also without prompts (use --no-hooks to skip them)',
+  },
+  var: {
+    type: 'string',
+    description: 'Template variable (repeatable)',
+    valueHint: 'key=value',
+  },
+  keepOnFailure: {
+    type: 'boolean',
+    description: 'Keep the partially created project when a step fails (for debugging)',
+  },
+  dryRun: {
+    type: 'boolean',
+    description: 'Print what would be done without downloading or writing anything',
+  },
+  install: {
+    type: 'boolean',
+    description: 'Install dependencies',
+  },
+  gitInit: {
+    type: 'boolean',
+    description: 'Initialize git repository',
+  },
+  gitCommit: {
+    type: 'boolean',
+    description: 'Stage all files and create an initial commit after git init',
+  },
+  gitCommitMessage: {
+    type: 'string',
+    description: 'Message of the initial commit (defaults to "Initial commit")',
+    valueHint: 'message',
+  },
+  gitBranch: {
+    type: 'string',
+    description: 'Name of the initial git branch',
+    valueHint: 'name',
+  },
+  gitAuthor: {
+    type: 'string',
+    description: 'Author of the initial commit',
+    valueHint: 'Name <email>',
+  },
+  packageManager: {
+    type: 'string',
+    description: 'Package manager choice (npm, pnpm, yarn, bun, deno)',
+  },
+  yes: {
+    type: 'boolean',
+    alias: ['y', 'defaults'],
+    description: 'Skip all prompts and use default answers (automatic on CI or without a TTY)',
+  },
+  json: {
+    type: 'boolean',
+    description: 'Print the result as a single JSON document (implies --yes)',
+  },
+} as const satisfies Record<string, ArgDef>;
+
 /**
  * Main CLI command definition for the xeikit app creation tool.
  * This command handles the complete project creation workflow from start to finish.
@@ -216,6 +833,37 @@ export const executeProjectCreationWorkflow = async (args: {
  *
  * # Create a project with yarn and skip git initialization
  * create-xeikit-app my-app --package-manager yarn --no-git-init
+ *
+ * # Create a project from a private registry defined in the configuration file
+ * create-xeikit-app my-app --template internal:my-starter
+ *
+ * # Create a project from a subdirectory of a GitHub repository at a tag, or from a local directory
+ * create-xeikit-app my-app --template gh:acme/templates/web#v2
+ * create-xeikit-app my-app --template ./templates/web
+ *
+ * # Create a project without any prompts (e.g. on CI)
+ * create-xeikit-app my-app --yes
+ *
+ * # Add the template to an existing directory, keeping files that already exist
+ * create-xeikit-app existing-app --merge
+ *
+ * # Create a project from the offline template cache
+ * create-xeikit-app my-app --template nuxt4 --offline
+ *
+ * # Set template variables declared in the template manifest
+ * create-xeikit-app my-app --var description="My shop" --var license=MIT
+ *
+ * # Enable optional features of the template
+ * create-xeikit-app my-app --template nuxt4 --features hono,tailwind
+ *
+ * # Show what would be done without downloading or writing anything
+ * create-xeikit-app my-app --template nuxt4 --dry-run
+ *
+ * # Use the template, features and options of a shared preset, overriding the package manager
+ * create-xeikit-app my-app --preset https://example.com/presets/team.yaml --package-manager npm
+ *
+ * # Print the result as JSON for scripts (exit codes are listed in EXIT_CODES)
+ * create-xeikit-app my-app --template nuxt4 --json
  * ```
  */
 export const mainCommand = defineCommand({
@@ -224,48 +872,17 @@ export const mainCommand = defineCommand({
     version,
     description,
   },
-  args: {
-    cwd: {
-      type: 'string',
-      description: 'Specify the working directory',
-      valueHint: 'directory',
-      default: '.',
-    },
-    dir: {
-      type: 'positional',
-      description: 'Project directory',
-      default: '',
-    },
-    template: {
-      type: 'string',
-      alias: 't',
-      description: 'Template name',
-    },
-    install: {
-      type: 'boolean',
-      description: 'Install dependencies',
-    },
-    gitInit: {
-      type: 'boolean',
-      description: 'Initialize git repository',
-    },
-    packageManager: {
-      type: 'string',
-      description: 'Package manager choice (npm, pnpm, yarn, bun, deno)',
-    },
-  } as const satisfies Record<string, ArgDef>,
-  run: async ({ args }) => {
-    if (hasTTY) {
-      process.stdout.write('Loading...\n');
-    }
-
-    consola.info(colors.bold('🎉 Hello xeikit app!'));
-
-    const result = await executeProjectCreationWorkflow(args);
+  args: mainCommandArgs,
+  run: async ({ args: parsedArgs }) => {
+    const args = normalizeCliArgs(parsedArgs);
+    const error = args.json ? await runWithJsonOutput(args) : await runWithLogs(args);
 
-    // For backward compatibility, we handle errors by throwing
-    if (!result.success) {
-      throw result.error;
+    // The only place the CLI exits on failure: every workflow error is mapped to its message and exit code
+    if (error) {
+      if (!args.json) {
+        consola.error(formatProjectCreationError(error));
+      }
+      process.exit(getExitCode(error.code));
     }
   },
 });
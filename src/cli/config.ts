@@ -0,0 +1,221 @@
+import { type ArgDef, defineCommand } from 'citty';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import type { CliDefaultKey, CliDefaults } from '../types/config';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok } from '../types/result';
+import {
+  getUserConfigPath,
+  isCliDefaultKey,
+  parseCliDefaultValue,
+  readConfigFile,
+  updateUserConfigDefaults,
+} from '../utils/config';
+import { CLI_DEFAULT_KEYS, EXIT_CODES } from '../utils/constants';
+
+/**
+ * Validates the `<key>` argument of the config subcommands.
+ *
+ * @param key - The name given on the command line
+ * @returns A Result containing the name of the default or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = parseConfigKeyArg("packageManager");
+ * // Returns: Ok("packageManager")
+ *
+ * const invalid = parseConfigKeyArg("color");
+ * // Returns: Err('Unknown setting "color". Use one of template, packageManager, ...')
+ * ```
+ */
+export const parseConfigKeyArg = (key: string): Result<CliDefaultKey, string> =>
+  isCliDefaultKey(key) ? Ok(key) : Err(`Unknown setting "${key}". Use one of ${CLI_DEFAULT_KEYS.join(', ')}`);
+
+/**
+ * Formats the stored defaults as lines for `config list`.
+ *
+ * @param defaults - The stored defaults
+ * @returns One line per setting, with unset settings marked as such
+ *
+ * @example
+ * ```typescript
+ * const lines = formatConfigDefaults({ packageManager: "pnpm" });
+ * // Returns: ["template        (not set)", "packageManager  pnpm", ...]
+ * ```
+ */
+export const formatConfigDefaults = (defaults: CliDefaults): string[] =>
+  CLI_DEFAULT_KEYS.map((key) => {
+    const value = defaults[key];
+    return `${key.padEnd(16)}${value === undefined ? colors.dim('(not set)') : colors.cyan(String(value))}`;
+  });
+
+/**
+ * Reads the defaults from the user configuration file, exiting the process when the file is invalid.
+ *
+ * @returns A Promise that resolves to the stored defaults
+ */
+const readUserDefaults = async (): Promise<CliDefaults> => {
+  const config = await readConfigFile(getUserConfigPath());
+  if (!isOk(config)) {
+    consola.error(config.error.message);
+    process.exit(EXIT_CODES.FAILED);
+  }
+  return config.data.defaults ?? {};
+};
+
+/**
+ * Changes the stored defaults, exiting the process when the user configuration file cannot be updated.
+ *
+ * @param update - Function returning the new defaults from the current ones
+ */
+const writeUserDefaults = async (update: (defaults: CliDefaults) => CliDefaults): Promise<void> => {
+  const result = await updateUserConfigDefaults(update);
+  if (!isOk(result)) {
+    consola.error(result.error.message);
+    process.exit(EXIT_CODES.FAILED);
+  }
+};
+
+/**
+ * Validates the `<key>` argument, exiting the process when it names no setting.
+ *
+ * @param keyArg - The name given on the command line
+ * @returns The name of the default
+ */
+const resolveKeyArg = (keyArg: string): CliDefaultKey => {
+  const key = parseConfigKeyArg(keyArg);
+  if (!isOk(key)) {
+    consola.error(key.error);
+    process.exit(EXIT_CODES.INVALID_ARGUMENT);
+  }
+  return key.data;
+};
+
+/**
+ * Argument naming the setting of the config subcommands.
+ */
+const keyArg = {
+  type: 'positional',
+  description: `Name of the setting (${CLI_DEFAULT_KEYS.join(', ')})`,
+  valueHint: 'key',
+} as const satisfies ArgDef;
+
+/**
+ * Prints the value of one setting.
+ */
+const getCommand = defineCommand({
+  meta: {
+    name: 'get',
+    description: 'Print the value of a setting',
+  },
+  args: {
+    key: keyArg,
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const key = resolveKeyArg(args.key);
+    const value = (await readUserDefaults())[key];
+
+    if (value === undefined) {
+      consola.info(`${key} is not set.`);
+      return;
+    }
+    consola.log(String(value));
+  },
+});
+
+/**
+ * Stores the value of one setting.
+ */
+const setCommand = defineCommand({
+  meta: {
+    name: 'set',
+    description: 'Store the value of a setting',
+  },
+  args: {
+    key: keyArg,
+    value: {
+      type: 'positional',
+      description: 'Value of the setting (true or false for install and gitInit)',
+      valueHint: 'value',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const key = resolveKeyArg(args.key);
+    const value = parseCliDefaultValue(key, args.value);
+
+    if (!isOk(value)) {
+      consola.error(`Invalid value: ${value.error}`);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+
+    await writeUserDefaults((defaults) => ({ ...defaults, [key]: value.data }));
+    consola.success(`Set ${key} to ${colors.cyan(String(value.data))}.`);
+  },
+});
+
+/**
+ * Lists every setting and its value.
+ */
+const listCommand = defineCommand({
+  meta: {
+    name: 'list',
+    description: 'List all settings',
+  },
+  run: async () => {
+    const defaults = await readUserDefaults();
+
+    consola.info(`Settings in ${colors.cyan(getUserConfigPath())}:`);
+    for (const line of formatConfigDefaults(defaults)) {
+      consola.log(`  ${line}`);
+    }
+  },
+});
+
+/**
+ * Removes one setting, or all settings when no key is given.
+ */
+const resetCommand = defineCommand({
+  meta: {
+    name: 'reset',
+    description: 'Remove a setting, or all settings without a key',
+  },
+  args: {
+    key: { ...keyArg, required: false },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    if (!args.key) {
+      await writeUserDefaults(() => ({}));
+      consola.success('All settings have been reset.');
+      return;
+    }
+
+    const key = resolveKeyArg(args.key);
+    await writeUserDefaults(({ [key]: _, ...defaults }) => defaults);
+    consola.success(`Reset ${key}.`);
+  },
+});
+
+/**
+ * CLI command for managing the defaults stored in the user configuration file.
+ * Stored defaults are used instead of prompting when the matching option is not given.
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app config set packageManager pnpm
+ * create-xeikit-app config get packageManager
+ * create-xeikit-app config list
+ * create-xeikit-app config reset packageManager
+ * ```
+ */
+export const configCommand = defineCommand({
+  meta: {
+    name: 'config',
+    description: 'Manage the defaults stored in the user configuration file',
+  },
+  subCommands: {
+    get: getCommand,
+    set: setCommand,
+    list: listCommand,
+    reset: resetCommand,
+  },
+});
@@ -0,0 +1,107 @@
+import { type ArgDef, defineCommand } from 'citty';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import type { DoctorCheck, DoctorCheckStatus } from '../types/cli';
+import { isOk } from '../types/result';
+import { loadCliConfig } from '../utils/config';
+import { EXIT_CODES } from '../utils/constants';
+import { runDoctorChecks } from '../utils/doctor';
+import { resolveRegistryArg, resolveTemplateReference } from '../utils/registry';
+
+/**
+ * Symbol and color of each check status.
+ */
+const STATUS_LABELS: Readonly<Record<DoctorCheckStatus, string>> = {
+  pass: colors.green('✔ pass'),
+  warn: colors.yellow('⚠ warn'),
+  fail: colors.red('✖ fail'),
+};
+
+/**
+ * Formats a check as a single line for the `doctor` subcommand.
+ *
+ * @param check - The check result
+ * @returns The status, the name and the message of the check
+ *
+ * @example
+ * ```typescript
+ * const line = formatDoctorCheck({ name: "git", status: "pass", message: "git version 2.47.1" });
+ * // Returns: "✔ pass git       git version 2.47.1"
+ * ```
+ */
+export const formatDoctorCheck = (check: DoctorCheck): string =>
+  `${STATUS_LABELS[check.status]} ${check.name.padEnd(8)} ${check.message}`;
+
+/**
+ * CLI command for diagnosing the environment when scaffolding fails.
+ * Prints a pass/warn/fail report (or JSON with `--json`) and exits with code 1 when a check fails.
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app doctor
+ * create-xeikit-app doctor --template nuxt4 --registry file:///tmp/registry --json
+ * ```
+ */
+export const doctorCommand = defineCommand({
+  meta: {
+    name: 'doctor',
+    description: 'Check the environment for common scaffolding problems',
+  },
+  args: {
+    template: {
+      type: 'string',
+      description: 'Template whose Node.js requirement is checked (defaults to the saved default template)',
+      valueHint: 'name',
+    },
+    registry: {
+      type: 'string',
+      description: 'Registry URL, local path or name of a registry from the configuration file to check',
+      valueHint: 'url|name',
+    },
+    json: {
+      type: 'boolean',
+      description: 'Print the report as JSON',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const cwd = process.cwd();
+    const config = await loadCliConfig(cwd);
+    const { defaults = {}, registries = {} } = isOk(config) ? config.data : {};
+    const registry = resolveRegistryArg(args.registry || defaults.registry, registries);
+    if (!isOk(registry)) {
+      consola.error(registry.error);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+    const templateArg = args.template || defaults.template;
+    const template = templateArg ? resolveTemplateReference(templateArg, registry.data, registries) : undefined;
+    if (template && !isOk(template)) {
+      consola.error(template.error);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+
+    const report = await runDoctorChecks({
+      cwd,
+      template: template?.data.name,
+      registry: template?.data.registry ?? registry.data,
+    });
+
+    if (args.json) {
+      process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+    } else {
+      if (!isOk(config)) {
+        consola.warn(config.error.message);
+      }
+      for (const check of report.checks) {
+        consola.log(formatDoctorCheck(check));
+      }
+      const counts = (['pass', 'warn', 'fail'] as const).map(
+        (status) => `${report.checks.filter((check) => check.status === status).length} ${status}`,
+      );
+      consola.log('');
+      consola[report.status === 'fail' ? 'error' : report.status === 'warn' ? 'warn' : 'success'](counts.join(', '));
+    }
+    if (report.status === 'fail') {
+      process.exit(EXIT_CODES.FAILED);
+    }
+  },
+});
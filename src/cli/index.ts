@@ -1,9 +1,77 @@
-import { runMain as _runMain } from 'citty';
+import { runMain as _runMain, defineCommand, renderUsage, type SubCommandsDef, type showUsage } from 'citty';
+import consola from 'consola';
+import { addCommand } from './add';
+import { cacheCommand } from './cache';
 import { mainCommand } from './command';
+import { configCommand } from './config';
+import { doctorCommand } from './doctor';
+import { infoCommand, listCommand } from './list';
+import { upgradeCommand } from './upgrade';
+
+/**
+ * Subcommands available in front of the project creation arguments.
+ * They are dispatched by name so that the positional project directory of the main command keeps working,
+ * which reserves these names: create a project in a directory named like a subcommand with `./<name>`.
+ */
+export const subCommands = {
+  add: addCommand,
+  cache: cacheCommand,
+  config: configCommand,
+  doctor: doctorCommand,
+  info: infoCommand,
+  list: listCommand,
+  upgrade: upgradeCommand,
+} satisfies SubCommandsDef;
+
+/**
+ * Name of a subcommand of the CLI.
+ */
+type SubCommandName = keyof typeof subCommands;
+
+/**
+ * Checks whether an argument names a subcommand.
+ *
+ * @param name - The first command line argument
+ * @returns True if the argument is the name of a subcommand
+ */
+const isSubCommandName = (name: string | undefined): name is SubCommandName =>
+  name !== undefined && Object.hasOwn(subCommands, name);
+
+/**
+ * Command named like the CLI that only dispatches to the subcommands, so that citty resolves the
+ * subcommand and shows its usage as `create-xeikit-app <name>`.
+ */
+const subCommandRunner = defineCommand({ meta: mainCommand.meta, subCommands });
+
+/**
+ * Renders the usage of the main command with the subcommands and the directory names they reserve.
+ *
+ * @returns A Promise that resolves to the usage text
+ *
+ * @example
+ * ```typescript
+ * consola.log(await renderMainUsage());
+ * // Logs: "... COMMANDS\n\n  `add`  Add a template feature to an existing project\n ..."
+ * ```
+ */
+export const renderMainUsage = async (): Promise<string> => {
+  const usage = await renderUsage({ ...mainCommand, subCommands });
+  const reserved = Object.keys(subCommands).join(', ');
+  return `${usage}\nThe project directory cannot be named ${reserved}; use \`./<name>\` to create a project in such a directory.`;
+};
+
+/**
+ * Prints the usage of the main command (see renderMainUsage).
+ */
+const showMainUsage: typeof showUsage = async () => {
+  consola.log(`${await renderMainUsage()}\n`);
+};
 
 /**
  * Initializes and runs the main command-line interface.
  * This function sets up the CLI using the citty framework and executes the main command.
+ * When the first argument names a subcommand (e.g. `cache` or `config`), that subcommand runs instead.
  * It serves as the entry point for the command-line application.
  */
-export const runMain = () => _runMain(mainCommand);
+export const runMain = () =>
+  isSubCommandName(process.argv[2]) ? _runMain(subCommandRunner) : _runMain(mainCommand, { showUsage: showMainUsage });
@@ -0,0 +1,213 @@
+import { type ArgDef, defineCommand } from 'citty';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import type { ResolvedRegistry, TemplateCatalogEntry, TemplateInfo } from '../types/cli';
+import type { CliConfig } from '../types/config';
+import type { Result } from '../types/result';
+import { chain, Err, isOk, Ok } from '../types/result';
+import { filterCatalogByTags, filterCompatibleTemplates, loadTemplateCatalog } from '../utils/catalog';
+import { loadCliConfig } from '../utils/config';
+import { EXIT_CODES } from '../utils/constants';
+import { formatProjectCreationError, getExitCode, isProjectCreationError } from '../utils/errors';
+import { DEFAULT_RESOLVED_REGISTRY, resolveRegistryArg, resolveTemplateReference } from '../utils/registry';
+import { parseFeaturesArg } from '../utils/template-features';
+import { loadTemplateInfo } from '../utils/template-info';
+
+/**
+ * Formats the details shared by `list` and `info`: tags, package managers and Node version.
+ *
+ * @param entry - The catalog entry
+ * @returns The details as a single line
+ */
+const formatEntryDetails = (entry: TemplateCatalogEntry): string =>
+  [
+    `tags: ${entry.tags?.length ? entry.tags.join(', ') : '-'}`,
+    `package managers: ${entry.packageManagers?.length ? entry.packageManagers.join(', ') : 'any'}`,
+    `node: ${entry.engines?.node ?? 'any'}`,
+  ].join(colors.dim(' · '));
+
+/**
+ * Formats a catalog entry as lines for the `list` subcommand.
+ *
+ * @param entry - The catalog entry
+ * @returns The name and label, the description (if any) and the details
+ *
+ * @example
+ * ```typescript
+ * const lines = formatCatalogEntry({ name: "nuxt4", label: "Nuxt4 + Hono", tags: ["nuxt"] });
+ * // Returns: ["nuxt4 Nuxt4 + Hono", "  tags: nuxt · package managers: any · node: any"]
+ * ```
+ */
+export const formatCatalogEntry = (entry: TemplateCatalogEntry): string[] => [
+  `${colors.cyan(entry.name)} ${entry.label}`,
+  ...(entry.description ? [`  ${entry.description}`] : []),
+  `  ${colors.dim(formatEntryDetails(entry))}`,
+];
+
+/**
+ * Formats the template info as lines for the `info` subcommand.
+ *
+ * @param info - The template info
+ * @returns The catalog details, the features and the README excerpt
+ *
+ * @example
+ * ```typescript
+ * const lines = formatTemplateInfo({ entry: { name: "nuxt4", label: "Nuxt4 + Hono" }, features: {} });
+ * // Returns: ["nuxt4 Nuxt4 + Hono", "  tags: - · package managers: any · node: any", "", "Features: none"]
+ * ```
+ */
+export const formatTemplateInfo = (info: TemplateInfo): string[] => {
+  const { entry, features, readme } = info;
+  const featureLines = Object.entries(features).map(([name, feature]) => {
+    const requires = feature.requires?.length ? colors.dim(` (requires ${feature.requires.join(', ')})`) : '';
+    const description = feature.description ? ` - ${feature.description}` : '';
+    return `  ${colors.cyan(name)} ${feature.label ?? name}${description}${requires}`;
+  });
+  return [
+    ...formatCatalogEntry(entry),
+    ...(entry.source ? [`  ${colors.dim(`source: ${entry.source}`)}`] : []),
+    ...(entry.versions?.length ? [`  ${colors.dim(`versions: ${entry.versions.join(', ')}`)}`] : []),
+    '',
+    ...(featureLines.length > 0 ? ['Features:', ...featureLines] : ['Features: none']),
+    ...(readme ? ['', ...readme.split('\n').map((line) => colors.dim(`  ${line}`.trimEnd()))] : []),
+  ];
+};
+
+/**
+ * Loads the configuration file and resolves the registry of `list` and `info`.
+ * Without `--registry`, the saved default registry is used.
+ *
+ * @param registryArg - The registry argument from command line (optional)
+ * @returns A Promise that resolves to a Result containing the registry and the configuration, or an error message
+ */
+const resolveCatalogRegistry = async (
+  registryArg: string | undefined,
+): Promise<Result<{ registry: ResolvedRegistry; config: CliConfig }, string>> => {
+  const config = await loadCliConfig(process.cwd());
+  if (!isOk(config)) {
+    return Err(config.error.message);
+  }
+  const registry = resolveRegistryArg(registryArg || config.data.defaults?.registry, config.data.registries);
+  return isOk(registry) ? Ok({ registry: registry.data, config: config.data }) : registry;
+};
+
+/**
+ * Prints a JSON document to stdout, for `--json`.
+ *
+ * @param value - The value to print
+ */
+const printJson = (value: unknown): void => {
+  process.stdout.write(`${JSON.stringify(value, null, 2)}\n`);
+};
+
+/**
+ * CLI command for listing the templates of the catalog.
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app list
+ * create-xeikit-app list --tag hono --json
+ * ```
+ */
+export const listCommand = defineCommand({
+  meta: {
+    name: 'list',
+    description: 'List the available templates',
+  },
+  args: {
+    tag: {
+      type: 'string',
+      description: 'Only list templates with these tags (comma-separated)',
+      valueHint: 'tags',
+    },
+    registry: {
+      type: 'string',
+      description: 'Template registry URL or name of a registry from the configuration file',
+      valueHint: 'url|name',
+    },
+    json: {
+      type: 'boolean',
+      description: 'Print the templates as JSON',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const resolved = await resolveCatalogRegistry(args.registry);
+    if (!isOk(resolved)) {
+      consola.error(resolved.error);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+
+    const catalog = filterCatalogByTags(
+      filterCompatibleTemplates(await loadTemplateCatalog(resolved.data.registry)),
+      parseFeaturesArg(args.tag) ?? [],
+    );
+    if (args.json) {
+      printJson(catalog);
+      return;
+    }
+
+    if (catalog.templates.length === 0) {
+      consola.info(args.tag ? `No templates are tagged ${colors.cyan(args.tag)}.` : 'The catalog is empty.');
+      return;
+    }
+    consola.info(`Templates in ${colors.cyan(resolved.data.registry.url)}:`);
+    for (const entry of catalog.templates) {
+      consola.log(formatCatalogEntry(entry).join('\n'));
+    }
+  },
+});
+
+/**
+ * CLI command for showing the details, features and README excerpt of a template.
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app info nuxt4
+ * create-xeikit-app info internal:my-starter --json
+ * ```
+ */
+export const infoCommand = defineCommand({
+  meta: {
+    name: 'info',
+    description: 'Show the details and features of a template',
+  },
+  args: {
+    template: {
+      type: 'positional',
+      description: 'Template name (registryName:template for a configured registry)',
+      required: true,
+    },
+    registry: {
+      type: 'string',
+      description: 'Template registry URL or name of a registry from the configuration file',
+      valueHint: 'url|name',
+    },
+    json: {
+      type: 'boolean',
+      description: 'Print the template info as JSON',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const resolved = chain(({ registry, config }: { registry: ResolvedRegistry; config: CliConfig }) =>
+      resolveTemplateReference(args.template, registry, config.registries),
+    )(await resolveCatalogRegistry(args.registry));
+    if (!isOk(resolved)) {
+      consola.error(resolved.error);
+      process.exit(EXIT_CODES.INVALID_ARGUMENT);
+    }
+
+    const { name, registry } = resolved.data;
+    const result = await loadTemplateInfo(name, registry ?? DEFAULT_RESOLVED_REGISTRY);
+    if (!isOk(result)) {
+      const { error } = result;
+      consola.error(isProjectCreationError(error) ? formatProjectCreationError(error) : error.message);
+      process.exit(isProjectCreationError(error) ? getExitCode(error.code) : EXIT_CODES.FAILED);
+    }
+
+    if (args.json) {
+      printJson(result.data);
+      return;
+    }
+    consola.log(formatTemplateInfo(result.data).join('\n'));
+  },
+});
@@ -1,6 +1,8 @@
 import consola from 'consola';
 import type { Result } from '../types/result';
 import { Err, isOk, Ok } from '../types/result';
+import { createCancelledError, createInvalidArgumentError } from '../utils/errors';
+import { createMissingOptionMessage } from '../utils/interactive';
 
 /**
  * Validates a directory argument to ensure it's not empty or just whitespace.
@@ -68,7 +70,7 @@ export const promptForProjectDirectory = async (): Promise<Result<string, Error>
     );
     return Ok(result as string);
   } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Project directory prompt cancelled'));
+    return Err(error instanceof Error ? error : createCancelledError('Project directory prompt cancelled'));
   }
 };
 
@@ -76,34 +78,34 @@ export const promptForProjectDirectory = async (): Promise<Result<string, Error>
  * Determines the project directory using a fallback chain strategy.
  * First tries to validate the provided directory argument. If that fails,
  * prompts the user for input. This ensures the application always gets a valid directory.
+ * In non-interactive mode the directory is required, so a missing argument is an error instead of a prompt.
  *
  * @param dirArg - The directory argument from command line or user input
- * @returns A Promise that resolves to a valid directory string
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing a valid directory string or an error
  *
  * @example
  * ```typescript
- * // With valid argument
- * const dir1 = await getProjectDirectory("./my-app");
- * // Returns: "./my-app"
+ * const result = await resolveProjectDirectory("./my-app");
+ * // Returns: Ok("./my-app")
  *
- * // With empty argument (will prompt user)
- * const dir2 = await getProjectDirectory("");
- * // Returns: user's input from prompt
+ * const missing = await resolveProjectDirectory("", true);
+ * // Returns: Err(InvalidArgumentError("Missing required option dir. ..."))
  * ```
  */
-export const getProjectDirectory = async (dirArg: string): Promise<string> => {
+export const resolveProjectDirectory = async (
+  dirArg: string,
+  nonInteractive = false,
+): Promise<Result<string, Error>> => {
   const argValidation = validateDirectoryArg(dirArg);
 
   if (isOk(argValidation)) {
-    return argValidation.data;
+    return argValidation;
   }
 
-  const promptResult = await promptForProjectDirectory();
-
-  if (isOk(promptResult)) {
-    return promptResult.data;
+  if (nonInteractive) {
+    return Err(createInvalidArgumentError(createMissingOptionMessage('dir'), 'dir'));
   }
 
-  // Handle error case - exit for backward compatibility
-  process.exit(1);
+  return promptForProjectDirectory();
 };
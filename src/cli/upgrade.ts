@@ -0,0 +1,94 @@
+import { type ArgDef, defineCommand } from 'citty';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import { resolve } from 'pathe';
+import type { UpgradeReport } from '../types/cli';
+import { isOk } from '../types/result';
+import { EXIT_CODES } from '../utils/constants';
+import { formatProjectCreationError, getExitCode, isProjectCreationError } from '../utils/errors';
+import { upgradeProject } from '../utils/upgrade';
+
+/**
+ * Formats an upgrade report as lines for the `upgrade` subcommand.
+ *
+ * @param report - The upgrade report
+ * @returns One line per change and per conflict, or a single line when there is nothing to upgrade
+ *
+ * @example
+ * ```typescript
+ * const lines = formatUpgradeReport({ from: "3f2c9a...", to: "8d1e4b...", changes: [{ path: "app.vue", action: "update" }], conflicts: [], dryRun: false });
+ * // Returns: ["update   app.vue"]
+ * ```
+ */
+export const formatUpgradeReport = (report: UpgradeReport): string[] => {
+  if (report.changes.length === 0 && report.conflicts.length === 0) {
+    return [`Already up to date with ${colors.cyan(report.to)}.`];
+  }
+  return [
+    ...report.changes.map(({ path, action }) => `${colors.dim(action.padEnd(8))} ${path}`),
+    ...report.conflicts.map((path) => `${colors.yellow('conflict'.padEnd(8))} ${path}`),
+  ];
+};
+
+/**
+ * CLI command for upgrading a project to a newer version of its template.
+ * Uses the template recorded in `.xeikit/scaffold.json`; changes the project did not make are applied
+ * and files changed on both sides are listed as conflicts (exit code 1).
+ *
+ * @example
+ * ```bash
+ * create-xeikit-app upgrade
+ * create-xeikit-app upgrade ./my-app --ref v2.2.0 --dry-run
+ * ```
+ */
+export const upgradeCommand = defineCommand({
+  meta: {
+    name: 'upgrade',
+    description: 'Upgrade a project to a newer version of its template',
+  },
+  args: {
+    dir: {
+      type: 'positional',
+      description: 'Project directory (defaults to the current directory)',
+      required: false,
+      default: '.',
+    },
+    ref: {
+      type: 'string',
+      description: 'Tag, branch or commit to upgrade to (defaults to the default branch of the template)',
+      valueHint: 'ref',
+    },
+    dryRun: {
+      type: 'boolean',
+      description: 'List the changes and conflicts without writing anything',
+    },
+  } as const satisfies Record<string, ArgDef>,
+  run: async ({ args }) => {
+    const projectDir = resolve(args.dir);
+    const result = await upgradeProject(projectDir, { ref: args.ref || undefined, dryRun: args.dryRun });
+
+    if (!isOk(result)) {
+      const { error } = result;
+      consola.error(isProjectCreationError(error) ? formatProjectCreationError(error) : error.message);
+      process.exit(isProjectCreationError(error) ? getExitCode(error.code) : EXIT_CODES.FAILED);
+    }
+
+    const report = result.data;
+    consola.info(`Upgrading ${colors.cyan(projectDir)} from ${report.from} to ${report.to}:`);
+    for (const line of formatUpgradeReport(report)) {
+      consola.log(`  ${line}`);
+    }
+
+    const summary = `${report.changes.length} change(s), ${report.conflicts.length} conflict(s)`;
+    if (report.dryRun) {
+      consola.info(`Dry run: ${summary}, nothing has been written.`);
+    } else if (report.conflicts.length > 0) {
+      consola.warn(`Applied ${summary}. Resolve the conflicts against the new template version and run upgrade again.`);
+    } else {
+      consola.success(`Applied ${summary}.`);
+    }
+    if (report.conflicts.length > 0) {
+      process.exit(EXIT_CODES.FAILED);
+    }
+  },
+});
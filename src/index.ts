@@ -1,5 +1,26 @@
 /**
  * Main entry point for the xeikit app creation CLI tool.
- * Re-exports the runMain function to start the command-line interface.
+ * Re-exports the runMain function to start the command-line interface,
+ * and the createProject function to create projects from other tools.
  */
+export { createProject } from './api';
 export { runMain } from './cli/index';
+export type {
+  CancelledError,
+  CreateProjectOptions,
+  DirectoryExistsError,
+  DownloadFailedError,
+  InstallFailedError,
+  InvalidArgumentError,
+  ProjectCreationError,
+  ProjectCreationErrorCode,
+  ProjectCreationHooks,
+  ProjectCreationReport,
+  ProjectCreationResult,
+  ProjectCreationStep,
+  ProjectCreationTimings,
+  WorkflowFailedError,
+} from './types/api';
+export type { GitOptions, MergeReport, TemplateHookResult, TemplateVariableValue } from './types/cli';
+export type { Result } from './types/result';
+export { isErr, isOk } from './types/result';
@@ -0,0 +1,363 @@
+import type { PackageManagerName } from 'nypm';
+import type {
+  ExistingDirectoryStrategy,
+  GitOptions,
+  MergeReport,
+  TemplateHookResult,
+  TemplateHookStage,
+  TemplateVariableValue,
+} from './cli';
+
+/**
+ * Steps of the project creation workflow, in the order they run.
+ *
+ * - `config`: load the configuration files and validate the options
+ * - `directory`: resolve the project directory, package name and existing directory handling
+ * - `template`: select the template and its registry
+ * - `download`: download the template into the project directory (or a staging directory when merging)
+ * - `render`: apply the template's features and variables and merge the template into an existing directory
+ * - `packageJson`: write the package name, version and private flag
+ * - `packageManager`: select the package manager and align lockfiles and scripts with it
+ * - `install`: install dependencies
+ * - `git`: initialize the git repository
+ */
+export type ProjectCreationStep =
+  | 'config'
+  | 'directory'
+  | 'template'
+  | 'download'
+  | 'render'
+  | 'packageJson'
+  | 'packageManager'
+  | 'install'
+  | 'git';
+
+/**
+ * Codes of the errors returned by the project creation workflow, each with its own exit code.
+ *
+ * - `CANCELLED`: a prompt was cancelled
+ * - `INVALID_ARGUMENT`: an option, the configuration or the template name is invalid
+ * - `DIRECTORY_EXISTS`: the project directory is not empty and may not be used
+ * - `DOWNLOAD_FAILED`: the template could not be downloaded
+ * - `INSTALL_FAILED`: dependencies could not be installed
+ * - `FAILED`: any other failure
+ */
+export type ProjectCreationErrorCode =
+  | 'CANCELLED'
+  | 'INVALID_ARGUMENT'
+  | 'DIRECTORY_EXISTS'
+  | 'DOWNLOAD_FAILED'
+  | 'INSTALL_FAILED'
+  | 'FAILED';
+
+/**
+ * Interface shared by the errors returned by the project creation workflow.
+ */
+interface ProjectCreationErrorBase<Code extends ProjectCreationErrorCode> extends Error {
+  /** What went wrong */
+  code: Code;
+  /** The step that failed, if the failure happened inside a step */
+  step?: ProjectCreationStep;
+}
+
+/**
+ * A prompt was cancelled or the user chose to cancel.
+ */
+export type CancelledError = ProjectCreationErrorBase<'CANCELLED'>;
+
+/**
+ * An option, the configuration or the template name is invalid or missing.
+ */
+export interface InvalidArgumentError extends ProjectCreationErrorBase<'INVALID_ARGUMENT'> {
+  /** The option that is invalid, if a single option is at fault */
+  option?: string;
+}
+
+/**
+ * The project directory is not empty and may not be used.
+ */
+export interface DirectoryExistsError extends ProjectCreationErrorBase<'DIRECTORY_EXISTS'> {
+  /** Absolute path of the project directory */
+  path: string;
+}
+
+/**
+ * The template could not be downloaded.
+ */
+export interface DownloadFailedError extends ProjectCreationErrorBase<'DOWNLOAD_FAILED'> {
+  /** The name of the template */
+  template: string;
+}
+
+/**
+ * Dependencies could not be installed.
+ */
+export interface InstallFailedError extends ProjectCreationErrorBase<'INSTALL_FAILED'> {
+  /** The package manager that failed */
+  packageManager: PackageManagerName;
+}
+
+/**
+ * Any other failure, e.g. an unreadable template or a failing git command.
+ */
+export type WorkflowFailedError = ProjectCreationErrorBase<'FAILED'>;
+
+/**
+ * The errors returned by the project creation workflow, discriminated by `code`.
+ *
+ * @example
+ * ```typescript
+ * if (!isOk(result)) {
+ *   switch (result.error.code) {
+ *     case "DIRECTORY_EXISTS":
+ *       console.error(`${result.error.path} is not empty`);
+ *       break;
+ *     case "INSTALL_FAILED":
+ *       console.error(`Run ${result.error.packageManager} install manually`);
+ *       break;
+ *   }
+ * }
+ * ```
+ */
+export type ProjectCreationError =
+  | CancelledError
+  | InvalidArgumentError
+  | DirectoryExistsError
+  | DownloadFailedError
+  | InstallFailedError
+  | WorkflowFailedError;
+
+/**
+ * Interface of the lifecycle hooks called during project creation.
+ * Hooks may be async; the workflow waits for them. A hook that throws fails the current step.
+ *
+ * @example
+ * ```typescript
+ * const hooks: ProjectCreationHooks = {
+ *   onStepStart: (step) => console.log(`Starting ${step}`),
+ *   onStepComplete: (step, duration) => console.log(`${step} took ${duration}ms`),
+ * };
+ * ```
+ */
+export interface ProjectCreationHooks {
+  /** Called before a step starts */
+  onStepStart?: (step: ProjectCreationStep) => void | Promise<void>;
+  /** Called after a step has completed, with its duration in milliseconds */
+  onStepComplete?: (step: ProjectCreationStep, duration: number) => void | Promise<void>;
+  /** Called when a step fails, before the project directory is rolled back */
+  onStepError?: (step: ProjectCreationStep, error: Error) => void | Promise<void>;
+}
+
+/**
+ * Interface describing how long project creation took, in milliseconds.
+ */
+export interface ProjectCreationTimings {
+  /** Duration of every completed step */
+  steps: Partial<Record<ProjectCreationStep, number>>;
+  /** Duration of the whole workflow */
+  total: number;
+}
+
+/**
+ * Interface describing a created project.
+ */
+export interface ProjectCreationResult {
+  /** The project directory as given (relative to the working directory) */
+  projectDir: string;
+  /** Paths created or moved by the workflow */
+  paths: {
+    /** Absolute path of the project */
+    project: string;
+    /** Absolute path a pre-existing directory was moved to, if it was backed up */
+    backup?: string;
+  };
+  /** Package name written to package.json */
+  packageName: string;
+  /** The template the project was created from */
+  template: {
+    /** Template name inside the registry */
+    name: string;
+    /** Source the template was downloaded from */
+    source: string;
+    /** URL (or path) of the registry (absent for git-hosted and local templates) */
+    registry?: string;
+    /** Ref (tag, branch or commit) the template was pinned to */
+    ref?: string;
+    /** Commit SHA the template was downloaded at, for git-hosted templates */
+    commit?: string;
+  };
+  /** Features of the template enabled in the project, in manifest order */
+  features: string[];
+  /** Template variables substituted into the project (empty if the template declares none) */
+  variables: Record<string, TemplateVariableValue>;
+  /** The package manager the project was set up for */
+  packageManager: PackageManagerName;
+  /** Whether dependencies were installed */
+  installed: boolean;
+  /** Whether a git repository was created */
+  gitInitialized: boolean;
+  /** Outcome of the hooks declared by the template, in the order they ran */
+  templateHooks: TemplateHookResult[];
+  /** Files written and kept when merging into an existing directory */
+  mergeReport?: MergeReport;
+  /** How long the steps took */
+  timings: ProjectCreationTimings;
+}
+
+/**
+ * What happens to a file of the project directory during project creation.
+ * - `create`: written from the template
+ * - `update`: rewritten by the CLI (e.g. the package name in `package.json`)
+ * - `delete`: removed together with the contents of the existing directory
+ * - `keep`: already exists and is kept instead of the template's version
+ */
+export type ProjectPlanFileAction = 'create' | 'update' | 'delete' | 'keep';
+
+/**
+ * Interface describing a file change of a project creation plan.
+ */
+export interface ProjectPlanFileChange {
+  /** Path relative to the project directory */
+  path: string;
+  action: ProjectPlanFileAction;
+}
+
+/**
+ * Interface describing what project creation would do, as printed by `--dry-run`.
+ * Every answer is resolved, but nothing is downloaded or written.
+ */
+export interface ProjectCreationPlan {
+  /** Project directory, as given or prompted for */
+  projectDir: string;
+  /** Absolute paths that would be created */
+  paths: {
+    /** The project directory */
+    project: string;
+    /** Where an existing directory would be moved to (with `--force`) */
+    backup?: string;
+  };
+  /** How a non-empty project directory would be handled */
+  existingDirectory?: ExistingDirectoryStrategy;
+  /** Package name that would be written to package.json */
+  packageName: string;
+  /** The template the project would be created from */
+  template: {
+    /** Template name inside the registry */
+    name: string;
+    /** Source of a cached download, or the URL of the template definition */
+    source: string;
+    /** URL (or path) of the registry (absent for git-hosted and local templates) */
+    registry?: string;
+    /** Ref (tag, branch or commit) the template would be pinned to */
+    ref?: string;
+    /** Whether the template is in the offline cache */
+    cached: boolean;
+  };
+  /** The package manager the project would be set up for */
+  packageManager: PackageManagerName;
+  /** Whether and how dependencies would be installed */
+  install: { enabled: boolean; command: string };
+  /** Whether a git repository would be created, and the git commands */
+  git: { enabled: boolean; commands: string[] };
+  /** The hook commands of the template by stage (only known for cached templates) */
+  hooks: { enabled: boolean; commands?: Partial<Record<TemplateHookStage, string[]>> };
+  /** Files that would be created, changed or deleted (template files only for cached templates) */
+  files: ProjectPlanFileChange[];
+}
+
+/**
+ * Interface defining the options of the programmatic `createProject` API.
+ * Every answer the CLI would prompt for is given as data; missing answers use the non-interactive defaults.
+ *
+ * @example
+ * ```typescript
+ * const options: CreateProjectOptions = {
+ *   dir: "my-app",
+ *   template: "nuxt4",
+ *   packageManager: "pnpm",
+ *   install: false,
+ * };
+ * ```
+ */
+export interface CreateProjectOptions {
+  /** Project directory, relative to cwd */
+  dir: string;
+  /** Working directory (defaults to process.cwd()) */
+  cwd?: string;
+  /**
+   * Template name, optionally prefixed with a configured registry name, a giget source (`gh:org/repo#ref`)
+   * or a local path relative to cwd (defaults to the default template)
+   */
+  template?: string;
+  /** Path or URL of a preset file; the options given here take precedence over the preset */
+  preset?: string;
+  /** Ref (tag, branch or commit) to pin the template to, like `template@ref` */
+  templateRef?: string;
+  /** Package name (defaults to the directory name) */
+  name?: string;
+  /** Template registry URL or name of a configured registry */
+  registry?: string;
+  /** Only use cached templates and catalogs */
+  offline?: boolean;
+  /** Use cached templates and catalogs when available */
+  preferOffline?: boolean;
+  /** Back up a non-empty project directory */
+  force?: boolean;
+  /** Merge into a non-empty project directory, keeping conflicting files */
+  merge?: boolean;
+  /** Keep the partially created project when a step fails */
+  keepOnFailure?: boolean;
+  /** Features of the template to enable (defaults to the template's default features) */
+  features?: string[];
+  /** Values of the variables declared by the template (missing values use their defaults) */
+  variables?: Record<string, TemplateVariableValue>;
+  /** Package manager (defaults to the current package manager or npm) */
+  packageManager?: PackageManagerName;
+  /** Install dependencies (defaults to true) */
+  install?: boolean;
+  /** Initialize a git repository (defaults to true) */
+  gitInit?: boolean;
+  /** Initial branch and commit of the git repository */
+  git?: GitOptions;
+  /** Run the commands declared by the template; they are skipped unless this is true, as there are no prompts */
+  templateHooks?: boolean;
+  /** Lifecycle hooks called for every step */
+  hooks?: ProjectCreationHooks;
+}
+
+/**
+ * Interface of the JSON document printed with `--json`.
+ * Fields describing the project are only present when the project was created; `plan` only with `--dry-run`.
+ */
+export interface ProjectCreationReport {
+  /** Whether the command succeeded */
+  success: boolean;
+  /** The exit code of the process */
+  exitCode: number;
+  /** Absolute path of the project directory */
+  path?: string;
+  /** Package name written to package.json */
+  packageName?: string;
+  /** The template the project was created from */
+  template?: ProjectCreationResult['template'];
+  /** The package manager the project was set up for */
+  packageManager?: PackageManagerName;
+  /** Whether dependencies were installed */
+  installed?: boolean;
+  /** Whether a git repository was created */
+  gitInitialized?: boolean;
+  /** Features of the template enabled in the project */
+  features?: string[];
+  /** Outcome of the hooks declared by the template */
+  templateHooks?: TemplateHookResult[];
+  /** What would be done (with `--dry-run`) */
+  plan?: ProjectCreationPlan;
+  /** Warnings logged while running */
+  warnings: string[];
+  /** Why the command failed */
+  error?: {
+    code: ProjectCreationErrorCode;
+    message: string;
+    step?: ProjectCreationStep;
+  };
+}
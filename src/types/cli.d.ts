@@ -1,3 +1,6 @@
+import type { DownloadTemplateResult } from 'giget';
+import type { PackageManagerName } from 'nypm';
+
 /**
  * Interface defining the structure of template options for the CLI.
  * Used to create select menus for template selection with user-friendly labels.
@@ -15,4 +18,439 @@ export interface TemplateOptions {
   label: string;
   /** Internal value used for template identification and download */
   value: string;
+  /** Optional hint shown next to the label */
+  hint?: string;
+}
+
+/**
+ * Interface describing a single template entry in the remote template catalog.
+ * The catalog manifest is published next to the templates in the registry.
+ *
+ * @example
+ * ```typescript
+ * const entry: TemplateCatalogEntry = {
+ *   name: "nuxt4",
+ *   label: "Nuxt4 + Hono",
+ *   description: "Nuxt 4 with a Hono API server",
+ *   tags: ["nuxt", "hono"],
+ *   minCliVersion: "1.3.0",
+ *   source: "gh:xeikit/starter-templates/packages/nuxt4",
+ *   versions: ["v2.1.0", "v2.0.0"],
+ *   packageManagers: ["pnpm", "npm"],
+ *   engines: { node: ">=20.19.0" }
+ * };
+ * ```
+ */
+export interface TemplateCatalogEntry {
+  /** Template name used for download and in `--template` */
+  name: string;
+  /** User-friendly display name shown in the selection menu */
+  label: string;
+  /** Short description shown as a hint next to the label */
+  description?: string;
+  /** Free-form tags used for filtering and discovery */
+  tags?: string[];
+  /** Lowest CLI version able to scaffold this template */
+  minCliVersion?: string;
+  /** giget source of the template repository; templates with a source can be pinned to a ref */
+  source?: string;
+  /** Refs (usually tags) the template can be pinned to, newest first */
+  versions?: string[];
+  /** Package managers the template supports (all of them when omitted) */
+  packageManagers?: PackageManagerName[];
+  /** Required runtime versions, like the `engines` field of package.json */
+  engines?: {
+    /** Semver range of the required Node.js version */
+    node?: string;
+  };
+}
+
+/**
+ * Interface defining the structure of the template catalog manifest.
+ */
+export interface TemplateCatalog {
+  /** All templates available in the registry */
+  templates: TemplateCatalogEntry[];
+}
+
+/**
+ * Interface defining the on-disk cache entry for a downloaded template catalog.
+ */
+export interface CachedTemplateCatalog {
+  /** Registry the catalog was fetched from */
+  registry: string;
+  /** Unix timestamp (milliseconds) of the fetch */
+  fetchedAt: number;
+  /** The cached catalog manifest */
+  catalog: TemplateCatalog;
+}
+
+/**
+ * Interface describing a template for the `info` subcommand.
+ */
+export interface TemplateInfo {
+  /** The catalog entry of the template */
+  entry: TemplateCatalogEntry;
+  /** The beginning of the README of the template, if it has one */
+  readme?: string;
+  /** The features declared in the template manifest, by name */
+  features: Record<string, TemplateFeatureDefinition>;
+}
+
+/**
+ * Interface describing the registry a template is downloaded from.
+ */
+export interface ResolvedRegistry {
+  /** Base URL (or local path) of the registry */
+  url: string;
+  /** Name of the registry in the configuration file, if it came from there */
+  name?: string;
+  /** Auth token sent with registry requests */
+  auth?: string;
+}
+
+/**
+ * Interface describing the template chosen by the user, together with where it comes from:
+ * a registry for bare names, or a source for git-hosted and local templates.
+ */
+export interface TemplateSelection {
+  /** Template name inside the registry, or the template argument as given for a source */
+  name: string;
+  /** Registry the template comes from (absent for templates given as a source) */
+  registry?: ResolvedRegistry;
+  /**
+   * giget source (e.g. `gh:org/repo/path#ref`) or absolute path the template is downloaded from instead of
+   * the registry; registry templates have one when their catalog entry declares it
+   */
+  source?: string;
+  /** Ref (tag, branch or commit) the source is pinned to */
+  ref?: string;
+}
+
+/**
+ * Interface describing how the template download may use the offline cache.
+ */
+export interface OfflineOptions {
+  /** Only use cached templates and catalogs, never the network */
+  offline?: boolean;
+  /** Use cached templates and catalogs when present, falling back to the network */
+  preferOffline?: boolean;
+}
+
+/**
+ * Interface describing what happens after `git init` in a new project.
+ */
+export interface GitOptions {
+  /** Stage all files and create an initial commit */
+  commit?: boolean;
+  /** Message of the initial commit */
+  commitMessage?: string;
+  /** Name of the initial branch */
+  branch?: string;
+  /** Author of the initial commit in the form "Name <email>" */
+  author?: string;
+  /** Hide the output of git (used with `--json`) */
+  silent?: boolean;
+}
+
+/**
+ * Interface describing the giget download result stored in the template cache.
+ * The target directory and request headers (which may contain auth tokens) are not stored.
+ */
+export interface CachedTemplateInfo {
+  name: string;
+  tar: string;
+  version?: string;
+  subdir?: string;
+  url?: string;
+  defaultDir?: string;
+  source: string;
+}
+
+/**
+ * Interface describing the metadata stored alongside a cached template.
+ */
+export interface TemplateCacheMetadata {
+  /** Registry the template was downloaded from */
+  registry: string;
+  /** Template name inside the registry */
+  template: string;
+  /** Template ref (tag, branch or commit), if any */
+  ref?: string;
+  /** Commit SHA the ref resolved to when the template was downloaded, if known */
+  commit?: string;
+  /** Unix timestamp (milliseconds) of the download */
+  cachedAt: number;
+  /** The giget download result */
+  result: CachedTemplateInfo;
+}
+
+/**
+ * Interface describing a cached template on disk.
+ */
+export interface TemplateCacheEntry extends TemplateCacheMetadata {
+  /** Cache key derived from registry, template and ref */
+  key: string;
+  /** Absolute path of the cache entry directory */
+  path: string;
+}
+
+/**
+ * A downloaded template: the giget download result and the commit it was downloaded at, if known.
+ */
+export type DownloadedTemplate = DownloadTemplateResult & {
+  /** Commit SHA of a git-hosted template */
+  commit?: string;
+};
+
+/**
+ * Interface describing the metadata file written into every new project (`.xeikit/scaffold.json`).
+ * It records where the template came from and how it was rendered, so that the project can be
+ * scaffolded again identically and upgraded to newer versions of the template.
+ */
+export interface ScaffoldMetadata {
+  /** Version of create-xeikit-app that created the project */
+  cliVersion: string;
+  /** Creation date (ISO 8601) */
+  createdAt: string;
+  /** The template the project was created from */
+  template: {
+    /** Template name inside the registry, or the template argument as given for a source */
+    name: string;
+    /** Source the template was downloaded from */
+    source: string;
+    /** URL (or path) of the registry, for registry templates */
+    registry?: string;
+    /** Ref (tag, branch or commit) the template was pinned to */
+    ref?: string;
+    /** Commit SHA the template was downloaded at, for git-hosted templates */
+    commit?: string;
+  };
+  /** The features of the template enabled in the project, in manifest order */
+  features: string[];
+  /** The template variables the project was rendered with, including the built-in ones */
+  variables: Record<string, TemplateVariableValue>;
+  /** Package manager the project was created with */
+  packageManager?: PackageManagerName;
+  /** Date of the last `upgrade` (ISO 8601), if the project has been upgraded */
+  upgradedAt?: string;
+}
+
+/**
+ * How an existing, non-empty project directory is handled.
+ * - `backup`: move the directory aside and create the project in its place
+ * - `clear`: delete the directory contents
+ * - `merge`: write template files into it, keeping conflicting files
+ */
+export type ExistingDirectoryStrategy = 'backup' | 'clear' | 'merge';
+
+/**
+ * Interface describing the outcome of merging a template into an existing directory.
+ */
+export interface MergeReport {
+  /** Files written to the directory (relative paths) */
+  written: string[];
+  /** Files that already existed with different contents and were kept (relative paths) */
+  conflicts: string[];
+}
+
+/**
+ * What happens to a file of the project during an upgrade.
+ * - `create`: added by the newer template version
+ * - `update`: changed by the newer template version and unchanged in the project
+ * - `delete`: removed by the newer template version and unchanged in the project
+ */
+export type UpgradeFileAction = 'create' | 'update' | 'delete';
+
+/**
+ * Interface describing the outcome of upgrading a project to a newer version of its template.
+ */
+export interface UpgradeReport {
+  /** Ref or commit of the template the project was created from (or last upgraded to) */
+  from: string;
+  /** Commit (or ref, when it could not be resolved) of the template the project was upgraded to */
+  to: string;
+  /** The changes of the template applied to the project, by relative path */
+  changes: { path: string; action: UpgradeFileAction }[];
+  /** Files changed both by the template and in the project, left as they are (relative paths) */
+  conflicts: string[];
+  /** Whether the changes were only listed (`--dry-run`) */
+  dryRun: boolean;
+}
+
+/**
+ * Outcome of a `doctor` check: `warn` does not prevent scaffolding, `fail` is likely to.
+ */
+export type DoctorCheckStatus = 'pass' | 'warn' | 'fail';
+
+/**
+ * Interface describing a single check of the `doctor` subcommand.
+ *
+ * @example
+ * ```typescript
+ * const check: DoctorCheck = { name: "git", status: "pass", message: "git 2.47.1" };
+ * ```
+ */
+export interface DoctorCheck {
+  /** What was checked (e.g. "node", "git", "pnpm", "registry") */
+  name: string;
+  /** The outcome of the check */
+  status: DoctorCheckStatus;
+  /** What was found, and how to fix it for warnings and failures */
+  message: string;
+}
+
+/**
+ * Interface describing the report of the `doctor` subcommand (also its `--json` output).
+ */
+export interface DoctorReport {
+  /** The worst status of all checks */
+  status: DoctorCheckStatus;
+  /** The checks, in the order they ran */
+  checks: DoctorCheck[];
+}
+
+/**
+ * Interface describing the outcome of adding a feature of the template to an existing project.
+ */
+export interface AddFeatureReport {
+  /** The features added to the project: the requested one and the features it requires, in manifest order */
+  added: string[];
+  /** Files of the features written to the project (relative paths) */
+  written: string[];
+  /** Files and package.json entries that already exist with different contents and were kept */
+  conflicts: string[];
+  /** Whether dependencies or scripts were added to package.json */
+  packageJsonChanged: boolean;
+}
+
+/**
+ * Type of a template variable, which decides how it is prompted for and parsed.
+ */
+export type TemplateVariableType = 'string' | 'number' | 'boolean' | 'select';
+
+/**
+ * Value of a rendered template variable.
+ */
+export type TemplateVariableValue = string | number | boolean;
+
+/**
+ * Interface describing a variable declared in the template manifest.
+ *
+ * @example
+ * ```typescript
+ * const variable: TemplateVariableDefinition = {
+ *   type: "string",
+ *   prompt: "Project description",
+ *   default: "A xeikit app",
+ *   pattern: "^.{1,120}$"
+ * };
+ * ```
+ */
+export interface TemplateVariableDefinition {
+  /** Type of the variable (defaults to "string") */
+  type?: TemplateVariableType;
+  /** Text shown when prompting for the variable (defaults to the variable name) */
+  prompt?: string;
+  /** Value used without prompts and suggested in the prompt */
+  default?: TemplateVariableValue;
+  /** Allowed values of a "select" variable */
+  options?: string[];
+  /** Regular expression a "string" value must match */
+  pattern?: string;
+  /** Whether an empty value is rejected */
+  required?: boolean;
+}
+
+/**
+ * Fields of package.json a template feature merges into the project.
+ */
+export type TemplateFeaturePackageField = 'dependencies' | 'devDependencies' | 'peerDependencies' | 'scripts';
+
+/**
+ * Interface describing an optional feature (add-on) declared in the template manifest.
+ * Files of a selected feature are copied from `_features/<name>/` into the project.
+ *
+ * @example
+ * ```typescript
+ * const feature: TemplateFeatureDefinition = {
+ *   label: "Docker",
+ *   description: "Dockerfile and compose setup",
+ *   requires: ["hono"],
+ *   conflicts: ["vercel"],
+ *   package: { scripts: { "docker:build": "docker build ." } }
+ * };
+ * ```
+ */
+export interface TemplateFeatureDefinition {
+  /** User-friendly name shown in the selection menu (defaults to the feature name) */
+  label?: string;
+  /** Short description shown as a hint next to the label */
+  description?: string;
+  /** Whether the feature is selected by default (and without prompts) */
+  default?: boolean;
+  /** Files and directories removed from the project when the feature is selected (relative paths) */
+  remove?: string[];
+  /** Dependencies and scripts merged into package.json when the feature is selected */
+  package?: Partial<Record<TemplateFeaturePackageField, Record<string, string>>>;
+  /** Features that are selected together with this feature */
+  requires?: string[];
+  /** Features that cannot be selected together with this feature */
+  conflicts?: string[];
+}
+
+/**
+ * Stages of the creation workflow at which template hooks run.
+ * - `postDownload`: after the template is downloaded, rendered and merged into the project directory
+ * - `postInstall`: after dependencies are installed (skipped when they are not)
+ * - `postGitInit`: after the git repository is initialized and committed (skipped when it is not)
+ */
+export type TemplateHookStage = 'postDownload' | 'postInstall' | 'postGitInit';
+
+/**
+ * Interface describing a shell command declared as a hook in the template manifest.
+ * In the manifest a hook may also be written as a plain command string.
+ *
+ * @example
+ * ```typescript
+ * const hook: TemplateHookDefinition = {
+ *   run: "nuxi prepare",
+ *   description: "Generate Nuxt types",
+ *   required: true
+ * };
+ * ```
+ */
+export interface TemplateHookDefinition {
+  /** Shell command run in the project directory */
+  run: string;
+  /** Short description shown instead of the command */
+  description?: string;
+  /** Whether a failure of the command aborts project creation */
+  required?: boolean;
+}
+
+/**
+ * Interface describing the outcome of a template hook.
+ */
+export interface TemplateHookResult {
+  /** Stage the hook belongs to */
+  stage: TemplateHookStage;
+  /** The hook command */
+  run: string;
+  /** Whether the hook ran successfully, failed or was not run */
+  status: 'succeeded' | 'failed' | 'skipped';
+  /** Error message of a failed hook */
+  error?: string;
+}
+
+/**
+ * Interface defining the structure of the template manifest (`xeikit.template.json`).
+ */
+export interface TemplateManifest {
+  /** Variables substituted into `{{ name }}` placeholders, by name */
+  variables: Record<string, TemplateVariableDefinition>;
+  /** Optional features, by name, in the order they are applied */
+  features: Record<string, TemplateFeatureDefinition>;
+  /** Shell commands run at the stages of the creation workflow */
+  hooks: Partial<Record<TemplateHookStage, TemplateHookDefinition[]>>;
 }
@@ -0,0 +1,124 @@
+import type { PackageManagerName } from 'nypm';
+import type { TemplateVariableValue } from './cli';
+
+/**
+ * Interface defining a named template registry in the configuration file.
+ *
+ * @example
+ * ```typescript
+ * const registry: RegistryConfig = {
+ *   url: "https://templates.example.com/registry",
+ *   tokenEnv: "EXAMPLE_TEMPLATES_TOKEN"
+ * };
+ * ```
+ */
+export interface RegistryConfig {
+  /** Base URL (or local path) of the registry */
+  url: string;
+  /** Name of the environment variable holding the auth token for this registry */
+  tokenEnv?: string;
+}
+
+/**
+ * Interface defining the answers stored in the configuration file.
+ * They are used instead of prompting when the matching option is not given on the command line.
+ *
+ * @example
+ * ```typescript
+ * const defaults: CliDefaults = {
+ *   template: "nuxt4",
+ *   packageManager: "pnpm",
+ *   install: true,
+ *   gitInit: true,
+ *   author: "Jane Doe <jane@example.com>"
+ * };
+ * ```
+ */
+export interface CliDefaults {
+  /** Template used when `--template` is not given */
+  template?: string;
+  /** Package manager used when `--package-manager` is not given */
+  packageManager?: PackageManagerName;
+  /** Whether dependencies are installed when `--install` / `--no-install` is not given */
+  install?: boolean;
+  /** Whether a git repository is initialized when `--git-init` / `--no-git-init` is not given */
+  gitInit?: boolean;
+  /** Registry URL or name used when `--registry` is not given */
+  registry?: string;
+  /** Author of the initial commit ("Name <email>") used when `--git-author` is not given */
+  author?: string;
+}
+
+/**
+ * Name of a stored default (see CliDefaults).
+ */
+export type CliDefaultKey = keyof CliDefaults;
+
+/**
+ * Interface defining the structure of the user and project configuration files.
+ *
+ * @example
+ * ```json
+ * {
+ *   "defaults": { "template": "nuxt4", "packageManager": "pnpm" },
+ *   "registries": {
+ *     "internal": { "url": "https://templates.example.com/registry", "tokenEnv": "EXAMPLE_TEMPLATES_TOKEN" }
+ *   }
+ * }
+ * ```
+ */
+export interface CliConfig {
+  /** Answers used instead of prompting (managed with `create-xeikit-app config`) */
+  defaults?: CliDefaults;
+  /** Named registries usable with `--registry <name>` and `--template <name>:<template>` */
+  registries?: Record<string, RegistryConfig>;
+}
+
+/**
+ * Interface defining a preset file shared by a team (`--preset <path|url>`, JSON or YAML).
+ * Every value is used for the matching option unless it is given on the command line.
+ *
+ * @example
+ * ```yaml
+ * template: nuxt4
+ * features: [hono, tailwind]
+ * variables:
+ *   license: MIT
+ * packageManager: pnpm
+ * install: true
+ * git:
+ *   init: true
+ *   commit: true
+ *   branch: main
+ * hooks: true
+ * ```
+ */
+export interface ProjectPreset {
+  /** Template name, optionally prefixed with a configured registry name (`--template`) */
+  template?: string;
+  /** Registry URL or name (`--registry`) */
+  registry?: string;
+  /** Features of the template to enable (`--features`) */
+  features?: string[];
+  /** Values of the template variables (`--var`) */
+  variables?: Record<string, TemplateVariableValue>;
+  /** Package manager (`--package-manager`) */
+  packageManager?: PackageManagerName;
+  /** Whether dependencies are installed (`--install`) */
+  install?: boolean;
+  /** Git repository options */
+  git?: {
+    /** Whether a git repository is initialized (`--git-init`) */
+    init?: boolean;
+    /** Whether an initial commit is created (`--git-commit`) */
+    commit?: boolean;
+    /** Message of the initial commit (`--git-commit-message`) */
+    commitMessage?: string;
+    /** Name of the initial branch (`--git-branch`) */
+    branch?: string;
+    /** Author of the initial commit, "Name <email>" (`--git-author`) */
+    author?: string;
+  };
+  /** Whether the commands declared by the template run (`--hooks`) */
+  hooks?: boolean;
+}
@@ -213,3 +213,288 @@ export const unwrapOr =
   (result: Result<T, E>): T => {
     return isOk(result) ? result.data : defaultValue;
   };
+
+/**
+ * Applies a side effect to the success value of a Result and returns the Result unchanged.
+ * Useful for logging or reporting in the middle of a pipeline.
+ *
+ * @param fn - Function called with the success value
+ * @returns A function that takes a Result and returns it unchanged
+ *
+ * @example
+ * ```typescript
+ * const result = tap((name: string) => consola.info(`Using ${name}`))(Ok("nuxt4"));
+ * // Logs "Using nuxt4", result is Ok("nuxt4")
+ * ```
+ */
+export const tap =
+  <T, E>(fn: (value: T) => unknown) =>
+  (result: Result<T, E>): Result<T, E> => {
+    if (isOk(result)) {
+      fn(result.data);
+    }
+    return result;
+  };
+
+/**
+ * Applies a side effect to the error value of a Result and returns the Result unchanged.
+ *
+ * @param fn - Function called with the error value
+ * @returns A function that takes a Result and returns it unchanged
+ *
+ * @example
+ * ```typescript
+ * const result = tapErr((error: Error) => consola.warn(error.message))(Err(new Error("offline")));
+ * // Logs "offline", result is Err(Error("offline"))
+ * ```
+ */
+export const tapErr =
+  <T, E>(fn: (error: E) => unknown) =>
+  (result: Result<T, E>): Result<T, E> => {
+    if (isErr(result)) {
+      fn(result.error);
+    }
+    return result;
+  };
+
+/**
+ * Handles both cases of a Result and returns the value of the matching handler.
+ * Both handlers are required, so every Result is handled exhaustively.
+ *
+ * @param handlers - The handlers of the success and the error value
+ * @returns A function that takes a Result and returns the value of the matching handler
+ *
+ * @example
+ * ```typescript
+ * const message = match({
+ *   ok: (count: number) => `${count} templates`,
+ *   err: (error: Error) => `Failed: ${error.message}`,
+ * })(result);
+ * ```
+ */
+export const match =
+  <T, E, A, B = A>(handlers: { readonly ok: (value: T) => A; readonly err: (error: E) => B }) =>
+  (result: Result<T, E>): A | B => {
+    return isOk(result) ? handlers.ok(result.data) : handlers.err(result.error);
+  };
+
+/**
+ * Collects an array of Results into a single Result.
+ * Returns the success values in order, or the first error.
+ *
+ * @param results - The Results to collect
+ * @returns A Result containing all success values, or the first error
+ *
+ * @example
+ * ```typescript
+ * combine([Ok(1), Ok(2)]); // Ok([1, 2])
+ * combine([Ok(1), Err("invalid"), Err("missing")]); // Err("invalid")
+ * ```
+ */
+export const combine = <T, E>(results: readonly Result<T, E>[]): Result<T[], E> => {
+  const values: T[] = [];
+  for (const result of results) {
+    if (isErr(result)) {
+      return result;
+    }
+    values.push(result.data);
+  }
+  return Ok(values);
+};
+
+/**
+ * Runs a function that may throw and returns its value as a Result.
+ *
+ * @param fn - The function to run
+ * @param onError - Function turning the thrown value into the error of the Result
+ * @returns A Result containing the return value, or the mapped error
+ *
+ * @example
+ * ```typescript
+ * const json = tryCatch(() => JSON.parse(text), toError("Invalid JSON"));
+ * ```
+ */
+export const tryCatch = <T, E>(fn: () => T, onError: (error: unknown) => E): Result<T, E> => {
+  try {
+    return Ok(fn());
+  } catch (error) {
+    return Err(onError(error));
+  }
+};
+
+/**
+ * Creates an error mapper for `tryCatch`, `tryCatchAsync` and `fromPromise`.
+ * Errors are kept as they are; other thrown values are replaced by an error with the fallback message.
+ *
+ * @param fallback - The message used when the thrown value is not an error
+ * @returns A function turning a thrown value into an Error
+ *
+ * @example
+ * ```typescript
+ * toError("Failed to cache template")(new Error("EACCES")); // Error("EACCES")
+ * toError("Failed to cache template")("EACCES"); // Error("Failed to cache template")
+ * ```
+ */
+export const toError =
+  (fallback: string) =>
+  (error: unknown): Error =>
+    error instanceof Error ? error : new Error(fallback);
+
+/**
+ * A Result that is not available yet.
+ * It can be awaited like a Promise of a Result, and its combinators can be chained without awaiting
+ * every step. Callbacks may return values or Promises; they should not throw, as a thrown error rejects
+ * the underlying Promise instead of producing an error Result (use `tryCatchAsync` inside `andThen`).
+ *
+ * @example
+ * ```typescript
+ * const result = await fromPromise(readFile(path, "utf8"), toError(`Failed to read ${path}`))
+ *   .andThen((text) => tryCatch(() => JSON.parse(text), toError("Invalid JSON")))
+ *   .tapErr((error) => consola.warn(error.message));
+ * ```
+ */
+export interface ResultAsync<T, E = Error> extends PromiseLike<Result<T, E>> {
+  /** Transforms the success value (see `map`) */
+  map<U>(fn: (value: T) => U | PromiseLike<U>): ResultAsync<U, E>;
+  /** Transforms the error value (see `mapErr`) */
+  mapErr<F>(fn: (error: E) => F | PromiseLike<F>): ResultAsync<T, F>;
+  /** Chains an operation that returns a Result or a ResultAsync (see `chain`) */
+  andThen<U, F = E>(fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>): ResultAsync<U, E | F>;
+  /** Recovers from an error with an operation that returns a Result or a ResultAsync */
+  orElse<U, F>(fn: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>): ResultAsync<T | U, F>;
+  /** Runs a side effect with the success value (see `tap`) */
+  tap(fn: (value: T) => unknown): ResultAsync<T, E>;
+  /** Runs a side effect with the error value (see `tapErr`) */
+  tapErr(fn: (error: E) => unknown): ResultAsync<T, E>;
+  /** Handles both cases and resolves to the value of the matching handler (see `match`) */
+  match<A, B = A>(handlers: {
+    readonly ok: (value: T) => A | PromiseLike<A>;
+    readonly err: (error: E) => B | PromiseLike<B>;
+  }): Promise<A | B>;
+}
+
+/**
+ * Wraps a Result, or a Promise of a Result, into a ResultAsync.
+ *
+ * @param result - The Result or the Promise resolving to it
+ * @returns The ResultAsync
+ *
+ * @example
+ * ```typescript
+ * const catalog = toResultAsync(fetchTemplateCatalog(registry)).map((catalog) => catalog.templates);
+ * ```
+ */
+export const toResultAsync = <T, E>(result: Result<T, E> | PromiseLike<Result<T, E>>): ResultAsync<T, E> => {
+  const promise = Promise.resolve(result);
+  const next = <U, F>(
+    onOk: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>,
+    onErr: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>,
+  ): ResultAsync<U, F> =>
+    toResultAsync(promise.then((resolved) => (isOk(resolved) ? onOk(resolved.data) : onErr(resolved.error))));
+
+  return {
+    // biome-ignore lint/suspicious/noThenProperty: ResultAsync is awaited like a Promise on purpose
+    then: (onFulfilled, onRejected) => promise.then(onFulfilled, onRejected),
+    map: <U>(fn: (value: T) => U | PromiseLike<U>) => next<U, E>(async (value) => Ok(await fn(value)), Err),
+    mapErr: <F>(fn: (error: E) => F | PromiseLike<F>) => next<T, F>(Ok, async (error) => Err(await fn(error))),
+    andThen: <U, F>(fn: (value: T) => Result<U, F> | PromiseLike<Result<U, F>>) => next<U, E | F>(fn, Err),
+    orElse: <U, F>(fn: (error: E) => Result<U, F> | PromiseLike<Result<U, F>>) => next<T | U, F>(Ok, fn),
+    tap: (fn) =>
+      next<T, E>(async (value) => {
+        await fn(value);
+        return Ok(value);
+      }, Err),
+    tapErr: (fn) =>
+      next<T, E>(Ok, async (error) => {
+        await fn(error);
+        return Err(error);
+      }),
+    match: async ({ ok, err }) => {
+      const resolved = await promise;
+      return isOk(resolved) ? ok(resolved.data) : err(resolved.error);
+    },
+  };
+};
+
+/**
+ * Creates a successful ResultAsync.
+ *
+ * @param data - The successful result data to wrap
+ * @returns A ResultAsync resolving to a Success
+ *
+ * @example
+ * ```typescript
+ * const result = await okAsync("cached"); // Ok("cached")
+ * ```
+ */
+export const okAsync = <T, E = never>(data: T): ResultAsync<T, E> => toResultAsync<T, E>(Ok(data));
+
+/**
+ * Creates a failed ResultAsync.
+ *
+ * @param error - The error information to wrap
+ * @returns A ResultAsync resolving to a Failure
+ *
+ * @example
+ * ```typescript
+ * const result = await errAsync(new Error("offline")); // Err(Error("offline"))
+ * ```
+ */
+export const errAsync = <T = never, E = Error>(error: E): ResultAsync<T, E> => toResultAsync<T, E>(Err(error));
+
+/**
+ * Turns a Promise into a ResultAsync: a fulfilled Promise becomes a success and a rejection becomes
+ * the error returned by `onError`.
+ *
+ * @param promise - The Promise to wrap
+ * @param onError - Function turning the rejection reason into the error of the Result
+ * @returns A ResultAsync resolving to the value or the mapped error
+ *
+ * @example
+ * ```typescript
+ * const result = await fromPromise(readFile(path, "utf8"), toError(`Failed to read ${path}`));
+ * ```
+ */
+export const fromPromise = <T, E>(promise: PromiseLike<T>, onError: (error: unknown) => E): ResultAsync<T, E> =>
+  toResultAsync(
+    Promise.resolve(promise).then(
+      (data) => Ok(data),
+      (error: unknown) => Err(onError(error)),
+    ),
+  );
+
+/**
+ * Runs an async function that may throw or reject and returns its value as a ResultAsync.
+ * Unlike `fromPromise`, errors thrown synchronously by the function are caught too.
+ *
+ * @param fn - The async function to run
+ * @param onError - Function turning the thrown value into the error of the Result
+ * @returns A ResultAsync resolving to the value or the mapped error
+ *
+ * @example
+ * ```typescript
+ * const result = await tryCatchAsync(async () => {
+ *   await mkdir(dir, { recursive: true });
+ *   await writeFile(join(dir, "meta.json"), json);
+ *   return dir;
+ * }, toError("Failed to cache template"));
+ * ```
+ */
+export const tryCatchAsync = <T, E>(fn: () => T | PromiseLike<T>, onError: (error: unknown) => E): ResultAsync<T, E> =>
+  fromPromise(new Promise<T>((resolve) => resolve(fn())), onError);
+
+/**
+ * Collects Results and ResultAsyncs into a single ResultAsync.
+ * Every operation runs concurrently; the ResultAsync resolves to the success values in order, or the first
+ * error in the order of the input.
+ *
+ * @param results - The Results, ResultAsyncs or Promises of Results to collect
+ * @returns A ResultAsync containing all success values, or the first error
+ *
+ * @example
+ * ```typescript
+ * const result = await all(registries.map((registry) => fetchTemplateCatalog(registry)));
+ * ```
+ */
+export const all = <T, E>(results: readonly (Result<T, E> | PromiseLike<Result<T, E>>)[]): ResultAsync<T[], E> =>
+  toResultAsync(Promise.all(results).then(combine));
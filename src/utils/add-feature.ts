@@ -0,0 +1,207 @@
+import { existsSync } from 'node:fs';
+import { cp, mkdir, rm } from 'node:fs/promises';
+import consola from 'consola';
+import { join } from 'pathe';
+import { readPackageJSON, writePackageJSON } from 'pkg-types';
+import type { DownloadFailedError } from '../types/api';
+import type {
+  AddFeatureReport,
+  DownloadedTemplate,
+  ResolvedRegistry,
+  ScaffoldMetadata,
+  TemplateFeatureDefinition,
+  TemplateFeaturePackageField,
+  TemplateVariableValue,
+} from '../types/cli';
+import type { RegistryConfig } from '../types/config';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { TEMPLATE_FEATURES_DIR } from './constants';
+import { createStagingDirectory, mergeDirectoryInto } from './directory';
+import { createInvalidArgumentError } from './errors';
+import { createRegistryFromConfig, getTemplateSourceProvider } from './registry';
+import { readScaffoldMetadata, writeScaffoldMetadata } from './scaffold';
+import { downloadTemplateWithResult } from './template';
+import { resolveFeatureDependencies } from './template-features';
+import { readTemplateManifest } from './template-manifest';
+import { renderTemplateDirectory, renderTemplateString } from './template-variables';
+
+/**
+ * Options used when adding a feature to a project.
+ */
+export interface AddFeatureOptions {
+  /** The registry to download registry templates from instead of the recorded one (e.g. from `--registry`) */
+  readonly registry?: ResolvedRegistry;
+  /** The named registries from the configuration file, used for the auth token of registry templates */
+  readonly registries?: Record<string, RegistryConfig>;
+  /** The CLI cache directory (optional) */
+  readonly cacheDir?: string;
+}
+
+/**
+ * Downloads the template a project was created from, at the recorded commit when there is one.
+ * Registry templates are downloaded from the given registry, or else from the recorded registry
+ * with the token of the configured registry of the same URL.
+ *
+ * @param template - The template section of the scaffold metadata
+ * @param dir - The directory to download the template to
+ * @param options - The registry, the configured registries and the cache directory
+ * @returns A Promise that resolves to a Result containing download info or a DownloadFailedError
+ */
+const downloadScaffoldTemplate = async (
+  template: ScaffoldMetadata['template'],
+  dir: string,
+  options: AddFeatureOptions,
+): Promise<Result<DownloadedTemplate, DownloadFailedError>> => {
+  const downloadOptions = { preferOffline: true, ...(template.commit && { ref: template.commit }) };
+  if (!template.registry || getTemplateSourceProvider(template.source)) {
+    return downloadTemplateWithResult(template.source, dir, undefined, downloadOptions, options.cacheDir);
+  }
+
+  const configured = Object.entries(options.registries ?? {}).find(([, config]) => config.url === template.registry);
+  const registry =
+    options.registry ?? (configured ? createRegistryFromConfig(...configured) : { url: template.registry });
+  return downloadTemplateWithResult(template.name, dir, registry, downloadOptions, options.cacheDir);
+};
+
+/**
+ * Merges the package.json fragments of features into the project with pkg-types.
+ * Values are rendered with the template variables like the rest of the project. Missing
+ * dependencies and scripts are added; entries that already exist with another value are kept
+ * and reported as conflicts.
+ *
+ * @param dir - The project directory
+ * @param fragments - The package.json fragments of the added features
+ * @param variables - The template variable values by name
+ * @returns A Promise that resolves to a Result containing whether package.json changed and the conflicts
+ */
+const mergePackageFragments = async (
+  dir: string,
+  fragments: NonNullable<TemplateFeatureDefinition['package']>[],
+  variables: Record<string, TemplateVariableValue>,
+): Promise<Result<{ changed: boolean; conflicts: string[] }, Error>> =>
+  tryCatchAsync(async () => {
+    const packageJsonPath = join(dir, 'package.json');
+    const pkg = existsSync(packageJsonPath) ? await readPackageJSON(packageJsonPath) : {};
+    const conflicts: string[] = [];
+    let changed = false;
+
+    for (const fragment of fragments) {
+      for (const [field, entries] of Object.entries(fragment) as [
+        TemplateFeaturePackageField,
+        Record<string, string>,
+      ][]) {
+        const current = (pkg[field] ?? {}) as Record<string, string>;
+        for (const [name, template] of Object.entries(entries)) {
+          const value = renderTemplateString(template, variables);
+          if (current[name] === undefined) {
+            current[name] = value;
+            changed = true;
+          } else if (current[name] !== value) {
+            conflicts.push(`package.json (${field}.${name})`);
+          }
+        }
+        pkg[field] = current;
+      }
+    }
+    if (changed) {
+      await writePackageJSON(packageJsonPath, pkg);
+    }
+    return { changed, conflicts };
+  }, toError('Failed to update package.json'));
+
+/**
+ * Adds a feature of the template (and the features it requires) to an existing project.
+ * The template is downloaded again (at the commit recorded in `.xeikit/scaffold.json`), the files
+ * of the features in `_features/<name>/` are rendered with the recorded variables and merged into
+ * the project, and their dependencies and scripts are merged into package.json. Existing files and
+ * package.json entries with other contents are kept and reported as conflicts. Paths a feature
+ * removes when the project is created are not removed from an existing project.
+ *
+ * @param projectDir - The project directory
+ * @param featureName - The name of the feature in the template manifest
+ * @param options - The registry, the configured registries and the cache directory
+ * @returns A Promise that resolves to a Result containing the report, or an error
+ *   (an InvalidArgumentError for unknown or already enabled features, a DownloadFailedError, ...)
+ *
+ * @example
+ * ```typescript
+ * const result = await addFeature("/Users/john/my-app", "docker");
+ * if (isOk(result)) {
+ *   console.log(result.data.added); // ["hono", "docker"]
+ * }
+ * ```
+ */
+export const addFeature = async (
+  projectDir: string,
+  featureName: string,
+  options: AddFeatureOptions = {},
+): Promise<Result<AddFeatureReport, Error>> => {
+  const metadata = await readScaffoldMetadata(projectDir);
+  if (!isOk(metadata)) {
+    return metadata;
+  }
+  const enabled = metadata.data.features;
+  if (enabled.includes(featureName)) {
+    return Err(createInvalidArgumentError(`The feature ${featureName} is already enabled`, 'feature'));
+  }
+
+  const stagingDir = await createStagingDirectory();
+  try {
+    const templateDir = join(stagingDir, 'template');
+    const downloaded = await downloadScaffoldTemplate(metadata.data.template, templateDir, options);
+    if (!isOk(downloaded)) {
+      return downloaded;
+    }
+    const manifest = await readTemplateManifest(templateDir);
+    if (!isOk(manifest)) {
+      return manifest;
+    }
+    const features = manifest.data?.features ?? {};
+    const selection = resolveFeatureDependencies(features, [...enabled, featureName]);
+    if (!isOk(selection)) {
+      return Err(createInvalidArgumentError(selection.error.message, 'feature'));
+    }
+
+    const added = selection.data.filter((name) => !enabled.includes(name));
+    const fragmentDir = join(stagingDir, 'fragment');
+    await mkdir(fragmentDir, { recursive: true });
+    for (const name of added) {
+      const featureDir = join(templateDir, TEMPLATE_FEATURES_DIR, name);
+      if (existsSync(featureDir)) {
+        await cp(featureDir, fragmentDir, { recursive: true, force: true });
+      }
+      const removed = features[name]?.remove ?? [];
+      if (removed.length > 0) {
+        consola.warn(`${name} replaces ${removed.join(', ')} in new projects; remove them by hand if they are unused.`);
+      }
+    }
+
+    const rendered = await renderTemplateDirectory(fragmentDir, metadata.data.variables);
+    if (!isOk(rendered)) {
+      return rendered;
+    }
+    const merged = await mergeDirectoryInto(fragmentDir, projectDir);
+    if (!isOk(merged)) {
+      return merged;
+    }
+    const fragments = added.flatMap((name) => features[name]?.package ?? []);
+    const packageJson = await mergePackageFragments(projectDir, fragments, metadata.data.variables);
+    if (!isOk(packageJson)) {
+      return packageJson;
+    }
+
+    const written = await writeScaffoldMetadata(projectDir, { ...metadata.data, features: selection.data });
+    if (!isOk(written)) {
+      return written;
+    }
+    return Ok({
+      added,
+      written: merged.data.written,
+      conflicts: [...merged.data.conflicts, ...packageJson.data.conflicts],
+      packageJsonChanged: packageJson.data.changed,
+    });
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+  }
+};
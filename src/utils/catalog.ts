@@ -0,0 +1,508 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { fileURLToPath } from 'node:url';
+import { dirname, isAbsolute, join } from 'pathe';
+import { version } from '../../package.json';
+import type {
+  CachedTemplateCatalog,
+  OfflineOptions,
+  ResolvedRegistry,
+  TemplateCatalog,
+  TemplateCatalogEntry,
+  TemplateOptions,
+} from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, fromPromise, isOk, Ok, toError, toResultAsync, tryCatch, tryCatchAsync } from '../types/result';
+import {
+  CATALOG_CACHE_TTL,
+  CATALOG_MANIFEST_NAME,
+  DEFAULT_REGISTRY,
+  PACKAGE_MANAGER_OPTIONS,
+  TEMPLATE_OPTIONS,
+} from './constants';
+import { resolveCacheDir } from './paths';
+import { DEFAULT_RESOLVED_REGISTRY, getTemplateSourceProvider } from './registry';
+
+/**
+ * Creates the URL of the catalog manifest for a registry.
+ * The manifest is published at the root of the registry, next to the template definitions.
+ *
+ * @param registry - The registry base URL or local path
+ * @returns The URL (or path) of the catalog manifest
+ *
+ * @example
+ * ```typescript
+ * const url = createCatalogUrl("https://example.com/templates/");
+ * // Returns: "https://example.com/templates/catalog.json"
+ * ```
+ */
+export const createCatalogUrl = (registry: string): string =>
+  `${registry.replace(/\/+$/, '')}/${CATALOG_MANIFEST_NAME}`;
+
+/**
+ * Time a registry may take to send a resource, in milliseconds.
+ */
+const REGISTRY_FETCH_TIMEOUT = 10_000;
+
+/**
+ * Reads a text resource from a registry.
+ * Supports HTTP(S) URLs as well as `file:` URLs and absolute paths, so a local
+ * directory can stand in for the registry (e.g. in tests or air-gapped environments).
+ * HTTP requests are aborted after 10 seconds, so that an unreachable registry fails
+ * (and the catalog falls back to the cache or the bundled catalog) instead of hanging.
+ *
+ * @param url - The URL or absolute path of the resource
+ * @param auth - Auth token sent as a bearer token with HTTP requests (optional)
+ * @returns A Promise that resolves to a Result containing the resource contents or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await readRegistryResource("file:///tmp/registry/catalog.json");
+ * if (isOk(result)) {
+ *   console.log(result.data);
+ * }
+ * ```
+ */
+export const readRegistryResource = async (url: string, auth?: string): Promise<Result<string, Error>> => {
+  const onError = toError(`Failed to read ${url}`);
+  if (url.startsWith('file:') || isAbsolute(url)) {
+    return tryCatchAsync(() => readFile(url.startsWith('file:') ? fileURLToPath(url) : url, 'utf8'), onError);
+  }
+
+  return tryCatchAsync(
+    () =>
+      fetch(url, {
+        signal: AbortSignal.timeout(REGISTRY_FETCH_TIMEOUT),
+        ...(auth && { headers: { Authorization: `Bearer ${auth}` } }),
+      }),
+    onError,
+  ).andThen((response) =>
+    response.ok
+      ? fromPromise(response.text(), onError)
+      : Err(new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`)),
+  );
+};
+
+/**
+ * Checks whether a value is a valid catalog entry.
+ * Entries require a name and a label; all other fields are optional but must have the right type.
+ *
+ * @param entry - The raw value to check
+ * @returns True if the value is a valid catalog entry
+ */
+const isTemplateCatalogEntry = (entry: unknown): entry is TemplateCatalogEntry => {
+  if (typeof entry !== 'object' || entry === null) {
+    return false;
+  }
+  const { name, label, description, tags, minCliVersion, source, versions, packageManagers, engines } = entry as Record<
+    string,
+    unknown
+  >;
+  return (
+    typeof name === 'string' &&
+    name !== '' &&
+    typeof label === 'string' &&
+    (description === undefined || typeof description === 'string') &&
+    (tags === undefined || (Array.isArray(tags) && tags.every((tag) => typeof tag === 'string'))) &&
+    (minCliVersion === undefined || typeof minCliVersion === 'string') &&
+    (source === undefined || (typeof source === 'string' && getTemplateSourceProvider(source) !== undefined)) &&
+    (versions === undefined || (Array.isArray(versions) && versions.every((version) => typeof version === 'string'))) &&
+    (packageManagers === undefined ||
+      (Array.isArray(packageManagers) &&
+        packageManagers.every((manager) => (PACKAGE_MANAGER_OPTIONS as unknown[]).includes(manager)))) &&
+    (engines === undefined ||
+      (typeof engines === 'object' &&
+        engines !== null &&
+        ['undefined', 'string'].includes(typeof (engines as Record<string, unknown>).node)))
+  );
+};
+
+/**
+ * Validates the raw contents of a catalog manifest.
+ * Invalid entries are reported as a whole rather than silently dropped,
+ * so a broken manifest falls back to the cache or the bundled catalog.
+ *
+ * @param raw - The parsed JSON contents of the manifest
+ * @returns A Result containing the validated catalog or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = parseTemplateCatalog({ templates: [{ name: "nuxt4", label: "Nuxt4 + Hono" }] });
+ * // Returns: Ok({ templates: [...] })
+ *
+ * const invalid = parseTemplateCatalog({ templates: "nuxt4" });
+ * // Returns: Err("Invalid template catalog: templates must be an array")
+ * ```
+ */
+export const parseTemplateCatalog = (raw: unknown): Result<TemplateCatalog, string> => {
+  if (typeof raw !== 'object' || raw === null || !Array.isArray((raw as TemplateCatalog).templates)) {
+    return Err('Invalid template catalog: templates must be an array');
+  }
+
+  const { templates } = raw as { templates: unknown[] };
+  const invalidIndex = templates.findIndex((entry) => !isTemplateCatalogEntry(entry));
+  if (invalidIndex !== -1) {
+    return Err(`Invalid template catalog: entry ${invalidIndex} is malformed`);
+  }
+
+  return Ok({ templates: templates as TemplateCatalogEntry[] });
+};
+
+/**
+ * Fetches and validates the catalog manifest from a registry.
+ *
+ * @param registry - The registry base URL or local path
+ * @param auth - Auth token for private registries (optional)
+ * @returns A Promise that resolves to a Result containing the catalog or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await fetchTemplateCatalog(DEFAULT_REGISTRY);
+ * if (isOk(result)) {
+ *   console.log(result.data.templates.map((template) => template.name));
+ * }
+ * ```
+ */
+export const fetchTemplateCatalog = async (registry: string, auth?: string): Promise<Result<TemplateCatalog, Error>> =>
+  toResultAsync(readRegistryResource(createCatalogUrl(registry), auth))
+    .andThen((resource) => tryCatch((): unknown => JSON.parse(resource), toError('Invalid template catalog')))
+    .andThen((value) => toResultAsync(parseTemplateCatalog(value)).mapErr((message) => new Error(message)));
+
+/**
+ * Creates the path of the on-disk catalog cache for a registry.
+ * Each registry gets its own cache file, keyed by a hash of the registry URL.
+ *
+ * @param registry - The registry base URL or local path
+ * @param cacheDir - The CLI cache directory (defaults to the per-user cache directory)
+ * @returns The absolute path of the cache file
+ *
+ * @example
+ * ```typescript
+ * const path = getCatalogCachePath(DEFAULT_REGISTRY, "/tmp/cache");
+ * // Returns: "/tmp/cache/catalog/3f2a...e1.json"
+ * ```
+ */
+export const getCatalogCachePath = (registry: string, cacheDir: string = resolveCacheDir()): string =>
+  join(cacheDir, 'catalog', `${createHash('sha256').update(registry).digest('hex').slice(0, 16)}.json`);
+
+/**
+ * Reads the cached catalog of a registry from disk.
+ *
+ * @param registry - The registry base URL or local path
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to the cache entry, or undefined if missing or unreadable
+ */
+export const readCachedCatalog = async (
+  registry: string,
+  cacheDir?: string,
+): Promise<CachedTemplateCatalog | undefined> => {
+  try {
+    const cached = JSON.parse(await readFile(getCatalogCachePath(registry, cacheDir), 'utf8'));
+    const catalogResult = parseTemplateCatalog(cached?.catalog);
+    if (!isOk(catalogResult) || typeof cached.fetchedAt !== 'number') {
+      return undefined;
+    }
+    return { registry, fetchedAt: cached.fetchedAt, catalog: catalogResult.data };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Writes a catalog to the on-disk cache.
+ * Cache failures are not fatal: the catalog is simply fetched again next time.
+ *
+ * @param registry - The registry base URL or local path
+ * @param catalog - The catalog to cache
+ * @param cacheDir - The CLI cache directory (optional)
+ * @param now - The current timestamp in milliseconds (defaults to Date.now())
+ */
+export const writeCachedCatalog = async (
+  registry: string,
+  catalog: TemplateCatalog,
+  cacheDir?: string,
+  now: number = Date.now(),
+): Promise<void> => {
+  const path = getCatalogCachePath(registry, cacheDir);
+  const entry: CachedTemplateCatalog = { registry, fetchedAt: now, catalog };
+  try {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(entry, null, 2));
+  } catch {
+    // Ignore cache write failures (e.g. read-only home directory)
+  }
+};
+
+/**
+ * Checks whether a cached catalog is still within its time-to-live.
+ *
+ * @param cached - The cache entry to check
+ * @param now - The current timestamp in milliseconds (defaults to Date.now())
+ * @param ttl - The time-to-live in milliseconds (defaults to CATALOG_CACHE_TTL)
+ * @returns True if the cache entry can be used without refetching
+ *
+ * @example
+ * ```typescript
+ * const fresh = isCatalogCacheFresh({ registry, fetchedAt: Date.now(), catalog });
+ * // Returns: true
+ * ```
+ */
+export const isCatalogCacheFresh = (
+  cached: CachedTemplateCatalog,
+  now: number = Date.now(),
+  ttl: number = CATALOG_CACHE_TTL,
+): boolean => now - cached.fetchedAt < ttl;
+
+/**
+ * Creates a catalog from the templates bundled with the CLI.
+ * Used when neither the registry nor the cache is available.
+ *
+ * @returns The bundled template catalog
+ *
+ * @example
+ * ```typescript
+ * const catalog = createBundledCatalog();
+ * // Returns: { templates: [{ name: "nuxt4", label: "Nuxt4 + Hono" }, ...] }
+ * ```
+ */
+export const createBundledCatalog = (): TemplateCatalog => ({
+  templates: TEMPLATE_OPTIONS.map(({ label, value }) => ({ name: value, label })),
+});
+
+/**
+ * Compares two semantic version strings by their numeric major, minor and patch parts.
+ * Pre-release and build suffixes are ignored.
+ *
+ * @param a - The first version
+ * @param b - The second version
+ * @returns A negative number if a < b, zero if equal, a positive number if a > b
+ *
+ * @example
+ * ```typescript
+ * compareVersions("1.2.4", "1.10.0"); // Returns: negative number
+ * compareVersions("v2.0.0", "2.0.0"); // Returns: 0
+ * ```
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const parse = (value: string) =>
+    value
+      .replace(/^v/, '')
+      .split(/[-+]/)[0]
+      ?.split('.')
+      .map((part) => Number.parseInt(part, 10) || 0) ?? [];
+  const [partsA, partsB] = [parse(a), parse(b)];
+  for (let index = 0; index < 3; index++) {
+    const difference = (partsA[index] ?? 0) - (partsB[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+};
+
+/**
+ * Checks whether a catalog entry can be scaffolded by this CLI version.
+ *
+ * @param entry - The catalog entry to check
+ * @param cliVersion - The running CLI version (defaults to the package version)
+ * @returns True if the entry has no minimum version or the CLI satisfies it
+ */
+export const isCompatibleWithCli = (entry: TemplateCatalogEntry, cliVersion: string = version): boolean =>
+  !entry.minCliVersion || compareVersions(cliVersion, entry.minCliVersion) >= 0;
+
+/**
+ * Keeps the catalog templates that can be scaffolded by this CLI version, for prompts and listings.
+ *
+ * @param catalog - The template catalog
+ * @returns The catalog without the templates requiring a newer CLI version
+ *
+ * @example
+ * ```typescript
+ * const catalog = filterCompatibleTemplates({ templates: [{ name: "next", label: "Next", minCliVersion: "99.0.0" }] });
+ * // Returns: { templates: [] }
+ * ```
+ */
+export const filterCompatibleTemplates = (catalog: TemplateCatalog): TemplateCatalog => ({
+  templates: catalog.templates.filter((entry) => isCompatibleWithCli(entry)),
+});
+
+/**
+ * Loads the template catalog for a registry using a cache-first strategy.
+ * A fresh on-disk cache is used as-is; otherwise the manifest is fetched and cached.
+ * When the registry is unreachable, a stale cache or the bundled catalog is used instead.
+ * Other registries have no bundled catalog and fall back to an empty one, which disables validation.
+ * With `offline` the network is never used; with `preferOffline` a stale cache is used before fetching.
+ * Templates requiring a newer CLI version are kept so that selecting them reports the required version
+ * (see validateTemplateAgainstCatalog); use filterCompatibleTemplates to offer the usable ones.
+ *
+ * @param registry - The registry to load the catalog from (defaults to the default registry)
+ * @param cacheDir - The CLI cache directory (optional)
+ * @param offlineOptions - Whether the network may be used (optional)
+ * @returns A Promise that resolves to the template catalog
+ *
+ * @example
+ * ```typescript
+ * const catalog = await loadTemplateCatalog();
+ * console.log(catalog.templates.map((template) => template.name));
+ * // ["nuxt4", "tanstack-start", "tanstack-start-x-hono"]
+ * ```
+ */
+export const loadTemplateCatalog = async (
+  registry: ResolvedRegistry = DEFAULT_RESOLVED_REGISTRY,
+  cacheDir?: string,
+  offlineOptions: OfflineOptions = {},
+): Promise<TemplateCatalog> => {
+  const cached = await readCachedCatalog(registry.url, cacheDir);
+  const fallback = (): TemplateCatalog =>
+    cached?.catalog ?? (registry.url === DEFAULT_REGISTRY ? createBundledCatalog() : { templates: [] });
+  let catalog: TemplateCatalog;
+
+  if (cached && (isCatalogCacheFresh(cached) || offlineOptions.preferOffline)) {
+    catalog = cached.catalog;
+  } else if (offlineOptions.offline) {
+    catalog = fallback();
+  } else {
+    const fetchResult = await fetchTemplateCatalog(registry.url, registry.auth);
+    if (isOk(fetchResult)) {
+      catalog = fetchResult.data;
+      await writeCachedCatalog(registry.url, catalog, cacheDir);
+    } else {
+      catalog = fallback();
+    }
+  }
+
+  return catalog;
+};
+
+/**
+ * Creates select options for the template prompt from a catalog.
+ *
+ * @param catalog - The template catalog
+ * @returns Array of template options with descriptions as hints
+ *
+ * @example
+ * ```typescript
+ * const options = createTemplateSelectOptions(createBundledCatalog());
+ * // Returns: [{ label: "Nuxt4 + Hono", value: "nuxt4", hint: undefined }, ...]
+ * ```
+ */
+export const createTemplateSelectOptions = (catalog: TemplateCatalog): TemplateOptions[] =>
+  catalog.templates.map(({ name, label, description }) => ({ label, value: name, hint: description }));
+
+/**
+ * Keeps the catalog templates that have every given tag.
+ * Tags are compared case-insensitively; without tags the catalog is returned as-is.
+ *
+ * @param catalog - The template catalog
+ * @param tags - The tags to filter by
+ * @returns The catalog with the matching templates only
+ *
+ * @example
+ * ```typescript
+ * const catalog = filterCatalogByTags(await loadTemplateCatalog(), ["hono"]);
+ * // Returns: { templates: [{ name: "nuxt4", tags: ["nuxt", "hono"], ... }, ...] }
+ * ```
+ */
+export const filterCatalogByTags = (catalog: TemplateCatalog, tags: string[]): TemplateCatalog => {
+  const wanted = tags.map((tag) => tag.toLowerCase());
+  return {
+    templates: catalog.templates.filter((entry) => {
+      const entryTags = (entry.tags ?? []).map((tag) => tag.toLowerCase());
+      return wanted.every((tag) => entryTags.includes(tag));
+    }),
+  };
+};
+
+/**
+ * Calculates the Levenshtein edit distance between two strings.
+ *
+ * @param a - The first string
+ * @param b - The second string
+ * @returns The minimum number of single-character edits to turn a into b
+ *
+ * @example
+ * ```typescript
+ * calculateEditDistance("nuxt", "nuxt4"); // Returns: 1
+ * ```
+ */
+export const calculateEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length] ?? 0;
+};
+
+/**
+ * Suggests the closest template name for a misspelled one.
+ * Only names within a small edit distance (or sharing a prefix) are suggested.
+ *
+ * @param templateName - The unknown template name
+ * @param catalog - The template catalog to search
+ * @returns The closest template name, or undefined if nothing is close enough
+ *
+ * @example
+ * ```typescript
+ * suggestTemplateName("nuxt", catalog); // Returns: "nuxt4"
+ * suggestTemplateName("angular", catalog); // Returns: undefined
+ * ```
+ */
+export const suggestTemplateName = (templateName: string, catalog: TemplateCatalog): string | undefined => {
+  const maxDistance = Math.max(2, Math.floor(templateName.length / 3));
+  const [closest] = catalog.templates
+    .map(({ name }) => ({ name, distance: calculateEditDistance(templateName, name) }))
+    .filter(({ name, distance }) => distance <= maxDistance || name.startsWith(templateName))
+    .sort((a, b) => a.distance - b.distance);
+  return closest?.name;
+};
+
+/**
+ * Validates a template name against the catalog.
+ * Unknown names produce an error message with a "did you mean" suggestion when possible, and
+ * templates requiring a newer CLI version an error message naming that version.
+ * An empty catalog (a registry without a manifest) accepts every name.
+ *
+ * @param templateName - The template name to validate
+ * @param catalog - The template catalog
+ * @returns A Result containing the template name or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateTemplateAgainstCatalog("nuxt4", catalog);
+ * // Returns: Ok("nuxt4")
+ *
+ * const invalid = validateTemplateAgainstCatalog("nuxt", catalog);
+ * // Returns: Err('Unknown template "nuxt". Did you mean "nuxt4"?')
+ *
+ * const tooNew = validateTemplateAgainstCatalog("next", { templates: [{ name: "next", label: "Next", minCliVersion: "2.0.0" }] });
+ * // Returns: Err('Template "next" requires create-xeikit-app >= 2.0.0 (current: 1.2.4). Update create-xeikit-app to use it.')
+ * ```
+ */
+export const validateTemplateAgainstCatalog = (
+  templateName: string,
+  catalog: TemplateCatalog,
+): Result<string, string> => {
+  const entry = catalog.templates.find(({ name }) => name === templateName);
+  if (entry && !isCompatibleWithCli(entry)) {
+    return Err(
+      `Template "${templateName}" requires create-xeikit-app >= ${entry.minCliVersion} (current: ${version}). Update create-xeikit-app to use it.`,
+    );
+  }
+  if (catalog.templates.length === 0 || entry) {
+    return Ok(templateName);
+  }
+
+  const compatible = filterCompatibleTemplates(catalog);
+  const suggestion = suggestTemplateName(templateName, compatible);
+  const available = compatible.templates.map(({ name }) => name).join(', ');
+  return Err(
+    suggestion
+      ? `Unknown template "${templateName}". Did you mean "${suggestion}"?`
+      : `Unknown template "${templateName}". Available templates: ${available}`,
+  );
+};
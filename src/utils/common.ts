@@ -1,5 +1,4 @@
-import { existsSync } from 'node:fs';
-import consola from 'consola';
+import { existsSync, readdirSync } from 'node:fs';
 import { colors } from 'consola/utils';
 import { relative, resolve } from 'pathe';
 import type { Result } from '../types/result';
@@ -23,6 +22,41 @@ export const createDirectoryExistsMessage = (path: string): string => {
   return `The directory ${colors.cyan(relativePath)} already exists. Please choose a different directory.`;
 };
 
+/**
+ * Creates a user-friendly error message when the project path is an existing file.
+ *
+ * @param path - The absolute path of the file
+ * @returns A formatted error message with colored path
+ *
+ * @example
+ * ```typescript
+ * const message = createPathIsFileMessage("/Users/john/projects/notes.txt");
+ * // Returns: "The path notes.txt is a file, not a directory. Please choose a different directory."
+ * ```
+ */
+export const createPathIsFileMessage = (path: string): string => {
+  const relativePath = relative(process.cwd(), path) || path;
+  return `The path ${colors.cyan(relativePath)} is a file, not a directory. Please choose a different directory.`;
+};
+
+/**
+ * Checks whether an error was thrown because a directory operation was applied to a file (`ENOTDIR`).
+ *
+ * @param error - The thrown error
+ * @returns True if the path is not a directory
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   isDirectoryEmpty("./notes.txt");
+ * } catch (error) {
+ *   isNotDirectoryError(error); // true
+ * }
+ * ```
+ */
+export const isNotDirectoryError = (error: unknown): boolean =>
+  error instanceof Error && (error as NodeJS.ErrnoException).code === 'ENOTDIR';
+
 /**
  * Checks if a directory exists at the specified path.
  * This is a pure function wrapper around Node.js's existsSync for better testability.
@@ -41,33 +75,35 @@ export const createDirectoryExistsMessage = (path: string): string => {
 export const checkDirectoryExists = (path: string): boolean => existsSync(path);
 
 /**
- * Handles application errors by logging them and exiting the process.
- * This function never returns (indicated by the 'never' return type).
- * Used as a centralized error handler throughout the application.
+ * Directory entries that do not count as content when checking whether a directory is empty.
+ * A freshly cloned or `git init`-ed directory can therefore be used as the project directory.
+ */
+const IGNORED_DIRECTORY_ENTRIES: readonly string[] = ['.git'];
+
+/**
+ * Checks if a directory is empty, ignoring a `.git` directory.
  *
- * @param error - The error to handle and log
- * @returns Never returns (exits the process)
+ * @param path - The path of an existing directory
+ * @returns True if the directory has no entries other than `.git`
+ * @throws An `ENOTDIR` error if the path is a file (see isNotDirectoryError)
  *
  * @example
  * ```typescript
- * try {
- *   riskyOperation();
- * } catch (error) {
- *   handleError(error); // Logs error and exits
- * }
+ * const empty = isDirectoryEmpty("./cloned-repo");
+ * // Returns: true if the directory only contains .git
  * ```
  */
-export const handleError = (error: Error): never => {
-  consola.error(error.toString());
-  process.exit(1);
-};
+export const isDirectoryEmpty = (path: string): boolean =>
+  readdirSync(path).every((entry) => IGNORED_DIRECTORY_ENTRIES.includes(entry));
 
 /**
  * Validates that a directory does not already exist at the specified path.
+ * Empty directories (or ones containing only `.git`) are accepted as well.
  * Returns a Result type to allow for functional error handling without side effects.
  *
  * @param path - The directory path to validate
  * @returns A Result containing the path if valid, or an error message if the directory exists
+ * @throws An `ENOTDIR` error if the path is a file (see isNotDirectoryError)
  *
  * @example
  * ```typescript
@@ -80,29 +116,7 @@ export const handleError = (error: Error): never => {
  * ```
  */
 export const validateDirectoryDoesNotExist = (path: string): Result<string, string> => {
-  return checkDirectoryExists(path) ? Err(createDirectoryExistsMessage(path)) : Ok(path);
-};
-
-/**
- * Verifies that a directory does not exist, exiting the process if it does.
- * This is a side-effect version of validateDirectoryDoesNotExist for backward compatibility.
- * Logs an error and exits if the directory already exists.
- *
- * @param path - The directory path to verify
- *
- * @example
- * ```typescript
- * verifyDirectoryDoesNotExist("./my-project");
- * // If directory exists: logs error and exits process
- * // If directory doesn't exist: continues execution
- * ```
- */
-export const verifyDirectoryDoesNotExist = (path: string): void => {
-  const result = validateDirectoryDoesNotExist(path);
-  if (!result.success) {
-    consola.error(result.error);
-    process.exit(1);
-  }
+  return checkDirectoryExists(path) && !isDirectoryEmpty(path) ? Err(createDirectoryExistsMessage(path)) : Ok(path);
 };
 
 /**
@@ -125,3 +139,20 @@ export const verifyDirectoryDoesNotExist = (path: string): void => {
 export const resolvePath = (cwd: string, dir: string): string => {
   return resolve(cwd, dir);
 };
+
+/**
+ * Formats a command and its arguments as a shell command line, for display.
+ * Arguments containing whitespace or shell metacharacters are single-quoted.
+ *
+ * @param command - The command to run
+ * @param args - The arguments of the command
+ * @returns The command line
+ *
+ * @example
+ * ```typescript
+ * const line = formatCommand("git", ["commit", "-m", "Initial commit"]);
+ * // Returns: "git commit -m 'Initial commit'"
+ * ```
+ */
+export const formatCommand = (command: string, args: readonly string[] = []): string =>
+  [command, ...args].map((arg) => (/^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replaceAll("'", `'\\''`)}'`)).join(' ');
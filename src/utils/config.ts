@@ -0,0 +1,370 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import type { PackageManagerName } from 'nypm';
+import { dirname, join } from 'pathe';
+import type { CliConfig, CliDefaultKey, CliDefaults, RegistryConfig } from '../types/config';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, toResultAsync, tryCatch, tryCatchAsync } from '../types/result';
+import {
+  CLI_DEFAULT_KEYS,
+  PACKAGE_MANAGER_OPTIONS,
+  PROJECT_CONFIG_FILE_NAME,
+  USER_CONFIG_FILE_NAME,
+} from './constants';
+import { parseGitAuthor } from './git';
+import { resolveConfigDir } from './paths';
+
+/**
+ * Creates the path of the user-level configuration file.
+ *
+ * @param env - The environment variables to read from (defaults to process.env)
+ * @returns The absolute path of the user configuration file
+ *
+ * @example
+ * ```typescript
+ * const path = getUserConfigPath({ XDG_CONFIG_HOME: "/tmp/config" });
+ * // Returns: "/tmp/config/create-xeikit-app/config.json"
+ * ```
+ */
+export const getUserConfigPath = (env: NodeJS.ProcessEnv = process.env): string =>
+  join(resolveConfigDir(env), USER_CONFIG_FILE_NAME);
+
+/**
+ * Creates the path of the project-level configuration file.
+ *
+ * @param cwd - The working directory the CLI runs in
+ * @returns The absolute path of the project configuration file
+ *
+ * @example
+ * ```typescript
+ * const path = getProjectConfigPath("/Users/john/work");
+ * // Returns: "/Users/john/work/.xeikitrc.json"
+ * ```
+ */
+export const getProjectConfigPath = (cwd: string): string => join(cwd, PROJECT_CONFIG_FILE_NAME);
+
+/**
+ * Checks whether a value is a valid registry configuration.
+ *
+ * @param registry - The raw value to check
+ * @returns True if the value is a valid registry configuration
+ */
+const isRegistryConfig = (registry: unknown): registry is RegistryConfig => {
+  if (typeof registry !== 'object' || registry === null) {
+    return false;
+  }
+  const { url, tokenEnv } = registry as Record<string, unknown>;
+  return typeof url === 'string' && url !== '' && (tokenEnv === undefined || typeof tokenEnv === 'string');
+};
+
+/**
+ * Checks whether a name is the name of a stored default.
+ *
+ * @param key - The name to check
+ * @returns True if the name is one of CLI_DEFAULT_KEYS
+ *
+ * @example
+ * ```typescript
+ * isCliDefaultKey("packageManager"); // true
+ * isCliDefaultKey("color"); // false
+ * ```
+ */
+export const isCliDefaultKey = (key: string): key is CliDefaultKey => CLI_DEFAULT_KEYS.includes(key as CliDefaultKey);
+
+/**
+ * Validates the value of a stored default.
+ *
+ * @param key - The name of the default
+ * @param value - The value to check
+ * @returns An error message, or undefined if the value is valid
+ */
+const validateCliDefault = (key: CliDefaultKey, value: unknown): string | undefined => {
+  switch (key) {
+    case 'install':
+    case 'gitInit':
+      return typeof value === 'boolean' ? undefined : `"${key}" must be true or false`;
+    case 'packageManager':
+      return PACKAGE_MANAGER_OPTIONS.includes(value as PackageManagerName)
+        ? undefined
+        : `"${key}" must be one of ${PACKAGE_MANAGER_OPTIONS.join(', ')}`;
+    case 'author':
+      return typeof value === 'string' && isOk(parseGitAuthor(value)) ? undefined : `"${key}" must be "Name <email>"`;
+    default:
+      return typeof value === 'string' && value.trim() !== '' ? undefined : `"${key}" must be a non-empty string`;
+  }
+};
+
+/**
+ * Validates the `defaults` section of a configuration file.
+ * Unknown keys are ignored like everywhere else in the configuration file.
+ *
+ * @param raw - The raw `defaults` value
+ * @returns A Result containing the valid defaults or an error message
+ */
+const validateCliDefaults = (raw: unknown): Result<CliDefaults, string> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return Err('"defaults" must be an object');
+  }
+
+  const entries = Object.entries(raw).filter(
+    (entry): entry is [CliDefaultKey, unknown] => isCliDefaultKey(entry[0]) && entry[1] !== undefined,
+  );
+  for (const [key, value] of entries) {
+    const error = validateCliDefault(key, value);
+    if (error) {
+      return Err(`Invalid default ${error}`);
+    }
+  }
+  return Ok(Object.fromEntries(entries) as CliDefaults);
+};
+
+/**
+ * Parses the value of a default given on the command line (`config set <key> <value>`).
+ * Booleans are written as `true` or `false`; every value is validated like in the configuration file.
+ *
+ * @param key - The name of the default
+ * @param input - The value as typed by the user
+ * @returns A Result containing the parsed value or an error message
+ *
+ * @example
+ * ```typescript
+ * parseCliDefaultValue("install", "false"); // Ok(false)
+ * parseCliDefaultValue("packageManager", "pnpm"); // Ok("pnpm")
+ * parseCliDefaultValue("packageManager", "pip"); // Err('"packageManager" must be one of npm, yarn, pnpm, bun, deno')
+ * ```
+ */
+export const parseCliDefaultValue = <K extends CliDefaultKey>(
+  key: K,
+  input: string,
+): Result<NonNullable<CliDefaults[K]>, string> => {
+  const trimmed = input.trim();
+  const value = key === 'install' || key === 'gitInit' ? { true: true, false: false }[trimmed] : trimmed;
+  const error = validateCliDefault(key, value);
+  return error ? Err(error) : Ok(value as NonNullable<CliDefaults[K]>);
+};
+
+/**
+ * Validates the raw contents of a configuration file.
+ * Unknown keys are ignored so that newer configuration files keep working with older CLI versions.
+ *
+ * @param raw - The parsed JSON contents of the configuration file
+ * @returns A Result containing the validated configuration or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateCliConfig({ registries: { internal: { url: "https://example.com" } } });
+ * // Returns: Ok({ registries: { internal: { url: "https://example.com" } } })
+ *
+ * const invalid = validateCliConfig({ registries: { internal: {} } });
+ * // Returns: Err('Invalid registry "internal": a "url" string is required')
+ * ```
+ */
+export const validateCliConfig = (raw: unknown): Result<CliConfig, string> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return Err('Configuration must be a JSON object');
+  }
+
+  const { defaults, registries } = raw as Record<string, unknown>;
+  const defaultsResult = defaults === undefined ? Ok(undefined) : validateCliDefaults(defaults);
+  if (!isOk(defaultsResult)) {
+    return defaultsResult;
+  }
+  const config: CliConfig = defaultsResult.data ? { defaults: defaultsResult.data } : {};
+  if (registries === undefined) {
+    return Ok(config);
+  }
+  if (typeof registries !== 'object' || registries === null || Array.isArray(registries)) {
+    return Err('"registries" must be an object');
+  }
+
+  const invalidName = Object.entries(registries).find(([, registry]) => !isRegistryConfig(registry))?.[0];
+  if (invalidName !== undefined) {
+    return Err(`Invalid registry "${invalidName}": a "url" string is required`);
+  }
+
+  return Ok({ ...config, registries: registries as Record<string, RegistryConfig> });
+};
+
+/**
+ * Reads the parsed JSON contents of a configuration file without validating them.
+ * A missing file results in an empty object.
+ *
+ * @param path - The path of the configuration file
+ * @returns A Promise that resolves to a Result containing the parsed contents, or the error of invalid JSON
+ */
+const readConfigObject = async (path: string): Promise<Result<unknown, Error>> => {
+  let contents: string;
+  try {
+    contents = await readFile(path, 'utf8');
+  } catch {
+    return Ok({});
+  }
+
+  return tryCatch(
+    (): unknown => JSON.parse(contents),
+    (error) => new Error(`${path}: ${error instanceof Error ? error.message : 'Invalid JSON'}`),
+  );
+};
+
+/**
+ * Reads and validates a configuration file.
+ * A missing file is not an error and results in an empty configuration.
+ *
+ * @param path - The path of the configuration file
+ * @returns A Promise that resolves to a Result containing the configuration or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await readConfigFile("/Users/john/.config/create-xeikit-app/config.json");
+ * if (isOk(result)) {
+ *   console.log(Object.keys(result.data.registries ?? {}));
+ * }
+ * ```
+ */
+export const readConfigFile = async (path: string): Promise<Result<CliConfig, Error>> =>
+  toResultAsync(readConfigObject(path)).andThen((raw) =>
+    toResultAsync(validateCliConfig(raw)).mapErr((message) => new Error(`${path}: ${message}`)),
+  );
+
+/**
+ * Changes the defaults stored in the user configuration file.
+ * The file is validated first so that an invalid file is never overwritten; other settings,
+ * including keys unknown to this version of the CLI, are kept as they are.
+ *
+ * @param update - Function returning the new defaults from the current ones
+ * @param env - The environment variables used to locate the user configuration (defaults to process.env)
+ * @returns A Promise that resolves to a Result containing the new defaults, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await updateUserConfigDefaults((defaults) => ({ ...defaults, packageManager: "pnpm" }));
+ * // ~/.config/create-xeikit-app/config.json now contains { "defaults": { "packageManager": "pnpm" } }
+ * ```
+ */
+export const updateUserConfigDefaults = async (
+  update: (defaults: CliDefaults) => CliDefaults,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<Result<CliDefaults, Error>> => {
+  const path = getUserConfigPath(env);
+  const raw = await readConfigObject(path);
+  if (!isOk(raw)) {
+    return raw;
+  }
+  const current = validateCliConfig(raw.data);
+  if (!isOk(current)) {
+    return Err(new Error(`${path}: ${current.error}`));
+  }
+
+  const { defaults: _, ...settings } = raw.data as Record<string, unknown>;
+  const defaults = update(current.data.defaults ?? {});
+  const contents = Object.keys(defaults).length > 0 ? { ...settings, defaults } : settings;
+  return tryCatchAsync(
+    async () => {
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(contents, null, 2)}\n`);
+      return defaults;
+    },
+    toError(`Failed to write ${path}`),
+  );
+};
+
+/**
+ * Merges the user and project configurations.
+ * Project values take precedence; defaults are merged by key and registries by name.
+ *
+ * @param userConfig - The user-level configuration
+ * @param projectConfig - The project-level configuration
+ * @returns The merged configuration
+ *
+ * @example
+ * ```typescript
+ * const config = mergeCliConfigs(
+ *   { registries: { a: { url: "https://a.example.com" } } },
+ *   { registries: { b: { url: "https://b.example.com" } } },
+ * );
+ * // Returns: { defaults: {}, registries: { a: {...}, b: {...} } }
+ * ```
+ */
+export const mergeCliConfigs = (userConfig: CliConfig, projectConfig: CliConfig): CliConfig => ({
+  ...userConfig,
+  ...projectConfig,
+  defaults: { ...userConfig.defaults, ...projectConfig.defaults },
+  registries: { ...userConfig.registries, ...projectConfig.registries },
+});
+
+/**
+ * Loads the merged user and project configuration.
+ *
+ * @param cwd - The working directory containing the project configuration file
+ * @param env - The environment variables used to locate the user configuration (defaults to process.env)
+ * @returns A Promise that resolves to a Result containing the merged configuration or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await loadCliConfig(process.cwd());
+ * if (isOk(result)) {
+ *   console.log(result.data.registries);
+ * }
+ * ```
+ */
+export const loadCliConfig = async (
+  cwd: string,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<Result<CliConfig, Error>> => {
+  const userResult = await readConfigFile(getUserConfigPath(env));
+  if (!isOk(userResult)) {
+    return userResult;
+  }
+
+  const projectResult = await readConfigFile(getProjectConfigPath(cwd));
+  if (!isOk(projectResult)) {
+    return projectResult;
+  }
+
+  return Ok(mergeCliConfigs(userResult.data, projectResult.data));
+};
+
+/**
+ * Command line arguments that can be given a default in the configuration file.
+ */
+interface ConfigurableArgs {
+  readonly template?: string;
+  readonly packageManager?: string;
+  readonly install?: boolean;
+  readonly gitInit?: boolean;
+  readonly registry?: string;
+  readonly gitAuthor?: string;
+}
+
+/**
+ * The argument each stored default applies to.
+ */
+const DEFAULT_ARG_NAMES: Record<CliDefaultKey, keyof ConfigurableArgs> = {
+  template: 'template',
+  packageManager: 'packageManager',
+  install: 'install',
+  gitInit: 'gitInit',
+  registry: 'registry',
+  author: 'gitAuthor',
+};
+
+/**
+ * Fills the arguments that were not given on the command line with the stored defaults.
+ * Empty strings count as not given, as citty leaves omitted string options empty.
+ *
+ * @param args - The command line arguments
+ * @param defaults - The defaults from the configuration files (optional)
+ * @returns The arguments with the defaults applied
+ *
+ * @example
+ * ```typescript
+ * const args = applyConfigDefaults({ template: "", install: false }, { template: "nuxt4", install: true });
+ * // Returns: { template: "nuxt4", install: false }
+ * ```
+ */
+export const applyConfigDefaults = <A extends ConfigurableArgs>(args: A, defaults: CliDefaults = {}): A => {
+  const applied = CLI_DEFAULT_KEYS.filter((key) => {
+    const arg = args[DEFAULT_ARG_NAMES[key]];
+    return defaults[key] !== undefined && (arg === undefined || arg === '');
+  }).map((key) => [DEFAULT_ARG_NAMES[key], defaults[key]]);
+  return { ...args, ...Object.fromEntries(applied) };
+};
@@ -1,4 +1,5 @@
 import type { TemplateOptions } from '../types/cli';
+import type { CliDefaultKey } from '../types/config';
 
 /**
  * Default registry URL for downloading project templates.
@@ -6,6 +7,90 @@ import type { TemplateOptions } from '../types/cli';
  */
 export const DEFAULT_REGISTRY = 'https://raw.githubusercontent.com/xeikit/starter-templates/main/templates' as const;
 
+/**
+ * File name of the user-level configuration file, stored in the per-user config directory.
+ */
+export const USER_CONFIG_FILE_NAME = 'config.json' as const;
+
+/**
+ * File name of the project-level configuration file, looked up in the working directory.
+ * Values from this file take precedence over the user-level configuration.
+ */
+export const PROJECT_CONFIG_FILE_NAME = '.xeikitrc.json' as const;
+
+/**
+ * Names of the defaults stored in the configuration file, in the order `config list` shows them.
+ */
+export const CLI_DEFAULT_KEYS: readonly CliDefaultKey[] = [
+  'template',
+  'packageManager',
+  'install',
+  'gitInit',
+  'registry',
+  'author',
+];
+
+/**
+ * giget providers accepted as a template prefix (`gh:org/repo/path#ref`), by prefix.
+ * Templates given with one of these prefixes are downloaded from the git host instead of a registry.
+ */
+export const TEMPLATE_SOURCE_PROVIDERS = {
+  gh: 'github',
+  github: 'github',
+  gitlab: 'gitlab',
+  bitbucket: 'bitbucket',
+  sourcehut: 'sourcehut',
+} as const;
+
+/**
+ * File name of the template catalog manifest, published at the root of the registry.
+ */
+export const CATALOG_MANIFEST_NAME = 'catalog.json' as const;
+
+/**
+ * Maximum number of README lines shown by the `info` subcommand.
+ */
+export const README_EXCERPT_MAX_LINES = 12;
+
+/**
+ * File name of the template manifest declaring template variables, read from the template root
+ * and removed from the new project after rendering.
+ */
+export const TEMPLATE_MANIFEST_NAME = 'xeikit.template.json' as const;
+
+/**
+ * Path of the metadata file recording the template of a new project, relative to the project root.
+ */
+export const SCAFFOLD_METADATA_PATH = '.xeikit/scaffold.json' as const;
+
+/**
+ * Directory of the template holding the files of optional features (`_features/<name>/`).
+ * It is removed from the new project after the selected features are applied.
+ */
+export const TEMPLATE_FEATURES_DIR = '_features' as const;
+
+/**
+ * Time-to-live of the on-disk template catalog cache in milliseconds (1 hour).
+ * A stale cache is still used as a fallback when the registry cannot be reached.
+ */
+export const CATALOG_CACHE_TTL = 60 * 60 * 1000;
+
+/**
+ * Default maximum age of cached templates kept by `cache prune`, in days.
+ */
+export const DEFAULT_CACHE_MAX_AGE_DAYS = 30;
+
+/**
+ * Version written to the `package.json` of a new project.
+ */
+export const INITIAL_PROJECT_VERSION = '0.0.0' as const;
+
+/**
+ * Fields of the template's `package.json` that describe the template itself
+ * and are removed from new projects.
+ */
+export const TEMPLATE_SPECIFIC_PACKAGE_FIELDS = ['repository', 'bugs', 'homepage'] as const;
+
 /**
  * Default template name used when no template is specified.
  * Falls back to the Nuxt4 template for new projects.
@@ -24,6 +109,19 @@ export const PACKAGE_MANAGERS = {
   deno: undefined,
 } as const;
 
+/**
+ * Lockfiles and configuration files that belong to each package manager.
+ * Files of other package managers are removed from new projects. `.npmrc` is not listed:
+ * every package manager reads registries and auth tokens from it, so it is always kept.
+ */
+export const PACKAGE_MANAGER_FILES: Record<keyof typeof PACKAGE_MANAGERS, readonly string[]> = {
+  npm: ['package-lock.json', 'npm-shrinkwrap.json'],
+  yarn: ['yarn.lock', '.yarnrc', '.yarnrc.yml', '.pnp.cjs', '.pnp.loader.mjs'],
+  pnpm: ['pnpm-lock.yaml', 'pnpm-workspace.yaml'],
+  bun: ['bun.lock', 'bun.lockb', 'bunfig.toml'],
+  deno: ['deno.lock'],
+};
+
 /**
  * Array of available package manager names.
  * Extracted from the PACKAGE_MANAGERS object keys for use in prompts and validation.
@@ -31,8 +129,39 @@ export const PACKAGE_MANAGERS = {
 export const PACKAGE_MANAGER_OPTIONS = Object.keys(PACKAGE_MANAGERS) as Array<keyof typeof PACKAGE_MANAGERS>;
 
 /**
- * Available project templates with user-friendly labels.
- * Each template option contains a display label and corresponding value for template selection.
+ * Answers used in non-interactive mode (`--yes` or CI) when an option is not given.
+ * The package manager falls back to the one running the CLI before using this value.
+ * The project directory has no default and must always be passed explicitly.
+ */
+export const NON_INTERACTIVE_DEFAULTS = {
+  template: DEFAULT_TEMPLATE_NAME,
+  packageManager: 'npm',
+  install: true,
+  gitInit: true,
+} as const;
+
+/**
+ * Exit codes of the CLI, by error code of the project creation workflow.
+ * Cancellation uses the conventional exit code of an interrupted process (128 + SIGINT).
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  FAILED: 1,
+  INVALID_ARGUMENT: 2,
+  DIRECTORY_EXISTS: 3,
+  DOWNLOAD_FAILED: 4,
+  INSTALL_FAILED: 5,
+  CANCELLED: 130,
+} as const;
+
+/**
+ * Message of the initial commit created with `--git-commit`.
+ */
+export const DEFAULT_GIT_COMMIT_MESSAGE = 'Initial commit';
+
+/**
+ * Bundled project templates with user-friendly labels.
+ * Used as the template catalog when the remote catalog cannot be fetched or cached.
  */
 export const TEMPLATE_OPTIONS = [
   { label: 'Nuxt4 + Hono', value: 'nuxt4' },
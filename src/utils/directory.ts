@@ -0,0 +1,345 @@
+import { copyFile, mkdir, mkdtemp, readdir, readFile, rename, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import { dirname, join, relative } from 'pathe';
+import type { ExistingDirectoryStrategy, MergeReport, TemplateOptions } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, fromPromise, isOk, Ok, toError, tryCatch, tryCatchAsync } from '../types/result';
+import {
+  createDirectoryExistsMessage,
+  createPathIsFileMessage,
+  isNotDirectoryError,
+  validateDirectoryDoesNotExist,
+} from './common';
+import { createCancelledError, createDirectoryExistsError, createInvalidArgumentError } from './errors';
+
+/**
+ * Flags controlling how an existing project directory is handled.
+ */
+export interface ExistingDirectoryFlags {
+  /** Back up (or, interactively, clear) the existing directory */
+  readonly force?: boolean;
+  /** Write the template into the existing directory, keeping conflicting files */
+  readonly merge?: boolean;
+}
+
+/**
+ * Value of the cancel option in the existing directory prompt.
+ */
+const CANCEL_OPTION = 'cancel';
+
+/**
+ * Choices offered when the project directory already exists.
+ */
+const EXISTING_DIRECTORY_OPTIONS: Record<ExistingDirectoryStrategy | typeof CANCEL_OPTION, TemplateOptions> = {
+  merge: { label: 'Merge', value: 'merge', hint: 'keep existing files and add the template files' },
+  backup: { label: 'Back up and replace', value: 'backup', hint: 'move the directory aside first' },
+  clear: { label: 'Clear and replace', value: 'clear', hint: 'delete the existing files' },
+  cancel: { label: 'Cancel', value: CANCEL_OPTION },
+};
+
+/**
+ * Validates that `--force` and `--merge` are not combined.
+ *
+ * @param flags - The existing directory flags
+ * @returns A Result containing the flags if valid, or an error message
+ *
+ * @example
+ * ```typescript
+ * const invalid = validateExistingDirectoryFlags({ force: true, merge: true });
+ * // Returns: Err("--force and --merge cannot be used together")
+ * ```
+ */
+export const validateExistingDirectoryFlags = (
+  flags: ExistingDirectoryFlags,
+): Result<ExistingDirectoryFlags, string> =>
+  flags.force && flags.merge ? Err('--force and --merge cannot be used together') : Ok(flags);
+
+/**
+ * Creates the select options for the existing directory prompt.
+ * With `--force` only the replacing strategies are offered.
+ *
+ * @param force - Whether `--force` was given
+ * @returns Array of options for the select prompt
+ *
+ * @example
+ * ```typescript
+ * const options = createExistingDirectoryOptions(true);
+ * // Returns: [backup, clear, cancel] options
+ * ```
+ */
+export const createExistingDirectoryOptions = (force = false): TemplateOptions[] => {
+  const { merge, backup, clear, cancel } = EXISTING_DIRECTORY_OPTIONS;
+  return force ? [backup, clear, cancel] : [merge, backup, clear, cancel];
+};
+
+/**
+ * Prompts the user to choose how to handle an existing project directory.
+ *
+ * @param path - The absolute path of the existing directory
+ * @param force - Whether `--force` was given (optional)
+ * @returns A Promise that resolves to a Result containing the chosen strategy or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await promptForExistingDirectory("/Users/john/my-app");
+ * if (isOk(result)) {
+ *   console.log(`Strategy: ${result.data}`);
+ * }
+ * ```
+ */
+export const promptForExistingDirectory = async (
+  path: string,
+  force = false,
+): Promise<Result<ExistingDirectoryStrategy, Error>> => {
+  try {
+    const relativePath = relative(process.cwd(), path) || path;
+    const choice = await consola.prompt(`The directory ${colors.cyan(relativePath)} is not empty. What should we do?`, {
+      type: 'select',
+      options: createExistingDirectoryOptions(force),
+      cancel: 'reject',
+    });
+    if (typeof choice !== 'string' || choice === CANCEL_OPTION) {
+      return Err(createCancelledError());
+    }
+    return Ok(choice as ExistingDirectoryStrategy);
+  } catch (error) {
+    return Err(error instanceof Error ? error : createCancelledError());
+  }
+};
+
+/**
+ * Determines how to handle the project directory.
+ * Missing and empty directories need no handling. Otherwise `--merge` merges, `--force`
+ * asks whether to back up or clear (backing up without prompts), and without flags the
+ * user is asked; in non-interactive mode an existing directory without flags is an error.
+ * A path that is a file is always an error, whatever the flags.
+ *
+ * @param path - The absolute path of the project directory
+ * @param flags - The `--force` and `--merge` flags
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing the strategy (undefined if none is needed) or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await resolveExistingDirectoryStrategy("/Users/john/my-app", { merge: true });
+ * // Returns: Ok("merge") if the directory exists and is not empty
+ * ```
+ */
+export const resolveExistingDirectoryStrategy = async (
+  path: string,
+  flags: ExistingDirectoryFlags,
+  nonInteractive = false,
+): Promise<Result<ExistingDirectoryStrategy | undefined, Error>> => {
+  const flagValidation = validateExistingDirectoryFlags(flags);
+  if (!isOk(flagValidation)) {
+    return Err(createInvalidArgumentError(flagValidation.error));
+  }
+
+  const directoryValidation = tryCatch(
+    () => validateDirectoryDoesNotExist(path),
+    (error): Error =>
+      isNotDirectoryError(error)
+        ? createDirectoryExistsError(path, createPathIsFileMessage(path))
+        : toError(`Failed to read ${path}`)(error),
+  );
+  if (!isOk(directoryValidation)) {
+    return directoryValidation;
+  }
+  if (isOk(directoryValidation.data)) {
+    return Ok(undefined);
+  }
+
+  if (flags.merge) {
+    return Ok('merge');
+  }
+  if (nonInteractive) {
+    return flags.force
+      ? Ok('backup')
+      : Err(
+          createDirectoryExistsError(
+            path,
+            `${createDirectoryExistsMessage(path)} Pass --force or --merge to use it anyway.`,
+          ),
+        );
+  }
+
+  return promptForExistingDirectory(path, flags.force);
+};
+
+/**
+ * Creates the path an existing directory is moved to when backing it up.
+ *
+ * @param path - The absolute path of the directory
+ * @param now - The current timestamp in milliseconds (defaults to Date.now())
+ * @returns The backup path next to the original directory
+ *
+ * @example
+ * ```typescript
+ * const backupPath = createBackupPath("/Users/john/my-app", 1700000000000);
+ * // Returns: "/Users/john/my-app.backup-1700000000000"
+ * ```
+ */
+export const createBackupPath = (path: string, now: number = Date.now()): string => `${path}.backup-${now}`;
+
+/**
+ * Moves an existing directory aside so the project can be created in its place.
+ *
+ * @param path - The absolute path of the directory
+ * @returns A Promise that resolves to a Result containing the backup path or an error
+ */
+export const backupDirectory = async (path: string): Promise<Result<string, Error>> => {
+  const backupPath = createBackupPath(path);
+  return fromPromise(rename(path, backupPath), toError('Failed to back up the directory')).map(() => backupPath);
+};
+
+/**
+ * Prepares the project directory for the chosen strategy.
+ * Both backing up and clearing move the directory aside so that a failed creation can restore it;
+ * for `clear` the moved directory is deleted once the project has been created.
+ * Merging needs no preparation.
+ *
+ * @param path - The absolute path of the project directory
+ * @param strategy - The strategy returned by resolveExistingDirectoryStrategy
+ * @returns A Promise that resolves to a Result containing the path the directory was moved to (if any) or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await prepareExistingDirectory("/Users/john/my-app", "backup");
+ * // Logs: "Moved the existing directory to my-app.backup-1700000000000."
+ * ```
+ */
+export const prepareExistingDirectory = async (
+  path: string,
+  strategy: ExistingDirectoryStrategy | undefined,
+): Promise<Result<string | undefined, Error>> => {
+  if (strategy !== 'backup' && strategy !== 'clear') {
+    return Ok(undefined);
+  }
+
+  const result = await backupDirectory(path);
+  if (isOk(result) && strategy === 'backup') {
+    const relativePath = relative(process.cwd(), result.data) || result.data;
+    consola.info(`Moved the existing directory to ${colors.cyan(relativePath)}.`);
+  }
+  return result;
+};
+
+/**
+ * Creates a temporary directory the template is downloaded to before merging.
+ *
+ * @returns A Promise that resolves to the absolute path of the new staging directory
+ */
+export const createStagingDirectory = (): Promise<string> => mkdtemp(join(tmpdir(), 'create-xeikit-app-'));
+
+/**
+ * Lists all files below a directory, recursively.
+ *
+ * @param root - The directory to list
+ * @param dir - The directory currently being listed (used for recursion)
+ * @returns A Promise that resolves to the file paths relative to root
+ *
+ * @example
+ * ```typescript
+ * const files = await listFiles("/Users/john/my-app");
+ * // Returns: ["package.json", "src/index.ts"]
+ * ```
+ */
+export const listFiles = async (root: string, dir: string = root): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(
+    entries.map((entry) =>
+      entry.isDirectory() ? listFiles(root, join(dir, entry.name)) : [relative(root, join(dir, entry.name))],
+    ),
+  );
+  return nested.flat();
+};
+
+/**
+ * Reads a file, returning undefined if it does not exist.
+ *
+ * @param path - The path of the file
+ * @returns A Promise that resolves to the file contents or undefined
+ *
+ * @example
+ * ```typescript
+ * const contents = await readFileIfExists("/Users/john/my-app/.env");
+ * // Returns: undefined when the file does not exist
+ * ```
+ */
+export const readFileIfExists = async (path: string): Promise<Buffer | undefined> => {
+  try {
+    return await readFile(path);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Merges the files of a source directory into a target directory.
+ * New files are copied; existing files with identical contents are left alone and
+ * existing files with different contents are kept and reported as conflicts.
+ *
+ * @param sourceDir - The directory containing the template files
+ * @param targetDir - The existing project directory
+ * @returns A Promise that resolves to a Result containing the merge report or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await mergeDirectoryInto("/tmp/staging", "/Users/john/my-app");
+ * if (isOk(result)) {
+ *   console.log(`Conflicts: ${result.data.conflicts.join(", ")}`);
+ * }
+ * ```
+ */
+export const mergeDirectoryInto = async (sourceDir: string, targetDir: string): Promise<Result<MergeReport, Error>> => {
+  const report: MergeReport = { written: [], conflicts: [] };
+  return tryCatchAsync(async () => {
+    for (const file of (await listFiles(sourceDir)).sort()) {
+      const sourcePath = join(sourceDir, file);
+      const targetPath = join(targetDir, file);
+      const existing = await readFileIfExists(targetPath);
+
+      if (existing === undefined) {
+        await mkdir(dirname(targetPath), { recursive: true });
+        await copyFile(sourcePath, targetPath);
+        report.written.push(file);
+      } else if (!existing.equals(await readFile(sourcePath))) {
+        report.conflicts.push(file);
+      }
+    }
+    return report;
+  }, toError('Failed to merge the template'));
+};
+
+/**
+ * Merges a downloaded template into the project directory, reports conflicts file by file
+ * and removes the staging directory.
+ *
+ * @param stagingDir - The directory the template was downloaded to
+ * @param targetDir - The existing project directory
+ * @returns A Promise that resolves to a Result containing the merge report or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await mergeTemplate("/tmp/staging", "/Users/john/my-app");
+ * // Logs a warning for every conflicting file
+ * ```
+ */
+export const mergeTemplate = async (stagingDir: string, targetDir: string): Promise<Result<MergeReport, Error>> => {
+  const result = await mergeDirectoryInto(stagingDir, targetDir);
+  await rm(stagingDir, { recursive: true, force: true });
+
+  if (!isOk(result)) {
+    return result;
+  }
+
+  for (const conflict of result.data.conflicts) {
+    consola.warn(`Kept existing ${colors.cyan(conflict)} (differs from the template).`);
+  }
+  consola.info(
+    `Merged ${result.data.written.length} file(s) into the existing directory, ${result.data.conflicts.length} conflict(s).`,
+  );
+  return result;
+};
@@ -0,0 +1,223 @@
+import type { PackageManagerName } from 'nypm';
+import type {
+  CancelledError,
+  DirectoryExistsError,
+  DownloadFailedError,
+  InstallFailedError,
+  InvalidArgumentError,
+  ProjectCreationError,
+  ProjectCreationErrorCode,
+  ProjectCreationStep,
+} from '../types/api';
+import { EXIT_CODES } from './constants';
+
+/**
+ * Steps whose untyped failures are caused by the answers given to the CLI.
+ * Untyped failures of the other steps fail with `FAILED`.
+ */
+const INVALID_ARGUMENT_STEPS: readonly ProjectCreationStep[] = ['config', 'directory', 'template'];
+
+/**
+ * Creates a workflow error with its code and details.
+ *
+ * @param message - The error message
+ * @param details - The code and the details of the error
+ * @param cause - The original error (optional)
+ * @returns The error
+ */
+const createError = <E extends ProjectCreationError>(
+  message: string,
+  details: Omit<E, keyof Error>,
+  cause?: unknown,
+): E => Object.assign(new Error(message, cause === undefined ? undefined : { cause }), details) as E;
+
+/**
+ * Returns the message of a thrown value.
+ *
+ * @param error - The thrown value
+ * @param fallback - The message used for values that are not errors
+ * @returns The message
+ */
+const getErrorMessage = (error: unknown, fallback: string): string =>
+  error instanceof Error && error.message ? error.message : fallback;
+
+/**
+ * Checks whether an error comes from a cancelled prompt.
+ * consola rejects cancelled prompts with a `ConsolaPromptCancelledError`.
+ *
+ * @param error - The error to check
+ * @returns True if the user cancelled
+ */
+const isCancellation = (error: Error): boolean => error.name === 'ConsolaPromptCancelledError';
+
+/**
+ * Creates the error of a cancelled prompt or of a user who chose to cancel.
+ *
+ * @param message - The error message (defaults to "Project creation cancelled")
+ * @returns The error
+ *
+ * @example
+ * ```typescript
+ * return Err(createCancelledError());
+ * ```
+ */
+export const createCancelledError = (message = 'Project creation cancelled'): CancelledError =>
+  createError<CancelledError>(message, { code: 'CANCELLED' });
+
+/**
+ * Creates the error of an invalid or missing option.
+ *
+ * @param message - The error message
+ * @param option - The option at fault (optional)
+ * @returns The error
+ *
+ * @example
+ * ```typescript
+ * return Err(createInvalidArgumentError(createMissingOptionMessage("dir"), "dir"));
+ * ```
+ */
+export const createInvalidArgumentError = (message: string, option?: string): InvalidArgumentError =>
+  createError<InvalidArgumentError>(message, { code: 'INVALID_ARGUMENT', ...(option && { option }) });
+
+/**
+ * Creates the error of a project directory that is not empty and may not be used.
+ *
+ * @param path - The absolute path of the project directory
+ * @param message - The error message
+ * @returns The error
+ *
+ * @example
+ * ```typescript
+ * return Err(createDirectoryExistsError(path, createDirectoryExistsMessage(path)));
+ * ```
+ */
+export const createDirectoryExistsError = (path: string, message: string): DirectoryExistsError =>
+  createError<DirectoryExistsError>(message, { code: 'DIRECTORY_EXISTS', path });
+
+/**
+ * Creates the error of a template that could not be downloaded.
+ *
+ * @param template - The name of the template
+ * @param cause - The error the download failed with
+ * @returns The error, with the message of the cause
+ *
+ * @example
+ * ```typescript
+ * return Err(createDownloadFailedError("nuxt4", error));
+ * ```
+ */
+export const createDownloadFailedError = (template: string, cause: unknown): DownloadFailedError =>
+  createError<DownloadFailedError>(
+    getErrorMessage(cause, 'Template download failed'),
+    { code: 'DOWNLOAD_FAILED', template },
+    cause,
+  );
+
+/**
+ * Creates the error of a failed dependency installation.
+ *
+ * @param packageManager - The package manager that failed
+ * @param cause - The error the installation failed with
+ * @returns The error, with the message of the cause
+ *
+ * @example
+ * ```typescript
+ * return Err(createInstallFailedError("pnpm", error));
+ * ```
+ */
+export const createInstallFailedError = (packageManager: PackageManagerName, cause: unknown): InstallFailedError =>
+  createError<InstallFailedError>(
+    getErrorMessage(cause, 'Dependencies installation failed'),
+    { code: 'INSTALL_FAILED', packageManager },
+    cause,
+  );
+
+/**
+ * Checks whether a value is a workflow error created by one of the error factories.
+ *
+ * @param error - The value to check
+ * @returns True if the value is a project creation error
+ *
+ * @example
+ * ```typescript
+ * isProjectCreationError(createCancelledError()); // true
+ * isProjectCreationError(new Error("boom")); // false
+ * ```
+ */
+export const isProjectCreationError = (error: unknown): error is ProjectCreationError =>
+  error instanceof Error &&
+  'code' in error &&
+  typeof error.code === 'string' &&
+  error.code !== 'SUCCESS' &&
+  error.code in EXIT_CODES;
+
+/**
+ * Turns an error thrown by the workflow into a project creation error.
+ * Typed errors keep their code; cancelled prompts become `CANCELLED`, and other errors become
+ * `INVALID_ARGUMENT` when they happen while resolving the answers, or `FAILED` otherwise.
+ *
+ * @param error - The thrown value
+ * @param step - The step that failed (optional)
+ * @returns The error, with its code and step
+ *
+ * @example
+ * ```typescript
+ * const error = createProjectCreationError(new Error("Invalid registry"), "config");
+ * // error.code === "INVALID_ARGUMENT", error.step === "config"
+ * ```
+ */
+export const createProjectCreationError = (error: unknown, step?: ProjectCreationStep): ProjectCreationError => {
+  const stepDetails = step && { step };
+  if (isProjectCreationError(error)) {
+    return error.step ? error : Object.assign(error, stepDetails);
+  }
+  if (error instanceof Error && isCancellation(error)) {
+    return Object.assign(createCancelledError(), stepDetails);
+  }
+
+  const message = getErrorMessage(error, 'Project creation workflow failed');
+  const typedError =
+    step && INVALID_ARGUMENT_STEPS.includes(step)
+      ? createInvalidArgumentError(message)
+      : createError<ProjectCreationError>(message, { code: 'FAILED' }, error);
+  return Object.assign(typedError, stepDetails);
+};
+
+/**
+ * Creates the message the CLI shows for a workflow error.
+ *
+ * @param error - The workflow error
+ * @returns The message
+ *
+ * @example
+ * ```typescript
+ * formatProjectCreationError(createInstallFailedError("pnpm", new Error("ERR_PNPM_FETCH_404")));
+ * // Returns: "Failed to install dependencies with pnpm: ERR_PNPM_FETCH_404"
+ * ```
+ */
+export const formatProjectCreationError = (error: ProjectCreationError): string => {
+  switch (error.code) {
+    case 'CANCELLED':
+      return 'Project creation cancelled.';
+    case 'DOWNLOAD_FAILED':
+      return `Failed to download the template ${error.template}: ${error.message}`;
+    case 'INSTALL_FAILED':
+      return `Failed to install dependencies with ${error.packageManager}: ${error.message}`;
+    default:
+      return error.message;
+  }
+};
+
+/**
+ * Returns the exit code of the CLI for an error code.
+ *
+ * @param code - The error code
+ * @returns The exit code (see EXIT_CODES)
+ *
+ * @example
+ * ```typescript
+ * const exitCode = getExitCode("INSTALL_FAILED");
+ * // Returns: 5
+ * ```
+ */
+export const getExitCode = (code: ProjectCreationErrorCode): number => EXIT_CODES[code];
@@ -1,7 +1,32 @@
+import { existsSync } from 'node:fs';
 import consola from 'consola';
+import { colors } from 'consola/utils';
+import { dirname, join, resolve } from 'pathe';
 import { x } from 'tinyexec';
+import type { GitOptions } from '../types/cli';
 import type { Result } from '../types/result';
-import { Err, isOk, Ok } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { formatCommand } from './common';
+import { DEFAULT_GIT_COMMIT_MESSAGE, NON_INTERACTIVE_DEFAULTS } from './constants';
+import { createCancelledError } from './errors';
+
+/**
+ * Interface describing the identity used for the initial commit.
+ */
+export interface GitAuthor {
+  readonly name: string;
+  readonly email: string;
+}
+
+/**
+ * Pattern of a git author in the form "Name <email>".
+ */
+const GIT_AUTHOR_PATTERN = /^\s*([^<>]+?)\s*<([^<>\s]+@[^<>\s]+)>\s*$/;
+
+/**
+ * Characters and sequences git does not allow in branch names (see git-check-ref-format).
+ */
+const INVALID_BRANCH_NAME_PATTERN = /[\s~^:?*[\\]|\.\.|@\{|\/\/|^[-/.]|\/\.|[/.]$|\.lock$|\.lock\//;
 
 /**
  * Validates a git initialization parameter to ensure it's not undefined.
@@ -51,16 +76,18 @@ export const promptForGitInitialization = async (): Promise<Result<boolean, Erro
     });
     return Ok(result as boolean);
   } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Git initialization prompt cancelled'));
+    return Err(error instanceof Error ? error : createCancelledError('Git initialization prompt cancelled'));
   }
 };
 
 /**
  * Determines whether to initialize a git repository using a fallback chain.
- * First validates the provided parameter. If undefined, prompts the user for their preference.
+ * First validates the provided parameter. If undefined, prompts the user for their preference,
+ * or falls back to the non-interactive default when prompts are disabled.
  * This ensures the application can handle both programmatic and interactive scenarios.
  *
  * @param shouldInitParam - The git initialization preference (optional)
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
  * @returns A Promise that resolves to a Result containing the decision or an error
  *
  * @example
@@ -74,30 +101,187 @@ export const promptForGitInitialization = async (): Promise<Result<boolean, Erro
  * // Returns: user's choice from prompt
  * ```
  */
-export const determineGitInitialization = async (shouldInitParam?: boolean): Promise<Result<boolean, Error>> => {
+export const determineGitInitialization = async (
+  shouldInitParam?: boolean,
+  nonInteractive = false,
+): Promise<Result<boolean, Error>> => {
   const paramValidation = validateGitInitParam(shouldInitParam);
 
   if (isOk(paramValidation)) {
     return Ok(paramValidation.data);
   }
 
+  if (nonInteractive) {
+    return Ok(NON_INTERACTIVE_DEFAULTS.gitInit);
+  }
+
   return await promptForGitInitialization();
 };
 
+/**
+ * Validates a branch name against the git ref naming rules.
+ *
+ * @param branch - The branch name to validate
+ * @returns A Result containing the branch name if valid, or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateGitBranchName("main");
+ * // Returns: Ok("main")
+ *
+ * const invalid = validateGitBranchName("my branch");
+ * // Returns: Err('Invalid git branch name: "my branch"')
+ * ```
+ */
+export const validateGitBranchName = (branch: string): Result<string, string> => {
+  if (branch === '' || branch === '@' || INVALID_BRANCH_NAME_PATTERN.test(branch)) {
+    return Err(`Invalid git branch name: "${branch}"`);
+  }
+  return Ok(branch);
+};
+
+/**
+ * Parses a git author given in the form "Name <email>".
+ *
+ * @param author - The author to parse
+ * @returns A Result containing the author name and email, or an error message
+ *
+ * @example
+ * ```typescript
+ * const author = parseGitAuthor("Jane Doe <jane@example.com>");
+ * // Returns: Ok({ name: "Jane Doe", email: "jane@example.com" })
+ * ```
+ */
+export const parseGitAuthor = (author: string): Result<GitAuthor, string> => {
+  const match = author.match(GIT_AUTHOR_PATTERN);
+  if (!match?.[1] || !match[2]) {
+    return Err(`Invalid git author: "${author}" (expected "Name <email>")`);
+  }
+  return Ok({ name: match[1], email: match[2] });
+};
+
+/**
+ * Validates the git options given on the command line.
+ *
+ * @param options - The git options to validate
+ * @returns A Result containing the options if valid, or an error message
+ *
+ * @example
+ * ```typescript
+ * const result = validateGitOptions({ commit: true, branch: "main" });
+ * // Returns: Ok({ commit: true, branch: "main" })
+ * ```
+ */
+export const validateGitOptions = (options: GitOptions): Result<GitOptions, string> => {
+  if (options.branch) {
+    const branchValidation = validateGitBranchName(options.branch);
+    if (!isOk(branchValidation)) {
+      return branchValidation;
+    }
+  }
+  if (options.author) {
+    const authorValidation = parseGitAuthor(options.author);
+    if (!isOk(authorValidation)) {
+      return authorValidation;
+    }
+  }
+  return Ok(options);
+};
+
+/**
+ * Finds the git work tree containing a directory.
+ * Walks up from the directory itself and returns the first directory with a `.git` entry.
+ *
+ * @param dir - The directory to start from
+ * @returns The root of the containing work tree, or undefined if the directory is not inside one
+ *
+ * @example
+ * ```typescript
+ * const root = findGitWorkTree("/Users/john/monorepo/apps/web");
+ * // Returns: "/Users/john/monorepo"
+ * ```
+ */
+export const findGitWorkTree = (dir: string): string | undefined => {
+  let current = resolve(dir);
+  for (;;) {
+    if (existsSync(join(current, '.git'))) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return undefined;
+    }
+    current = parent;
+  }
+};
+
+/**
+ * Prompts the user to confirm creating a repository inside another git work tree.
+ *
+ * @param parentWorkTree - The root of the parent work tree
+ * @returns A Promise that resolves to a Result containing the user's decision or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await promptForNestedRepository("/Users/john/monorepo");
+ * ```
+ */
+export const promptForNestedRepository = async (parentWorkTree: string): Promise<Result<boolean, Error>> => {
+  try {
+    const result = await consola.prompt(
+      `The project is inside the git repository at ${parentWorkTree}. Create a nested repository anyway?`,
+      {
+        type: 'confirm',
+        initial: false,
+        cancel: 'reject',
+      },
+    );
+    return Ok(result as boolean);
+  } catch (error) {
+    return Err(error instanceof Error ? error : createCancelledError('Nested repository prompt cancelled'));
+  }
+};
+
 /**
  * Creates command line arguments for git init command.
  * This pure function generates the argument array needed to initialize a git repository.
  *
  * @param dir - The directory where the git repository should be initialized
+ * @param branch - The name of the initial branch (optional)
  * @returns Array of command line arguments for git init
  *
  * @example
  * ```typescript
  * const args = createGitInitArgs("./my-project");
  * // Returns: ["init", "./my-project"]
+ *
+ * const withBranch = createGitInitArgs("./my-project", "main");
+ * // Returns: ["init", "--initial-branch=main", "./my-project"]
+ * ```
+ */
+export const createGitInitArgs = (dir: string, branch?: string): string[] =>
+  branch ? ['init', `--initial-branch=${branch}`, dir] : ['init', dir];
+
+/**
+ * Creates command line arguments for the initial git commit.
+ * An author is passed as configuration so that the commit also works without a global git identity.
+ *
+ * @param message - The commit message
+ * @param author - The author of the commit (optional)
+ * @returns Array of command line arguments for git commit
+ *
+ * @example
+ * ```typescript
+ * const args = createGitCommitArgs("Initial commit", { name: "Jane", email: "jane@example.com" });
+ * // Returns: ["-c", "user.name=Jane", "-c", "user.email=jane@example.com", "commit", "-m", "Initial commit"]
  * ```
  */
-export const createGitInitArgs = (dir: string): string[] => ['init', dir];
+export const createGitCommitArgs = (message: string, author?: GitAuthor): string[] => [
+  ...(author ? ['-c', `user.name=${author.name}`, '-c', `user.email=${author.email}`] : []),
+  'commit',
+  '-m',
+  message,
+];
 
 /**
  * Executes the git initialization command in the specified directory.
@@ -105,6 +289,8 @@ export const createGitInitArgs = (dir: string): string[] => ['init', dir];
  * Returns a Result type to allow for functional error handling.
  *
  * @param dir - The directory where the git repository should be initialized
+ * @param branch - The name of the initial branch (optional)
+ * @param silent - Whether the output of git is hidden (defaults to false)
  * @returns A Promise that resolves to a Result indicating success or failure
  *
  * @example
@@ -117,57 +303,183 @@ export const createGitInitArgs = (dir: string): string[] => ['init', dir];
  * }
  * ```
  */
-export const executeGitInit = async (dir: string): Promise<Result<void, Error>> => {
-  try {
-    await x('git', createGitInitArgs(dir), {
-      throwOnError: true,
-      nodeOptions: { stdio: 'inherit' },
-    });
-    return Ok(undefined);
-  } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Git initialization failed'));
+export const executeGitInit = async (dir: string, branch?: string, silent = false): Promise<Result<void, Error>> =>
+  tryCatchAsync(
+    () =>
+      x('git', createGitInitArgs(dir, branch), {
+        throwOnError: true,
+        nodeOptions: { stdio: silent ? 'pipe' : 'inherit' },
+      }),
+    toError('Git initialization failed'),
+  ).map(() => undefined);
+
+/**
+ * Stages all files and creates the initial commit of a new repository.
+ *
+ * @param dir - The root directory of the repository
+ * @param message - The commit message
+ * @param author - The author of the commit (optional, defaults to the git configuration)
+ * @returns A Promise that resolves to a Result indicating success or failure
+ *
+ * @example
+ * ```typescript
+ * const result = await executeGitCommit("./my-project", "Initial commit");
+ * ```
+ */
+export const executeGitCommit = async (
+  dir: string,
+  message: string,
+  author?: GitAuthor,
+): Promise<Result<void, Error>> =>
+  tryCatchAsync(async () => {
+    await x('git', ['add', '-A'], { throwOnError: true, nodeOptions: { cwd: dir } });
+    await x('git', createGitCommitArgs(message, author), { throwOnError: true, nodeOptions: { cwd: dir } });
+  }, toError('Git commit failed'));
+
+/**
+ * Decides whether a repository should be created inside an existing git work tree.
+ * Asks the user; without prompts, a nested repository is only created when `--git-init` was passed explicitly.
+ *
+ * @param parentWorkTree - The root of the parent work tree
+ * @param shouldInitParam - The git initialization preference given on the command line
+ * @param nonInteractive - Whether prompts are disabled
+ * @returns A Promise that resolves to a Result containing whether the nested repository should be created
+ */
+const confirmNestedRepository = async (
+  parentWorkTree: string,
+  shouldInitParam: boolean | undefined,
+  nonInteractive: boolean,
+): Promise<Result<boolean, Error>> => {
+  if (!nonInteractive) {
+    return promptForNestedRepository(parentWorkTree);
+  }
+
+  if (shouldInitParam !== true) {
+    consola.warn(
+      `Skipping git initialization: the project is inside the git repository at ${colors.cyan(parentWorkTree)}. Pass --git-init to create a nested repository.`,
+    );
   }
+  return Ok(shouldInitParam === true);
 };
 
 /**
- * Conditionally initializes a git repository based on user preference.
- * This function handles the complete git initialization workflow, including user prompts,
- * command execution, and error reporting. If initialization fails, it logs a warning
- * but doesn't stop the application flow.
+ * Decides whether a git repository should be created in the project directory.
+ * Asks the user (or uses `--git-init` / the non-interactive default); directories that already are
+ * a repository are left alone and creating a repository inside another work tree needs confirmation.
  *
  * @param shouldInitParam - Whether git should be initialized (undefined means prompt user)
  * @param dir - The directory where the git repository should be initialized
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing whether a repository should be created, or an error
  *
  * @example
  * ```typescript
- * // Initialize git repository
- * await initializeGitIfRequested(true, "./my-project");
+ * const result = await resolveGitInitialization(undefined, "./packages/web", true);
+ * // Returns: Ok(false) inside an existing work tree, as --git-init was not passed
+ * ```
+ */
+export const resolveGitInitialization = async (
+  shouldInitParam: boolean | undefined,
+  dir: string,
+  nonInteractive = false,
+): Promise<Result<boolean, Error>> => {
+  const shouldInitResult = await determineGitInitialization(shouldInitParam, nonInteractive);
+
+  if (!isOk(shouldInitResult) || !shouldInitResult.data) {
+    return shouldInitResult;
+  }
+
+  const workTree = findGitWorkTree(dir);
+  if (workTree === resolve(dir)) {
+    consola.info('The project directory is already a git repository, skipping git initialization.');
+    return Ok(false);
+  }
+  return workTree ? confirmNestedRepository(workTree, shouldInitParam, nonInteractive) : Ok(true);
+};
+
+/**
+ * Creates the git commands run for a new repository, for display.
  *
- * // Skip git initialization
- * await initializeGitIfRequested(false, "./my-project");
+ * @param dir - The directory where the git repository would be initialized
+ * @param options - The initial branch and commit options (optional)
+ * @returns The git command lines, in the order they would run
  *
- * // Prompt user for decision
- * await initializeGitIfRequested(undefined, "./my-project");
+ * @example
+ * ```typescript
+ * const commands = createGitCommands("my-app", { branch: "main", commit: true });
+ * // Returns: ["git init --initial-branch=main my-app", "git add -A", "git commit -m 'Initial commit'"]
  * ```
  */
-export const initializeGitIfRequested = async (shouldInitParam: boolean | undefined, dir: string): Promise<void> => {
-  const shouldInitResult = await determineGitInitialization(shouldInitParam);
-
-  if (!isOk(shouldInitResult)) {
-    // Handle prompt cancellation - exit for backward compatibility
-    process.exit(1);
+export const createGitCommands = (dir: string, options: GitOptions = {}): string[] => {
+  const init = formatCommand('git', createGitInitArgs(dir, options.branch));
+  if (!options.commit) {
+    return [init];
   }
 
-  if (!shouldInitResult.data) {
-    // User chose not to initialize git
-    return;
+  const author = options.author ? parseGitAuthor(options.author) : undefined;
+  const commitArgs = createGitCommitArgs(
+    options.commitMessage || DEFAULT_GIT_COMMIT_MESSAGE,
+    author && isOk(author) ? author.data : undefined,
+  );
+  return [init, formatCommand('git', ['add', '-A']), formatCommand('git', commitArgs)];
+};
+
+/**
+ * Initializes a git repository based on user preference.
+ * This function handles the complete git initialization workflow, including user prompts,
+ * command execution, and error reporting. If initialization or the initial commit fails,
+ * it logs a warning but doesn't stop the application flow; only a cancelled prompt is an error.
+ * Directories that are already repositories are left alone, and creating a repository inside
+ * another work tree needs confirmation. The options select the initial branch and create
+ * an initial commit.
+ *
+ * @param shouldInitParam - Whether git should be initialized (undefined means prompt user)
+ * @param dir - The directory where the git repository should be initialized
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @param options - The initial branch and commit options (optional)
+ * @returns A Promise that resolves to a Result containing whether a repository was created, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await initializeGit(true, "./my-project", true, { branch: "main", commit: true });
+ * // Returns: Ok(true) once "git init" has run
+ * ```
+ */
+export const initializeGit = async (
+  shouldInitParam: boolean | undefined,
+  dir: string,
+  nonInteractive = false,
+  options: GitOptions = {},
+): Promise<Result<boolean, Error>> => {
+  const shouldInitResult = await resolveGitInitialization(shouldInitParam, dir, nonInteractive);
+
+  if (!isOk(shouldInitResult) || !shouldInitResult.data) {
+    return shouldInitResult;
   }
 
   consola.info('Initializing git repository...\n');
 
-  const gitInitResult = await executeGitInit(dir);
+  const gitInitResult = await executeGitInit(dir, options.branch, options.silent);
 
   if (!isOk(gitInitResult)) {
     consola.warn(`Failed to initialize git repository: ${gitInitResult.error.message}`);
+    return Ok(false);
+  }
+
+  if (!options.commit) {
+    return Ok(true);
+  }
+
+  const author = options.author ? parseGitAuthor(options.author) : undefined;
+  const message = options.commitMessage || DEFAULT_GIT_COMMIT_MESSAGE;
+  const commitResult = await executeGitCommit(dir, message, author && isOk(author) ? author.data : undefined);
+
+  if (isOk(commitResult)) {
+    consola.success(`Created the initial commit "${message}".`);
+  } else {
+    consola.warn(
+      `Failed to create the initial commit: ${commitResult.error.message}. Configure user.name and user.email or pass --git-author.`,
+    );
   }
+  return Ok(true);
 };
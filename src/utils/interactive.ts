@@ -0,0 +1,51 @@
+import { hasTTY, isCI } from 'std-env';
+
+/**
+ * Checks whether the current environment can display interactive prompts.
+ * Prompts require a TTY and are never shown on CI, where nobody can answer them.
+ *
+ * @returns True if prompts can be shown, false otherwise
+ *
+ * @example
+ * ```typescript
+ * if (!isInteractiveEnvironment()) {
+ *   console.log("Running without prompts");
+ * }
+ * ```
+ */
+export const isInteractiveEnvironment = (): boolean => hasTTY && !isCI;
+
+/**
+ * Determines whether the creation workflow should run without any prompts.
+ * Non-interactive mode is enabled explicitly with `--yes` / `--defaults`,
+ * or automatically when running on CI or without a TTY.
+ *
+ * @param yes - The value of the `--yes` flag (optional)
+ * @returns True if every missing answer must be resolved without prompting
+ *
+ * @example
+ * ```typescript
+ * const nonInteractive = resolveNonInteractiveMode(true);
+ * // Returns: true
+ *
+ * // In a terminal, outside of CI
+ * const interactive = resolveNonInteractiveMode(undefined);
+ * // Returns: false
+ * ```
+ */
+export const resolveNonInteractiveMode = (yes?: boolean): boolean => yes === true || !isInteractiveEnvironment();
+
+/**
+ * Creates the error message shown when a required option is missing in non-interactive mode.
+ *
+ * @param option - The name of the missing command line option (without dashes)
+ * @returns A formatted error message pointing the user to the missing option
+ *
+ * @example
+ * ```typescript
+ * const message = createMissingOptionMessage("dir");
+ * // Returns: "Missing required option dir. Pass it explicitly when running without prompts (--yes or CI)."
+ * ```
+ */
+export const createMissingOptionMessage = (option: string): string =>
+  `Missing required option ${option}. Pass it explicitly when running without prompts (--yes or CI).`;
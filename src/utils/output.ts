@@ -0,0 +1,113 @@
+import consola from 'consola';
+import { stripAnsi } from 'consola/utils';
+import type {
+  ProjectCreationError,
+  ProjectCreationPlan,
+  ProjectCreationReport,
+  ProjectCreationResult,
+} from '../types/api';
+import type { Result } from '../types/result';
+import { isOk } from '../types/result';
+import { EXIT_CODES } from './constants';
+import { formatProjectCreationError, getExitCode } from './errors';
+
+/**
+ * Replaces the log output with a collector for warnings, for `--json`.
+ * Every other log is dropped so that stdout only contains the JSON document.
+ *
+ * @returns The list the warnings are collected into
+ *
+ * @example
+ * ```typescript
+ * const warnings = captureWarnings();
+ * consola.warn("Template hook failed");
+ * // warnings: ["Template hook failed"]
+ * ```
+ */
+export const captureWarnings = (): string[] => {
+  const warnings: string[] = [];
+  consola.setReporters([
+    {
+      log: (logObj) => {
+        if (logObj.type === 'warn') {
+          warnings.push(stripAnsi(logObj.args.map(String).join(' ')));
+        }
+      },
+    },
+  ]);
+  return warnings;
+};
+
+/**
+ * Creates the `--json` report of a project creation.
+ *
+ * @param result - The result of the workflow
+ * @param warnings - The warnings logged while running
+ * @returns The JSON report
+ *
+ * @example
+ * ```typescript
+ * const report = createProjectCreationReport(result, warnings);
+ * // Returns: { success: true, exitCode: 0, path: "/Users/john/my-app", ..., warnings: [] }
+ * ```
+ */
+export const createProjectCreationReport = (
+  result: Result<ProjectCreationResult, ProjectCreationError>,
+  warnings: string[],
+): ProjectCreationReport => {
+  if (!isOk(result)) {
+    const { code, step } = result.error;
+    return {
+      success: false,
+      exitCode: getExitCode(code),
+      warnings,
+      error: { code, message: stripAnsi(formatProjectCreationError(result.error)), ...(step && { step }) },
+    };
+  }
+
+  const { paths, packageName, template, packageManager, installed, gitInitialized, features, templateHooks } =
+    result.data;
+  return {
+    success: true,
+    exitCode: EXIT_CODES.SUCCESS,
+    path: paths.project,
+    packageName,
+    template,
+    packageManager,
+    installed,
+    gitInitialized,
+    features,
+    templateHooks,
+    warnings,
+  };
+};
+
+/**
+ * Creates the `--json` report of a dry run.
+ *
+ * @param result - The resolved plan
+ * @param warnings - The warnings logged while planning
+ * @returns The JSON report
+ *
+ * @example
+ * ```typescript
+ * const report = createProjectPlanReport(plan, []);
+ * // Returns: { success: true, exitCode: 0, plan: { ... }, warnings: [] }
+ * ```
+ */
+export const createProjectPlanReport = (
+  result: Result<ProjectCreationPlan, ProjectCreationError>,
+  warnings: string[],
+): ProjectCreationReport =>
+  isOk(result)
+    ? { success: true, exitCode: EXIT_CODES.SUCCESS, plan: result.data, warnings }
+    : createProjectCreationReport(result, warnings);
+
+/**
+ * Writes a JSON report to stdout.
+ *
+ * @param report - The report to print
+ */
+export const printReport = (report: ProjectCreationReport): void => {
+  process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+};
@@ -0,0 +1,188 @@
+import { existsSync } from 'node:fs';
+import consola from 'consola';
+import { basename, join } from 'pathe';
+import { readPackageJSON, writePackageJSON } from 'pkg-types';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { INITIAL_PROJECT_VERSION, TEMPLATE_SPECIFIC_PACKAGE_FIELDS } from './constants';
+import { createCancelledError, createInvalidArgumentError } from './errors';
+
+/**
+ * Maximum length of an npm package name.
+ */
+const PACKAGE_NAME_MAX_LENGTH = 214;
+
+/**
+ * Pattern of a valid npm package name: lowercase, URL-safe, optionally scoped,
+ * not starting with a dot or an underscore.
+ */
+const PACKAGE_NAME_PATTERN = /^(?:@[a-z0-9-~][a-z0-9-._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Names npm refuses to publish regardless of the pattern.
+ */
+const RESERVED_PACKAGE_NAMES: readonly string[] = ['node_modules', 'favicon.ico'];
+
+/**
+ * Package name used when nothing usable can be derived from the project directory.
+ */
+const FALLBACK_PACKAGE_NAME = 'my-app';
+
+/**
+ * Validates a package name against the npm naming rules.
+ *
+ * @param name - The package name to validate
+ * @returns A Result containing the name if valid, or an error message explaining the problem
+ *
+ * @example
+ * ```typescript
+ * const valid = validatePackageName("my-app");
+ * // Returns: Ok("my-app")
+ *
+ * const invalid = validatePackageName("My App");
+ * // Returns: Err('Invalid package name "My App": use lowercase letters, digits, "-", "." and "_" only')
+ * ```
+ */
+export const validatePackageName = (name: string): Result<string, string> => {
+  if (name.trim() === '') {
+    return Err('Package name must not be empty');
+  }
+  if (name.length > PACKAGE_NAME_MAX_LENGTH) {
+    return Err(`Invalid package name "${name}": must be at most ${PACKAGE_NAME_MAX_LENGTH} characters`);
+  }
+  if (RESERVED_PACKAGE_NAMES.includes(name)) {
+    return Err(`Invalid package name "${name}": the name is reserved`);
+  }
+  if (!PACKAGE_NAME_PATTERN.test(name)) {
+    return Err(`Invalid package name "${name}": use lowercase letters, digits, "-", "." and "_" only`);
+  }
+  return Ok(name);
+};
+
+/**
+ * Converts arbitrary text (e.g. a directory name) into a valid npm package name.
+ *
+ * @param value - The text to convert
+ * @returns A valid package name derived from the text
+ *
+ * @example
+ * ```typescript
+ * const name = toValidPackageName("My Awesome App!");
+ * // Returns: "my-awesome-app"
+ * ```
+ */
+export const toValidPackageName = (value: string): string => {
+  const name = value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9-._~]+/g, '-')
+    .replace(/^[-._]+|-+$/g, '')
+    .replace(/-{2,}/g, '-')
+    .slice(0, PACKAGE_NAME_MAX_LENGTH);
+
+  return isOk(validatePackageName(name)) ? name : FALLBACK_PACKAGE_NAME;
+};
+
+/**
+ * Prompts the user for a package name until a valid one is entered.
+ *
+ * @param initial - The suggested package name
+ * @returns A Promise that resolves to a Result containing the valid package name or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await promptForPackageName("my-app");
+ * if (isOk(result)) {
+ *   console.log(`Package name: ${result.data}`);
+ * }
+ * ```
+ */
+export const promptForPackageName = async (initial: string): Promise<Result<string, Error>> => {
+  try {
+    for (;;) {
+      const answer = await consola.prompt('Package name', {
+        type: 'text',
+        default: initial,
+        placeholder: initial,
+        cancel: 'reject',
+      });
+      const validation = validatePackageName(typeof answer === 'string' && answer !== '' ? answer : initial);
+      if (isOk(validation)) {
+        return validation;
+      }
+      consola.error(validation.error);
+    }
+  } catch (error) {
+    return Err(error instanceof Error ? error : createCancelledError('Package name prompt cancelled'));
+  }
+};
+
+/**
+ * Determines the package name of the new project.
+ * Uses `--name` when given, otherwise the name of the project directory.
+ * Invalid names are fixed through a prompt; without prompts, a directory name is converted
+ * into a valid name and an invalid `--name` is an error.
+ *
+ * @param nameArg - The `--name` argument (optional)
+ * @param projectDir - The project directory given to resolveProjectDirectory
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing a valid package name or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await resolvePackageName("@acme/web", "./web");
+ * // Returns: Ok("@acme/web")
+ * ```
+ */
+export const resolvePackageName = async (
+  nameArg: string | undefined,
+  projectDir: string,
+  nonInteractive = false,
+): Promise<Result<string, Error>> => {
+  const candidate = nameArg?.trim() || basename(projectDir.replace(/[\\/]+$/, ''));
+  const validation = validatePackageName(candidate);
+
+  if (isOk(validation)) {
+    return validation;
+  }
+
+  if (nonInteractive) {
+    return nameArg?.trim()
+      ? Err(createInvalidArgumentError(validation.error, 'name'))
+      : Ok(toValidPackageName(candidate));
+  }
+
+  consola.warn(validation.error);
+  return promptForPackageName(toValidPackageName(candidate));
+};
+
+/**
+ * Rewrites the `package.json` of a new project.
+ * Sets the package name, resets the version to 0.0.0, marks the package private and
+ * removes fields describing the template (repository, bugs, homepage).
+ *
+ * @param projectPath - The absolute path of the project directory
+ * @param name - The package name of the new project
+ * @returns A Promise that resolves to a Result containing whether a package.json was updated, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await updateProjectPackageJson("/Users/john/my-app", "my-app");
+ * // Returns: Ok(true) - package.json now has name "my-app", version "0.0.0" and private true
+ * ```
+ */
+export const updateProjectPackageJson = async (projectPath: string, name: string): Promise<Result<boolean, Error>> => {
+  const packageJsonPath = join(projectPath, 'package.json');
+  if (!existsSync(packageJsonPath)) {
+    return Ok(false);
+  }
+
+  return tryCatchAsync(async () => {
+    const pkg = await readPackageJSON(packageJsonPath);
+    for (const field of TEMPLATE_SPECIFIC_PACKAGE_FIELDS) {
+      delete pkg[field];
+    }
+    await writePackageJSON(packageJsonPath, { ...pkg, name, version: INITIAL_PROJECT_VERSION, private: true });
+    return true;
+  }, toError('Failed to update package.json'));
+};
@@ -0,0 +1,169 @@
+import { existsSync } from 'node:fs';
+import { rm } from 'node:fs/promises';
+import consola from 'consola';
+import type { PackageManagerName } from 'nypm';
+import { join } from 'pathe';
+import { readPackageJSON, writePackageJSON } from 'pkg-types';
+import { x } from 'tinyexec';
+import type { Result } from '../types/result';
+import { toError, tryCatchAsync } from '../types/result';
+import { PACKAGE_MANAGER_FILES, PACKAGE_MANAGER_OPTIONS } from './constants';
+import { parsePackageManagerFromUserAgent } from './package-manager';
+
+/**
+ * Package managers that read the `packageManager` field of package.json.
+ */
+const PACKAGE_MANAGER_FIELD_SUPPORT: readonly PackageManagerName[] = ['npm', 'yarn', 'pnpm', 'bun'];
+
+/**
+ * Pattern matching a run command of any supported package manager inside a script.
+ */
+const RUN_COMMAND_PATTERN = /\b(?:npm|pnpm|yarn|bun) run\b|\bdeno task\b/g;
+
+/**
+ * Pattern matching a semantic version inside command output.
+ */
+const VERSION_PATTERN = /\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?/;
+
+/**
+ * Lists the lockfiles and configuration files that belong only to other package managers.
+ * Shared configuration such as `.npmrc` is never listed (see PACKAGE_MANAGER_FILES).
+ *
+ * @param packageManager - The selected package manager
+ * @returns The file names to remove from the project
+ *
+ * @example
+ * ```typescript
+ * const files = getForeignPackageManagerFiles("npm");
+ * // Returns: ["yarn.lock", ..., "pnpm-lock.yaml", "pnpm-workspace.yaml", "bun.lock", ...]
+ * ```
+ */
+export const getForeignPackageManagerFiles = (packageManager: PackageManagerName): string[] => {
+  const ownFiles = new Set(PACKAGE_MANAGER_FILES[packageManager]);
+  const foreignFiles = PACKAGE_MANAGER_OPTIONS.filter((name) => name !== packageManager)
+    .flatMap((name) => PACKAGE_MANAGER_FILES[name])
+    .filter((file) => !ownFiles.has(file));
+  return [...new Set(foreignFiles)];
+};
+
+/**
+ * Creates the command used to run a package.json script with a package manager.
+ *
+ * @param packageManager - The package manager
+ * @returns The run command (e.g. "pnpm run" or "deno task")
+ *
+ * @example
+ * ```typescript
+ * createRunCommand("yarn"); // Returns: "yarn run"
+ * createRunCommand("deno"); // Returns: "deno task"
+ * ```
+ */
+export const createRunCommand = (packageManager: PackageManagerName): string =>
+  packageManager === 'deno' ? 'deno task' : `${packageManager} run`;
+
+/**
+ * Rewrites run commands of other package managers inside package.json scripts.
+ *
+ * @param scripts - The scripts of the package.json
+ * @param packageManager - The selected package manager
+ * @returns The scripts using the selected package manager
+ *
+ * @example
+ * ```typescript
+ * const scripts = rewriteScriptReferences({ build: "pnpm run lint && nuxt build" }, "npm");
+ * // Returns: { build: "npm run lint && nuxt build" }
+ * ```
+ */
+export const rewriteScriptReferences = (
+  scripts: Record<string, string>,
+  packageManager: PackageManagerName,
+): Record<string, string> => {
+  const runCommand = createRunCommand(packageManager);
+  return Object.fromEntries(
+    Object.entries(scripts).map(([name, script]) => [name, script.replace(RUN_COMMAND_PATTERN, runCommand)]),
+  );
+};
+
+/**
+ * Detects the version of a package manager.
+ * Uses the user agent when the CLI runs through that package manager, otherwise `<manager> --version`.
+ *
+ * @param packageManager - The package manager
+ * @returns A Promise that resolves to the version, or undefined if the package manager is not available
+ *
+ * @example
+ * ```typescript
+ * const version = await detectPackageManagerVersion("pnpm");
+ * // Returns: "10.17.1"
+ * ```
+ */
+export const detectPackageManagerVersion = async (packageManager: PackageManagerName): Promise<string | undefined> => {
+  const userAgent = process.env.npm_config_user_agent;
+  if (userAgent && parsePackageManagerFromUserAgent(userAgent) === packageManager) {
+    const version = userAgent.split(' ')[0]?.split('/')[1];
+    if (version && VERSION_PATTERN.test(version)) {
+      return version;
+    }
+  }
+
+  try {
+    const result = await x(packageManager, ['--version'], { throwOnError: true });
+    return result.stdout.match(VERSION_PATTERN)?.[0];
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Makes a new project consistent with the selected package manager.
+ * Removes lockfiles and configuration files of other package managers, writes the
+ * `packageManager` field with the detected version and rewrites run commands in scripts.
+ * When only some files of the directory belong to the template (merging into an existing
+ * directory), only those files are touched.
+ *
+ * @param dir - The project directory
+ * @param packageManager - The selected package manager
+ * @param templateFiles - The files written by the template, if not all files belong to it (optional)
+ * @returns A Promise that resolves to a Result containing the removed files, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await alignProjectWithPackageManager("./my-app", "npm");
+ * // Removes pnpm-lock.yaml, sets "packageManager": "npm@10.8.2" and rewrites "pnpm run" to "npm run"
+ * // Logs: "Removed pnpm-lock.yaml for npm."
+ * ```
+ */
+export const alignProjectWithPackageManager = async (
+  dir: string,
+  packageManager: PackageManagerName,
+  templateFiles?: readonly string[],
+): Promise<Result<string[], Error>> => {
+  const ownsFile = (file: string) => templateFiles === undefined || templateFiles.includes(file);
+
+  return tryCatchAsync(async () => {
+    const removedFiles = getForeignPackageManagerFiles(packageManager).filter(
+      (file) => ownsFile(file) && existsSync(join(dir, file)),
+    );
+    await Promise.all(removedFiles.map((file) => rm(join(dir, file), { force: true })));
+
+    const packageJsonPath = join(dir, 'package.json');
+    if (ownsFile('package.json') && existsSync(packageJsonPath)) {
+      const pkg = await readPackageJSON(packageJsonPath);
+      const version = PACKAGE_MANAGER_FIELD_SUPPORT.includes(packageManager)
+        ? await detectPackageManagerVersion(packageManager)
+        : undefined;
+
+      delete pkg.packageManager;
+      await writePackageJSON(packageJsonPath, {
+        ...pkg,
+        ...(pkg.scripts && { scripts: rewriteScriptReferences(pkg.scripts as Record<string, string>, packageManager) }),
+        ...(version && { packageManager: `${packageManager}@${version}` }),
+      });
+    }
+
+    if (removedFiles.length > 0) {
+      consola.info(`Removed ${removedFiles.join(', ')} for ${packageManager}.`);
+    }
+    return removedFiles;
+  }, toError('Failed to configure the package manager'));
+};
@@ -1,9 +1,10 @@
 import consola, { type SelectPromptOptions } from 'consola';
-import { installDependencies, type PackageManagerName } from 'nypm';
+import { detectPackageManager, installDependencies, type PackageManagerName } from 'nypm';
+import type { InstallFailedError } from '../types/api';
 import type { Result } from '../types/result';
-import { Err, isOk, Ok } from '../types/result';
-import { handleError } from './common';
-import { PACKAGE_MANAGER_OPTIONS } from './constants';
+import { Err, isOk, Ok, tryCatchAsync } from '../types/result';
+import { NON_INTERACTIVE_DEFAULTS, PACKAGE_MANAGER_OPTIONS } from './constants';
+import { createCancelledError, createInstallFailedError, createInvalidArgumentError } from './errors';
 
 /**
  * Extracts the package manager name from a user agent string.
@@ -57,6 +58,24 @@ export const detectCurrentPackageManager = (): PackageManagerName | undefined =>
   return userAgent ? parsePackageManagerFromUserAgent(userAgent) : undefined;
 };
 
+/**
+ * Detects the package manager of an existing project from its lock files, falling back to npm.
+ *
+ * @param projectDir - The project directory
+ * @returns A Promise that resolves to the package manager name
+ *
+ * @example
+ * ```typescript
+ * // In a project with pnpm-lock.yaml
+ * const packageManager = await detectProjectPackageManager("./my-app");
+ * // Returns: "pnpm"
+ * ```
+ */
+export const detectProjectPackageManager = async (projectDir: string): Promise<PackageManagerName> => {
+  const detected = await detectPackageManager(projectDir, { includeParentDirs: false }).catch(() => undefined);
+  return detected && (PACKAGE_MANAGER_OPTIONS as string[]).includes(detected.name) ? detected.name : 'npm';
+};
+
 /**
  * Validates a package manager argument against the list of supported package managers.
  * Ensures that only valid package managers are accepted, providing clear error messages for invalid ones.
@@ -150,7 +169,7 @@ export const promptForPackageManager = async (
     });
     return Ok(result as PackageManagerName);
   } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Package manager selection cancelled'));
+    return Err(error instanceof Error ? error : createCancelledError('Package manager selection cancelled'));
   }
 };
 
@@ -158,37 +177,41 @@ export const promptForPackageManager = async (
  * Selects a package manager using a fallback chain strategy.
  * First validates the provided package manager argument. If invalid, detects the current package manager
  * and prompts the user for selection with intelligent defaults.
+ * In non-interactive mode a missing argument resolves to the current package manager (or npm),
+ * while an invalid argument is an error instead of a prompt.
  *
  * @param packageManagerArg - The package manager argument from command line (optional)
- * @returns A Promise that resolves to a valid package manager name
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing a valid package manager name or an error
  *
  * @example
  * ```typescript
- * // With valid argument
- * const pm1 = await selectPackageManager("yarn");
- * // Returns: "yarn"
+ * const result = await resolvePackageManager("yarn");
+ * // Returns: Ok("yarn")
  *
- * // With invalid argument (will detect current and prompt)
- * const pm2 = await selectPackageManager("invalid");
- * // Returns: user's selection from prompt (with current PM highlighted)
+ * const invalid = await resolvePackageManager("invalid", true);
+ * // Returns: Err(InvalidArgumentError("Invalid package manager: invalid"))
  * ```
  */
-export const selectPackageManager = async (packageManagerArg?: string): Promise<PackageManagerName> => {
+export const resolvePackageManager = async (
+  packageManagerArg?: string,
+  nonInteractive = false,
+): Promise<Result<PackageManagerName, Error>> => {
   const argValidation = validatePackageManagerArg(packageManagerArg);
 
   if (isOk(argValidation)) {
-    return argValidation.data;
+    return argValidation;
   }
 
   const currentPackageManager = detectCurrentPackageManager();
-  const promptResult = await promptForPackageManager(currentPackageManager);
 
-  if (isOk(promptResult)) {
-    return promptResult.data;
+  if (nonInteractive) {
+    return packageManagerArg
+      ? Err(createInvalidArgumentError(argValidation.error, 'packageManager'))
+      : Ok(currentPackageManager ?? NON_INTERACTIVE_DEFAULTS.packageManager);
   }
 
-  // Handle error case - exit for backward compatibility
-  process.exit(1);
+  return promptForPackageManager(currentPackageManager);
 };
 
 /**
@@ -245,41 +268,38 @@ export const promptForDependenciesInstallation = async (initial: boolean): Promi
     }
     return Err(new Error(validationResult.error));
   } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Dependencies installation prompt cancelled'));
+    return Err(error instanceof Error ? error : createCancelledError('Dependencies installation prompt cancelled'));
   }
 };
 
 /**
- * Confirms dependencies installation using a prompt if needed.
- * This function handles the user interaction flow for dependency installation confirmation.
- * If an error occurs during the prompt, it logs the error and exits the process.
+ * Determines whether dependencies should be installed, using a prompt if needed.
+ * An explicit `--install` / `--no-install` is used as-is; otherwise the user is asked,
+ * unless prompts are disabled, in which case dependencies are installed by default.
  *
- * @param install - The initial preference for installing dependencies
- * @returns A Promise that resolves to the user's final decision
+ * @param install - The preference for installing dependencies (undefined means ask)
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing the decision or an error
  *
  * @example
  * ```typescript
- * const shouldInstall = await confirmDependenciesInstallation(true);
- * if (shouldInstall) {
- *   console.log("User confirmed: will install dependencies");
- * } else {
- *   console.log("User declined: will skip dependency installation");
- * }
+ * const result = await resolveDependenciesInstallation(undefined, true);
+ * // Returns: Ok(true)
  * ```
  */
-export const confirmDependenciesInstallation = async (install: boolean): Promise<boolean> => {
-  const promptResult = await promptForDependenciesInstallation(install);
-
-  if (isOk(promptResult)) {
-    return promptResult.data;
+export const resolveDependenciesInstallation = async (
+  install: boolean | undefined,
+  nonInteractive = false,
+): Promise<Result<boolean, Error>> => {
+  if (install !== undefined) {
+    return Ok(install);
   }
 
-  // Handle error case
-  const errorMessage = promptResult.error instanceof Error ? promptResult.error.message : String(promptResult.error);
-  if (errorMessage?.includes('Please specify')) {
-    consola.error(errorMessage);
+  if (nonInteractive) {
+    return Ok(NON_INTERACTIVE_DEFAULTS.install);
   }
-  process.exit(1);
+
+  return promptForDependenciesInstallation(NON_INTERACTIVE_DEFAULTS.install);
 };
 
 /**
@@ -314,7 +334,8 @@ export const createInstallationConfig = (dir: string, packageManager: PackageMan
  *
  * @param dir - The directory where dependencies should be installed
  * @param packageManager - The package manager to use for installation
- * @returns A Promise that resolves to a Result indicating success or failure
+ * @param silent - Whether the output of the package manager is hidden (defaults to false)
+ * @returns A Promise that resolves to a Result indicating success, or an InstallFailedError
  *
  * @example
  * ```typescript
@@ -329,52 +350,48 @@ export const createInstallationConfig = (dir: string, packageManager: PackageMan
 export const installDependenciesWithResult = async (
   dir: string,
   packageManager: PackageManagerName,
-): Promise<Result<void, Error>> => {
-  try {
-    await installDependencies(createInstallationConfig(dir, packageManager));
-    return Ok(undefined);
-  } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Dependencies installation failed'));
-  }
-};
+  silent = false,
+): Promise<Result<void, InstallFailedError>> =>
+  tryCatchAsync(
+    () => installDependencies({ ...createInstallationConfig(dir, packageManager), ...(silent && { silent }) }),
+    (error) => createInstallFailedError(packageManager, error),
+  ).map(() => undefined);
 
 /**
  * Conditionally installs dependencies based on user preference.
  * This function handles the complete installation workflow, including user feedback.
- * If installation is skipped or fails, it provides appropriate logging.
  *
  * @param shouldInstall - Whether dependencies should be installed (undefined means yes)
  * @param dir - The directory where dependencies should be installed
  * @param packageManager - The package manager to use for installation
+ * @param silent - Whether the output of the package manager is hidden (defaults to false)
+ * @returns A Promise that resolves to a Result containing whether dependencies were installed, or an InstallFailedError
  *
  * @example
  * ```typescript
- * // Install dependencies
- * await installDependenciesIfRequested(true, "./my-project", "npm");
- *
- * // Skip installation
- * await installDependenciesIfRequested(false, "./my-project", "npm");
- * // Logs: "Skipping dependency installation."
+ * const result = await installProjectDependencies(false, "./my-project", "npm");
+ * // Logs: "Skipping dependency installation." and returns Ok(false)
  * ```
  */
-export const installDependenciesIfRequested = async (
+export const installProjectDependencies = async (
   shouldInstall: boolean | undefined,
   dir: string,
   packageManager: PackageManagerName,
-): Promise<void> => {
+  silent = false,
+): Promise<Result<boolean, InstallFailedError>> => {
   if (shouldInstall === false) {
     consola.info('Skipping dependency installation.');
-    return;
+    return Ok(false);
   }
 
   consola.start('Installing dependencies...');
 
-  const result = await installDependenciesWithResult(dir, packageManager);
+  const result = await installDependenciesWithResult(dir, packageManager, silent);
 
-  if (isOk(result)) {
-    consola.success('Installation completed.');
-    return;
+  if (!isOk(result)) {
+    return result;
   }
 
-  handleError(result.error);
+  consola.success('Installation completed.');
+  return Ok(true);
 };
@@ -0,0 +1,38 @@
+import { homedir } from 'node:os';
+import { join } from 'pathe';
+import { name } from '../../package.json';
+
+/**
+ * Resolves the per-user cache directory of the CLI.
+ * Respects the XDG Base Directory specification and falls back to `~/.cache`.
+ *
+ * @param env - The environment variables to read from (defaults to process.env)
+ * @returns The absolute path of the CLI cache directory
+ *
+ * @example
+ * ```typescript
+ * const dir = resolveCacheDir({ XDG_CACHE_HOME: "/tmp/cache" });
+ * // Returns: "/tmp/cache/create-xeikit-app"
+ *
+ * const fallback = resolveCacheDir({});
+ * // Returns: "/Users/john/.cache/create-xeikit-app"
+ * ```
+ */
+export const resolveCacheDir = (env: NodeJS.ProcessEnv = process.env): string =>
+  join(env.XDG_CACHE_HOME || join(homedir(), '.cache'), name);
+
+/**
+ * Resolves the per-user configuration directory of the CLI.
+ * Respects the XDG Base Directory specification and falls back to `~/.config`.
+ *
+ * @param env - The environment variables to read from (defaults to process.env)
+ * @returns The absolute path of the CLI configuration directory
+ *
+ * @example
+ * ```typescript
+ * const dir = resolveConfigDir({ XDG_CONFIG_HOME: "/tmp/config" });
+ * // Returns: "/tmp/config/create-xeikit-app"
+ * ```
+ */
+export const resolveConfigDir = (env: NodeJS.ProcessEnv = process.env): string =>
+  join(env.XDG_CONFIG_HOME || join(homedir(), '.config'), name);
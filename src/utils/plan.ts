@@ -0,0 +1,206 @@
+import { colors } from 'consola/utils';
+import { relative } from 'pathe';
+import type { ProjectCreationPlan, ProjectPlanFileChange } from '../types/api';
+import type { ExistingDirectoryStrategy, TemplateHookStage, TemplateSelection } from '../types/cli';
+import type { Result } from '../types/result';
+import { isOk, Ok } from '../types/result';
+import { TEMPLATE_FEATURES_DIR, TEMPLATE_MANIFEST_NAME } from './constants';
+import { listFiles } from './directory';
+import { DEFAULT_RESOLVED_REGISTRY, getTemplateSourceProvider, isLocalTemplateSource } from './registry';
+import { getTemplateCacheFilesDir, readTemplateCacheEntry } from './template-cache';
+import { readTemplateManifest } from './template-manifest';
+import { withTemplateRef } from './template-ref';
+
+/**
+ * Interface describing what is known about a template before it is downloaded.
+ */
+export interface TemplatePlan {
+  /** The template section of the plan */
+  template: ProjectCreationPlan['template'];
+  /** The hook commands by stage, if the template is cached */
+  hooks?: Partial<Record<TemplateHookStage, string[]>>;
+  /** The files of the template, if the template is cached */
+  files?: string[];
+}
+
+/**
+ * Creates the URL of the definition giget reads for a registry template.
+ *
+ * @param registry - The registry base URL or local path
+ * @param templateName - The template name
+ * @returns The URL (or path) of the template definition
+ */
+const createTemplateDefinitionUrl = (registry: string, templateName: string): string =>
+  `${registry.replace(/\/+$/, '')}/${templateName}.json`;
+
+/**
+ * Reads the hooks and files of a template directory (a cached or local template).
+ *
+ * @param template - The template section of the plan
+ * @param filesDir - The directory holding the template files
+ * @returns A Promise that resolves to a Result containing the template plan, or the error of an invalid manifest
+ */
+const inspectTemplateFiles = async (
+  template: TemplatePlan['template'],
+  filesDir: string,
+): Promise<Result<TemplatePlan, Error>> => {
+  const manifest = await readTemplateManifest(filesDir);
+  if (!isOk(manifest)) {
+    return manifest;
+  }
+
+  const hooks = Object.fromEntries(
+    Object.entries(manifest.data?.hooks ?? {}).map(([stage, stageHooks]) => [
+      stage,
+      stageHooks.map((hook) => hook.run),
+    ]),
+  );
+  const files = (await listFiles(filesDir)).filter(
+    (file) => file !== TEMPLATE_MANIFEST_NAME && !file.startsWith(`${TEMPLATE_FEATURES_DIR}/`),
+  );
+  return Ok({ template, hooks, files });
+};
+
+/**
+ * Describes the selected template without downloading it.
+ * A template in the offline cache is inspected there: its source, files and hooks are known.
+ * A local template is inspected in place. Otherwise the plan only contains the URL the template
+ * definition would be fetched from, or the source of a git-hosted template.
+ *
+ * @param selection - The selected template and its registry or source
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to a Result containing the template plan, or the error of an invalid manifest
+ *
+ * @example
+ * ```typescript
+ * const result = await planTemplate({ name: "nuxt4", registry: DEFAULT_RESOLVED_REGISTRY });
+ * if (isOk(result)) {
+ *   console.log(result.data.template.source); // "github:xeikit/nuxt4-template" when cached
+ * }
+ * ```
+ */
+export const planTemplate = async (
+  selection: TemplateSelection,
+  cacheDir?: string,
+): Promise<Result<TemplatePlan, Error>> => {
+  const { name, registry = DEFAULT_RESOLVED_REGISTRY, source, ref } = selection;
+  const registryDetails = { ...((!source || selection.registry) && { registry: registry.url }), ...(ref && { ref }) };
+  if (source && isLocalTemplateSource(source)) {
+    return inspectTemplateFiles({ name, source, cached: false }, source);
+  }
+
+  const cacheRegistry = (source && getTemplateSourceProvider(source)) || registry.url;
+  const entry = await readTemplateCacheEntry(cacheRegistry, source ?? name, ref, cacheDir);
+  if (!entry) {
+    return Ok({
+      template: {
+        name,
+        source: source ? withTemplateRef(source, ref) : createTemplateDefinitionUrl(registry.url, name),
+        ...registryDetails,
+        cached: false,
+      },
+    });
+  }
+
+  return inspectTemplateFiles(
+    { name, source: entry.result.source, ...registryDetails, cached: true },
+    getTemplateCacheFilesDir(entry),
+  );
+};
+
+/**
+ * Lists the files of the project directory that project creation would create, change or delete.
+ * Existing files are deleted when the directory is cleared and kept when merging; the template files
+ * are only known for cached templates. `package.json` is always written, unless it is kept when merging.
+ *
+ * @param projectPath - The absolute path of the project directory
+ * @param strategy - How a non-empty project directory is handled
+ * @param templateFiles - The files of the template, if known
+ * @returns A Promise that resolves to the file changes, sorted by path
+ *
+ * @example
+ * ```typescript
+ * const changes = await planFileChanges("/Users/john/my-app", "merge", ["package.json", "app.vue"]);
+ * // Returns: [{ path: "app.vue", action: "create" }, { path: "package.json", action: "keep" }]
+ * ```
+ */
+export const planFileChanges = async (
+  projectPath: string,
+  strategy: ExistingDirectoryStrategy | undefined,
+  templateFiles?: readonly string[],
+): Promise<ProjectPlanFileChange[]> => {
+  const existing = strategy ? await listFiles(projectPath) : [];
+  const isKept = (file: string) => strategy === 'merge' && existing.includes(file);
+  const changes = new Map<string, ProjectPlanFileChange['action']>();
+
+  if (strategy === 'clear') {
+    for (const file of existing) {
+      changes.set(file, 'delete');
+    }
+  }
+  for (const file of templateFiles ?? []) {
+    changes.set(file, isKept(file) ? 'keep' : 'create');
+  }
+  const packageJson = changes.get('package.json');
+  if (packageJson !== 'create' && packageJson !== 'keep') {
+    changes.set('package.json', isKept('package.json') ? 'keep' : 'update');
+  }
+
+  return [...changes].map(([path, action]) => ({ path, action })).sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Formats a project creation plan for the terminal.
+ *
+ * @param plan - The plan to format
+ * @param cwd - The directory paths are shown relative to (defaults to process.cwd())
+ * @returns The plan as multi-line text
+ *
+ * @example
+ * ```typescript
+ * consola.log(formatProjectCreationPlan(plan));
+ * // 📋 Plan (dry run, nothing has been downloaded or written):
+ * //   Project:         my-app
+ * //   ...
+ * ```
+ */
+export const formatProjectCreationPlan = (plan: ProjectCreationPlan, cwd: string = process.cwd()): string => {
+  const display = (path: string) => relative(cwd, path) || path;
+  const hookCommands = Object.entries(plan.hooks.commands ?? {}).flatMap(([stage, commands]) =>
+    commands.map((command) => `${command} ${colors.dim(`(${stage})`)}`),
+  );
+  const hookLines = !plan.hooks.enabled
+    ? ['skipped (--no-hooks)']
+    : !plan.hooks.commands
+      ? ['unknown until the template is downloaded']
+      : hookCommands.length > 0
+        ? hookCommands
+        : ['none'];
+  const section = (label: string, lines: string[]) =>
+    lines.map((line, index) => `  ${(index === 0 ? `${label}:` : '').padEnd(18)}${line}`);
+
+  return [
+    `\n📋 Plan ${colors.dim('(dry run, nothing has been downloaded or written)')}:\n`,
+    ...section('Project', [colors.cyan(display(plan.paths.project))]),
+    ...(plan.existingDirectory
+      ? section('Existing files', [
+          plan.paths.backup ? `backup to ${colors.cyan(display(plan.paths.backup))}` : plan.existingDirectory,
+        ])
+      : []),
+    ...section('Package name', [plan.packageName]),
+    ...section('Template', [
+      `${plan.template.name} ${colors.dim(`(${plan.template.cached ? 'cached' : 'not cached'})`)}`,
+    ]),
+    ...(plan.template.registry ? section('Registry', [plan.template.registry]) : []),
+    ...(plan.template.ref ? section('Ref', [plan.template.ref]) : []),
+    ...section('Source', [plan.template.source]),
+    ...section('Package manager', [plan.packageManager]),
+    ...section('Install', [plan.install.enabled ? plan.install.command : 'skipped']),
+    ...section('Git', plan.git.enabled ? plan.git.commands : ['skipped']),
+    ...section('Hooks', hookLines),
+    ...section(
+      'Files',
+      plan.files.map(({ path, action }) => `${colors.dim(action.padEnd(7))} ${path}`),
+    ),
+  ].join('\n');
+};
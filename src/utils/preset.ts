@@ -0,0 +1,282 @@
+import { parseJSON, parseYAML } from 'confbox';
+import { extname, resolve } from 'pathe';
+import type { InvalidArgumentError } from '../types/api';
+import type { ProjectPreset } from '../types/config';
+import type { Result } from '../types/result';
+import { Err, Ok, toError, toResultAsync, tryCatch } from '../types/result';
+import { readRegistryResource } from './catalog';
+import { PACKAGE_MANAGER_OPTIONS } from './constants';
+import { createInvalidArgumentError } from './errors';
+
+/**
+ * Schema of a single preset field.
+ */
+type PresetFieldSchema =
+  | { readonly type: 'string' | 'boolean' | 'list' | 'variables' }
+  | { readonly type: 'enum'; readonly values: readonly string[] }
+  | { readonly type: 'object'; readonly properties: PresetSchema };
+
+/**
+ * Schema of a preset object: the allowed fields and their schema.
+ */
+type PresetSchema = Readonly<Record<string, PresetFieldSchema>>;
+
+/**
+ * Schema every preset is validated against (see ProjectPreset).
+ */
+const PRESET_SCHEMA: PresetSchema = {
+  template: { type: 'string' },
+  registry: { type: 'string' },
+  features: { type: 'list' },
+  variables: { type: 'variables' },
+  packageManager: { type: 'enum', values: PACKAGE_MANAGER_OPTIONS },
+  install: { type: 'boolean' },
+  git: {
+    type: 'object',
+    properties: {
+      init: { type: 'boolean' },
+      commit: { type: 'boolean' },
+      commitMessage: { type: 'string' },
+      branch: { type: 'string' },
+      author: { type: 'string' },
+    },
+  },
+  hooks: { type: 'boolean' },
+};
+
+/**
+ * Fields that may appear in a preset without being part of the schema (e.g. for editor support).
+ */
+const IGNORED_PRESET_FIELDS: readonly string[] = ['$schema'];
+
+/**
+ * Pattern of a preset given as a URL rather than a local path.
+ */
+const PRESET_URL_PATTERN = /^(?:https?|file):/;
+
+/**
+ * Pattern of a preset that is fetched over the network.
+ */
+const REMOTE_PRESET_URL_PATTERN = /^https?:/;
+
+/**
+ * Options used when loading a preset.
+ */
+export interface PresetLoadOptions {
+  /** Whether presets may be fetched over the network (false with `--dry-run`, defaults to true) */
+  readonly network?: boolean;
+}
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a non-null, non-array object
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a preset value against the schema of its field.
+ *
+ * @param path - The path of the field (e.g. "git.branch"), used in error messages
+ * @param value - The value to check
+ * @param schema - The schema of the field
+ * @returns The problems found, one message per invalid field
+ */
+const validatePresetField = (path: string, value: unknown, schema: PresetFieldSchema): string[] => {
+  switch (schema.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected true or false`];
+    case 'enum':
+      return schema.values.includes(value as string) ? [] : [`${path}: expected one of ${schema.values.join(', ')}`];
+    case 'list':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '')
+        ? []
+        : [`${path}: expected a list of names`];
+    case 'variables':
+      return isPlainObject(value)
+        ? Object.entries(value)
+            .filter(([, variable]) => !['string', 'number', 'boolean'].includes(typeof variable))
+            .map(([name]) => `${path}.${name}: expected a string, a number or a boolean`)
+        : [`${path}: expected an object`];
+    case 'object':
+      return isPlainObject(value)
+        ? validatePresetFields(value, schema.properties, `${path}.`)
+        : [`${path}: expected an object`];
+    default:
+      return typeof value === 'string' && value.trim() !== '' ? [] : [`${path}: expected a non-empty string`];
+  }
+};
+
+/**
+ * Checks the fields of a preset object against a schema.
+ *
+ * @param raw - The preset object
+ * @param schema - The schema of the object
+ * @param prefix - The path of the object followed by a dot (empty for the root)
+ * @returns The problems found, one message per invalid or unknown field
+ */
+const validatePresetFields = (raw: Record<string, unknown>, schema: PresetSchema, prefix = ''): string[] =>
+  Object.entries(raw)
+    .filter(([name]) => prefix !== '' || !IGNORED_PRESET_FIELDS.includes(name))
+    .flatMap(([name, value]) =>
+      Object.hasOwn(schema, name)
+        ? validatePresetField(`${prefix}${name}`, value, schema[name] as PresetFieldSchema)
+        : [`${prefix}${name}: unknown field`],
+    );
+
+/**
+ * Validates the parsed contents of a preset file against the preset schema.
+ * Unlike the configuration files, unknown fields are rejected: a preset is written for this CLI,
+ * and a misspelled field would otherwise be ignored silently.
+ *
+ * @param raw - The parsed contents of the preset file
+ * @returns A Result containing the preset, or the problems found (one message per invalid field)
+ *
+ * @example
+ * ```typescript
+ * const valid = validatePreset({ template: "nuxt4", git: { branch: "main" } });
+ * // Returns: Ok({ template: "nuxt4", git: { branch: "main" } })
+ *
+ * const invalid = validatePreset({ install: "yes", git: { brnach: "main" } });
+ * // Returns: Err(["install: expected true or false", "git.brnach: unknown field"])
+ * ```
+ */
+export const validatePreset = (raw: unknown): Result<ProjectPreset, string[]> => {
+  if (!isPlainObject(raw)) {
+    return Err(['The preset must be an object']);
+  }
+
+  const problems = validatePresetFields(raw, PRESET_SCHEMA);
+  if (problems.length > 0) {
+    return Err(problems);
+  }
+  const { $schema: _, ...preset } = raw;
+  return Ok(preset as ProjectPreset);
+};
+
+/**
+ * Parses the contents of a preset file: YAML for `.yaml` and `.yml` files, JSON otherwise.
+ *
+ * @param contents - The contents of the preset file
+ * @param location - The path or URL of the preset file, used to detect its format
+ * @returns A Result containing the parsed contents, or the error of a syntax error
+ */
+const parsePresetContents = (contents: string, location: string): Result<unknown, Error> => {
+  const extension = extname(location.replace(/[?#].*$/, '')).toLowerCase();
+  const parse = extension === '.yaml' || extension === '.yml' ? parseYAML : parseJSON;
+  return tryCatch((): unknown => parse(contents), toError('Invalid preset syntax'));
+};
+
+/**
+ * Loads and validates a preset file from a local path or a URL.
+ * Relative paths are resolved against the working directory. `http(s):` URLs are rejected when
+ * the network may not be used.
+ *
+ * @param source - The `--preset` argument: a path, or an `http(s):` or `file:` URL
+ * @param cwd - The working directory
+ * @param options - Whether the preset may be fetched over the network (optional)
+ * @returns A Promise that resolves to a Result containing the preset, or an InvalidArgumentError
+ *   listing every invalid field
+ *
+ * @example
+ * ```typescript
+ * const result = await loadPreset("./presets/team.yaml", process.cwd());
+ * if (isOk(result)) {
+ *   console.log(result.data.template); // "nuxt4"
+ * }
+ * ```
+ */
+export const loadPreset = async (
+  source: string,
+  cwd: string,
+  options: PresetLoadOptions = {},
+): Promise<Result<ProjectPreset, InvalidArgumentError>> => {
+  const location = PRESET_URL_PATTERN.test(source) ? source : resolve(cwd, source);
+  const fail = (message: string) => createInvalidArgumentError(message, 'preset');
+  if (options.network === false && REMOTE_PRESET_URL_PATTERN.test(source)) {
+    return Err(fail(`The preset ${source} cannot be fetched without network access: download it and pass its path`));
+  }
+
+  return toResultAsync(readRegistryResource(location))
+    .mapErr((error) => fail(`Failed to read the preset ${source}: ${error.message}`))
+    .andThen((contents) =>
+      toResultAsync(parsePresetContents(contents, location)).mapErr((error) =>
+        fail(`Invalid preset ${source}: ${error.message}`),
+      ),
+    )
+    .andThen((raw) =>
+      toResultAsync(validatePreset(raw)).mapErr((problems) =>
+        fail(`Invalid preset ${source}:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`),
+      ),
+    );
+};
+
+/**
+ * Command line arguments that can be given a value by a preset.
+ */
+interface PresetArgs {
+  readonly template?: string;
+  readonly registry?: string;
+  readonly features?: string;
+  readonly var?: string | readonly string[];
+  readonly packageManager?: string;
+  readonly install?: boolean;
+  readonly gitInit?: boolean;
+  readonly gitCommit?: boolean;
+  readonly gitCommitMessage?: string;
+  readonly gitBranch?: string;
+  readonly gitAuthor?: string;
+  readonly hooks?: boolean;
+}
+
+/**
+ * Fills the arguments that were not given on the command line with the values of a preset.
+ * Empty strings count as not given, except for `features` where an empty list means "no features".
+ * Template variables are merged: a `--var` overrides the preset value of the same variable.
+ *
+ * @param args - The command line arguments
+ * @param preset - The loaded preset
+ * @returns The arguments with the preset applied
+ *
+ * @example
+ * ```typescript
+ * const args = applyPreset(
+ *   { template: "", packageManager: "npm", var: "license=MIT" },
+ *   { template: "nuxt4", packageManager: "pnpm", variables: { license: "ISC", port: 3000 } },
+ * );
+ * // Returns: { template: "nuxt4", packageManager: "npm", var: ["license=ISC", "port=3000", "license=MIT"] }
+ * ```
+ */
+export const applyPreset = <A extends PresetArgs>(args: A, preset: ProjectPreset): A => {
+  const values: Record<keyof PresetArgs, unknown> = {
+    template: preset.template,
+    registry: preset.registry,
+    features: preset.features?.join(','),
+    var: undefined,
+    packageManager: preset.packageManager,
+    install: preset.install,
+    gitInit: preset.git?.init,
+    gitCommit: preset.git?.commit,
+    gitCommitMessage: preset.git?.commitMessage,
+    gitBranch: preset.git?.branch,
+    gitAuthor: preset.git?.author,
+    hooks: preset.hooks,
+  };
+  const isGiven = (name: keyof PresetArgs) => args[name] !== undefined && (name === 'features' || args[name] !== '');
+  const applied = (Object.keys(values) as (keyof PresetArgs)[]).filter(
+    (name) => values[name] !== undefined && !isGiven(name),
+  );
+  const givenVariables = typeof args.var === 'string' ? [args.var].filter(Boolean) : (args.var ?? []);
+  const variables = preset.variables && [
+    ...Object.entries(preset.variables).map(([name, value]) => `${name}=${value}`),
+    ...givenVariables,
+  ];
+
+  return {
+    ...args,
+    ...Object.fromEntries(applied.map((name) => [name, values[name]])),
+    ...(variables && { var: variables }),
+  };
+};
@@ -0,0 +1,239 @@
+import { fileURLToPath } from 'node:url';
+import { isAbsolute, resolve } from 'pathe';
+import type { ResolvedRegistry, TemplateSelection } from '../types/cli';
+import type { RegistryConfig } from '../types/config';
+import type { Result } from '../types/result';
+import { Err, Ok } from '../types/result';
+import { DEFAULT_REGISTRY, TEMPLATE_SOURCE_PROVIDERS } from './constants';
+
+/**
+ * Registry used when neither `--registry` nor a `registryName:` prefix is given.
+ */
+export const DEFAULT_RESOLVED_REGISTRY: ResolvedRegistry = { url: DEFAULT_REGISTRY };
+
+/**
+ * Checks whether a registry argument is a URL or path rather than a configured registry name.
+ *
+ * @param value - The registry argument to check
+ * @returns True if the value is an HTTP(S) URL, a `file:` URL or an absolute path
+ *
+ * @example
+ * ```typescript
+ * isRegistryLocation("https://example.com/templates"); // Returns: true
+ * isRegistryLocation("internal"); // Returns: false
+ * ```
+ */
+export const isRegistryLocation = (value: string): boolean => /^(https?|file):/.test(value) || isAbsolute(value);
+
+/**
+ * Creates a resolved registry from a named registry configuration.
+ * The auth token is read from the environment variable named by `tokenEnv`.
+ *
+ * @param name - The name of the registry in the configuration file
+ * @param config - The registry configuration
+ * @param env - The environment variables to read the token from (defaults to process.env)
+ * @returns The resolved registry
+ *
+ * @example
+ * ```typescript
+ * const registry = createRegistryFromConfig("internal", { url: "https://example.com", tokenEnv: "TOKEN" }, { TOKEN: "s3cr3t" });
+ * // Returns: { name: "internal", url: "https://example.com", auth: "s3cr3t" }
+ * ```
+ */
+export const createRegistryFromConfig = (
+  name: string,
+  config: RegistryConfig,
+  env: NodeJS.ProcessEnv = process.env,
+): ResolvedRegistry => ({
+  name,
+  url: config.url,
+  auth: config.tokenEnv ? env[config.tokenEnv] : undefined,
+});
+
+/**
+ * Resolves the `--registry` argument.
+ * Accepts a URL, an absolute path or the name of a registry from the configuration file.
+ *
+ * @param registryArg - The registry argument from command line (optional)
+ * @param registries - The named registries from the configuration file
+ * @param env - The environment variables to read auth tokens from (defaults to process.env)
+ * @returns A Result containing the resolved registry or an error message
+ *
+ * @example
+ * ```typescript
+ * const fallback = resolveRegistryArg(undefined, {});
+ * // Returns: Ok({ url: DEFAULT_REGISTRY })
+ *
+ * const unknown = resolveRegistryArg("missing", {});
+ * // Returns: Err('Unknown registry "missing". ...')
+ * ```
+ */
+export const resolveRegistryArg = (
+  registryArg: string | undefined,
+  registries: Record<string, RegistryConfig> = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Result<ResolvedRegistry, string> => {
+  if (!registryArg || registryArg.trim() === '') {
+    return Ok(DEFAULT_RESOLVED_REGISTRY);
+  }
+
+  const value = registryArg.trim();
+  const configured = registries[value];
+  if (configured) {
+    return Ok(createRegistryFromConfig(value, configured, env));
+  }
+  if (isRegistryLocation(value)) {
+    return Ok({ url: value });
+  }
+
+  return Err(createUnknownRegistryMessage(value, registries));
+};
+
+/**
+ * Creates the error message shown for an unknown registry name.
+ *
+ * @param name - The unknown registry name
+ * @param registries - The named registries from the configuration file
+ * @returns A formatted error message listing the configured registries
+ */
+export const createUnknownRegistryMessage = (name: string, registries: Record<string, RegistryConfig>): string => {
+  const configured = Object.keys(registries);
+  return configured.length > 0
+    ? `Unknown registry "${name}". Configured registries: ${configured.join(', ')}`
+    : `Unknown registry "${name}". Add it to the "registries" section of your configuration file.`;
+};
+
+/**
+ * Resolves a template argument to a template name and the registry it comes from.
+ * Supports the `registryName:template` syntax for named registries;
+ * bare names use the registry given with `--registry` (or the default registry).
+ *
+ * @param templateArg - The template argument (e.g. "nuxt4" or "internal:my-starter")
+ * @param defaultRegistry - The registry used for bare template names
+ * @param registries - The named registries from the configuration file
+ * @param env - The environment variables to read auth tokens from (defaults to process.env)
+ * @returns A Result containing the template selection or an error message
+ *
+ * @example
+ * ```typescript
+ * const bare = resolveTemplateReference("nuxt4", DEFAULT_RESOLVED_REGISTRY, {});
+ * // Returns: Ok({ name: "nuxt4", registry: { url: DEFAULT_REGISTRY } })
+ *
+ * const named = resolveTemplateReference("internal:my-starter", DEFAULT_RESOLVED_REGISTRY, {
+ *   internal: { url: "https://example.com" },
+ * });
+ * // Returns: Ok({ name: "my-starter", registry: { name: "internal", url: "https://example.com" } })
+ * ```
+ */
+export const resolveTemplateReference = (
+  templateArg: string,
+  defaultRegistry: ResolvedRegistry,
+  registries: Record<string, RegistryConfig> = {},
+  env: NodeJS.ProcessEnv = process.env,
+): Result<TemplateSelection, string> => {
+  const separatorIndex = templateArg.indexOf(':');
+  if (separatorIndex === -1) {
+    return Ok({ name: templateArg, registry: defaultRegistry });
+  }
+
+  const registryName = templateArg.slice(0, separatorIndex);
+  const name = templateArg.slice(separatorIndex + 1);
+  const configured = registries[registryName];
+  if (!configured) {
+    return Err(createUnknownRegistryMessage(registryName, registries));
+  }
+  if (name === '') {
+    return Err(`Template name is missing in "${templateArg}"`);
+  }
+
+  return Ok({ name, registry: createRegistryFromConfig(registryName, configured, env) });
+};
+
+/**
+ * Returns the giget provider of a git-hosted template source.
+ *
+ * @param templateArg - The template argument (e.g. "gh:org/repo/path#ref")
+ * @returns The provider name (e.g. "github"), or undefined if the argument has no provider prefix
+ *
+ * @example
+ * ```typescript
+ * getTemplateSourceProvider("gh:unjs/template#main"); // Returns: "github"
+ * getTemplateSourceProvider("internal:my-starter"); // Returns: undefined
+ * ```
+ */
+export const getTemplateSourceProvider = (templateArg: string): string | undefined => {
+  const prefix = templateArg.slice(0, templateArg.indexOf(':'));
+  return Object.hasOwn(TEMPLATE_SOURCE_PROVIDERS, prefix)
+    ? TEMPLATE_SOURCE_PROVIDERS[prefix as keyof typeof TEMPLATE_SOURCE_PROVIDERS]
+    : undefined;
+};
+
+/**
+ * Checks whether a template argument is a local path: a relative path starting with `./` or `../`,
+ * an absolute path or a `file:` URL.
+ *
+ * @param templateArg - The template argument to check
+ * @returns True if the template is read from the local file system
+ *
+ * @example
+ * ```typescript
+ * isLocalTemplateSource("./my-template"); // Returns: true
+ * isLocalTemplateSource("nuxt4"); // Returns: false
+ * ```
+ */
+export const isLocalTemplateSource = (templateArg: string): boolean =>
+  /^(?:\.{1,2}[/\\]|file:)/.test(templateArg) || isAbsolute(templateArg);
+
+/**
+ * Checks whether a template argument is a source (git-hosted or local) rather than a registry template.
+ * Provider prefixes take precedence over configured registries of the same name.
+ *
+ * @param templateArg - The template argument to check
+ * @returns True if the template is not downloaded from a registry
+ *
+ * @example
+ * ```typescript
+ * isTemplateSource("gitlab:org/repo"); // Returns: true
+ * isTemplateSource("internal:my-starter"); // Returns: false
+ * ```
+ */
+export const isTemplateSource = (templateArg: string): boolean =>
+  getTemplateSourceProvider(templateArg) !== undefined || isLocalTemplateSource(templateArg);
+
+/**
+ * Resolves a git-hosted or local template argument to a template selection without a registry.
+ * Local paths are made absolute, relative to the working directory.
+ *
+ * @param templateArg - The template argument (e.g. "gh:org/repo/path#ref" or "./my-template")
+ * @param cwd - The directory relative paths are resolved against (defaults to process.cwd())
+ * @returns A Result containing the template selection or an error message
+ *
+ * @example
+ * ```typescript
+ * const remote = resolveTemplateSource("gh:org/repo/templates/app#v2");
+ * // Returns: Ok({ name: "gh:org/repo/templates/app#v2", source: "gh:org/repo/templates/app#v2" })
+ *
+ * const local = resolveTemplateSource("./my-template", "/Users/john");
+ * // Returns: Ok({ name: "./my-template", source: "/Users/john/my-template" })
+ *
+ * const relativeUrl = resolveTemplateSource("file:../my-template", "/Users/john/work");
+ * // Returns: Ok({ name: "file:../my-template", source: "/Users/john/my-template" })
+ * ```
+ */
+export const resolveTemplateSource = (
+  templateArg: string,
+  cwd: string = process.cwd(),
+): Result<TemplateSelection, string> => {
+  if (isLocalTemplateSource(templateArg)) {
+    // Only file:// URLs are absolute; file:./path and file:../path are relative to the working directory
+    const path = templateArg.startsWith('file://') ? fileURLToPath(templateArg) : templateArg.replace(/^file:/, '');
+    return Ok({ name: templateArg, source: resolve(cwd, path) });
+  }
+
+  const repository = templateArg.slice(templateArg.indexOf(':') + 1).replace(/#.*$/, '');
+  if (!/^[^/]+\/[^/]+/.test(repository)) {
+    return Err(`Repository is missing in "${templateArg}". Use ${templateArg.split(':')[0]}:owner/repo[/path][#ref]`);
+  }
+
+  return Ok({ name: templateArg, source: templateArg });
+};
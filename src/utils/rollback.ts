@@ -0,0 +1,189 @@
+import { existsSync, readdirSync, renameSync, rmSync } from 'node:fs';
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import { join, relative } from 'pathe';
+import type { Result } from '../types/result';
+import { toError, tryCatch } from '../types/result';
+import { EXIT_CODES } from './constants';
+
+/**
+ * Interface describing the state of the project directory before the workflow touched it.
+ */
+export interface ProjectDirectorySnapshot {
+  /** Absolute path of the project directory */
+  readonly path: string;
+  /** Top-level entries that existed before, or undefined if the directory did not exist */
+  readonly entries: readonly string[] | undefined;
+}
+
+/**
+ * Interface describing everything the workflow changed in the project directory.
+ */
+export interface ProjectChanges {
+  /** Path the pre-existing directory was moved to, if any */
+  readonly backupPath?: string;
+  /** Whether the moved directory should be deleted once the project has been created */
+  readonly discardBackup?: boolean;
+  /** Files written into a pre-existing directory (relative paths) */
+  readonly writtenFiles?: readonly string[];
+}
+
+/**
+ * Interface of a project creation transaction.
+ * Records what the workflow created so that a failure can restore the previous state.
+ */
+export interface ProjectTransaction {
+  /** Records the path the pre-existing directory was moved to */
+  readonly recordBackup: (backupPath: string | undefined, discardBackup: boolean) => void;
+  /** Records files written into a pre-existing directory */
+  readonly recordWrittenFiles: (files: readonly string[]) => void;
+  /** Marks the project as created: removes rollback handlers and discarded backups */
+  readonly commit: () => void;
+  /** Restores the previous state (unless keepOnFailure is set) and removes rollback handlers */
+  readonly rollback: () => void;
+}
+
+/**
+ * Captures the state of the project directory before the workflow changes it.
+ *
+ * @param path - The absolute path of the project directory
+ * @returns A snapshot of the top-level entries of the directory
+ *
+ * @example
+ * ```typescript
+ * const snapshot = snapshotProjectDirectory("/Users/john/my-app");
+ * // Returns: { path: "/Users/john/my-app", entries: undefined } if the directory does not exist
+ * ```
+ */
+export const snapshotProjectDirectory = (path: string): ProjectDirectorySnapshot => ({
+  path,
+  entries: existsSync(path) ? readdirSync(path) : undefined,
+});
+
+/**
+ * Restores the project directory to the state captured in the snapshot.
+ * A directory that did not exist is removed; a directory that was moved aside is moved back;
+ * otherwise entries and files added by the workflow are removed.
+ * This function is synchronous so that it can run from a process `exit` handler.
+ *
+ * @param snapshot - The state of the project directory before the workflow
+ * @param changes - The changes recorded by the workflow
+ * @returns A Result indicating success or failure
+ *
+ * @example
+ * ```typescript
+ * const snapshot = snapshotProjectDirectory("/Users/john/my-app");
+ * // ... workflow fails ...
+ * rollbackProjectDirectory(snapshot, {});
+ * // The directory is removed again
+ * ```
+ */
+export const rollbackProjectDirectory = (
+  snapshot: ProjectDirectorySnapshot,
+  changes: ProjectChanges,
+): Result<void, Error> =>
+  tryCatch(() => {
+    if (changes.backupPath) {
+      rmSync(snapshot.path, { recursive: true, force: true });
+      renameSync(changes.backupPath, snapshot.path);
+    } else if (snapshot.entries === undefined) {
+      rmSync(snapshot.path, { recursive: true, force: true });
+    } else if (existsSync(snapshot.path)) {
+      const preExisting = new Set(snapshot.entries);
+      for (const entry of readdirSync(snapshot.path).filter((entry) => !preExisting.has(entry))) {
+        rmSync(join(snapshot.path, entry), { recursive: true, force: true });
+      }
+      for (const file of changes.writtenFiles ?? []) {
+        rmSync(join(snapshot.path, file), { force: true });
+      }
+    }
+  }, toError('Failed to roll back the project directory'));
+
+/**
+ * Starts a project creation transaction for the project directory.
+ * Until the transaction is committed, exiting the process (e.g. when the CLI reports an error) or pressing
+ * Ctrl+C removes what the workflow created, or restores the pre-existing directory.
+ * With keepOnFailure the partially created project is kept for debugging.
+ * Programs embedding the workflow can leave Ctrl+C handling to themselves with handleInterrupts.
+ *
+ * @param path - The absolute path of the project directory
+ * @param keepOnFailure - Whether to skip cleanup on failure (defaults to false)
+ * @param handleInterrupts - Whether Ctrl+C rolls back and exits the process (defaults to true)
+ * @returns The transaction used to record changes and to commit or roll back
+ *
+ * @example
+ * ```typescript
+ * const transaction = beginProjectTransaction("/Users/john/my-app");
+ * try {
+ *   await createProject();
+ *   transaction.commit();
+ * } catch (error) {
+ *   transaction.rollback();
+ * }
+ * ```
+ */
+export const beginProjectTransaction = (
+  path: string,
+  keepOnFailure = false,
+  handleInterrupts = true,
+): ProjectTransaction => {
+  const snapshot = snapshotProjectDirectory(path);
+  let changes: ProjectChanges = {};
+  let settled = false;
+
+  const settle = () => {
+    settled = true;
+    process.off('exit', onExit);
+    process.off('SIGINT', onSigint);
+  };
+
+  const rollback = () => {
+    if (settled) {
+      return;
+    }
+    settle();
+
+    const relativePath = relative(process.cwd(), path) || path;
+    if (keepOnFailure) {
+      consola.warn(`Kept the partially created project in ${colors.cyan(relativePath)} (--keep-on-failure).`);
+      return;
+    }
+
+    const result = rollbackProjectDirectory(snapshot, changes);
+    if (result.success) {
+      consola.info(`Rolled back the changes to ${colors.cyan(relativePath)}.`);
+    } else {
+      consola.error(`Failed to roll back ${colors.cyan(relativePath)}: ${result.error.message}`);
+    }
+  };
+
+  const onExit = () => rollback();
+  const onSigint = () => {
+    rollback();
+    process.exit(EXIT_CODES.CANCELLED);
+  };
+
+  process.on('exit', onExit);
+  if (handleInterrupts) {
+    process.on('SIGINT', onSigint);
+  }
+
+  return {
+    recordBackup: (backupPath, discardBackup) => {
+      changes = { ...changes, backupPath, discardBackup };
+    },
+    recordWrittenFiles: (files) => {
+      changes = { ...changes, writtenFiles: [...(changes.writtenFiles ?? []), ...files] };
+    },
+    commit: () => {
+      if (settled) {
+        return;
+      }
+      settle();
+      if (changes.backupPath && changes.discardBackup) {
+        rmSync(changes.backupPath, { recursive: true, force: true });
+      }
+    },
+    rollback,
+  };
+};
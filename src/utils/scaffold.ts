@@ -0,0 +1,151 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'pathe';
+import { version } from '../../package.json';
+import type { ScaffoldMetadata } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatch, tryCatchAsync } from '../types/result';
+import { PACKAGE_MANAGER_OPTIONS, SCAFFOLD_METADATA_PATH } from './constants';
+
+/**
+ * Optional string fields of the template section of the scaffold metadata.
+ */
+const OPTIONAL_TEMPLATE_FIELDS = ['registry', 'ref', 'commit'] as const;
+
+/**
+ * Creates the metadata recorded in a new project.
+ * Template fields without a value (e.g. the commit of a registry template) are left out.
+ *
+ * @param details - The template the project is created from, its enabled features and its variables
+ * @param now - The creation date (defaults to the current date)
+ * @returns The scaffold metadata
+ *
+ * @example
+ * ```typescript
+ * const metadata = createScaffoldMetadata({
+ *   template: { name: "nuxt4", source: "gh:xeikit/starter-templates/packages/nuxt4", ref: "v2.1.0", commit: "3f2c9a..." },
+ *   features: ["hono"],
+ *   variables: { projectName: "my-app", year: 2026 },
+ * });
+ * // Returns: { cliVersion: "1.2.4", createdAt: "2026-10-19T09:00:00.000Z", template: { name: "nuxt4", ... }, ... }
+ * ```
+ */
+export const createScaffoldMetadata = (
+  details: Pick<ScaffoldMetadata, 'template' | 'features' | 'variables'>,
+  now: Date = new Date(),
+): ScaffoldMetadata => ({
+  cliVersion: version,
+  createdAt: now.toISOString(),
+  template: Object.fromEntries(
+    Object.entries(details.template).filter(([, value]) => value !== undefined),
+  ) as ScaffoldMetadata['template'],
+  features: details.features,
+  variables: details.variables,
+});
+
+/**
+ * Validates the parsed contents of a scaffold metadata file.
+ * Unknown fields are ignored so that files written by newer CLI versions keep working.
+ *
+ * @param raw - The parsed JSON contents of the file
+ * @returns A Result containing the metadata or an error message naming the invalid field
+ *
+ * @example
+ * ```typescript
+ * const invalid = validateScaffoldMetadata({ cliVersion: "1.2.4", createdAt: "2026-10-19T09:00:00.000Z" });
+ * // Returns: Err("template: expected an object with a name and a source")
+ * ```
+ */
+export const validateScaffoldMetadata = (raw: unknown): Result<ScaffoldMetadata, string> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return Err('The scaffold metadata must be a JSON object');
+  }
+
+  const {
+    cliVersion,
+    createdAt,
+    template,
+    features = [],
+    variables = {},
+    packageManager,
+  } = raw as Record<string, unknown>;
+  if (typeof cliVersion !== 'string' || typeof createdAt !== 'string') {
+    return Err('cliVersion and createdAt: expected strings');
+  }
+  const { name, source, ...optional } = (template ?? {}) as Record<string, unknown>;
+  if (typeof name !== 'string' || typeof source !== 'string') {
+    return Err('template: expected an object with a name and a source');
+  }
+  const invalidField = OPTIONAL_TEMPLATE_FIELDS.find(
+    (field) => optional[field] !== undefined && typeof optional[field] !== 'string',
+  );
+  if (invalidField) {
+    return Err(`template.${invalidField}: expected a string`);
+  }
+  if (!Array.isArray(features) || !features.every((feature) => typeof feature === 'string')) {
+    return Err('features: expected a list of names');
+  }
+  if (
+    typeof variables !== 'object' ||
+    variables === null ||
+    !Object.values(variables).every((value) => ['string', 'number', 'boolean'].includes(typeof value))
+  ) {
+    return Err('variables: expected an object of strings, numbers and booleans');
+  }
+  if (packageManager !== undefined && !(PACKAGE_MANAGER_OPTIONS as unknown[]).includes(packageManager)) {
+    return Err(`packageManager: expected one of ${PACKAGE_MANAGER_OPTIONS.join(', ')}`);
+  }
+
+  return Ok(raw as ScaffoldMetadata);
+};
+
+/**
+ * Reads and validates the scaffold metadata of a project (see SCAFFOLD_METADATA_PATH).
+ *
+ * @param dir - The project directory
+ * @returns A Promise that resolves to a Result containing the metadata, or an error when the file is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * const result = await readScaffoldMetadata("./my-app");
+ * if (isOk(result)) {
+ *   console.log(result.data.template.commit); // "3f2c9a..."
+ * }
+ * ```
+ */
+export const readScaffoldMetadata = async (dir: string): Promise<Result<ScaffoldMetadata, Error>> => {
+  const path = join(dir, SCAFFOLD_METADATA_PATH);
+  let contents: string;
+  try {
+    contents = await readFile(path, 'utf8');
+  } catch {
+    return Err(new Error(`${SCAFFOLD_METADATA_PATH} not found in ${dir}: the project was not created by this CLI`));
+  }
+
+  const parsed = tryCatch((): unknown => JSON.parse(contents), toError('Invalid JSON'));
+  if (!isOk(parsed)) {
+    return Err(new Error(`${SCAFFOLD_METADATA_PATH}: ${parsed.error.message}`));
+  }
+  const validation = validateScaffoldMetadata(parsed.data);
+  return isOk(validation) ? validation : Err(new Error(`${SCAFFOLD_METADATA_PATH}: ${validation.error}`));
+};
+
+/**
+ * Writes the scaffold metadata into a project directory (see SCAFFOLD_METADATA_PATH).
+ *
+ * @param dir - The project directory (or the staging directory it is merged from)
+ * @param metadata - The metadata to write
+ * @returns A Promise that resolves to a Result indicating success or failure
+ *
+ * @example
+ * ```typescript
+ * const metadata = createScaffoldMetadata({ template: { name: "nuxt4", source: "nuxt4" }, features: [], variables: {} });
+ * const result = await writeScaffoldMetadata("./my-app", metadata);
+ * // Writes ./my-app/.xeikit/scaffold.json
+ * ```
+ */
+export const writeScaffoldMetadata = async (dir: string, metadata: ScaffoldMetadata): Promise<Result<void, Error>> =>
+  tryCatchAsync(async () => {
+    const path = join(dir, SCAFFOLD_METADATA_PATH);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, `${JSON.stringify(metadata, null, 2)}\n`);
+  }, toError('Failed to write the scaffold metadata'));
@@ -0,0 +1,236 @@
+import { createHash } from 'node:crypto';
+import { cp, mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import type { DownloadTemplateResult } from 'giget';
+import { join } from 'pathe';
+import type { TemplateCacheEntry, TemplateCacheMetadata } from '../types/cli';
+import type { Result } from '../types/result';
+import { fromPromise, toError, tryCatchAsync } from '../types/result';
+import { resolveCacheDir } from './paths';
+
+/**
+ * Name of the metadata file stored in every template cache entry.
+ */
+const METADATA_FILE_NAME = 'meta.json';
+
+/**
+ * Name of the directory holding the template files in every template cache entry.
+ */
+const FILES_DIR_NAME = 'files';
+
+/**
+ * Resolves the directory holding all cached templates.
+ *
+ * @param cacheDir - The CLI cache directory (defaults to the per-user cache directory)
+ * @returns The absolute path of the template cache directory
+ *
+ * @example
+ * ```typescript
+ * const dir = getTemplateCacheDir("/tmp/cache");
+ * // Returns: "/tmp/cache/templates"
+ * ```
+ */
+export const getTemplateCacheDir = (cacheDir: string = resolveCacheDir()): string => join(cacheDir, 'templates');
+
+/**
+ * Creates the cache key of a template from its registry, name and ref.
+ *
+ * @param registry - The registry URL the template comes from
+ * @param template - The template name
+ * @param ref - The template ref (optional)
+ * @returns A short, filesystem-safe hash identifying the template
+ *
+ * @example
+ * ```typescript
+ * const key = createTemplateCacheKey(DEFAULT_REGISTRY, "nuxt4");
+ * // Returns: "a1b2c3d4e5f60718"
+ * ```
+ */
+export const createTemplateCacheKey = (registry: string, template: string, ref?: string): string =>
+  createHash('sha256')
+    .update([registry, template, ref ?? ''].join('\0'))
+    .digest('hex')
+    .slice(0, 16);
+
+/**
+ * Reads a single template cache entry from its directory.
+ *
+ * @param path - The absolute path of the cache entry directory
+ * @param key - The cache key of the entry
+ * @returns A Promise that resolves to the entry, or undefined if it is missing or corrupt
+ */
+const readTemplateCacheEntryAt = async (path: string, key: string): Promise<TemplateCacheEntry | undefined> => {
+  try {
+    const metadata: TemplateCacheMetadata = JSON.parse(await readFile(join(path, METADATA_FILE_NAME), 'utf8'));
+    if (typeof metadata.registry !== 'string' || typeof metadata.template !== 'string') {
+      return undefined;
+    }
+    return { ...metadata, key, path };
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Looks up a template in the offline cache.
+ *
+ * @param registry - The registry URL the template comes from
+ * @param template - The template name
+ * @param ref - The template ref (optional)
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to the cache entry, or undefined on a cache miss
+ *
+ * @example
+ * ```typescript
+ * const entry = await readTemplateCacheEntry(DEFAULT_REGISTRY, "nuxt4");
+ * if (entry) {
+ *   console.log(`Cached at ${new Date(entry.cachedAt).toISOString()}`);
+ * }
+ * ```
+ */
+export const readTemplateCacheEntry = async (
+  registry: string,
+  template: string,
+  ref?: string,
+  cacheDir?: string,
+): Promise<TemplateCacheEntry | undefined> => {
+  const key = createTemplateCacheKey(registry, template, ref);
+  return readTemplateCacheEntryAt(join(getTemplateCacheDir(cacheDir), key), key);
+};
+
+/**
+ * Stores a downloaded template in the offline cache, replacing any previous entry.
+ *
+ * @param sourceDir - The directory the template was downloaded to
+ * @param metadata - The metadata describing the template
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to a Result containing the new cache entry or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await storeTemplateInCache("./my-app", {
+ *   registry: DEFAULT_REGISTRY,
+ *   template: "nuxt4",
+ *   cachedAt: Date.now(),
+ *   result: { name: "nuxt4", tar: "...", source: "nuxt4" },
+ * });
+ * ```
+ */
+export const storeTemplateInCache = async (
+  sourceDir: string,
+  metadata: TemplateCacheMetadata,
+  cacheDir?: string,
+): Promise<Result<TemplateCacheEntry, Error>> => {
+  const key = createTemplateCacheKey(metadata.registry, metadata.template, metadata.ref);
+  const path = join(getTemplateCacheDir(cacheDir), key);
+  return tryCatchAsync(async () => {
+    await rm(path, { recursive: true, force: true });
+    await mkdir(path, { recursive: true });
+    await cp(sourceDir, join(path, FILES_DIR_NAME), { recursive: true });
+    await writeFile(join(path, METADATA_FILE_NAME), JSON.stringify(metadata, null, 2));
+    return { ...metadata, key, path };
+  }, toError('Failed to cache template'));
+};
+
+/**
+ * Resolves the directory holding the files of a cached template.
+ *
+ * @param entry - The cache entry
+ * @returns The absolute path of the template files
+ *
+ * @example
+ * ```typescript
+ * const dir = getTemplateCacheFilesDir(entry);
+ * // Returns: "/Users/john/.cache/create-xeikit-app/templates/a1b2c3d4e5f60718/files"
+ * ```
+ */
+export const getTemplateCacheFilesDir = (entry: TemplateCacheEntry): string => join(entry.path, FILES_DIR_NAME);
+
+/**
+ * Copies a cached template into the target directory.
+ *
+ * @param entry - The cache entry to restore
+ * @param targetDir - The directory the template should be copied to
+ * @returns A Promise that resolves to a Result containing a giget-compatible download result or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await restoreTemplateFromCache(entry, "./my-app");
+ * if (isOk(result)) {
+ *   console.log(`Restored ${result.data.source} to ${result.data.dir}`);
+ * }
+ * ```
+ */
+export const restoreTemplateFromCache = async (
+  entry: TemplateCacheEntry,
+  targetDir: string,
+): Promise<Result<DownloadTemplateResult, Error>> =>
+  fromPromise(
+    cp(getTemplateCacheFilesDir(entry), targetDir, { recursive: true }),
+    toError('Failed to restore template from cache'),
+  ).map(() => ({ ...entry.result, dir: targetDir }));
+
+/**
+ * Lists all cached templates, newest first.
+ *
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to the list of cache entries
+ *
+ * @example
+ * ```typescript
+ * const entries = await listTemplateCacheEntries();
+ * entries.forEach((entry) => console.log(entry.template));
+ * ```
+ */
+export const listTemplateCacheEntries = async (cacheDir?: string): Promise<TemplateCacheEntry[]> => {
+  const templatesDir = getTemplateCacheDir(cacheDir);
+  let keys: string[];
+  try {
+    keys = await readdir(templatesDir);
+  } catch {
+    return [];
+  }
+
+  const entries = await Promise.all(keys.map((key) => readTemplateCacheEntryAt(join(templatesDir, key), key)));
+  return entries
+    .filter((entry): entry is TemplateCacheEntry => entry !== undefined)
+    .sort((a, b) => b.cachedAt - a.cachedAt);
+};
+
+/**
+ * Removes cached templates older than the given age.
+ *
+ * @param maxAge - The maximum age of kept entries in milliseconds
+ * @param cacheDir - The CLI cache directory (optional)
+ * @param now - The current timestamp in milliseconds (defaults to Date.now())
+ * @returns A Promise that resolves to the removed entries
+ *
+ * @example
+ * ```typescript
+ * const removed = await pruneTemplateCache(30 * 24 * 60 * 60 * 1000);
+ * console.log(`Removed ${removed.length} cached templates`);
+ * ```
+ */
+export const pruneTemplateCache = async (
+  maxAge: number,
+  cacheDir?: string,
+  now: number = Date.now(),
+): Promise<TemplateCacheEntry[]> => {
+  const expired = (await listTemplateCacheEntries(cacheDir)).filter((entry) => now - entry.cachedAt > maxAge);
+  await Promise.all(expired.map((entry) => rm(entry.path, { recursive: true, force: true })));
+  return expired;
+};
+
+/**
+ * Removes everything from the CLI cache directory (templates and catalogs).
+ *
+ * @param cacheDir - The CLI cache directory (defaults to the per-user cache directory)
+ * @returns A Promise that resolves once the cache directory is removed
+ *
+ * @example
+ * ```typescript
+ * await clearCache();
+ * ```
+ */
+export const clearCache = async (cacheDir: string = resolveCacheDir()): Promise<void> => {
+  await rm(cacheDir, { recursive: true, force: true });
+};
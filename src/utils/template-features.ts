@@ -0,0 +1,375 @@
+import { existsSync } from 'node:fs';
+import { cp, rm } from 'node:fs/promises';
+import consola from 'consola';
+import { isAbsolute, join, normalize } from 'pathe';
+import { readPackageJSON, writePackageJSON } from 'pkg-types';
+import type { InvalidArgumentError } from '../types/api';
+import type { TemplateFeatureDefinition, TemplateFeaturePackageField, TemplateOptions } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { TEMPLATE_FEATURES_DIR } from './constants';
+import { createCancelledError, createInvalidArgumentError } from './errors';
+
+/**
+ * Pattern of a valid feature name.
+ */
+const FEATURE_NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+/**
+ * Fields of package.json a feature may merge into the project.
+ */
+const FEATURE_PACKAGE_FIELDS: readonly TemplateFeaturePackageField[] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'scripts',
+];
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a non-null, non-array object
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks whether a value is an array of strings.
+ *
+ * @param value - The value to check
+ * @returns True if the value is an array containing only strings
+ */
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Checks whether a path stays inside the project directory.
+ *
+ * @param path - The relative path to check
+ * @returns True if the path is relative and does not leave the project directory
+ */
+const isProjectRelativePath = (path: string): boolean => {
+  const normalized = normalize(path);
+  return path !== '' && !isAbsolute(path) && normalized !== '..' && !normalized.startsWith('../');
+};
+
+/**
+ * Validates a single feature definition of the template manifest.
+ *
+ * @param name - The feature name
+ * @param raw - The raw definition
+ * @param names - The names of all declared features
+ * @returns A Result containing the definition, or an error message
+ */
+const validateTemplateFeature = (
+  name: string,
+  raw: unknown,
+  names: readonly string[],
+): Result<TemplateFeatureDefinition, string> => {
+  if (!FEATURE_NAME_PATTERN.test(name)) {
+    return Err(`Invalid feature name "${name}": use letters, digits, "-" and "_" only`);
+  }
+  if (!isPlainObject(raw)) {
+    return Err(`Invalid feature "${name}": the definition must be an object`);
+  }
+
+  const feature = raw as TemplateFeatureDefinition;
+  if (feature.remove !== undefined && !(isStringArray(feature.remove) && feature.remove.every(isProjectRelativePath))) {
+    return Err(`Invalid feature "${name}": "remove" must be an array of paths inside the project`);
+  }
+  for (const key of ['requires', 'conflicts'] as const) {
+    const references = feature[key];
+    if (references === undefined) {
+      continue;
+    }
+    if (!isStringArray(references)) {
+      return Err(`Invalid feature "${name}": "${key}" must be an array of feature names`);
+    }
+    const unknown = references.find((reference) => !names.includes(reference) || reference === name);
+    if (unknown !== undefined) {
+      return Err(`Invalid feature "${name}": "${key}" references unknown feature "${unknown}"`);
+    }
+  }
+  if (feature.package !== undefined) {
+    const invalidField = isPlainObject(feature.package)
+      ? Object.entries(feature.package).find(
+          ([field, entries]) =>
+            !FEATURE_PACKAGE_FIELDS.includes(field as TemplateFeaturePackageField) ||
+            !isPlainObject(entries) ||
+            !Object.values(entries).every((value) => typeof value === 'string'),
+        )?.[0]
+      : 'package';
+    if (invalidField !== undefined) {
+      return Err(
+        `Invalid feature "${name}": "package" may only contain ${FEATURE_PACKAGE_FIELDS.join(', ')} objects of strings`,
+      );
+    }
+  }
+  return Ok(feature);
+};
+
+/**
+ * Validates the features declared in a template manifest.
+ *
+ * @param raw - The raw `features` value of the manifest
+ * @returns A Result containing the features by name, or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateTemplateFeatures({ docker: { requires: ["hono"] }, hono: {} });
+ * // Returns: Ok({ docker: { requires: ["hono"] }, hono: {} })
+ *
+ * const invalid = validateTemplateFeatures({ docker: { requires: ["k8s"] } });
+ * // Returns: Err('Invalid feature "docker": "requires" references unknown feature "k8s"')
+ * ```
+ */
+export const validateTemplateFeatures = (raw: unknown): Result<Record<string, TemplateFeatureDefinition>, string> => {
+  if (!isPlainObject(raw)) {
+    return Err('"features" must be an object');
+  }
+
+  const names = Object.keys(raw);
+  for (const [name, feature] of Object.entries(raw)) {
+    const validation = validateTemplateFeature(name, feature, names);
+    if (!isOk(validation)) {
+      return validation;
+    }
+  }
+  return Ok(raw as Record<string, TemplateFeatureDefinition>);
+};
+
+/**
+ * Parses the `--features a,b` argument.
+ *
+ * @param value - The `--features` argument (undefined when not given)
+ * @returns The feature names, or undefined when the argument was not given
+ *
+ * @example
+ * ```typescript
+ * parseFeaturesArg("hono, tailwind"); // Returns: ["hono", "tailwind"]
+ * parseFeaturesArg(""); // Returns: [] (no features)
+ * parseFeaturesArg(undefined); // Returns: undefined (use the defaults)
+ * ```
+ */
+export const parseFeaturesArg = (value: string | undefined): string[] | undefined =>
+  value === undefined
+    ? undefined
+    : value
+        .split(',')
+        .map((name) => name.trim())
+        .filter((name) => name !== '');
+
+/**
+ * Completes a feature selection with the features it requires and checks it for conflicts.
+ * Features are returned in the order they are declared in the manifest.
+ *
+ * @param features - The features declared in the manifest
+ * @param selected - The selected feature names
+ * @returns A Result containing the complete selection, or an InvalidArgumentError for unknown or conflicting features
+ *
+ * @example
+ * ```typescript
+ * const result = resolveFeatureDependencies({ hono: {}, docker: { requires: ["hono"] } }, ["docker"]);
+ * // Returns: Ok(["hono", "docker"])
+ * // Logs: "Added hono (required by docker)."
+ * ```
+ */
+export const resolveFeatureDependencies = (
+  features: Record<string, TemplateFeatureDefinition>,
+  selected: readonly string[],
+): Result<string[], InvalidArgumentError> => {
+  const names = Object.keys(features);
+  const unknown = selected.filter((name) => !names.includes(name));
+  if (unknown.length > 0) {
+    return Err(
+      createInvalidArgumentError(
+        `Unknown features: ${unknown.join(', ')} (available: ${names.join(', ') || 'none'})`,
+        'features',
+      ),
+    );
+  }
+
+  const resolved = new Set(selected);
+  const pending = [...selected];
+  for (let name = pending.shift(); name !== undefined; name = pending.shift()) {
+    for (const required of features[name]?.requires ?? []) {
+      if (!resolved.has(required)) {
+        consola.info(`Added ${required} (required by ${name}).`);
+        resolved.add(required);
+        pending.push(required);
+      }
+    }
+  }
+
+  for (const name of resolved) {
+    const conflict = features[name]?.conflicts?.find((other) => resolved.has(other));
+    if (conflict !== undefined) {
+      return Err(
+        createInvalidArgumentError(`Features ${name} and ${conflict} cannot be selected together`, 'features'),
+      );
+    }
+  }
+  return Ok(names.filter((name) => resolved.has(name)));
+};
+
+/**
+ * Creates the options of the feature multiselect prompt.
+ *
+ * @param features - The features declared in the manifest
+ * @returns The options with labels and descriptions as hints
+ *
+ * @example
+ * ```typescript
+ * createFeatureSelectOptions({ docker: { label: "Docker", description: "Dockerfile" } });
+ * // Returns: [{ label: "Docker", value: "docker", hint: "Dockerfile" }]
+ * ```
+ */
+export const createFeatureSelectOptions = (features: Record<string, TemplateFeatureDefinition>): TemplateOptions[] =>
+  Object.entries(features).map(([name, feature]) => ({
+    label: feature.label ?? name,
+    value: name,
+    ...(feature.description && { hint: feature.description }),
+  }));
+
+/**
+ * Prompts the user to select features until the selection has no conflicts.
+ *
+ * @param features - The features declared in the manifest
+ * @returns A Promise that resolves to a Result containing the selected features (with their requirements) or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await promptForTemplateFeatures({ hono: { default: true }, docker: {} });
+ * if (isOk(result)) {
+ *   console.log(`Features: ${result.data.join(", ")}`);
+ * }
+ * ```
+ */
+export const promptForTemplateFeatures = async (
+  features: Record<string, TemplateFeatureDefinition>,
+): Promise<Result<string[], Error>> => {
+  const defaults = Object.keys(features).filter((name) => features[name]?.default);
+
+  try {
+    for (;;) {
+      const answer = await consola.prompt('Select features', {
+        type: 'multiselect',
+        options: createFeatureSelectOptions(features),
+        initial: defaults,
+        required: false,
+        cancel: 'reject',
+      });
+      const selected = (answer as Array<string | { value: string }>).map((option) =>
+        typeof option === 'string' ? option : option.value,
+      );
+      const resolution = resolveFeatureDependencies(features, selected);
+      if (isOk(resolution)) {
+        return resolution;
+      }
+      consola.error(resolution.error.message);
+    }
+  } catch (error) {
+    return Err(error instanceof Error ? error : createCancelledError('Feature selection cancelled'));
+  }
+};
+
+/**
+ * Determines the features of the new project.
+ * Uses `--features` when given, otherwise prompts with the default features preselected,
+ * or uses the default features without prompts. Required features are added automatically.
+ *
+ * @param features - The features declared in the manifest
+ * @param featuresArg - The `--features` argument (optional)
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing the selected features, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await resolveTemplateFeatures(manifest.features, "docker", true);
+ * // Returns: Ok(["hono", "docker"])
+ * ```
+ */
+export const resolveTemplateFeatures = async (
+  features: Record<string, TemplateFeatureDefinition>,
+  featuresArg: string | undefined,
+  nonInteractive = false,
+): Promise<Result<string[], Error>> => {
+  const requested = parseFeaturesArg(featuresArg);
+  if (Object.keys(features).length === 0) {
+    if (requested?.length) {
+      consola.warn('The template does not declare features, ignoring --features.');
+    }
+    return Ok([]);
+  }
+
+  if (requested !== undefined) {
+    return resolveFeatureDependencies(features, requested);
+  }
+  if (nonInteractive) {
+    return resolveFeatureDependencies(
+      features,
+      Object.keys(features).filter((name) => features[name]?.default),
+    );
+  }
+  return promptForTemplateFeatures(features);
+};
+
+/**
+ * Merges the package.json fragment of a feature into the project's package.json.
+ *
+ * @param dir - The project directory
+ * @param fragment - The dependencies and scripts of the feature
+ */
+const mergeFeaturePackage = async (
+  dir: string,
+  fragment: NonNullable<TemplateFeatureDefinition['package']>,
+): Promise<void> => {
+  const packageJsonPath = join(dir, 'package.json');
+  const pkg = existsSync(packageJsonPath) ? await readPackageJSON(packageJsonPath) : {};
+  for (const field of FEATURE_PACKAGE_FIELDS) {
+    if (fragment[field]) {
+      pkg[field] = { ...(pkg[field] as Record<string, string> | undefined), ...fragment[field] };
+    }
+  }
+  await writePackageJSON(packageJsonPath, pkg);
+};
+
+/**
+ * Applies the selected features to a downloaded template.
+ * For every selected feature (in manifest order) the `remove` paths are deleted, the files in
+ * `_features/<name>/` are copied into the project (replacing existing files) and its dependencies
+ * and scripts are merged into package.json. The `_features` directory is removed afterwards.
+ *
+ * @param dir - The directory the template was downloaded to
+ * @param features - The features declared in the manifest
+ * @param selected - The selected features (see resolveTemplateFeatures)
+ * @returns A Promise that resolves to a Result containing the applied features, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await applyTemplateFeatures("./my-app", manifest.features, ["hono", "docker"]);
+ * // Copies _features/hono and _features/docker into ./my-app and merges their package.json fragments
+ * ```
+ */
+export const applyTemplateFeatures = async (
+  dir: string,
+  features: Record<string, TemplateFeatureDefinition>,
+  selected: readonly string[],
+): Promise<Result<string[], Error>> => {
+  const featuresDir = join(dir, TEMPLATE_FEATURES_DIR);
+  return tryCatchAsync(async () => {
+    for (const name of selected) {
+      const feature = features[name] ?? {};
+      await Promise.all((feature.remove ?? []).map((path) => rm(join(dir, path), { recursive: true, force: true })));
+      if (existsSync(join(featuresDir, name))) {
+        await cp(join(featuresDir, name), dir, { recursive: true, force: true });
+      }
+      if (feature.package) {
+        await mergeFeaturePackage(dir, feature.package);
+      }
+    }
+    await rm(featuresDir, { recursive: true, force: true });
+    return [...selected];
+  }, toError('Failed to apply the template features'));
+};
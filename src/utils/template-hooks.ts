@@ -0,0 +1,276 @@
+import consola from 'consola';
+import { colors } from 'consola/utils';
+import { x } from 'tinyexec';
+import type { TemplateHookDefinition, TemplateHookResult, TemplateHookStage } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { createCancelledError } from './errors';
+
+/**
+ * Stages at which template hooks can run, in workflow order.
+ */
+const TEMPLATE_HOOK_STAGES: readonly TemplateHookStage[] = ['postDownload', 'postInstall', 'postGitInit'];
+
+/**
+ * User-friendly descriptions of the hook stages, used in prompts and logs.
+ */
+const TEMPLATE_HOOK_STAGE_LABELS: Record<TemplateHookStage, string> = {
+  postDownload: 'after download',
+  postInstall: 'after install',
+  postGitInit: 'after git init',
+};
+
+/**
+ * Normalizes a single hook of the template manifest.
+ *
+ * @param raw - The raw hook (a command string or a hook object)
+ * @returns The hook definition, or undefined if the hook is invalid
+ */
+const normalizeTemplateHook = (raw: unknown): TemplateHookDefinition | undefined => {
+  if (typeof raw === 'string') {
+    return raw.trim() === '' ? undefined : { run: raw };
+  }
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return undefined;
+  }
+
+  const { run, description, required } = raw as Record<string, unknown>;
+  if (
+    typeof run !== 'string' ||
+    run.trim() === '' ||
+    (description !== undefined && typeof description !== 'string') ||
+    (required !== undefined && typeof required !== 'boolean')
+  ) {
+    return undefined;
+  }
+  return raw as TemplateHookDefinition;
+};
+
+/**
+ * Validates the hooks declared in a template manifest.
+ * Hooks written as plain command strings are converted into hook objects.
+ *
+ * @param raw - The raw `hooks` value of the manifest
+ * @returns A Result containing the hooks by stage, or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateTemplateHooks({ postInstall: ["nuxi prepare", { run: "pnpm codegen", required: true }] });
+ * // Returns: Ok({ postInstall: [{ run: "nuxi prepare" }, { run: "pnpm codegen", required: true }] })
+ *
+ * const invalid = validateTemplateHooks({ postBuild: [] });
+ * // Returns: Err('Invalid hook stage "postBuild": use postDownload, postInstall or postGitInit')
+ * ```
+ */
+export const validateTemplateHooks = (
+  raw: unknown,
+): Result<Partial<Record<TemplateHookStage, TemplateHookDefinition[]>>, string> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return Err('"hooks" must be an object');
+  }
+
+  const hooks: Partial<Record<TemplateHookStage, TemplateHookDefinition[]>> = {};
+  for (const [stage, stageHooks] of Object.entries(raw)) {
+    if (!TEMPLATE_HOOK_STAGES.includes(stage as TemplateHookStage)) {
+      return Err(`Invalid hook stage "${stage}": use postDownload, postInstall or postGitInit`);
+    }
+    const normalized = Array.isArray(stageHooks) ? stageHooks.map(normalizeTemplateHook) : [undefined];
+    if (normalized.includes(undefined)) {
+      return Err(`Invalid hooks "${stage}": use an array of commands or { "run": "<command>" } objects`);
+    }
+    hooks[stage as TemplateHookStage] = normalized as TemplateHookDefinition[];
+  }
+  return Ok(hooks);
+};
+
+/**
+ * Formats a hook for display, preferring its description.
+ *
+ * @param hook - The hook to format
+ * @returns The description and the command, or only the command
+ */
+const formatTemplateHook = (hook: TemplateHookDefinition): string =>
+  hook.description ? `${hook.description} ${colors.dim(`(${hook.run})`)}` : hook.run;
+
+/**
+ * Shows the hooks of a stage and asks the user whether to run them.
+ *
+ * @param stage - The stage the hooks belong to
+ * @param hooks - The hooks of the stage
+ * @returns A Promise that resolves to a Result containing the answer or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await promptForTemplateHooks("postInstall", [{ run: "nuxi prepare" }]);
+ * // Logs: "The template runs these commands after install:" followed by the commands
+ * // Asks: "Run them?"
+ * ```
+ */
+export const promptForTemplateHooks = async (
+  stage: TemplateHookStage,
+  hooks: readonly TemplateHookDefinition[],
+): Promise<Result<boolean, Error>> => {
+  consola.info(
+    `The template runs these commands ${TEMPLATE_HOOK_STAGE_LABELS[stage]}:\n${hooks.map((hook) => `  ${formatTemplateHook(hook)}`).join('\n')}`,
+  );
+
+  try {
+    const answer = await consola.prompt('Run them?', {
+      type: 'confirm',
+      initial: true,
+      cancel: 'reject',
+    });
+    return Ok(answer);
+  } catch (error) {
+    return Err(error instanceof Error ? error : createCancelledError('Template hooks prompt cancelled'));
+  }
+};
+
+/**
+ * Runs a hook command through the shell in the project directory.
+ * The output of the command is shown to the user unless it is silenced.
+ *
+ * @param hook - The hook to run
+ * @param dir - The project directory
+ * @param silent - Whether the output of the command is hidden (defaults to false)
+ * @returns A Promise that resolves to a Result indicating success, or the error of the command
+ *
+ * @example
+ * ```typescript
+ * const result = await executeTemplateHook({ run: "cp .env.example .env" }, "./my-app");
+ * ```
+ */
+export const executeTemplateHook = async (
+  hook: TemplateHookDefinition,
+  dir: string,
+  silent = false,
+): Promise<Result<void, Error>> =>
+  tryCatchAsync(
+    () =>
+      x(hook.run, [], {
+        throwOnError: true,
+        nodeOptions: { cwd: dir, shell: true, stdio: silent ? 'pipe' : 'inherit' },
+      }),
+    toError(`Command failed: ${hook.run}`),
+  ).map(() => undefined);
+
+/**
+ * Options used when running template hooks.
+ */
+export interface TemplateHookOptions {
+  /** Whether hooks may run: false with `--no-hooks`, true with `--hooks`, undefined when not given */
+  readonly enabled?: boolean;
+  /** Whether prompts are disabled; hooks then only run when explicitly enabled */
+  readonly nonInteractive?: boolean;
+  /** Whether the output of the commands is hidden (used with `--json`) */
+  readonly silent?: boolean;
+}
+
+/**
+ * Determines whether template hooks may run. Template hooks are arbitrary shell commands, so
+ * without prompts to confirm them they only run when `--hooks` is given explicitly.
+ *
+ * @param enabled - The `--hooks` argument (undefined when not given)
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns True if the hooks may run (after confirmation when prompts are enabled)
+ *
+ * @example
+ * ```typescript
+ * resolveTemplateHooksEnabled(undefined, true); // false
+ * resolveTemplateHooksEnabled(true, true); // true
+ * ```
+ */
+export const resolveTemplateHooksEnabled = (enabled: boolean | undefined, nonInteractive = false): boolean =>
+  enabled ?? !nonInteractive;
+
+/**
+ * Runs the hooks of a stage after the user confirmed them.
+ * Hooks are skipped with `--no-hooks` or when the user declines. Without prompts they are skipped
+ * unless `--hooks` is given, which runs them without confirmation. A failing hook is reported
+ * and the remaining hooks still run, unless the hook is marked as required: then the failure
+ * is returned as an error and aborts project creation.
+ *
+ * @param stage - The stage to run the hooks of
+ * @param hooks - The hooks declared in the template manifest, by stage
+ * @param dir - The project directory
+ * @param options - Whether hooks are enabled and whether prompts are disabled
+ * @returns A Promise that resolves to a Result containing the outcome of every hook, or the error of a required hook
+ *
+ * @example
+ * ```typescript
+ * const result = await runTemplateHooks("postInstall", manifest.hooks, "./my-app", { enabled: true });
+ * if (isOk(result)) {
+ *   console.log(result.data.filter((hook) => hook.status === "failed"));
+ * }
+ * ```
+ */
+export const runTemplateHooks = async (
+  stage: TemplateHookStage,
+  hooks: Partial<Record<TemplateHookStage, TemplateHookDefinition[]>>,
+  dir: string,
+  options: TemplateHookOptions = {},
+): Promise<Result<TemplateHookResult[], Error>> => {
+  const stageHooks = hooks[stage] ?? [];
+  const skipAll = (): TemplateHookResult[] => stageHooks.map((hook) => ({ stage, run: hook.run, status: 'skipped' }));
+  if (stageHooks.length === 0) {
+    return Ok([]);
+  }
+  if (!resolveTemplateHooksEnabled(options.enabled, options.nonInteractive)) {
+    const reason = options.enabled === false ? '--no-hooks' : 'pass --hooks to run them without prompts';
+    consola.info(`Skipping ${stageHooks.length} template hook(s) ${TEMPLATE_HOOK_STAGE_LABELS[stage]} (${reason}).`);
+    return Ok(skipAll());
+  }
+
+  if (!options.nonInteractive) {
+    const confirmed = await promptForTemplateHooks(stage, stageHooks);
+    if (!isOk(confirmed)) {
+      return confirmed;
+    }
+    if (!confirmed.data) {
+      consola.info(`Skipping template hooks ${TEMPLATE_HOOK_STAGE_LABELS[stage]}.`);
+      return Ok(skipAll());
+    }
+  }
+
+  const results: TemplateHookResult[] = [];
+  for (const hook of stageHooks) {
+    consola.start(`Running ${formatTemplateHook(hook)}...`);
+    const result = await executeTemplateHook(hook, dir, options.silent);
+    if (isOk(result)) {
+      results.push({ stage, run: hook.run, status: 'succeeded' });
+      continue;
+    }
+
+    if (hook.required) {
+      return Err(new Error(`Required template hook "${hook.run}" failed: ${result.error.message}`));
+    }
+    consola.warn(`Template hook "${hook.run}" failed: ${result.error.message}`);
+    results.push({ stage, run: hook.run, status: 'failed', error: result.error.message });
+  }
+  return Ok(results);
+};
+
+/**
+ * Reports the template hooks that failed without aborting project creation,
+ * so that their failures are not lost in the output of the later steps.
+ *
+ * @param results - The outcome of every template hook
+ *
+ * @example
+ * ```typescript
+ * reportTemplateHookFailures([{ stage: "postInstall", run: "nuxi prepare", status: "failed", error: "exit code 1" }]);
+ * // Warns: "1 template hook(s) failed, run them manually:\n  nuxi prepare (after install): exit code 1"
+ * ```
+ */
+export const reportTemplateHookFailures = (results: readonly TemplateHookResult[]): void => {
+  const failed = results.filter((result) => result.status === 'failed');
+  if (failed.length === 0) {
+    return;
+  }
+
+  consola.warn(
+    `${failed.length} template hook(s) failed, run them manually:\n${failed
+      .map((result) => `  ${result.run} (${TEMPLATE_HOOK_STAGE_LABELS[result.stage]}): ${result.error}`)
+      .join('\n')}`,
+  );
+};
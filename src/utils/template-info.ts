@@ -0,0 +1,109 @@
+import { readFile, rm } from 'node:fs/promises';
+import { join } from 'pathe';
+import type { ResolvedRegistry, TemplateInfo } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok } from '../types/result';
+import { loadTemplateCatalog, validateTemplateAgainstCatalog } from './catalog';
+import { README_EXCERPT_MAX_LINES } from './constants';
+import { createStagingDirectory } from './directory';
+import { createInvalidArgumentError } from './errors';
+import { DEFAULT_RESOLVED_REGISTRY } from './registry';
+import { downloadTemplateWithResult } from './template';
+import { readTemplateManifest } from './template-manifest';
+
+/**
+ * Extracts the beginning of a README: the text below the title, up to the second heading.
+ * Badge and image lines are skipped, and the excerpt is cut at a maximum number of lines.
+ *
+ * @param markdown - The contents of the README
+ * @param maxLines - The maximum number of lines (defaults to README_EXCERPT_MAX_LINES)
+ * @returns The excerpt, or undefined if the README has no text
+ *
+ * @example
+ * ```typescript
+ * const excerpt = extractReadmeExcerpt("# Nuxt4 + Hono\n\nNuxt 4 with a Hono API server.\n\n## Setup\n...");
+ * // Returns: "Nuxt 4 with a Hono API server."
+ * ```
+ */
+export const extractReadmeExcerpt = (
+  markdown: string,
+  maxLines: number = README_EXCERPT_MAX_LINES,
+): string | undefined => {
+  const lines: string[] = [];
+  let headings = 0;
+  for (const line of markdown.replace(/\r\n/g, '\n').split('\n')) {
+    if (/^#{1,6}\s/.test(line)) {
+      headings++;
+      if (headings > 1 || lines.length > 0) {
+        break;
+      }
+      continue;
+    }
+    if (/^\s*(\[!\[|!\[)/.test(line) || (lines.length === 0 && line.trim() === '')) {
+      continue;
+    }
+    lines.push(line.trimEnd());
+  }
+
+  const excerpt = lines.slice(0, maxLines).join('\n').trim();
+  return excerpt === '' ? undefined : excerpt;
+};
+
+/**
+ * Loads what the `info` subcommand shows about a template: its catalog entry, the beginning of its
+ * README and the features of its manifest. The template is downloaded into a temporary directory
+ * (from the cache when available) to read the README and the manifest.
+ *
+ * @param templateName - The name of the template in the registry
+ * @param registry - The registry to load the catalog and the template from (defaults to the default registry)
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to a Result containing the template info, or an error
+ *   (an InvalidArgumentError for templates missing from the catalog, a DownloadFailedError, ...)
+ *
+ * @example
+ * ```typescript
+ * const result = await loadTemplateInfo("nuxt4");
+ * if (isOk(result)) {
+ *   console.log(Object.keys(result.data.features)); // ["hono", "docker"]
+ * }
+ * ```
+ */
+export const loadTemplateInfo = async (
+  templateName: string,
+  registry: ResolvedRegistry = DEFAULT_RESOLVED_REGISTRY,
+  cacheDir?: string,
+): Promise<Result<TemplateInfo, Error>> => {
+  const catalog = await loadTemplateCatalog(registry, cacheDir);
+  const validation = validateTemplateAgainstCatalog(templateName, catalog);
+  if (!isOk(validation)) {
+    return Err(createInvalidArgumentError(validation.error, 'template'));
+  }
+  const entry = catalog.templates.find(({ name }) => name === templateName) ?? {
+    name: templateName,
+    label: templateName,
+  };
+
+  const stagingDir = await createStagingDirectory();
+  try {
+    const templateDir = join(stagingDir, 'template');
+    const downloaded = await downloadTemplateWithResult(
+      templateName,
+      templateDir,
+      registry,
+      { preferOffline: true },
+      cacheDir,
+    );
+    if (!isOk(downloaded)) {
+      return downloaded;
+    }
+    const manifest = await readTemplateManifest(templateDir);
+    if (!isOk(manifest)) {
+      return manifest;
+    }
+    const readme = await readFile(join(templateDir, 'README.md'), 'utf8').catch(() => undefined);
+    const excerpt = readme === undefined ? undefined : extractReadmeExcerpt(readme);
+    return Ok({ entry, ...(excerpt && { readme: excerpt }), features: manifest.data?.features ?? {} });
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+  }
+};
@@ -0,0 +1,184 @@
+import { readFile, rm } from 'node:fs/promises';
+import consola from 'consola';
+import { join } from 'pathe';
+import type { TemplateHookDefinition, TemplateHookStage, TemplateManifest, TemplateVariableValue } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, fromPromise, isOk, Ok, toError } from '../types/result';
+import { TEMPLATE_MANIFEST_NAME } from './constants';
+import { applyTemplateFeatures, resolveTemplateFeatures, validateTemplateFeatures } from './template-features';
+import { validateTemplateHooks } from './template-hooks';
+import {
+  parseTemplateVariableArgs,
+  renderTemplateDirectory,
+  resolveTemplateVariables,
+  validateTemplateVariables,
+} from './template-variables';
+
+/**
+ * Validates the raw contents of a template manifest.
+ * Unknown keys are ignored so that newer manifests keep working with older CLI versions.
+ *
+ * @param raw - The parsed JSON contents of the manifest
+ * @returns A Result containing the validated manifest or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateTemplateManifest({ variables: { description: { default: "A xeikit app" } } });
+ * // Returns: Ok({ variables: { description: { default: "A xeikit app" } }, features: {}, hooks: {} })
+ *
+ * const invalid = validateTemplateManifest({ features: { docker: { requires: ["k8s"] } } });
+ * // Returns: Err('Invalid feature "docker": "requires" references unknown feature "k8s"')
+ * ```
+ */
+export const validateTemplateManifest = (raw: unknown): Result<TemplateManifest, string> => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return Err('The template manifest must be a JSON object');
+  }
+
+  const { variables = {}, features = {}, hooks = {} } = raw as Record<string, unknown>;
+  const validatedVariables = validateTemplateVariables(variables);
+  if (!isOk(validatedVariables)) {
+    return validatedVariables;
+  }
+  const validatedFeatures = validateTemplateFeatures(features);
+  if (!isOk(validatedFeatures)) {
+    return validatedFeatures;
+  }
+  const validatedHooks = validateTemplateHooks(hooks);
+  if (!isOk(validatedHooks)) {
+    return validatedHooks;
+  }
+
+  return Ok({ variables: validatedVariables.data, features: validatedFeatures.data, hooks: validatedHooks.data });
+};
+
+/**
+ * Reads and validates the manifest of a downloaded template.
+ * A template without a manifest is not an error.
+ *
+ * @param dir - The directory the template was downloaded to
+ * @returns A Promise that resolves to a Result containing the manifest (undefined if there is none) or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await readTemplateManifest("./my-app");
+ * if (isOk(result) && result.data) {
+ *   console.log(Object.keys(result.data.features));
+ * }
+ * ```
+ */
+export const readTemplateManifest = async (dir: string): Promise<Result<TemplateManifest | undefined, Error>> => {
+  let contents: string;
+  try {
+    contents = await readFile(join(dir, TEMPLATE_MANIFEST_NAME), 'utf8');
+  } catch {
+    return Ok(undefined);
+  }
+
+  try {
+    const validation = validateTemplateManifest(JSON.parse(contents));
+    return isOk(validation) ? validation : Err(new Error(`${TEMPLATE_MANIFEST_NAME}: ${validation.error}`));
+  } catch (error) {
+    return Err(new Error(`${TEMPLATE_MANIFEST_NAME}: ${error instanceof Error ? error.message : 'Invalid JSON'}`));
+  }
+};
+
+/**
+ * Options used when applying the template manifest.
+ */
+export interface TemplateManifestOptions {
+  /** The `--var key=value` arguments */
+  readonly variables?: string | readonly string[];
+  /** The `--features a,b` argument */
+  readonly features?: string;
+  /** Variables available to every template (see createBuiltInTemplateVariables) */
+  readonly builtInVariables: Record<string, TemplateVariableValue>;
+  /** Whether prompts are disabled */
+  readonly nonInteractive?: boolean;
+}
+
+/**
+ * Interface describing what was applied from the template manifest.
+ */
+export interface AppliedTemplateManifest {
+  /** The selected features, in manifest order */
+  features: string[];
+  /** The substituted variables, including the built-in ones */
+  variables: Record<string, TemplateVariableValue>;
+  /** The hooks declared by the template, run later by the workflow */
+  hooks: Partial<Record<TemplateHookStage, TemplateHookDefinition[]>>;
+}
+
+/**
+ * Applies the manifest of a downloaded template.
+ * Templates without a manifest are left as they are. Otherwise the features are selected
+ * (from `--features`, a prompt or the defaults) and the declared variables are resolved
+ * (from `--var`, prompts or defaults); then the selected features are applied, the manifest
+ * is removed and the variables are substituted into file contents and names. The declared hooks
+ * are returned, as they run at later stages of the workflow.
+ *
+ * @param dir - The directory the template was downloaded to
+ * @param options - The `--var` and `--features` arguments, built-in variables and prompt mode
+ * @returns A Promise that resolves to a Result containing the applied features, variables and the hooks, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await applyTemplateManifest("./my-app", {
+ *   variables: ["description=My shop"],
+ *   features: "docker",
+ *   builtInVariables: createBuiltInTemplateVariables("my-app"),
+ * });
+ * if (isOk(result)) {
+ *   console.log(result.data.features); // ["hono", "docker"]
+ * }
+ * ```
+ */
+export const applyTemplateManifest = async (
+  dir: string,
+  options: TemplateManifestOptions,
+): Promise<Result<AppliedTemplateManifest, Error>> => {
+  const provided = parseTemplateVariableArgs(options.variables);
+  if (!isOk(provided)) {
+    return provided;
+  }
+
+  const manifest = await readTemplateManifest(dir);
+  if (!isOk(manifest)) {
+    return manifest;
+  }
+  if (!manifest.data) {
+    if (Object.keys(provided.data).length > 0) {
+      consola.warn('The template does not declare variables, ignoring --var.');
+    }
+    if (options.features) {
+      consola.warn('The template does not declare features, ignoring --features.');
+    }
+    return Ok({ features: [], variables: {}, hooks: {} });
+  }
+
+  const features = await resolveTemplateFeatures(manifest.data.features, options.features, options.nonInteractive);
+  if (!isOk(features)) {
+    return features;
+  }
+  const declared = await resolveTemplateVariables(manifest.data.variables, provided.data, options.nonInteractive);
+  if (!isOk(declared)) {
+    return declared;
+  }
+
+  const applied = await applyTemplateFeatures(dir, manifest.data.features, features.data);
+  if (!isOk(applied)) {
+    return applied;
+  }
+
+  const variables = { ...options.builtInVariables, ...declared.data };
+  const removed = await fromPromise(
+    rm(join(dir, TEMPLATE_MANIFEST_NAME), { force: true }),
+    toError(`Failed to remove ${TEMPLATE_MANIFEST_NAME}`),
+  );
+  if (!isOk(removed)) {
+    return removed;
+  }
+
+  const rendered = await renderTemplateDirectory(dir, variables);
+  return isOk(rendered) ? Ok({ features: applied.data, variables, hooks: manifest.data.hooks }) : rendered;
+};
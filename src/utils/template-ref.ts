@@ -0,0 +1,195 @@
+import { x } from 'tinyexec';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { getTemplateSourceProvider, isLocalTemplateSource } from './registry';
+
+/**
+ * Time `git ls-remote` may take to resolve the commit of a template, in milliseconds.
+ */
+const LS_REMOTE_TIMEOUT = 30_000;
+
+/**
+ * Pattern of a full commit SHA.
+ */
+const COMMIT_SHA_PATTERN = /^[0-9a-f]{40}$/i;
+
+/**
+ * Creates the clone URL of a repository, by giget provider.
+ * GitLab honors `GIGET_GITLAB_URL` like giget does for self-hosted instances.
+ */
+const GIT_REMOTE_URLS: Readonly<Record<string, (repo: string) => string>> = {
+  github: (repo) => `https://github.com/${repo}.git`,
+  gitlab: (repo) => `${process.env.GIGET_GITLAB_URL || 'https://gitlab.com'}/${repo}.git`,
+  bitbucket: (repo) => `https://bitbucket.org/${repo}.git`,
+  sourcehut: (repo) => `https://git.sr.ht/~${repo}`,
+};
+
+/**
+ * Interface describing a template argument split into the template and its ref.
+ */
+export interface TemplateRefArg {
+  /** The template name or source without the ref */
+  name: string;
+  /** The ref (tag, branch or commit), if one was given */
+  ref?: string;
+}
+
+/**
+ * Splits the ref off a template argument: `name@ref` for registry templates and `source#ref`
+ * for git-hosted sources. Local paths have no ref.
+ *
+ * @param templateArg - The template argument (e.g. "nuxt4@v2.1.0" or "gh:org/repo#main")
+ * @returns A Result containing the template and its ref, or an error message for an empty ref
+ *
+ * @example
+ * ```typescript
+ * const pinned = splitTemplateRef("internal:my-starter@v2.1.0");
+ * // Returns: Ok({ name: "internal:my-starter", ref: "v2.1.0" })
+ *
+ * const source = splitTemplateRef("gh:org/repo/path#main");
+ * // Returns: Ok({ name: "gh:org/repo/path", ref: "main" })
+ * ```
+ */
+export const splitTemplateRef = (templateArg: string): Result<TemplateRefArg, string> => {
+  if (isLocalTemplateSource(templateArg)) {
+    return Ok({ name: templateArg });
+  }
+
+  const separatorIndex = getTemplateSourceProvider(templateArg)
+    ? templateArg.indexOf('#')
+    : templateArg.lastIndexOf('@');
+  if (separatorIndex <= 0) {
+    return Ok({ name: templateArg });
+  }
+
+  const ref = templateArg.slice(separatorIndex + 1);
+  return ref === ''
+    ? Err(`Ref is missing in "${templateArg}"`)
+    : Ok({ name: templateArg.slice(0, separatorIndex), ref });
+};
+
+/**
+ * Splits the ref off a template argument and combines it with the `--template-ref` argument.
+ * Both may be given as long as they name the same ref.
+ *
+ * @param templateArg - The template argument (e.g. "nuxt4@v2.1.0")
+ * @param refArg - The `--template-ref` argument (optional)
+ * @returns A Result containing the template and its ref, or an error message
+ *
+ * @example
+ * ```typescript
+ * const result = resolveTemplateRef("nuxt4", "v2.1.0");
+ * // Returns: Ok({ name: "nuxt4", ref: "v2.1.0" })
+ *
+ * const conflict = resolveTemplateRef("nuxt4@v2.0.0", "v2.1.0");
+ * // Returns: Err('Conflicting refs: "v2.0.0" in the template and "v2.1.0" in --template-ref')
+ * ```
+ */
+export const resolveTemplateRef = (templateArg: string, refArg?: string): Result<TemplateRefArg, string> => {
+  const split = splitTemplateRef(templateArg);
+  if (!isOk(split) || !refArg) {
+    return split;
+  }
+
+  const { name, ref } = split.data;
+  return ref && ref !== refArg
+    ? Err(`Conflicting refs: "${ref}" in the template and "${refArg}" in --template-ref`)
+    : Ok({ name, ref: refArg });
+};
+
+/**
+ * Appends a ref to a git-hosted template source.
+ *
+ * @param source - The giget source without a ref
+ * @param ref - The ref (optional)
+ * @returns The source giget downloads (e.g. "gh:org/repo#v2")
+ */
+export const withTemplateRef = (source: string, ref?: string): string => (ref ? `${source}#${ref}` : source);
+
+/**
+ * Checks whether a ref is a full commit SHA, which needs no resolution.
+ *
+ * @param ref - The ref to check
+ * @returns True if the ref is a 40-character hexadecimal SHA
+ */
+export const isCommitSha = (ref: string): boolean => COMMIT_SHA_PATTERN.test(ref);
+
+/**
+ * Creates the clone URL of the repository of a git-hosted template source.
+ *
+ * @param source - The giget source (e.g. "gh:org/repo/path")
+ * @returns The clone URL, or undefined if the source is not git-hosted
+ *
+ * @example
+ * ```typescript
+ * createGitRemoteUrl("gh:xeikit/starter-templates/packages/nuxt4");
+ * // Returns: "https://github.com/xeikit/starter-templates.git"
+ * ```
+ */
+export const createGitRemoteUrl = (source: string): string | undefined => {
+  const provider = getTemplateSourceProvider(source);
+  const [owner, repo] = source.slice(source.indexOf(':') + 1).split('/');
+  return provider && owner && repo ? GIT_REMOTE_URLS[provider]?.(`${owner}/${repo}`) : undefined;
+};
+
+/**
+ * Picks the commit of a ref from the output of `git ls-remote`.
+ * Annotated tags are peeled to the commit they point to; tags take precedence over branches.
+ *
+ * @param output - The output of `git ls-remote <url> <ref>`
+ * @param ref - The ref that was looked up (HEAD when not given)
+ * @returns The commit SHA, or undefined if the ref does not exist
+ */
+const findRefCommit = (output: string, ref: string): string | undefined => {
+  const refs = new Map(
+    output
+      .split('\n')
+      .map((line) => line.trim().split(/\s+/))
+      .filter((parts): parts is [string, string] => parts.length === 2)
+      .map(([sha, name]) => [name, sha]),
+  );
+  return [`refs/tags/${ref}^{}`, `refs/tags/${ref}`, `refs/heads/${ref}`, ref]
+    .map((name) => refs.get(name))
+    .find((sha) => sha !== undefined);
+};
+
+/**
+ * Resolves the commit a git-hosted template source points to, using `git ls-remote`.
+ * Full commit SHAs are returned as they are, without using the network.
+ *
+ * @param source - The giget source without a ref (e.g. "gh:org/repo/path")
+ * @param ref - The tag, branch or commit (defaults to the default branch)
+ * @returns A Promise that resolves to a Result containing the commit SHA or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await resolveTemplateCommit("gh:xeikit/starter-templates/packages/nuxt4", "v2.1.0");
+ * if (isOk(result)) {
+ *   console.log(result.data); // "3f2c9a..."
+ * }
+ * ```
+ */
+export const resolveTemplateCommit = async (source: string, ref?: string): Promise<Result<string, Error>> => {
+  if (ref && isCommitSha(ref)) {
+    return Ok(ref.toLowerCase());
+  }
+
+  const url = createGitRemoteUrl(source);
+  if (!url) {
+    return Err(new Error(`${source} is not a git-hosted template`));
+  }
+
+  const target = ref ?? 'HEAD';
+  return tryCatchAsync(
+    () =>
+      x('git', ['ls-remote', url, target], {
+        throwOnError: true,
+        timeout: LS_REMOTE_TIMEOUT,
+        nodeOptions: { env: { ...process.env, GIT_TERMINAL_PROMPT: '0' } },
+      }),
+    toError(`Failed to resolve ${target} of ${url}`),
+  ).andThen(({ stdout }) => {
+    const commit = findRefCommit(stdout, target);
+    return commit ? Ok(commit) : Err(new Error(`Ref ${target} not found in ${url}`));
+  });
+};
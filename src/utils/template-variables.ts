@@ -0,0 +1,450 @@
+import { existsSync } from 'node:fs';
+import { readdir, readFile, rename, writeFile } from 'node:fs/promises';
+import consola from 'consola';
+import { join, relative } from 'pathe';
+import type { TemplateVariableDefinition, TemplateVariableType, TemplateVariableValue } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, fromPromise, isOk, Ok, toError } from '../types/result';
+import { createCancelledError, createInvalidArgumentError } from './errors';
+
+/**
+ * Pattern of a `{{ name }}` placeholder; whitespace inside the braces is optional.
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+/**
+ * Pattern of a valid template variable name.
+ */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+/**
+ * Supported template variable types.
+ */
+const VARIABLE_TYPES: readonly TemplateVariableType[] = ['string', 'number', 'boolean', 'select'];
+
+/**
+ * Directories that are never rendered (they are not part of the template).
+ */
+const SKIPPED_DIRECTORIES: readonly string[] = ['.git', 'node_modules'];
+
+/**
+ * Number of leading bytes inspected to detect binary files (the same heuristic git uses).
+ */
+const BINARY_DETECTION_BYTES = 8000;
+
+/**
+ * Checks whether a value is a plain object.
+ *
+ * @param value - The value to check
+ * @returns True if the value is a non-null, non-array object
+ */
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Parses a raw value of a template variable according to its type and validation rules.
+ *
+ * @param name - The variable name (used in error messages)
+ * @param definition - The variable definition from the manifest
+ * @param value - The raw value (from `--var`, a prompt or the default)
+ * @returns A Result containing the typed value, or an error message
+ *
+ * @example
+ * ```typescript
+ * parseTemplateVariableValue("port", { type: "number" }, "3000");
+ * // Returns: Ok(3000)
+ *
+ * parseTemplateVariableValue("license", { type: "select", options: ["MIT"] }, "GPL");
+ * // Returns: Err('Invalid value "GPL" for template variable "license": expected one of MIT')
+ * ```
+ */
+export const parseTemplateVariableValue = (
+  name: string,
+  definition: TemplateVariableDefinition,
+  value: string,
+): Result<TemplateVariableValue, string> => {
+  const invalid = (expected: string) => Err(`Invalid value "${value}" for template variable "${name}": ${expected}`);
+
+  switch (definition.type ?? 'string') {
+    case 'boolean':
+      if (/^(?:true|yes|1)$/i.test(value)) {
+        return Ok(true);
+      }
+      return /^(?:false|no|0)$/i.test(value) ? Ok(false) : invalid('expected true or false');
+    case 'number': {
+      const number = Number(value);
+      return value.trim() !== '' && Number.isFinite(number) ? Ok(number) : invalid('expected a number');
+    }
+    case 'select':
+      return definition.options?.includes(value)
+        ? Ok(value)
+        : invalid(`expected one of ${definition.options?.join(', ')}`);
+    default:
+      if (definition.required && value === '') {
+        return Err(`Template variable "${name}" is required`);
+      }
+      if (definition.pattern !== undefined && !new RegExp(definition.pattern).test(value)) {
+        return invalid(`expected a value matching ${definition.pattern}`);
+      }
+      return Ok(value);
+  }
+};
+
+/**
+ * Gets the raw value used for a variable when it is not given and cannot be prompted for.
+ *
+ * @param definition - The variable definition from the manifest
+ * @returns The raw default value
+ */
+const getRawDefaultValue = (definition: TemplateVariableDefinition): string => {
+  if (definition.default !== undefined) {
+    return String(definition.default);
+  }
+  switch (definition.type) {
+    case 'boolean':
+      return 'false';
+    case 'select':
+      return definition.options?.[0] ?? '';
+    default:
+      return '';
+  }
+};
+
+/**
+ * Validates a single variable definition of the template manifest.
+ *
+ * @param name - The variable name
+ * @param raw - The raw definition
+ * @returns A Result containing the definition, or an error message
+ */
+const validateTemplateVariableDefinition = (name: string, raw: unknown): Result<TemplateVariableDefinition, string> => {
+  if (!VARIABLE_NAME_PATTERN.test(name)) {
+    return Err(`Invalid variable name "${name}": use letters, digits and "_" only`);
+  }
+  if (!isPlainObject(raw)) {
+    return Err(`Invalid variable "${name}": the definition must be an object`);
+  }
+
+  const definition = raw as TemplateVariableDefinition;
+  if (definition.type !== undefined && !VARIABLE_TYPES.includes(definition.type)) {
+    return Err(`Invalid variable "${name}": "type" must be one of ${VARIABLE_TYPES.join(', ')}`);
+  }
+  if (
+    definition.type === 'select' &&
+    (!Array.isArray(definition.options) ||
+      definition.options.length === 0 ||
+      !definition.options.every((option) => typeof option === 'string'))
+  ) {
+    return Err(`Invalid variable "${name}": a select variable needs a non-empty "options" array of strings`);
+  }
+  if (definition.pattern !== undefined) {
+    try {
+      new RegExp(definition.pattern);
+    } catch {
+      return Err(`Invalid variable "${name}": "pattern" is not a valid regular expression`);
+    }
+  }
+  if (definition.default !== undefined) {
+    const defaultValue = parseTemplateVariableValue(
+      name,
+      { ...definition, required: false },
+      String(definition.default),
+    );
+    if (!isOk(defaultValue)) {
+      return defaultValue;
+    }
+  }
+  return Ok(definition);
+};
+
+/**
+ * Validates the variables declared in a template manifest.
+ *
+ * @param raw - The raw `variables` value of the manifest
+ * @returns A Result containing the variable definitions by name, or an error message
+ *
+ * @example
+ * ```typescript
+ * const valid = validateTemplateVariables({ description: { default: "A xeikit app" } });
+ * // Returns: Ok({ description: { default: "A xeikit app" } })
+ *
+ * const invalid = validateTemplateVariables({ license: { type: "select" } });
+ * // Returns: Err('Invalid variable "license": a select variable needs a non-empty "options" array of strings')
+ * ```
+ */
+export const validateTemplateVariables = (raw: unknown): Result<Record<string, TemplateVariableDefinition>, string> => {
+  if (!isPlainObject(raw)) {
+    return Err('"variables" must be an object');
+  }
+
+  for (const [name, definition] of Object.entries(raw)) {
+    const validation = validateTemplateVariableDefinition(name, definition);
+    if (!isOk(validation)) {
+      return validation;
+    }
+  }
+  return Ok(raw as Record<string, TemplateVariableDefinition>);
+};
+
+/**
+ * Parses the `--var key=value` arguments. Empty values count as not given.
+ *
+ * @param values - The `--var` argument (a string when given once, an array when repeated)
+ * @returns A Result containing the raw values by variable name, or an InvalidArgumentError for malformed values
+ *
+ * @example
+ * ```typescript
+ * parseTemplateVariableArgs(["description=My shop", "port=3000"]);
+ * // Returns: Ok({ description: "My shop", port: "3000" })
+ * ```
+ */
+export const parseTemplateVariableArgs = (
+  values: string | readonly string[] | undefined,
+): Result<Record<string, string>, Error> => {
+  const variables: Record<string, string> = {};
+  for (const value of (typeof values === 'string' ? [values] : (values ?? [])).filter(Boolean)) {
+    const separatorIndex = value.indexOf('=');
+    const name = value.slice(0, separatorIndex).trim();
+    if (separatorIndex === -1 || !VARIABLE_NAME_PATTERN.test(name)) {
+      return Err(createInvalidArgumentError(`Invalid --var "${value}": use --var key=value`, 'var'));
+    }
+    variables[name] = value.slice(separatorIndex + 1);
+  }
+  return Ok(variables);
+};
+
+/**
+ * Prompts the user for the value of a template variable until a valid one is entered.
+ *
+ * @param name - The variable name
+ * @param definition - The variable definition from the manifest
+ * @returns A Promise that resolves to a Result containing the typed value or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await promptForTemplateVariable("description", { prompt: "Project description" });
+ * if (isOk(result)) {
+ *   console.log(`Description: ${result.data}`);
+ * }
+ * ```
+ */
+export const promptForTemplateVariable = async (
+  name: string,
+  definition: TemplateVariableDefinition,
+): Promise<Result<TemplateVariableValue, Error>> => {
+  const message = definition.prompt ?? name;
+  const initial = getRawDefaultValue(definition);
+
+  try {
+    if (definition.type === 'boolean') {
+      return Ok(await consola.prompt(message, { type: 'confirm', initial: initial === 'true', cancel: 'reject' }));
+    }
+    if (definition.type === 'select') {
+      const answer = await consola.prompt(message, {
+        type: 'select',
+        options: definition.options ?? [],
+        initial,
+        cancel: 'reject',
+      });
+      const validation = parseTemplateVariableValue(name, definition, String(answer));
+      return isOk(validation) ? validation : Err(new Error(validation.error));
+    }
+
+    for (;;) {
+      const answer = await consola.prompt(message, {
+        type: 'text',
+        default: initial,
+        placeholder: initial,
+        cancel: 'reject',
+      });
+      const validation = parseTemplateVariableValue(name, definition, typeof answer === 'string' ? answer : initial);
+      if (isOk(validation)) {
+        return validation;
+      }
+      consola.error(validation.error);
+    }
+  } catch (error) {
+    return Err(error instanceof Error ? error : createCancelledError('Template variable prompt cancelled'));
+  }
+};
+
+/**
+ * Determines the values of the variables declared in a template manifest.
+ * Values given with `--var` are used first; missing values are prompted for, or take their
+ * default without prompts. Values for variables the template does not declare are ignored with a warning.
+ *
+ * @param variables - The variables declared in the manifest
+ * @param provided - The raw values given with `--var`, by variable name
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @returns A Promise that resolves to a Result containing the typed values by variable name, or an error
+ *   (an InvalidArgumentError for invalid `--var` values)
+ *
+ * @example
+ * ```typescript
+ * const result = await resolveTemplateVariables(
+ *   { port: { type: "number", default: 3000 } },
+ *   { port: "8080" },
+ * );
+ * // Returns: Ok({ port: 8080 })
+ * ```
+ */
+export const resolveTemplateVariables = async (
+  variables: Record<string, TemplateVariableDefinition>,
+  provided: Record<string, string>,
+  nonInteractive = false,
+): Promise<Result<Record<string, TemplateVariableValue>, Error>> => {
+  const unknownNames = Object.keys(provided).filter((name) => !Object.hasOwn(variables, name));
+  if (unknownNames.length > 0) {
+    consola.warn(`Ignoring unknown template variables: ${unknownNames.join(', ')}`);
+  }
+
+  const values: Record<string, TemplateVariableValue> = {};
+  for (const [name, definition] of Object.entries(variables)) {
+    if (!Object.hasOwn(provided, name) && !nonInteractive) {
+      const answer = await promptForTemplateVariable(name, definition);
+      if (!isOk(answer)) {
+        return answer;
+      }
+      values[name] = answer.data;
+      continue;
+    }
+
+    const given = provided[name];
+    const value = parseTemplateVariableValue(name, definition, given ?? getRawDefaultValue(definition));
+    if (!isOk(value)) {
+      // An invalid default is a mistake of the template, not of the command line
+      return Err(given !== undefined ? createInvalidArgumentError(value.error, 'var') : new Error(value.error));
+    }
+    values[name] = value.data;
+  }
+  return Ok(values);
+};
+
+/**
+ * Creates the variables every template manifest can use without declaring them.
+ *
+ * @param packageName - The package name of the new project
+ * @param now - The current date (defaults to now)
+ * @returns The built-in variables
+ *
+ * @example
+ * ```typescript
+ * createBuiltInTemplateVariables("my-app");
+ * // Returns: { projectName: "my-app", year: 2025 }
+ * ```
+ */
+export const createBuiltInTemplateVariables = (
+  packageName: string,
+  now: Date = new Date(),
+): Record<string, TemplateVariableValue> => ({
+  projectName: packageName,
+  year: now.getFullYear(),
+});
+
+/**
+ * Substitutes `{{ name }}` placeholders in a string.
+ * Placeholders of unknown variables are left untouched, so other template syntaxes using
+ * double braces (Vue, Handlebars, GitHub Actions expressions) keep working.
+ *
+ * @param text - The text to render
+ * @param variables - The variable values by name
+ * @returns The rendered text
+ *
+ * @example
+ * ```typescript
+ * renderTemplateString("# {{ projectName }} {{ count }}", { projectName: "my-app" });
+ * // Returns: "# my-app {{ count }}"
+ * ```
+ */
+export const renderTemplateString = (text: string, variables: Record<string, TemplateVariableValue>): string =>
+  text.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.hasOwn(variables, name) ? String(variables[name]) : placeholder,
+  );
+
+/**
+ * Checks whether file contents are binary, by looking for a NUL byte near the start.
+ *
+ * @param contents - The file contents
+ * @returns True if the contents look binary
+ *
+ * @example
+ * ```typescript
+ * isBinaryContent(Buffer.from("hello")); // Returns: false
+ * isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00])); // Returns: true
+ * ```
+ */
+export const isBinaryContent = (contents: Buffer): boolean => contents.subarray(0, BINARY_DETECTION_BYTES).includes(0);
+
+/**
+ * Renders the entries of a directory, recursively: substitutes placeholders in the contents
+ * of text files and in file and directory names.
+ *
+ * @param root - The template root (used for relative paths)
+ * @param dir - The directory currently being rendered
+ * @param variables - The variable values by name
+ * @param rendered - Collects the relative paths of changed files
+ */
+const renderDirectory = async (
+  root: string,
+  dir: string,
+  variables: Record<string, TemplateVariableValue>,
+  rendered: string[],
+): Promise<void> => {
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (entry.isDirectory() && SKIPPED_DIRECTORIES.includes(entry.name)) {
+      continue;
+    }
+
+    const path = join(dir, entry.name);
+    const renderedName = renderTemplateString(entry.name, variables);
+    const renderedPath = join(dir, renderedName);
+    if (renderedName !== entry.name) {
+      if (renderedName === '' || /[/\\]/.test(renderedName) || existsSync(renderedPath)) {
+        throw new Error(`Cannot rename ${relative(root, path)} to "${renderedName}"`);
+      }
+      await rename(path, renderedPath);
+    }
+
+    if (entry.isDirectory()) {
+      await renderDirectory(root, renderedPath, variables, rendered);
+      continue;
+    }
+    if (!entry.isFile()) {
+      continue;
+    }
+
+    const contents = await readFile(renderedPath);
+    const text = isBinaryContent(contents) ? undefined : contents.toString('utf8');
+    const renderedText = text === undefined ? undefined : renderTemplateString(text, variables);
+    if (renderedText !== undefined && renderedText !== text) {
+      await writeFile(renderedPath, renderedText);
+    }
+    if (renderedName !== entry.name || renderedText !== text) {
+      rendered.push(relative(root, renderedPath));
+    }
+  }
+};
+
+/**
+ * Substitutes template variables in the contents of all text files and in all file and
+ * directory names below a directory. Binary files are only renamed.
+ *
+ * @param dir - The directory the template was downloaded to
+ * @param variables - The variable values by name
+ * @returns A Promise that resolves to a Result containing the changed files (relative paths), or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await renderTemplateDirectory("./my-app", { projectName: "my-app" });
+ * // Renders "README.md" and renames "{{ projectName }}.code-workspace" to "my-app.code-workspace"
+ * ```
+ */
+export const renderTemplateDirectory = async (
+  dir: string,
+  variables: Record<string, TemplateVariableValue>,
+): Promise<Result<string[], Error>> => {
+  const rendered: string[] = [];
+  return fromPromise(renderDirectory(dir, dir, variables, rendered), toError('Failed to render the template')).map(() =>
+    rendered.sort(),
+  );
+};
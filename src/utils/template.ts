@@ -1,9 +1,44 @@
+import { cp } from 'node:fs/promises';
 import consola from 'consola';
 import { type DownloadTemplateResult, downloadTemplate } from 'giget';
+import { basename } from 'pathe';
+import type { DownloadFailedError } from '../types/api';
+import type {
+  DownloadedTemplate,
+  OfflineOptions,
+  ResolvedRegistry,
+  TemplateCatalog,
+  TemplateSelection,
+} from '../types/cli';
+import type { RegistryConfig } from '../types/config';
 import type { Result } from '../types/result';
-import { Err, isOk, Ok } from '../types/result';
-import { handleError } from './common';
-import { DEFAULT_REGISTRY, DEFAULT_TEMPLATE_NAME, TEMPLATE_OPTIONS } from './constants';
+import { Err, fromPromise, isOk, Ok, tryCatchAsync } from '../types/result';
+import {
+  createTemplateSelectOptions,
+  filterCompatibleTemplates,
+  loadTemplateCatalog,
+  validateTemplateAgainstCatalog,
+} from './catalog';
+import { checkDirectoryExists } from './common';
+import { DEFAULT_TEMPLATE_NAME, NON_INTERACTIVE_DEFAULTS } from './constants';
+import { createCancelledError, createDownloadFailedError, createInvalidArgumentError } from './errors';
+import {
+  DEFAULT_RESOLVED_REGISTRY,
+  getTemplateSourceProvider,
+  isLocalTemplateSource,
+  isTemplateSource,
+  resolveRegistryArg,
+  resolveTemplateReference,
+  resolveTemplateSource,
+} from './registry';
+import { readTemplateCacheEntry, restoreTemplateFromCache, storeTemplateInCache } from './template-cache';
+import {
+  isCommitSha,
+  resolveTemplateCommit,
+  resolveTemplateRef,
+  splitTemplateRef,
+  withTemplateRef,
+} from './template-ref';
 
 /**
  * Validates a template argument to ensure it's not empty or undefined.
@@ -55,9 +90,12 @@ export const validateTemplatePromptResult = (template: unknown): Result<string,
 };
 
 /**
- * Prompts the user to select a template from available options.
- * Displays a select menu with predefined template choices and handles user cancellation.
+ * Prompts the user to select a template from the template catalog.
+ * Displays a select menu with the catalog entries and handles user cancellation.
+ * The catalog is loaded from the registry (or its cache) when not provided.
+ * Registries without a catalog manifest get a free-text prompt instead.
  *
+ * @param catalog - The template catalog to choose from (optional)
  * @returns A Promise that resolves to a Result containing the selected template or an error
  *
  * @example
@@ -70,118 +108,359 @@ export const validateTemplatePromptResult = (template: unknown): Result<string,
  * }
  * ```
  */
-export const promptForTemplate = async (): Promise<Result<string, Error>> => {
+export const promptForTemplate = async (catalog?: TemplateCatalog): Promise<Result<string, Error>> => {
   try {
-    const template = await consola.prompt('Choose a template', {
-      type: 'select',
-      options: TEMPLATE_OPTIONS,
-      cancel: 'reject',
-    });
+    const { templates } = filterCompatibleTemplates(catalog ?? (await loadTemplateCatalog()));
+    const template =
+      templates.length > 0
+        ? await consola.prompt('Choose a template', {
+            type: 'select',
+            options: createTemplateSelectOptions({ templates }),
+            cancel: 'reject',
+          })
+        : await consola.prompt('Enter a template name', {
+            type: 'text',
+            placeholder: DEFAULT_TEMPLATE_NAME,
+            cancel: 'reject',
+          });
     const validationResult = validateTemplatePromptResult(template);
     if (isOk(validationResult)) {
       return validationResult;
     }
-    return Err(new Error(validationResult.error));
+    return Err(createInvalidArgumentError(validationResult.error, 'template'));
   } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Template selection cancelled'));
+    return Err(error instanceof Error ? error : createCancelledError('Template selection cancelled'));
   }
 };
 
+/**
+ * Resolves a git-hosted or local template argument, checking that a local template directory exists.
+ *
+ * @param templateArg - The template argument as given
+ * @param source - The template argument without its ref
+ * @param ref - The ref the template is pinned to (optional)
+ * @param cwd - The directory relative paths are resolved against (optional)
+ * @returns A Promise that resolves to a Result containing the template selection or an InvalidArgumentError
+ */
+const resolveTemplateSourceSelection = async (
+  templateArg: string,
+  source: string,
+  ref?: string,
+  cwd?: string,
+): Promise<Result<TemplateSelection, Error>> => {
+  const sourceResult = resolveTemplateSource(source, cwd);
+  if (!isOk(sourceResult)) {
+    return Err(createInvalidArgumentError(sourceResult.error, 'template'));
+  }
+
+  const path = sourceResult.data.source;
+  if (path && isLocalTemplateSource(path)) {
+    if (ref) {
+      return Err(createInvalidArgumentError('Local templates cannot be pinned to a ref', 'templateRef'));
+    }
+    if (!checkDirectoryExists(path)) {
+      return Err(createInvalidArgumentError(`Template directory ${templateArg} does not exist`, 'template'));
+    }
+  }
+  return Ok({ ...sourceResult.data, name: templateArg, ...(ref && { ref }) });
+};
+
+/**
+ * Adds the source of a registry template declared in the catalog, and the ref it is pinned to.
+ * Templates without a source in the catalog are downloaded from the registry and cannot be pinned.
+ * Refs that are not among the versions listed in the catalog are allowed (e.g. branches) with a warning.
+ *
+ * @param selection - The template and its registry
+ * @param catalog - The catalog of the registry
+ * @param ref - The ref the template is pinned to (optional)
+ * @returns A Result containing the template selection, or an InvalidArgumentError for a ref that cannot be used
+ */
+const pinTemplateSelection = (
+  selection: TemplateSelection,
+  catalog: TemplateCatalog,
+  ref?: string,
+): Result<TemplateSelection, Error> => {
+  const entry = catalog.templates.find(({ name }) => name === selection.name);
+  if (entry?.source) {
+    if (ref && entry.versions && !entry.versions.includes(ref) && !isCommitSha(ref)) {
+      consola.warn(`${ref} is not a listed version of ${selection.name} (${entry.versions.join(', ')})`);
+    }
+    return Ok({ ...selection, source: entry.source, ...(ref && { ref }) });
+  }
+  return ref
+    ? Err(
+        createInvalidArgumentError(
+          `Template "${selection.name}" cannot be pinned to ${ref}: its catalog entry declares no source`,
+          'templateRef',
+        ),
+      )
+    : Ok(selection);
+};
+
+/**
+ * Options used when selecting a template.
+ * The offline options control whether the catalog may be fetched from the network.
+ */
+export interface TemplateRegistryOptions extends OfflineOptions {
+  /** The `--registry` argument: a URL, an absolute path or a configured registry name */
+  readonly registry?: string;
+  /** Named registries from the configuration file */
+  readonly registries?: Record<string, RegistryConfig>;
+  /** Directory local template paths are resolved against (defaults to process.cwd()) */
+  readonly cwd?: string;
+  /** The `--template-ref` argument: the tag, branch or commit to pin the template to */
+  readonly ref?: string;
+}
+
 /**
  * Selects a template using a fallback chain strategy.
- * First validates the provided template argument. If invalid, prompts the user for selection.
- * Ensures the application always gets a valid template choice.
+ * First validates the provided template argument. If missing, prompts the user for selection.
+ * In non-interactive mode the default template is used instead of prompting.
+ * Template names may be prefixed with a configured registry name (`registryName:template`);
+ * bare names come from the `--registry` registry (or the default registry).
+ * Template names are checked against the registry catalog; unknown names are an error with a suggestion.
+ * Git-hosted sources (`gh:`, `github:`, `gitlab:`, `bitbucket:`, `sourcehut:`) and local paths
+ * (`./my-template`, `file:`) bypass the registry and its catalog.
+ * A ref given as `template@ref`, `source#ref` or with `--template-ref` pins the template; registry
+ * templates can only be pinned when their catalog entry declares a source.
  *
  * @param templateArg - The template argument from command line (optional)
- * @returns A Promise that resolves to a valid template name
+ * @param nonInteractive - Whether prompts are disabled (defaults to false)
+ * @param registryOptions - The `--registry` and `--template-ref` arguments and configured registries (optional)
+ * @returns A Promise that resolves to a Result containing the selected template and its registry, or an error
  *
  * @example
  * ```typescript
- * // With valid argument
- * const template1 = await selectTemplate("nuxt4");
- * // Returns: "nuxt4"
+ * const result = await resolveTemplateSelection("nuxt4");
+ * // Returns: Ok({ name: "nuxt4", registry: { url: DEFAULT_REGISTRY } })
  *
- * // With invalid argument (will prompt user)
- * const template2 = await selectTemplate("");
- * // Returns: user's selection from prompt
+ * const unknown = await resolveTemplateSelection("nuxt");
+ * // Returns: Err(InvalidArgumentError('Unknown template "nuxt". Did you mean "nuxt4"?'))
+ *
+ * const gitHosted = await resolveTemplateSelection("gh:org/repo/templates/app#v2");
+ * // Returns: Ok({ name: "gh:org/repo/templates/app#v2", source: "gh:org/repo/templates/app", ref: "v2" })
  * ```
  */
-export const selectTemplate = async (templateArg?: string): Promise<string> => {
+export const resolveTemplateSelection = async (
+  templateArg?: string,
+  nonInteractive = false,
+  registryOptions: TemplateRegistryOptions = {},
+): Promise<Result<TemplateSelection, Error>> => {
+  const registryResult = resolveRegistryArg(registryOptions.registry, registryOptions.registries);
+
+  if (!isOk(registryResult)) {
+    return Err(createInvalidArgumentError(registryResult.error, 'registry'));
+  }
+
   const argValidation = validateTemplateArg(templateArg);
 
   if (isOk(argValidation)) {
-    return argValidation.data;
-  }
+    const refResult = resolveTemplateRef(argValidation.data, registryOptions.ref);
+    if (!isOk(refResult)) {
+      return Err(createInvalidArgumentError(refResult.error, 'template'));
+    }
 
-  const promptResult = await promptForTemplate();
+    const { name, ref } = refResult.data;
+    if (isTemplateSource(name)) {
+      return resolveTemplateSourceSelection(argValidation.data, name, ref, registryOptions.cwd);
+    }
 
-  if (isOk(promptResult)) {
-    return promptResult.data;
+    const referenceResult = resolveTemplateReference(name, registryResult.data, registryOptions.registries);
+    if (!isOk(referenceResult)) {
+      return Err(createInvalidArgumentError(referenceResult.error, 'template'));
+    }
+
+    const catalog = await loadTemplateCatalog(referenceResult.data.registry, undefined, registryOptions);
+    const catalogValidation = validateTemplateAgainstCatalog(referenceResult.data.name, catalog);
+    return isOk(catalogValidation)
+      ? pinTemplateSelection(referenceResult.data, catalog, ref)
+      : Err(createInvalidArgumentError(catalogValidation.error, 'template'));
   }
 
-  // Handle error case - exit for backward compatibility
-  consola.error(promptResult.error.message || 'Template selection cancelled');
-  process.exit(1);
+  const catalog = await loadTemplateCatalog(registryResult.data, undefined, registryOptions);
+  const nameResult = nonInteractive ? Ok(NON_INTERACTIVE_DEFAULTS.template) : await promptForTemplate(catalog);
+
+  return isOk(nameResult)
+    ? pinTemplateSelection({ name: nameResult.data, registry: registryResult.data }, catalog, registryOptions.ref)
+    : nameResult;
 };
 
 /**
- * Downloads a template from the registry to a specified directory.
- * Uses the giget library to fetch templates and returns a Result for functional error handling.
+ * Creates the source of a selected template as it is recorded in the project (see ScaffoldMetadata).
+ * Git-hosted sources keep their provider prefix, which giget removes from the source it returns, and
+ * are pinned to the downloaded commit (or else the selected ref) so that they can be downloaded again.
+ * Local templates are recorded with their path and registry templates without a source with their name.
  *
- * @param templateName - The name of the template to download
- * @param downloadPath - The local path where the template should be downloaded
- * @returns A Promise that resolves to a Result containing download info or an error
+ * @param selection - The selected template
+ * @param commit - The commit the template was downloaded at (optional)
+ * @returns The source to record
  *
  * @example
  * ```typescript
- * const result = await downloadTemplateWithResult("nuxt4", "./my-project");
- * if (isOk(result)) {
- *   console.log(`Downloaded to: ${result.data.dir}`);
- * } else {
- *   console.error('Download failed:', result.error.message);
- * }
+ * const source = createRecordedTemplateSource({ name: "gh:org/repo#v2", source: "gh:org/repo", ref: "v2" }, "3f2c9a...");
+ * // Returns: "gh:org/repo#3f2c9a..."
  * ```
  */
-export const downloadTemplateWithResult = async (
-  templateName: string,
-  downloadPath: string,
-): Promise<Result<DownloadTemplateResult, Error>> => {
-  try {
-    const result = await downloadTemplate(templateName, {
-      dir: downloadPath,
-      registry: DEFAULT_REGISTRY,
-    });
-    return Ok(result);
-  } catch (error) {
-    return Err(error instanceof Error ? error : new Error('Template download failed'));
+export const createRecordedTemplateSource = (selection: TemplateSelection, commit?: string): string => {
+  const source = selection.source ?? selection.name;
+  if (!getTemplateSourceProvider(source)) {
+    return source;
+  }
+  const split = splitTemplateRef(source);
+  const { name, ref } = isOk(split) ? split.data : { name: source, ref: undefined };
+  return withTemplateRef(name, commit ?? selection.ref ?? ref);
+};
+
+/**
+ * Creates the error message shown when a template is missing from the offline cache.
+ *
+ * @param templateName - The name of the template that was requested
+ * @returns A formatted error message explaining how to populate the cache
+ */
+export const createOfflineCacheMissMessage = (templateName: string): string =>
+  `Template "${templateName}" is not available in the offline cache. Run the command once without --offline to cache it.`;
+
+/**
+ * Files and directories of a local template that are not copied into the project.
+ */
+const LOCAL_TEMPLATE_IGNORED_FILES: readonly string[] = ['.git', 'node_modules'];
+
+/**
+ * Copies a local template directory into the target directory, skipping `.git` and `node_modules`.
+ *
+ * @param templatePath - The absolute path of the template directory
+ * @param targetDir - The directory the template should be copied to
+ * @returns A Promise that resolves to a Result containing a giget-compatible download result or a DownloadFailedError
+ */
+const copyLocalTemplate = async (
+  templatePath: string,
+  targetDir: string,
+): Promise<Result<DownloadTemplateResult, DownloadFailedError>> =>
+  fromPromise(
+    cp(templatePath, targetDir, {
+      recursive: true,
+      filter: (path) => !LOCAL_TEMPLATE_IGNORED_FILES.includes(basename(path)),
+    }),
+    (error) => createDownloadFailedError(templatePath, error),
+  ).map(() => ({ name: basename(templatePath), tar: '', source: templatePath, dir: targetDir }));
+
+/**
+ * Options of a template download: how the offline cache may be used and the ref to download.
+ */
+export interface TemplateDownloadOptions extends OfflineOptions {
+  /** Tag, branch or commit of a git-hosted template (defaults to the ref in the source, then the default branch) */
+  readonly ref?: string;
+}
+
+/**
+ * Resolves the commit a git-hosted template is downloaded at, warning when it cannot be resolved.
+ *
+ * @param source - The giget source without a ref
+ * @param ref - The ref to resolve (optional)
+ * @returns A Promise that resolves to the commit SHA, or undefined if it could not be resolved
+ */
+const resolveDownloadCommit = async (source: string, ref?: string): Promise<string | undefined> => {
+  const commit = await resolveTemplateCommit(source, ref);
+  if (isOk(commit)) {
+    return commit.data;
   }
+  consola.warn(`Could not resolve the commit of ${withTemplateRef(source, ref)}: ${commit.error.message}`);
+  return undefined;
 };
 
 /**
- * Downloads a template and handles errors by exiting the process.
- * This is a backward-compatible wrapper around downloadTemplateWithResult.
- * If download fails, it logs the error and exits the application.
+ * Downloads a template to a specified directory.
+ * Uses the giget library to fetch templates and returns a Result for functional error handling.
+ * Bare names are downloaded from the registry; git-hosted sources (e.g. `gh:org/repo#ref`) are
+ * downloaded from their host, and absolute local paths are copied.
+ * Git-hosted templates are resolved to a commit first and downloaded at that commit, which is
+ * returned so that the project can record it; only they can be pinned to a ref.
+ * Downloaded templates are stored in the offline cache (git-hosted ones under their provider and ref);
+ * with `offline` or `preferOffline` a cached copy is used instead of the network.
  *
- * @param templateName - The name of the template to download
+ * @param templateName - The name of the template in the registry, or a source (see TemplateSelection)
  * @param downloadPath - The local path where the template should be downloaded
- * @returns A Promise that resolves to download result (never returns on error)
+ * @param registry - The registry bare names are downloaded from (defaults to the default registry)
+ * @param downloadOptions - Whether the offline cache should be used and the ref to download (optional)
+ * @param cacheDir - The CLI cache directory (optional)
+ * @returns A Promise that resolves to a Result containing download info or a DownloadFailedError
  *
  * @example
  * ```typescript
- * const result = await downloadTemplateAndHandleErrors("nuxt4", "./my-project");
- * console.log(`Template downloaded to: ${result.dir}`);
- * // If download fails, this line won't execute (process exits)
+ * const result = await downloadTemplateWithResult("nuxt4", "./my-project");
+ * if (isOk(result)) {
+ *   console.log(`Downloaded to: ${result.data.dir}`);
+ * } else {
+ *   console.error('Download failed:', result.error.message);
+ * }
+ *
+ * // From a git host at a tag, ignoring the registry
+ * const pinned = await downloadTemplateWithResult("gitlab:org/repo", "./my-project", undefined, { ref: "v2.1.0" });
+ * // pinned.data.commit === "3f2c9a..."
+ *
+ * // Without network access
+ * const offline = await downloadTemplateWithResult("nuxt4", "./my-project", DEFAULT_RESOLVED_REGISTRY, { offline: true });
  * ```
  */
-export const downloadTemplateAndHandleErrors = async (
+export const downloadTemplateWithResult = async (
   templateName: string,
   downloadPath: string,
-): Promise<DownloadTemplateResult> => {
-  const result = await downloadTemplateWithResult(templateName, downloadPath);
+  registry: ResolvedRegistry = DEFAULT_RESOLVED_REGISTRY,
+  downloadOptions: TemplateDownloadOptions = {},
+  cacheDir?: string,
+): Promise<Result<DownloadedTemplate, DownloadFailedError>> => {
+  const provider = getTemplateSourceProvider(templateName);
+  const split = provider ? splitTemplateRef(templateName) : undefined;
+  const template = split && isOk(split) ? split.data.name : templateName;
+  const ref = downloadOptions.ref || (split && isOk(split) ? split.data.ref : undefined);
+  if (ref && !provider) {
+    const reason = isLocalTemplateSource(templateName)
+      ? 'Local templates cannot be pinned to a ref'
+      : 'Only git-hosted templates can be pinned to a ref';
+    return Err(createDownloadFailedError(templateName, new Error(reason)));
+  }
+  if (isLocalTemplateSource(templateName)) {
+    return copyLocalTemplate(templateName, downloadPath);
+  }
 
-  if (isOk(result)) {
-    return result.data;
+  const cacheRegistry = provider ?? registry.url;
+  if (downloadOptions.offline || downloadOptions.preferOffline) {
+    const entry = await readTemplateCacheEntry(cacheRegistry, template, ref, cacheDir);
+    if (entry) {
+      const restored = await restoreTemplateFromCache(entry, downloadPath);
+      return isOk(restored)
+        ? Ok({ ...restored.data, ...(entry.commit && { commit: entry.commit }) })
+        : Err(createDownloadFailedError(templateName, restored.error));
+    }
+    if (downloadOptions.offline) {
+      return Err(createDownloadFailedError(templateName, new Error(createOfflineCacheMissMessage(templateName))));
+    }
   }
 
-  return handleError(result.error);
+  return tryCatchAsync(
+    async () => {
+      const commit = provider ? await resolveDownloadCommit(template, ref) : undefined;
+      // The target may already exist when it is empty or has been cleared
+      const result = await downloadTemplate(provider ? withTemplateRef(template, commit ?? ref) : template, {
+        dir: downloadPath,
+        force: true,
+        ...(provider ? { registry: false } : { registry: registry.url, auth: registry.auth }),
+      });
+      const { name, tar, version, subdir, url, defaultDir, source } = result;
+      await storeTemplateInCache(
+        result.dir,
+        {
+          registry: cacheRegistry,
+          template,
+          ...(ref && { ref }),
+          ...(commit && { commit }),
+          cachedAt: Date.now(),
+          result: { name, tar, version, subdir, url, defaultDir, source },
+        },
+        cacheDir,
+      );
+      return { ...result, ...(commit && { commit }) };
+    },
+    (error) => createDownloadFailedError(templateName, error),
+  );
 };
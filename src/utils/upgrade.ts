@@ -0,0 +1,310 @@
+import { existsSync } from 'node:fs';
+import { copyFile, mkdir, rm } from 'node:fs/promises';
+import type { PackageManagerName } from 'nypm';
+import { basename, dirname, join } from 'pathe';
+import { readPackageJSON, writePackageJSON } from 'pkg-types';
+import { version } from '../../package.json';
+import type { ScaffoldMetadata, UpgradeFileAction, UpgradeReport } from '../types/cli';
+import type { Result } from '../types/result';
+import { Err, isOk, Ok, toError, tryCatchAsync } from '../types/result';
+import { SCAFFOLD_METADATA_PATH } from './constants';
+import { createStagingDirectory, listFiles, readFileIfExists } from './directory';
+import { updateProjectPackageJson } from './package-json';
+import { detectProjectPackageManager } from './package-manager';
+import { alignProjectWithPackageManager } from './package-manager-files';
+import { getTemplateSourceProvider } from './registry';
+import { readScaffoldMetadata, writeScaffoldMetadata } from './scaffold';
+import { downloadTemplateWithResult } from './template';
+import { applyTemplateManifest, readTemplateManifest } from './template-manifest';
+import { resolveTemplateCommit, splitTemplateRef, withTemplateRef } from './template-ref';
+
+/**
+ * Options of a project upgrade.
+ */
+export interface UpgradeOptions {
+  /** Tag, branch or commit to upgrade to (defaults to the default branch of the template) */
+  readonly ref?: string;
+  /** Whether the changes are only listed, without writing anything */
+  readonly dryRun?: boolean;
+  /** The CLI cache directory (optional) */
+  readonly cacheDir?: string;
+}
+
+/**
+ * Checks whether two versions of a file are identical; a missing file only equals a missing file.
+ *
+ * @param a - The contents of the first version, or undefined if it does not exist
+ * @param b - The contents of the second version, or undefined if it does not exist
+ * @returns True if both are missing or have the same contents
+ */
+const isSameFile = (a: Buffer | undefined, b: Buffer | undefined): boolean =>
+  a === undefined ? b === undefined : b !== undefined && a.equals(b);
+
+/**
+ * Computes the three-way diff of an upgrade, file by file.
+ * Files the template did not change are skipped, as are files the project already has in their new version.
+ * The other changes are applied when the project still has the original version of the file,
+ * and reported as conflicts when the project changed it too.
+ *
+ * @param baseDir - The template as the project was created from (rendered like the project)
+ * @param nextDir - The newer template version (rendered like the project)
+ * @param projectDir - The project directory
+ * @returns A Promise that resolves to a Result containing the changes to apply and the conflicts, or an error
+ *
+ * @example
+ * ```typescript
+ * const result = await planUpgradeChanges("/tmp/base", "/tmp/next", "/Users/john/my-app");
+ * // Returns: Ok({ changes: [{ path: "nuxt.config.ts", action: "update" }], conflicts: ["app.vue"] })
+ * ```
+ */
+export const planUpgradeChanges = async (
+  baseDir: string,
+  nextDir: string,
+  projectDir: string,
+): Promise<Result<Pick<UpgradeReport, 'changes' | 'conflicts'>, Error>> =>
+  tryCatchAsync(async () => {
+    const files = new Set([...(await listFiles(baseDir)), ...(await listFiles(nextDir))]);
+    files.delete(SCAFFOLD_METADATA_PATH);
+    const report: Pick<UpgradeReport, 'changes' | 'conflicts'> = { changes: [], conflicts: [] };
+
+    for (const file of [...files].sort()) {
+      const [base, next, current] = await Promise.all(
+        [baseDir, nextDir, projectDir].map((dir) => readFileIfExists(join(dir, file))),
+      );
+      if (isSameFile(base, next) || isSameFile(current, next)) {
+        continue;
+      }
+      if (!isSameFile(current, base)) {
+        report.conflicts.push(file);
+        continue;
+      }
+      const action: UpgradeFileAction = next === undefined ? 'delete' : base === undefined ? 'create' : 'update';
+      report.changes.push({ path: file, action });
+    }
+    return report;
+  }, toError('Failed to compare the template versions'));
+
+/**
+ * Applies the changes of an upgrade to the project: copies created and updated files from the
+ * newer template version and deletes removed files.
+ *
+ * @param nextDir - The newer template version (rendered like the project)
+ * @param projectDir - The project directory
+ * @param changes - The changes to apply (see planUpgradeChanges)
+ * @returns A Promise that resolves to a Result indicating success or failure
+ *
+ * @example
+ * ```typescript
+ * await applyUpgradeChanges("/tmp/next", "/Users/john/my-app", [{ path: "nuxt.config.ts", action: "update" }]);
+ * ```
+ */
+export const applyUpgradeChanges = async (
+  nextDir: string,
+  projectDir: string,
+  changes: UpgradeReport['changes'],
+): Promise<Result<void, Error>> =>
+  tryCatchAsync(async () => {
+    for (const { path, action } of changes) {
+      const target = join(projectDir, path);
+      if (action === 'delete') {
+        await rm(target, { force: true });
+        continue;
+      }
+      await mkdir(dirname(target), { recursive: true });
+      await copyFile(join(nextDir, path), target);
+    }
+  }, toError('Failed to apply the upgrade'));
+
+/**
+ * The details of the project package.json that the template versions are rendered with.
+ */
+interface ProjectPackageDetails {
+  /** The package name, or the name of the project directory */
+  readonly name: string;
+  /** The package manager the project uses: the recorded one, or the one of its lock files */
+  readonly packageManager: PackageManagerName;
+  /** The `packageManager` field of package.json (e.g. "pnpm@9.15.0"), if any */
+  readonly packageManagerField?: string;
+}
+
+/**
+ * Reads the package name and the package manager of the project.
+ *
+ * @param projectDir - The project directory
+ * @param metadata - The scaffold metadata of the project
+ * @returns A Promise that resolves to the package details
+ */
+const readProjectPackageDetails = async (
+  projectDir: string,
+  metadata: ScaffoldMetadata,
+): Promise<ProjectPackageDetails> => {
+  const pkg = await readPackageJSON(join(projectDir, 'package.json')).catch(() => undefined);
+  return {
+    name: pkg?.name ?? basename(projectDir),
+    packageManager: metadata.packageManager ?? (await detectProjectPackageManager(projectDir)),
+    ...(pkg?.packageManager && { packageManagerField: pkg.packageManager }),
+  };
+};
+
+/**
+ * Renders a downloaded template version the way the project was rendered: with the recorded
+ * features and variables, without prompts, with the package name of the project and aligned
+ * with its package manager. The `packageManager` field keeps the version of the project, so that
+ * a newer local package manager does not show up as a change.
+ *
+ * @param dir - The directory the template version was downloaded to
+ * @param metadata - The scaffold metadata of the project
+ * @param project - The package name and the package manager of the project
+ * @returns A Promise that resolves to a Result indicating success or failure
+ */
+const renderTemplateSnapshot = async (
+  dir: string,
+  metadata: ScaffoldMetadata,
+  project: ProjectPackageDetails,
+): Promise<Result<void, Error>> => {
+  const manifest = await readTemplateManifest(dir);
+  if (!isOk(manifest)) {
+    return manifest;
+  }
+
+  // Only declared variables are passed as arguments, the others (e.g. built-in ones) are kept as they were
+  const declared = Object.keys(manifest.data?.variables ?? {});
+  const applied = await applyTemplateManifest(dir, {
+    variables: Object.entries(metadata.variables)
+      .filter(([name]) => declared.includes(name))
+      .map(([name, value]) => `${name}=${value}`),
+    features: metadata.features.join(','),
+    builtInVariables: metadata.variables,
+    nonInteractive: true,
+  });
+  if (!isOk(applied)) {
+    return applied;
+  }
+  const updated = await updateProjectPackageJson(dir, project.name);
+  if (!isOk(updated)) {
+    return updated;
+  }
+  const aligned = await alignProjectWithPackageManager(dir, project.packageManager);
+  if (!isOk(aligned)) {
+    return aligned;
+  }
+
+  const packageJsonPath = join(dir, 'package.json');
+  if (!project.packageManagerField?.startsWith(`${project.packageManager}@`) || !existsSync(packageJsonPath)) {
+    return Ok(undefined);
+  }
+  return tryCatchAsync(async () => {
+    const pkg = await readPackageJSON(packageJsonPath);
+    await writePackageJSON(packageJsonPath, { ...pkg, packageManager: project.packageManagerField });
+  }, toError('Failed to update package.json'));
+};
+
+/**
+ * Upgrades a project to a newer version of its template.
+ * The template is downloaded twice into a temporary directory, at the commit recorded in
+ * `.xeikit/scaffold.json` and at the newer ref, and both are rendered with the recorded features
+ * and variables. The changes between them are applied where the project still has the original
+ * files (see planUpgradeChanges); files changed on both sides are reported as conflicts.
+ * The metadata is moved to the newer commit once no conflicts remain, so that the upgrade can
+ * be run again after resolving them.
+ *
+ * @param projectDir - The project directory
+ * @param options - The ref to upgrade to, whether to only list the changes and the cache directory
+ * @returns A Promise that resolves to a Result containing the upgrade report, or an error
+ *   (e.g. a DownloadFailedError, or a project without scaffold metadata)
+ *
+ * @example
+ * ```typescript
+ * const result = await upgradeProject("/Users/john/my-app", { ref: "v2.2.0" });
+ * if (isOk(result)) {
+ *   console.log(`${result.data.changes.length} change(s), ${result.data.conflicts.length} conflict(s)`);
+ * }
+ * ```
+ */
+export const upgradeProject = async (
+  projectDir: string,
+  options: UpgradeOptions = {},
+): Promise<Result<UpgradeReport, Error>> => {
+  const metadata = await readScaffoldMetadata(projectDir);
+  if (!isOk(metadata)) {
+    return metadata;
+  }
+
+  const { template } = metadata.data;
+  const split = getTemplateSourceProvider(template.source) ? splitTemplateRef(template.source) : undefined;
+  const from = template.commit ?? template.ref ?? (split && isOk(split) ? split.data.ref : undefined);
+  if (!split || !isOk(split) || !from) {
+    return Err(
+      new Error(
+        `The template ${template.name} cannot be upgraded: only git-hosted templates downloaded at a known commit can be`,
+      ),
+    );
+  }
+
+  const source = split.data.name;
+  const target = await resolveTemplateCommit(source, options.ref);
+  if (!isOk(target)) {
+    return target;
+  }
+  const to = target.data;
+  const dryRun = options.dryRun === true;
+  if (to === from) {
+    return Ok({ from, to, changes: [], conflicts: [], dryRun });
+  }
+
+  const stagingDir = await createStagingDirectory();
+  try {
+    const project = await readProjectPackageDetails(projectDir, metadata.data);
+    for (const [name, ref] of [
+      ['base', from],
+      ['next', to],
+    ] as const) {
+      const dir = join(stagingDir, name);
+      // Commits never change, so cached downloads can be used
+      const downloaded = await downloadTemplateWithResult(
+        source,
+        dir,
+        undefined,
+        { ref, preferOffline: true },
+        options.cacheDir,
+      );
+      if (!isOk(downloaded)) {
+        return downloaded;
+      }
+      const rendered = await renderTemplateSnapshot(dir, metadata.data, project);
+      if (!isOk(rendered)) {
+        return rendered;
+      }
+    }
+
+    const planned = await planUpgradeChanges(join(stagingDir, 'base'), join(stagingDir, 'next'), projectDir);
+    if (!isOk(planned) || dryRun) {
+      return isOk(planned) ? Ok({ from, to, ...planned.data, dryRun }) : planned;
+    }
+    const applied = await applyUpgradeChanges(join(stagingDir, 'next'), projectDir, planned.data.changes);
+    if (!isOk(applied)) {
+      return applied;
+    }
+    if (planned.data.conflicts.length === 0) {
+      const { ref: _, ...pinned } = template;
+      const written = await writeScaffoldMetadata(projectDir, {
+        ...metadata.data,
+        cliVersion: version,
+        packageManager: project.packageManager,
+        template: {
+          ...pinned,
+          source: withTemplateRef(source, to),
+          ...(options.ref && { ref: options.ref }),
+          commit: to,
+        },
+        upgradedAt: new Date().toISOString(),
+      });
+      if (!isOk(written)) {
+        return written;
+      }
+    }
+    return Ok({ from, to, ...planned.data, dryRun });
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+  }
+};